@@ -4,11 +4,15 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import LoadingOverlay from "./components/LoadingOverlay";
 import Account from "./pages/Account";
 import AgentPage from "./pages/AgentPage";
+import Admin from "./pages/Admin";
+import Trash from "./pages/Trash";
 import { AuthProvider } from "./auth/AuthProvider";
 import Protected from "./auth/Protected";
 
 // Lazy-load pages (adjust paths to your project)
 const AuthScreens = lazy(() => import("./pages/Auth"));
+const VerifyEmail = lazy(() => import("./pages/VerifyEmail"));
+const OidcCallback = lazy(() => import("./pages/OidcCallback"));
 
 // Minimal placeholders (black background)
 const Home = () => (
@@ -38,11 +42,23 @@ export default function App() {
                 </Protected>
               } />
               <Route path="/auth" element={<AuthScreens defaultMode="login" />} />
+              <Route path="/auth/callback" element={<OidcCallback />} />
+              <Route path="/verify-email" element={<VerifyEmail />} />
               <Route path="/account" element={
-                <Protected>
+                <Protected allowUnverified>
                   <Account />
                 </Protected>
               } />
+              <Route path="/admin" element={
+                <Protected roles={["ADMIN", "SUPER_ADMIN"]}>
+                  <Admin />
+                </Protected>
+              } />
+              <Route path="/trash" element={
+                <Protected>
+                  <Trash />
+                </Protected>
+              } />
               <Route path="/create" element={
                 <Protected>
                   <AgentPage />
@@ -2,12 +2,16 @@ import React from "react";
 import type { ReactNode } from "react";
 import {
   login as apiLogin,
+  loginTwoFactor as apiLoginTwoFactor,
+  isTwoFactorChallenge,
   register as apiRegister,
   logout as apiLogout,
   me as apiMe,
+  refresh as apiRefresh,
   type AuthResponse,
   type LoginPayload,
   type RegisterPayload,
+  type TwoFactorChallenge,
   type User,
 } from "../services/auth";
 import {
@@ -30,9 +34,14 @@ type AuthContextShape = {
   user: User | null;
   accessToken: string | null;
 
-  login: (payload: LoginPayload) => Promise<User>;
+  /** Resolves the user, or a challenge when the account has 2FA (see completeTwoFactor) */
+  login: (payload: LoginPayload) => Promise<User | TwoFactorChallenge>;
+  /** Second login step with a TOTP or recovery code */
+  completeTwoFactor: (challengeToken: string, code: string) => Promise<User>;
   register: (payload: RegisterPayload) => Promise<User>;
   logout: () => Promise<void>;
+  /** Pick up a session opened outside the app (single sign-on callback) via the refresh cookie */
+  resumeSession: () => Promise<User | null>;
 
   /** Refetch user from /auth/me (e.g., after profile edits) */
   refreshUser: () => Promise<User | null>;
@@ -55,33 +64,31 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   // Keep api.ts aware of the current token (reads latest value via getter)
   React.useEffect(() => {
     setAccessTokenGetter(() => accessToken);
-    // Optional: expose a handler if some external flow needs to inject a token.
+    // api.ts calls this after a refresh (new token) or when the session is gone (null)
     setAccessTokenHandler((tok) => {
       setToken(tok);
+      if (!tok) setUser(null);
     });
   }, [accessToken]);
 
-  // Boot: load token from localStorage, then fetch /auth/me
+  // Boot: use the stored token (api.ts refreshes it if expired), or try the
+  // refresh cookie when there's none, then fetch /auth/me
   React.useEffect(() => {
     const stored = localStorage.getItem(ACCESS_TOKEN_KEY);
-    if (stored && typeof stored === "string") {
-      _setAccessToken(stored);
-      // We'll immediately validate and pull the user
-      void (async () => {
-        try {
-          const { user } = await apiMe();
-          setUser(user ?? null);
-        } catch {
-          // Token invalid/expired
-          clearToken();
-          setUser(null);
-        } finally {
-          setIsLoading(false);
-        }
-      })();
-    } else {
-      setIsLoading(false);
-    }
+    if (stored && typeof stored === "string") _setAccessToken(stored);
+    void (async () => {
+      try {
+        if (!stored && !(await apiRefresh())) return;
+        const { user } = await apiMe();
+        setUser(user ?? null);
+      } catch {
+        // No live session
+        clearToken();
+        setUser(null);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -109,9 +116,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return res.user;
   }
 
-  async function login(payload: LoginPayload): Promise<User> {
+  async function login(payload: LoginPayload): Promise<User | TwoFactorChallenge> {
     try {
       const res = await apiLogin(payload);
+      if (isTwoFactorChallenge(res)) return res;
       return await handleAuthResponse(res);
     } catch (e: any) {
       // Defensive: clear any bad token and user on failure
@@ -121,6 +129,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }
 
+  async function completeTwoFactor(challengeToken: string, code: string): Promise<User> {
+    const res = await apiLoginTwoFactor(challengeToken, code);
+    return handleAuthResponse(res);
+  }
+
   async function register(payload: RegisterPayload): Promise<User> {
     try {
       const res = await apiRegister(payload);
@@ -136,13 +149,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       await apiLogout();
     } catch {
-      // ignore network/server errors on logout (stateless)
+      // ignore network/server errors on logout; the local session ends anyway
     } finally {
       clearToken();
       setUser(null);
     }
   }
 
+  async function resumeSession(): Promise<User | null> {
+    // apiRefresh hands the new token to the handler above
+    if (!(await apiRefresh())) return null;
+    return refreshUser();
+  }
+
   async function refreshUser(): Promise<User | null> {
     try {
       const { user } = await apiMe();
@@ -162,8 +181,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     accessToken,
 
     login,
+    completeTwoFactor,
     register,
     logout,
+    resumeSession,
 
     refreshUser,
     setUser,
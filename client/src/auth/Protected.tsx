@@ -9,12 +9,15 @@ type Props = {
   roles?: Array<"SUPER_ADMIN" | "ADMIN" | "USER">;
   /** Optional: route to send unauthorized users */
   redirectTo?: string;
+  /** Let users whose email isn't verified yet through (default: send them to /verify-email) */
+  allowUnverified?: boolean;
 };
 
 export default function Protected({
   children,
   roles,
   redirectTo = "/auth",
+  allowUnverified = false,
 }: Props) {
   const { isLoading, user } = useAuth();
   const location = useLocation();
@@ -33,11 +36,16 @@ export default function Protected({
     return <Navigate to={redirectTo} state={{ from: location }} replace />;
   }
 
-  // Role-gated access (optional)
+  // Unverified email → "check your inbox" screen
+  if (!allowUnverified && !user.emailVerifiedAt) {
+    return <Navigate to="/verify-email" state={{ from: location }} replace />;
+  }
+
+  // Role-gated access (optional) → back to the app's home
   if (roles && roles.length > 0) {
-    const ok = roles.includes((user.userRole as any) || "USER");
+    const ok = roles.includes(user.userRole || "USER");
     if (!ok) {
-      return <Navigate to="/unauthorized" replace />;
+      return <Navigate to="/" replace />;
     }
   }
 
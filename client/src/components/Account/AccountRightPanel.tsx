@@ -1,9 +1,10 @@
 // src/components/AccountRightPanel.tsx
 import React, { useMemo, useState } from "react";
-import { Power, UserRound, Crown, Settings, SlidersHorizontal } from "lucide-react";
+import { Power, UserRound, Crown, Settings, SlidersHorizontal, ShieldCheck } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "../../auth/AuthProvider";
 import AccountInfoForm from "./AccountInfoForm";
+import SecurityPanel from "./SecurityPanel";
 
 const ACCENT = "#E7E31B"; // brand yellow
 
@@ -19,6 +20,7 @@ export type AccountData = {
 
 const TABS = [
   { key: "account", Icon: UserRound, label: "Account" },
+  { key: "security", Icon: ShieldCheck, label: "Security" },
   { key: "roles", Icon: Crown, label: "Roles" },
   { key: "settings", Icon: Settings, label: "Settings" },
   { key: "advanced", Icon: SlidersHorizontal, label: "Advanced" },
@@ -66,6 +68,7 @@ export default function AccountRightPanel({
           saving={saving}
         />
       ),
+      security: <SecurityPanel />,
       roles: <BlankPanel />,
       settings: <BlankPanel />,
       advanced: <BlankPanel />,
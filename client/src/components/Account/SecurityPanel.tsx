@@ -0,0 +1,184 @@
+// src/components/Account/SecurityPanel.tsx
+import React from "react";
+import { Monitor, Smartphone, LogOut } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "react-hot-toast";
+import { useAuth } from "../../auth/AuthProvider";
+import {
+  listSessions,
+  revokeSession,
+  revokeOtherSessions,
+  type AccountSession,
+} from "../../services/account";
+import TwoFactorSettings from "./TwoFactorSettings";
+
+const ACCENT = "#E7E31B";
+
+/** "Chrome on macOS" from a raw User-Agent (best effort) */
+function describeAgent(ua: string | null): { label: string; mobile: boolean } {
+  if (!ua) return { label: "Unknown device", mobile: false };
+  const browser =
+    /Edg\//.test(ua) ? "Edge"
+      : /OPR\/|Opera/.test(ua) ? "Opera"
+        : /Firefox\//.test(ua) ? "Firefox"
+          : /Chrome\//.test(ua) ? "Chrome"
+            : /Safari\//.test(ua) ? "Safari"
+              : null;
+  const os =
+    /iPhone|iPad/.test(ua) ? "iOS"
+      : /Android/.test(ua) ? "Android"
+        : /Windows/.test(ua) ? "Windows"
+          : /Mac OS X|Macintosh/.test(ua) ? "macOS"
+            : /Linux/.test(ua) ? "Linux"
+              : null;
+  const label = [browser, os].filter(Boolean).join(" on ") || ua.slice(0, 40);
+  return { label, mobile: /Mobile|iPhone|Android/.test(ua) };
+}
+
+function formatSeen(iso: string) {
+  const d = new Date(iso);
+  const mins = Math.round((Date.now() - d.getTime()) / 60000);
+  if (mins < 2) return "Active now";
+  if (mins < 60) return `Active ${mins} min ago`;
+  return `Last active ${d.toLocaleString()}`;
+}
+
+function SessionRow({
+  session,
+  busy,
+  onRevoke,
+}: {
+  session: AccountSession;
+  busy: boolean;
+  onRevoke: () => void;
+}) {
+  const { label, mobile } = describeAgent(session.userAgent);
+  const Icon = mobile ? Smartphone : Monitor;
+  return (
+    <li className="flex items-center gap-3 rounded-2xl bg-[#0b0b0b] border border-[#222] px-4 py-3">
+      <Icon className="w-5 h-5 text-gray-400 shrink-0" />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold truncate">{label}</span>
+          {session.current && (
+            <span
+              className="text-[10px] font-bold uppercase rounded-full px-2 py-0.5 text-black"
+              style={{ backgroundColor: ACCENT }}
+            >
+              This device
+            </span>
+          )}
+        </div>
+        <div className="text-xs text-gray-400 truncate">
+          {[session.ip, formatSeen(session.lastSeenAt)].filter(Boolean).join(" · ")}
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={onRevoke}
+        disabled={busy}
+        className={`rounded-full px-3 h-8 text-xs font-bold border border-[#333] hover:border-[#ff0022] hover:text-[#ff0022] transition ${busy ? "opacity-60 cursor-wait" : ""}`}
+      >
+        {session.current ? "Sign out" : "Revoke"}
+      </button>
+    </li>
+  );
+}
+
+/**
+ * Security tab: two-factor authentication, then the user's signed-in devices
+ * with per-device revocation and "sign out everywhere else".
+ */
+export default function SecurityPanel() {
+  const [sessions, setSessions] = React.useState<AccountSession[] | null>(null);
+  const [busy, setBusy] = React.useState<number | "others" | null>(null);
+  const { logout } = useAuth();
+  const navigate = useNavigate();
+
+  const load = React.useCallback(async () => {
+    try {
+      const res = await listSessions();
+      setSessions(res.sessions);
+    } catch {
+      setSessions([]);
+      toast.error("Could not load your sessions.");
+    }
+  }, []);
+
+  React.useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function handleRevoke(session: AccountSession) {
+    setBusy(session.id);
+    try {
+      const res = await revokeSession(session.id);
+      if (res.current) {
+        await logout();
+        navigate("/auth", { replace: true });
+        return;
+      }
+      setSessions((prev) => prev?.filter((s) => s.id !== session.id) ?? prev);
+    } catch {
+      toast.error("Could not sign that device out.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleRevokeOthers() {
+    setBusy("others");
+    try {
+      await revokeOtherSessions();
+      setSessions((prev) => prev?.filter((s) => s.current) ?? prev);
+      toast.success("Signed out of every other device.");
+    } catch {
+      toast.error("Could not sign the other devices out.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const others = sessions?.filter((s) => !s.current).length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <TwoFactorSettings />
+
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold text-gray-300">Active sessions</div>
+        <button
+          type="button"
+          onClick={handleRevokeOthers}
+          disabled={!others || busy !== null}
+          className={`flex items-center gap-2 rounded-full font-extrabold text-black px-4 h-9 text-xs ${!others || busy !== null ? "opacity-60" : ""}`}
+          style={{ backgroundColor: ACCENT }}
+        >
+          <LogOut className="w-4 h-4" />
+          SIGN OUT EVERYWHERE ELSE
+        </button>
+      </div>
+
+      {sessions === null ? (
+        <ul className="space-y-2">
+          {Array.from({ length: 2 }, (_, i) => (
+            <li key={i} className="h-[62px] rounded-2xl bg-[#0b0b0b] border border-[#222] animate-pulse" />
+          ))}
+        </ul>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-gray-400">No active sessions.</p>
+      ) : (
+        <ul className="space-y-2">
+          {sessions.map((s) => (
+            <SessionRow
+              key={s.id}
+              session={s}
+              busy={busy === s.id}
+              onRevoke={() => void handleRevoke(s)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
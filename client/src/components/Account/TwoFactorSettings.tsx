@@ -0,0 +1,238 @@
+// src/components/Account/TwoFactorSettings.tsx
+import React from "react";
+import { ShieldCheck, ShieldOff, Copy } from "lucide-react";
+import { toast } from "react-hot-toast";
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+  type TwoFactorStatus,
+} from "../../services/account";
+import type { ApiError } from "../../lib/api";
+
+const ACCENT = "#E7E31B";
+
+type Step =
+  | { kind: "idle" }
+  | { kind: "setup"; secret: string; otpauthUri: string }
+  | { kind: "codes"; recoveryCodes: string[] }
+  | { kind: "disable" };
+
+const inputClass =
+  "w-full rounded-full bg-black text-white placeholder-gray-500 border border-[#222] px-4 h-10 text-sm focus:outline-none";
+
+function PillButton({
+  children,
+  onClick,
+  disabled,
+  type = "button",
+  variant = "accent",
+}: React.PropsWithChildren<{
+  onClick?: () => void;
+  disabled?: boolean;
+  type?: "button" | "submit";
+  variant?: "accent" | "outline";
+}>) {
+  return (
+    <button
+      type={type}
+      onClick={onClick}
+      disabled={disabled}
+      className={`rounded-full px-4 h-10 text-xs font-extrabold shrink-0 ${variant === "accent" ? "text-black" : "border border-[#333] text-white"} ${disabled ? "opacity-60" : ""}`}
+      style={variant === "accent" ? { backgroundColor: ACCENT } : undefined}
+    >
+      {children}
+    </button>
+  );
+}
+
+/** Group a base32 secret in blocks of 4 for manual entry */
+function formatSecret(secret: string) {
+  return secret.replace(/(.{4})/g, "$1 ").trim();
+}
+
+/**
+ * TOTP 2FA in the Security tab: enroll (secret / otpauth link → first code →
+ * recovery codes) and disable with the password.
+ */
+export default function TwoFactorSettings() {
+  const [status, setStatus] = React.useState<TwoFactorStatus | null>(null);
+  const [step, setStep] = React.useState<Step>({ kind: "idle" });
+  const [input, setInput] = React.useState("");
+  const [error, setError] = React.useState("");
+  const [busy, setBusy] = React.useState(false);
+
+  const load = React.useCallback(async () => {
+    try {
+      setStatus(await getTwoFactorStatus());
+    } catch {
+      toast.error("Could not load your 2FA settings.");
+    }
+  }, []);
+
+  React.useEffect(() => {
+    void load();
+  }, [load]);
+
+  function go(next: Step) {
+    setStep(next);
+    setInput("");
+    setError("");
+  }
+
+  async function run(fn: () => Promise<void>) {
+    setBusy(true);
+    setError("");
+    try {
+      await fn();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const handleSetup = () =>
+    run(async () => {
+      try {
+        const res = await setupTwoFactor();
+        go({ kind: "setup", ...res });
+      } catch {
+        toast.error("Could not start 2FA setup.");
+      }
+    });
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      try {
+        const res = await confirmTwoFactor(input.trim());
+        go({ kind: "codes", recoveryCodes: res.recoveryCodes });
+        await load();
+      } catch (err) {
+        setError((err as ApiError).message === "invalid_code" ? "That code didn't match. Try the current one." : "Could not enable 2FA.");
+      }
+    });
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      try {
+        await disableTwoFactor(input);
+        go({ kind: "idle" });
+        await load();
+        toast.success("Two-factor authentication is off.");
+      } catch (err) {
+        setError((err as ApiError).message === "invalid_current_password" ? "Wrong password." : "Could not disable 2FA.");
+      }
+    });
+  };
+
+  const copyCodes = async (codes: string[]) => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast.success("Recovery codes copied.");
+    } catch {
+      toast.error("Copy failed; write the codes down instead.");
+    }
+  };
+
+  if (!status) {
+    return <div className="h-[74px] rounded-2xl bg-[#0b0b0b] border border-[#222] animate-pulse" />;
+  }
+
+  const Icon = status.enabled ? ShieldCheck : ShieldOff;
+
+  return (
+    <div className="rounded-2xl bg-[#0b0b0b] border border-[#222] p-4 space-y-4">
+      <div className="flex items-center gap-3">
+        <Icon className="w-5 h-5 shrink-0" style={{ color: status.enabled ? ACCENT : "#9ca3af" }} />
+        <div className="min-w-0 flex-1">
+          <div className="font-semibold">Two-factor authentication</div>
+          <div className="text-xs text-gray-400">
+            {status.enabled
+              ? `On · ${status.recoveryCodesRemaining} recovery code${status.recoveryCodesRemaining === 1 ? "" : "s"} left`
+              : "Off · protect your account with an authenticator app"}
+          </div>
+        </div>
+        {step.kind === "idle" && (
+          status.enabled ? (
+            <PillButton variant="outline" onClick={() => go({ kind: "disable" })}>DISABLE</PillButton>
+          ) : (
+            <PillButton onClick={() => void handleSetup()} disabled={busy}>ENABLE</PillButton>
+          )
+        )}
+      </div>
+
+      {step.kind === "setup" && (
+        <form onSubmit={handleConfirm} className="space-y-3">
+          <p className="text-sm text-gray-300">
+            Add this account to your authenticator app:{" "}
+            <a href={step.otpauthUri} className="underline" style={{ color: ACCENT }}>
+              open in app
+            </a>{" "}
+            or enter the key manually.
+          </p>
+          <code className="block rounded-xl bg-black border border-[#222] px-3 py-2 text-sm tracking-wider break-all select-all">
+            {formatSecret(step.secret)}
+          </code>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <input
+              className={inputClass}
+              placeholder="6-digit code from the app"
+              autoComplete="one-time-code"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+            />
+            <PillButton type="submit" disabled={busy || !input.trim()}>CONFIRM</PillButton>
+          </div>
+          <button type="button" className="text-xs text-gray-400 underline" onClick={() => go({ kind: "idle" })}>
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {step.kind === "codes" && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-300">
+            2FA is on. Save these recovery codes somewhere safe: each one signs you in once if you lose your
+            phone. They won't be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+            {step.recoveryCodes.map((c) => (
+              <li key={c} className="rounded-lg bg-black border border-[#222] px-3 py-1.5 text-center">{c}</li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <PillButton variant="outline" onClick={() => void copyCodes(step.recoveryCodes)}>
+              <span className="inline-flex items-center gap-2"><Copy className="w-3.5 h-3.5" />COPY</span>
+            </PillButton>
+            <PillButton onClick={() => go({ kind: "idle" })}>DONE</PillButton>
+          </div>
+        </div>
+      )}
+
+      {step.kind === "disable" && (
+        <form onSubmit={handleDisable} className="space-y-3">
+          <p className="text-sm text-gray-300">Enter your password to turn two-factor authentication off.</p>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <input
+              className={inputClass}
+              type="password"
+              placeholder="Password"
+              autoComplete="current-password"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+            />
+            <PillButton type="submit" disabled={busy || !input}>DISABLE</PillButton>
+          </div>
+          <button type="button" className="text-xs text-gray-400 underline" onClick={() => go({ kind: "idle" })}>
+            Cancel
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+// src/components/Admin/AdminUserList.tsx
+import React from "react";
+import { Search } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { listUsers, type AdminUser, type AdminUserQuery } from "../../services/admin";
+import type { UserRole } from "../../services/account";
+
+const ACCENT = "#E7E31B";
+const PAGE_SIZE = 25;
+
+const selectClass =
+  "rounded-full bg-black text-white border border-[#222] px-4 h-10 text-sm focus:outline-none";
+
+export function RoleBadge({ role }: { role: UserRole }) {
+  if (role === "USER") return null;
+  return (
+    <span
+      className="text-[10px] font-bold uppercase rounded-full px-2 py-0.5 text-black"
+      style={{ backgroundColor: ACCENT }}
+    >
+      {role === "SUPER_ADMIN" ? "Super admin" : "Admin"}
+    </span>
+  );
+}
+
+/**
+ * Center pane of the admin console: user search (name/email, role, status)
+ * with paging. `version` bumps reload the current page after an edit.
+ */
+export default function AdminUserList({
+  selectedId,
+  onSelect,
+  version,
+}: {
+  selectedId: number | null;
+  onSelect: (user: AdminUser) => void;
+  version: number;
+}) {
+  const [q, setQ] = React.useState("");
+  const [query, setQuery] = React.useState<AdminUserQuery>({ limit: PAGE_SIZE, offset: 0 });
+  const [page, setPage] = React.useState<{ users: AdminUser[]; total: number } | null>(null);
+
+  // search as you type, a beat after the last keystroke
+  React.useEffect(() => {
+    const t = setTimeout(() => setQuery((prev) => ({ ...prev, q: q.trim() || undefined, offset: 0 })), 300);
+    return () => clearTimeout(t);
+  }, [q]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    listUsers(query)
+      .then((res) => { if (!cancelled) setPage(res); })
+      .catch(() => { if (!cancelled) toast.error("Could not load users."); });
+    return () => { cancelled = true; };
+  }, [query, version]);
+
+  const offset = query.offset ?? 0;
+  const total = page?.total ?? 0;
+
+  return (
+    <div className="text-white space-y-4">
+      <h1 className="text-3xl font-extrabold">Users</h1>
+
+      <div className="flex flex-wrap gap-2">
+        <label className="flex-1 min-w-[220px] flex items-center gap-2 rounded-full bg-black border border-[#222] px-4 h-10">
+          <Search className="w-4 h-4 text-gray-500" />
+          <input
+            className="flex-1 bg-transparent text-sm placeholder-gray-500 focus:outline-none"
+            placeholder="Search by name or email"
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+          />
+        </label>
+        <select
+          className={selectClass}
+          value={query.role ?? ""}
+          onChange={(e) => setQuery((prev) => ({ ...prev, role: (e.target.value || undefined) as UserRole | undefined, offset: 0 }))}
+        >
+          <option value="">All roles</option>
+          <option value="USER">Users</option>
+          <option value="ADMIN">Admins</option>
+          <option value="SUPER_ADMIN">Super admins</option>
+        </select>
+        <select
+          className={selectClass}
+          value={query.status ?? ""}
+          onChange={(e) => setQuery((prev) => ({ ...prev, status: (e.target.value || undefined) as AdminUserQuery["status"], offset: 0 }))}
+        >
+          <option value="">Any status</option>
+          <option value="active">Active</option>
+          <option value="disabled">Disabled</option>
+        </select>
+      </div>
+
+      {page === null ? (
+        <ul className="space-y-2">
+          {Array.from({ length: 4 }, (_, i) => (
+            <li key={i} className="h-[62px] rounded-2xl bg-[#0b0b0b] border border-[#222] animate-pulse" />
+          ))}
+        </ul>
+      ) : page.users.length === 0 ? (
+        <p className="text-sm text-gray-400">No users match.</p>
+      ) : (
+        <ul className="space-y-2">
+          {page.users.map((u) => (
+            <li key={u.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(u)}
+                className="w-full text-left flex items-center gap-3 rounded-2xl bg-[#0b0b0b] border px-4 py-3 transition hover:border-[#444]"
+                style={{ borderColor: u.id === selectedId ? ACCENT : "#222" }}
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold truncate">{u.fullName || u.email}</span>
+                    <RoleBadge role={u.userRole} />
+                    {u.disabledAt && (
+                      <span className="text-[10px] font-bold uppercase rounded-full px-2 py-0.5 bg-[#ff0022] text-white">
+                        Disabled
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-400 truncate">{u.email}</div>
+                </div>
+                <div className="text-xs text-gray-400 shrink-0">
+                  {u.agentCount} agent{u.agentCount === 1 ? "" : "s"}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between text-sm text-gray-400">
+          <span>
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className="underline disabled:no-underline disabled:opacity-50"
+              disabled={offset === 0}
+              onClick={() => setQuery((prev) => ({ ...prev, offset: Math.max(0, offset - PAGE_SIZE) }))}
+            >
+              Previous
+            </button>
+            <button
+              type="button"
+              className="underline disabled:no-underline disabled:opacity-50"
+              disabled={offset + PAGE_SIZE >= total}
+              onClick={() => setQuery((prev) => ({ ...prev, offset: offset + PAGE_SIZE }))}
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+// src/components/Admin/AdminUserPanel.tsx
+import React from "react";
+import { Ban, CheckCircle2 } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { useAuth } from "../../auth/AuthProvider";
+import {
+  changeUserRole,
+  listUserAgents,
+  setUserDisabled,
+  type AdminUser,
+} from "../../services/admin";
+import type { Agent } from "../../services/agents";
+import type { UserRole } from "../../services/account";
+import type { ApiError } from "../../lib/api";
+import { RoleBadge } from "./AdminUserList";
+
+const ACCENT = "#E7E31B";
+
+function describeError(err: unknown) {
+  switch ((err as ApiError).message) {
+    case "cannot_modify_self":
+      return "You can't change your own account here.";
+    case "forbidden":
+      return "Only a super admin can manage other admins.";
+    default:
+      return "Something went wrong. Please try again.";
+  }
+}
+
+function Detail({ label, children }: React.PropsWithChildren<{ label: string }>) {
+  return (
+    <div className="flex justify-between gap-4 text-sm py-1.5 border-b border-[#1e1e1e]">
+      <span className="text-gray-400">{label}</span>
+      <span className="text-right truncate">{children}</span>
+    </div>
+  );
+}
+
+/**
+ * Right pane of the admin console: one user's account state, role (super
+ * admins only), disable/enable, and their agents.
+ */
+export default function AdminUserPanel({
+  user,
+  onChange,
+}: {
+  user: AdminUser;
+  onChange: (user: AdminUser) => void;
+}) {
+  const { user: me } = useAuth();
+  const [agents, setAgents] = React.useState<Agent[] | null>(null);
+  const [busy, setBusy] = React.useState(false);
+
+  const isSelf = String(me?.id) === String(user.id);
+  const isSuperAdmin = me?.userRole === "SUPER_ADMIN";
+  const canManage = !isSelf && (isSuperAdmin || user.userRole === "USER");
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setAgents(null);
+    listUserAgents(user.id)
+      .then((list) => { if (!cancelled) setAgents(list); })
+      .catch(() => { if (!cancelled) setAgents([]); });
+    return () => { cancelled = true; };
+  }, [user.id]);
+
+  async function run(fn: () => Promise<AdminUser>, success: string) {
+    setBusy(true);
+    try {
+      onChange(await fn());
+      toast.success(success);
+    } catch (err) {
+      toast.error(describeError(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const handleRole = (role: UserRole) => run(() => changeUserRole(user.id, role), "Role updated.");
+  const handleDisabled = (disabled: boolean) =>
+    run(() => setUserDisabled(user.id, disabled), disabled ? "Account disabled." : "Account enabled.");
+
+  return (
+    <div className="w-full text-white pr-4 space-y-6">
+      <div>
+        <div className="flex items-center gap-2">
+          <h2 className="text-2xl font-extrabold leading-tight truncate">{user.fullName || "Unnamed user"}</h2>
+          <RoleBadge role={user.userRole} />
+        </div>
+        <p className="text-gray-400 truncate">{user.email}</p>
+      </div>
+
+      <div>
+        <Detail label="Status">{user.disabledAt ? `Disabled ${new Date(user.disabledAt).toLocaleDateString()}` : "Active"}</Detail>
+        <Detail label="Email">{user.emailVerifiedAt ? "Verified" : "Not verified"}</Detail>
+        <Detail label="Two-factor">{user.twoFactorEnabled ? "On" : "Off"}</Detail>
+        <Detail label="Plan">{user.planId}</Detail>
+        <Detail label="Last active">{user.lastSeenAt ? new Date(user.lastSeenAt).toLocaleString() : "Never"}</Detail>
+        <Detail label="Joined">{new Date(user.createdAt).toLocaleDateString()}</Detail>
+      </div>
+
+      {canManage && (
+        <div className="space-y-3">
+          {isSuperAdmin && (
+            <label className="flex items-center justify-between gap-3 text-sm">
+              <span className="font-semibold text-gray-300">Role</span>
+              <select
+                className="rounded-full bg-black text-white border border-[#222] px-4 h-10 text-sm focus:outline-none"
+                value={user.userRole}
+                disabled={busy}
+                onChange={(e) => void handleRole(e.target.value as UserRole)}
+              >
+                <option value="USER">User</option>
+                <option value="ADMIN">Admin</option>
+                <option value="SUPER_ADMIN">Super admin</option>
+              </select>
+            </label>
+          )}
+          {user.disabledAt ? (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void handleDisabled(false)}
+              className={`w-full flex items-center justify-center gap-2 rounded-full font-extrabold text-black h-10 text-xs ${busy ? "opacity-60" : ""}`}
+              style={{ backgroundColor: ACCENT }}
+            >
+              <CheckCircle2 className="w-4 h-4" />
+              ENABLE ACCOUNT
+            </button>
+          ) : (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void handleDisabled(true)}
+              className={`w-full flex items-center justify-center gap-2 rounded-full font-extrabold h-10 text-xs border border-[#333] hover:border-[#ff0022] hover:text-[#ff0022] transition ${busy ? "opacity-60" : ""}`}
+            >
+              <Ban className="w-4 h-4" />
+              DISABLE ACCOUNT
+            </button>
+          )}
+          {!user.disabledAt && (
+            <p className="text-xs text-gray-500">Disabling signs the user out of every device.</p>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="text-sm font-semibold text-gray-300">Agents</div>
+        {agents === null ? (
+          <div className="h-[52px] rounded-2xl bg-[#0b0b0b] border border-[#222] animate-pulse" />
+        ) : agents.length === 0 ? (
+          <p className="text-sm text-gray-400">No agents.</p>
+        ) : (
+          <ul className="space-y-2">
+            {agents.map((a) => (
+              <li key={a.id} className="rounded-2xl bg-[#0b0b0b] border border-[#222] px-4 py-3">
+                <div className="font-semibold truncate">{a.identity.name || `Agent #${a.id}`}</div>
+                <div className="text-xs text-gray-400 truncate">
+                  {[a.identity.role, a.brain.id, `updated ${new Date(a.updatedAt).toLocaleDateString()}`]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
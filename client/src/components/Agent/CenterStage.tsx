@@ -1,5 +1,5 @@
 import React, { useEffect, useRef, useState } from "react";
-import { Maximize2, Minimize2, Send, Volume2, Zap } from "lucide-react";
+import { ChevronDown, FileText, Maximize2, Minimize2, Send, Square, Volume2, Zap } from "lucide-react";
 import { createPortal } from "react-dom";
 import LoadingOverlay from "../LoadingOverlay";
 
@@ -17,21 +17,33 @@ export type CenterStageProps = {
   onFullscreenChange?: (isFullscreen: boolean) => void; // optional callback
   saving?: boolean;                  // show the blur overlay
   savingText?: string;               // optional custom text
-  /** Optional controlled messages to display (for simulations) */
+  /** Controlled messages to display (e.g., a persisted conversation) */
   messages?: ChatMessage[];
-  /** Optional external handler to send a new message */
+  /** External handler to send a new message (controlled mode) */
   onSendMessage?: (text: string) => void;
+  /** True while an assistant reply is streaming in (Send becomes Stop) */
+  streaming?: boolean;
+  /** Stop the reply currently streaming */
+  onCancelStream?: () => void;
 };
 
 /** Message status for bubble border color. */
 export type MessageStatus = "normal" | "pending" | "error";
 
+/** Knowledge excerpt cited by an assistant message as [index]. */
+export type ChatSource = {
+  index: number;
+  filename: string;
+  snippet?: string;
+};
+
 export type ChatMessage = {
   id: string;
   role: "user" | "assistant";
   text: string;
   status?: MessageStatus;
   error?: string; // optional per-message error, shown bottom-right
+  sources?: ChatSource[]; // citations, shown as an expandable list under the text
 };
 
 /* =============================================================
@@ -52,6 +64,8 @@ export function MessageBubble({
         : "border-[#e5e7eb]"; // neutral like gray-200
 
   const align = msg.role === "user" ? "ml-auto" : "mr-auto";
+  const [showSources, setShowSources] = useState(false);
+  const sources = msg.sources ?? [];
 
   return (
     <div className={`relative max-w-[85%] ${align} ${className}`}>
@@ -59,6 +73,33 @@ export function MessageBubble({
         className={`bg-white text-black border ${border} rounded-2xl px-3 py-2 text-sm shadow-sm`}
       >
         {msg.text}
+        {sources.length > 0 && (
+          <div className="mt-2 border-t border-gray-200 pt-1.5">
+            <button
+              type="button"
+              onClick={() => setShowSources((v) => !v)}
+              className="flex items-center gap-1 text-[11px] font-semibold text-gray-500 hover:text-black"
+              aria-expanded={showSources}
+            >
+              {sources.length} source{sources.length === 1 ? "" : "s"}
+              <ChevronDown className={`w-3 h-3 transition-transform ${showSources ? "rotate-180" : ""}`} />
+            </button>
+            {showSources && (
+              <ol className="mt-1.5 flex flex-col gap-1.5">
+                {sources.map((s) => (
+                  <li key={s.index} className="rounded-lg bg-gray-100 px-2 py-1.5 text-[11px]">
+                    <div className="flex items-center gap-1 font-semibold">
+                      <span className="text-gray-500">[{s.index}]</span>
+                      <FileText className="w-3 h-3 text-gray-500" />
+                      <span className="truncate">{s.filename}</span>
+                    </div>
+                    {s.snippet && <div className="mt-0.5 text-gray-600">{s.snippet}</div>}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
       </div>
       {msg.error && (
         <div className="absolute right-1 -bottom-4 text-[11px] text-red-500">
@@ -82,6 +123,12 @@ export function ConversationPane({
 }) {
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // Keep the latest bubble in view as messages arrive
+  useEffect(() => {
+    const el = containerRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [messages]);
+
   // Subtle top fade using CSS mask so bubbles fade near the top
   const maskStyle: React.CSSProperties = {
     WebkitMaskImage:
@@ -117,11 +164,15 @@ export function ComposeBar({
   value,
   onChange,
   onSend,
+  streaming = false,
+  onStop,
   className = "",
 }: {
   value: string;
   onChange: (v: string) => void;
   onSend: () => void;
+  streaming?: boolean;
+  onStop?: () => void;
   className?: string;
 }) {
   return (
@@ -135,21 +186,33 @@ export function ComposeBar({
           value={value}
           onChange={(e) => onChange(e.target.value)}
           onKeyDown={(e) => {
-            if (e.key === "Enter" && !e.shiftKey) onSend();
+            if (e.key === "Enter" && !e.shiftKey && !streaming) onSend();
           }}
           placeholder="Type a message…"
           className="flex-1 h-10 px-3 rounded-xl bg-white text-black placeholder:text-gray-500 outline-none"
         />
 
-        <button
-          type="button"
-          onClick={onSend}
-          className="grid place-items-center w-9 h-9 rounded-full"
-          style={{ backgroundColor: "#E7E31B", color: "#000" }}
-          title="Send"
-        >
-          <Send className="w-4 h-4" />
-        </button>
+        {streaming ? (
+          <button
+            type="button"
+            onClick={onStop}
+            className="grid place-items-center w-9 h-9 rounded-full"
+            style={{ backgroundColor: "#E7E31B", color: "#000" }}
+            title="Stop"
+          >
+            <Square className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={onSend}
+            className="grid place-items-center w-9 h-9 rounded-full"
+            style={{ backgroundColor: "#E7E31B", color: "#000" }}
+            title="Send"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        )}
 
         <button
           type="button"
@@ -174,6 +237,8 @@ function StageContent({
   composerValue,
   onComposerChange,
   onComposerSend,
+  streaming,
+  onComposerStop,
   showChat,
 }: {
   bg?: string;
@@ -181,6 +246,8 @@ function StageContent({
   composerValue: string;
   onComposerChange: (v: string) => void;
   onComposerSend: () => void;
+  streaming?: boolean;
+  onComposerStop?: () => void;
   showChat?: boolean;
 }) {
   return (
@@ -208,6 +275,8 @@ function StageContent({
           value={composerValue}
           onChange={onComposerChange}
           onSend={onComposerSend}
+          streaming={streaming}
+          onStop={onComposerStop}
         />
       )}
     </div>
@@ -263,15 +332,16 @@ export default function CenterStage({
   savingText: creatingText,
   messages: controlledMessages,
   onSendMessage,
+  streaming,
+  onCancelStream,
 }: CenterStageProps) {
-  // --- local demo chat state (used if no controlled messages provided) ---
+  // --- local chat state (used if no controlled messages provided) ---
   const [localMessages, setLocalMessages] = useState<ChatMessage[]>([
     { id: "m1", role: "assistant", text: "Hello! I’m your assistant." },
-    { id: "m2", role: "user", text: "Can you help me set the scene?" },
   ]);
   const [draft, setDraft] = useState("");
 
-  const messages = localMessages;
+  const messages = controlledMessages ?? localMessages;
 
   // --- fullscreen toggle ---
   const [fsActive, setFsActive] = useState(false);
@@ -287,26 +357,13 @@ export default function CenterStage({
       return;
     }
 
-    // uncontrolled demo mode
+    // uncontrolled mode: keep the message locally (nothing to talk to yet)
     const id = Math.random().toString(36).slice(2, 9);
     setLocalMessages((prev) => [
       ...prev,
-      { id, role: "user", text: draft.trim(), status: "pending" as const },
+      { id, role: "user", text: draft.trim(), status: "normal" as const },
     ]);
     setDraft("");
-
-    // Simulate success/error completion
-    setTimeout(() => {
-      setLocalMessages((prev) =>
-        prev.map((m) =>
-          m.id === id
-            ? Math.random() < 0.85
-              ? { ...m, status: "normal" as const }
-              : { ...m, status: "error" as const, error: "Network error" }
-            : m
-        )
-      );
-    }, 700);
   }
 
   // --- stage shell ---
@@ -322,6 +379,8 @@ export default function CenterStage({
         composerValue={draft}
         onComposerChange={setDraft}
         onComposerSend={handleSend}
+        streaming={streaming}
+        onComposerStop={onCancelStream}
         showChat={showChat}
       />
 
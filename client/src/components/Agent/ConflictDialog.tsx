@@ -0,0 +1,168 @@
+import * as React from "react";
+import { GitCompare, X } from "lucide-react";
+import type { Agent, ConnectionItem, VersionConflict } from "../../services/agents";
+import { FIELD_LABELS } from "./fieldLabels";
+
+const ACCENT = "#E7E31B";
+
+const SECTIONS = ["identity", "appearance", "voice", "style", "brain", "cards"] as const;
+
+/** The editable parts of the agent as the form holds them */
+export type LocalAgentState = Pick<Agent, (typeof SECTIONS)[number]>;
+
+type Props = {
+  conflict: VersionConflict | null;
+  local: LocalAgentState;
+  localConnections: ConnectionItem[];
+  busy?: boolean;
+  onKeepMine: () => void;
+  onUseServer: () => void;
+  onClose: () => void;
+};
+
+type FieldRow = { path: string; server: unknown; mine: unknown };
+type ConnectionRow = { key: string; label: string; server: string; mine: string };
+
+function formatValue(v: unknown) {
+  if (v === null || v === undefined || v === "") return "—";
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+function same(a: unknown, b: unknown) {
+  const norm = (v: unknown) => (v === undefined || v === "" ? null : v);
+  return JSON.stringify(norm(a)) === JSON.stringify(norm(b));
+}
+
+function compareFields(server: Agent, local: LocalAgentState): FieldRow[] {
+  const rows: FieldRow[] = [];
+  for (const section of SECTIONS) {
+    const a = (server[section] ?? {}) as Record<string, unknown>;
+    const b = (local[section] ?? {}) as Record<string, unknown>;
+    for (const key of Object.keys(FIELD_LABELS)) {
+      const [s, k] = key.split(".");
+      if (s !== section || same(a[k], b[k])) continue;
+      rows.push({ path: key, server: a[k], mine: b[k] });
+    }
+  }
+  return rows;
+}
+
+function describeConnection(c?: ConnectionItem) {
+  return c ? `${c.status ?? "needs_setup"}${c.config ? " · configured" : ""}` : "not connected";
+}
+
+function compareConnections(server: ConnectionItem[], local: ConnectionItem[]): ConnectionRow[] {
+  const byKey = (list: ConnectionItem[]) => new Map(list.map((c) => [`${c.providerId}#${c.extId}`, c]));
+  const a = byKey(server);
+  const b = byKey(local);
+  const rows: ConnectionRow[] = [];
+  for (const key of new Set([...a.keys(), ...b.keys()])) {
+    const s = a.get(key);
+    const m = b.get(key);
+    if (s && m && s.status === m.status && same(s.config, m.config) && (s.token ?? null) === (m.token ?? null)) continue;
+    const c = (m ?? s)!;
+    rows.push({ key, label: `${c.providerId} (${c.extId})`, server: describeConnection(s), mine: describeConnection(m) });
+  }
+  return rows;
+}
+
+/** Shown when a save hit a newer version: compare it with the local edits and pick a side */
+export default function ConflictDialog({ conflict, local, localConnections, busy, onKeepMine, onUseServer, onClose }: Props) {
+  const fields = React.useMemo(
+    () => (conflict?.agent ? compareFields(conflict.agent, local) : []),
+    [conflict, local]
+  );
+  const connections = React.useMemo(
+    () => (conflict ? compareConnections(conflict.connections, localConnections) : []),
+    [conflict, localConnections]
+  );
+
+  if (!conflict) return null;
+  const deleted = !conflict.agent;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70" onClick={onClose} />
+      <div className="relative z-10 w-full max-w-2xl max-h-[85vh] overflow-y-auto rounded-2xl bg-[#121212] p-6 shadow-xl border border-white/10 text-white">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute right-4 top-4 w-8 h-8 grid place-items-center rounded-full bg-white/5 hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+
+        <div className="w-10 h-10 rounded-full grid place-items-center mb-3" style={{ backgroundColor: ACCENT }}>
+          <GitCompare className="w-5 h-5 text-black" />
+        </div>
+        <h3 className="text-lg font-semibold">This agent changed while you were editing</h3>
+        <p className="mt-1 text-sm text-gray-300">
+          {deleted
+            ? "It has been deleted in the meantime."
+            : "Someone else saved it after you opened it. Compare both versions, then keep yours or switch to theirs."}
+        </p>
+
+        {!deleted && (
+          <div className="mt-4">
+            <div className="grid grid-cols-[1fr_1fr_1fr] gap-3 px-3 pb-2 text-[10px] uppercase tracking-widest text-gray-400">
+              <span>Field</span>
+              <span>Saved version</span>
+              <span>Your edits</span>
+            </div>
+            {fields.length === 0 && connections.length === 0 ? (
+              <p className="px-3 text-sm text-gray-400">Your edits match the saved version.</p>
+            ) : (
+              <ul className="space-y-1 text-xs">
+                {fields.map((f) => (
+                  <li key={f.path} className="grid grid-cols-[1fr_1fr_1fr] gap-3 rounded-xl bg-white/5 px-3 py-2">
+                    <span className="font-semibold text-gray-300">{FIELD_LABELS[f.path] ?? f.path}</span>
+                    <span className="break-words whitespace-pre-wrap">{formatValue(f.server)}</span>
+                    <span className="break-words whitespace-pre-wrap" style={{ color: ACCENT }}>{formatValue(f.mine)}</span>
+                  </li>
+                ))}
+                {connections.map((c) => (
+                  <li key={c.key} className="grid grid-cols-[1fr_1fr_1fr] gap-3 rounded-xl bg-white/5 px-3 py-2">
+                    <span className="font-semibold text-gray-300">Connection {c.label}</span>
+                    <span>{c.server}</span>
+                    <span style={{ color: ACCENT }}>{c.mine}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end gap-3">
+          {!deleted && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={onUseServer}
+              className="px-5 h-10 rounded-full bg-white/10 hover:bg-white/20 font-medium"
+            >
+              Use saved version
+            </button>
+          )}
+          {!deleted && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={onKeepMine}
+              className="px-5 h-10 rounded-full font-extrabold"
+              style={{ backgroundColor: ACCENT, color: "#000" }}
+            >
+              {busy ? "SAVING…" : "KEEP MY CHANGES"}
+            </button>
+          )}
+          {deleted && (
+            <button type="button" onClick={onClose} className="px-5 h-10 rounded-full bg-white/10 hover:bg-white/20 font-medium">
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import * as React from "react";
+import { Copy, X } from "lucide-react";
+import { duplicateAgent, type Agent } from "../../services/agents";
+import type { ApiError } from "../../lib/api";
+import { getActiveWorkspaceId } from "../../workspace";
+
+const ACCENT = "#E7E31B";
+
+type Props = {
+  open: boolean;
+  agentId: number | string;
+  agentName: string;
+  onClose: () => void;
+  onDuplicated: (agent: Agent) => void;
+};
+
+/** Copy the agent into the active workspace, optionally with its connections (never their tokens) */
+export default function DuplicateDialog({ open, agentId, agentName, onClose, onDuplicated }: Props) {
+  const [name, setName] = React.useState("");
+  const [includeConnections, setIncludeConnections] = React.useState(false);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setName(`${agentName || "Untitled Agent"} (copy)`);
+    setIncludeConnections(false);
+    setError(null);
+  }, [open, agentName]);
+
+  if (!open) return null;
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const { agent } = await duplicateAgent(agentId, {
+        organizationId: getActiveWorkspaceId(),
+        includeConnections,
+        name: name.trim() || undefined,
+      });
+      onDuplicated(agent);
+    } catch (err) {
+      setError((err as ApiError).message || "Something went wrong. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70" onClick={() => !busy && onClose()} />
+      <form
+        onSubmit={handleSubmit}
+        className="relative z-10 w-full max-w-md rounded-2xl bg-[#121212] p-6 shadow-xl border border-white/10 text-white"
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute right-4 top-4 w-8 h-8 grid place-items-center rounded-full bg-white/5 hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+
+        <div className="w-10 h-10 rounded-full grid place-items-center mb-3" style={{ backgroundColor: ACCENT }}>
+          <Copy className="w-5 h-5 text-black" />
+        </div>
+        <h3 className="text-lg font-semibold">Duplicate agent</h3>
+        <p className="mt-1 text-sm text-gray-300">The copy goes to your current workspace.</p>
+
+        <input
+          className="mt-4 w-full rounded-xl bg-black border border-white/10 px-3 h-10 text-sm placeholder-gray-500 focus:outline-none"
+          placeholder="Name of the copy"
+          maxLength={191}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <label className="mt-3 flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={includeConnections}
+            onChange={(e) => setIncludeConnections(e.target.checked)}
+          />
+          Copy connections (tokens are not copied)
+        </label>
+        {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button type="button" className="px-4 h-10 rounded-xl border border-white/10" onClick={onClose} disabled={busy}>
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={busy}
+            className="px-4 h-10 rounded-xl font-extrabold"
+            style={{ backgroundColor: ACCENT, color: "#000" }}
+          >
+            {busy ? "Duplicating…" : "Duplicate"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -25,19 +25,23 @@ export type BackgroundCardsFormProps = {
   onRequestApply?: (bg: BackgroundCard) => void;
   /** Notify parent if user adds/removes items locally */
   onChange?: (cards: BackgroundCard[]) => void;
+  /** Whether a card is locked for the current user (defaults to `card.locked`) */
+  isLocked?: (bg: BackgroundCard) => boolean;
+  /** Called if a locked card is clicked (e.g., open paywall) */
+  onRequestUnlock?: (bg: BackgroundCard) => void;
 };
 
 /* ------------------------ Stubs ------------------------ */
 async function fetchBackgroundsStub(): Promise<BackgroundCard[]> {
   // Replace with your API (e.g., GET /api/backgrounds)
   return [
-    { id: "dubai", name: "Dubai", thumbnail: "/assets/bg/dubai.jpg" },
+    { id: "dubai", name: "Dubai", thumbnail: "/assets/bg/dubai.jpg", locked: true, badge: "crown" },
     { id: "bali", name: "Bali", thumbnail: "/assets/bg/bali.jpg" },
     { id: "greece", name: "Greece", thumbnail: "/assets/bg/greece.jpg" },
     { id: "djerba", name: "Djerba", thumbnail: "/assets/bg/djerba.jpg" },
     { id: "phil", name: "Philippines", thumbnail: "/assets/bg/philippines.jpg" },
     { id: "italy", name: "Italy", thumbnail: "/assets/bg/italy.jpg" },
-    { id: "paris", name: "Paris", thumbnail: "/assets/bg/paris.jpg" },
+    { id: "paris", name: "Paris", thumbnail: "/assets/bg/paris.jpg", locked: true, badge: "crown" },
     { id: "la", name: "Los Angeles", thumbnail: "/assets/bg/la.jpg" },
   ];
 }
@@ -233,6 +237,8 @@ export default function BackgroundCardsForm({
   fetchBackgrounds = fetchBackgroundsStub,
   onRequestApply,
   onChange,
+  isLocked = (bg) => !!bg.locked,
+  onRequestUnlock,
 }: BackgroundCardsFormProps) {
   const [items, setItems] = useState<BackgroundCard[] | null>(initial ?? null);
   const [selectedId, setSelectedId] = useState<string | null>(null);
@@ -258,6 +264,10 @@ export default function BackgroundCardsForm({
   void selected;
 
   function select(bg: BackgroundCard) {
+    if (isLocked(bg)) {
+      onRequestUnlock?.(bg);
+      return;
+    }
     setSelectedId(bg.id);
     // 🔌 Hook point: ask the parent/character app to apply this background
     onRequestApply?.(bg);
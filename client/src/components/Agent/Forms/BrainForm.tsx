@@ -1,5 +1,10 @@
-import { useMemo, useState } from "react";
-import { Crown, Lock } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { Crown, FileText, Lock, X } from "lucide-react";
+import DropZone from "../../Form/DropZone";
+import type { CompiledPrompt } from "../../../services/agents";
+import { listBrains, type BrainLimits } from "../../../services/brains";
+import { KNOWLEDGE_ACCEPT } from "../../../services/knowledge";
+import type { KnowledgeItem } from "../../../hooks/useAgentKnowledge";
 
 const ACCENT = "#E7E31B";
 
@@ -10,6 +15,7 @@ export type BrainTier = {
   description?: string;
   locked?: boolean; // paid/locked tier
   badge?: "crown" | "lock"; // visual badge in the corner
+  limits?: BrainLimits;
 };
 
 export type BrainState = {
@@ -18,33 +24,85 @@ export type BrainState = {
 };
 
 export type BrainFormProps = {
+  /** If provided, used immediately; otherwise we call fetchTiers() */
   tiers?: BrainTier[];
+  /** Load tiers from server (defaults to GET /api/brains) */
+  fetchTiers?: () => Promise<BrainTier[]>;
   /** Initial values */
   initial?: Partial<BrainState>;
   /** Called whenever form state changes */
   onChange?: (state: BrainState) => void;
   /** Called if a locked tier is clicked (e.g., open paywall) */
   onRequestUnlock?: (tier: BrainTier) => void;
+  /** System prompt compiled from the current (unsaved) agent settings */
+  compiledPrompt?: CompiledPrompt | null;
+  /** True while a new preview is being compiled */
+  promptLoading?: boolean;
+  /** Knowledge documents attached to the agent */
+  documents?: KnowledgeItem[];
+  knowledgeLoading?: boolean;
+  /** Omit until the agent exists (uploads need an agent id) */
+  onUploadDocument?: (file: File) => void;
+  onDeleteDocument?: (doc: KnowledgeItem) => void;
+};
+async function fetchTiersFromApi(): Promise<BrainTier[]> {
+  const { brains } = await listBrains();
+  return brains;
+}
+
+function formatLimits(l?: BrainLimits) {
+  if (!l) return null;
+  const ctx = l.contextTokens >= 1000 ? `${Math.round(l.contextTokens / 1000)}K` : String(l.contextTokens);
+  return `${ctx} context`;
+}
+
+function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${Math.round(n / 1024)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const STATUS_STYLES: Record<KnowledgeItem["status"], { label: string; className: string }> = {
+  uploading: { label: "Uploading…", className: "text-gray-300 bg-white/10" },
+  processing: { label: "Indexing…", className: "text-black bg-[#E7E31B]" },
+  ready: { label: "Ready", className: "text-black bg-[#22c55e]" },
+  error: { label: "Failed", className: "text-white bg-red-600" },
 };
-const DEFAULT_TIERS: BrainTier[] = [
-  {
-    id: "level1",
-    title: "AGENT\nLEVEL ONE",
-    subtitle: "Instant, accurate single-step answers & lookups",
-  },
-  {
-    id: "level2",
-    title: "AGENT\nLEVEL 2",
-    subtitle: "Smart multi-step reasoning — handles workflows & follow-ups",
-  },
-  {
-    id: "super",
-    title: "SUPER\nBRAIN",
-    subtitle: "Elite long-term planning, creativity & coding — unlock advanced capabilities",
-    locked: true,
-    badge: "crown",
-  },
-];
+
+function DocumentRow({ doc, onDelete }: { doc: KnowledgeItem; onDelete?: () => void }) {
+  const status = STATUS_STYLES[doc.status];
+  const detail =
+    doc.status === "error"
+      ? doc.error || "Could not index this file"
+      : doc.status === "ready"
+        ? `${formatBytes(doc.sizeBytes)} · ${doc.chunkCount} chunk${doc.chunkCount === 1 ? "" : "s"}`
+        : formatBytes(doc.sizeBytes);
+
+  return (
+    <li className="flex items-center gap-3 rounded-xl bg-[#111] border border-[#222] px-3 py-2">
+      <FileText className="w-4 h-4 text-gray-400 shrink-0" />
+      <div className="min-w-0 flex-1">
+        <div className="text-sm truncate" title={doc.filename}>{doc.filename}</div>
+        <div className={`text-[11px] truncate ${doc.status === "error" ? "text-red-400" : "text-gray-400"}`}>
+          {detail}
+        </div>
+      </div>
+      <span className={`text-[10px] font-bold uppercase rounded-full px-2 py-0.5 ${status.className} ${doc.status === "processing" || doc.status === "uploading" ? "animate-pulse" : ""}`}>
+        {status.label}
+      </span>
+      {onDelete && doc.status !== "uploading" && (
+        <button
+          type="button"
+          onClick={onDelete}
+          className="w-7 h-7 grid place-items-center rounded-full bg-white/5 hover:bg-white/10"
+          title="Remove document"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </li>
+  );
+}
 
 function TierCard({
   tier,
@@ -95,18 +153,31 @@ function TierCard({
           {tier.subtitle}
         </div>
       ) : null}
+      {tier.limits ? (
+        <div className="mt-2 text-[10px] uppercase tracking-wide text-gray-500">
+          {formatLimits(tier.limits)}
+        </div>
+      ) : null}
     </button>
   );
 }
 
 export default function BrainForm({
-  tiers = DEFAULT_TIERS,
+  tiers: tiersProp,
+  fetchTiers = fetchTiersFromApi,
   initial,
   onChange,
   onRequestUnlock,
+  compiledPrompt,
+  promptLoading = false,
+  documents = [],
+  knowledgeLoading = false,
+  onUploadDocument,
+  onDeleteDocument,
 }: BrainFormProps) {
+  const [tiers, setTiers] = useState<BrainTier[] | null>(tiersProp ?? null);
   const [state, setState] = useState<BrainState>({
-    brainId: initial?.brainId || tiers[0]?.id || "level1",
+    brainId: initial?.brainId || tiersProp?.[0]?.id || "level1",
     instructions:
       initial?.instructions ||
       ""
@@ -120,6 +191,22 @@ export default function BrainForm({
     });
   }
 
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      if (tiers) return;
+      try {
+        const data = await fetchTiers();
+        if (!cancelled) setTiers(data);
+      } catch (e) {
+        console.error(e);
+        if (!cancelled) setTiers([]);
+      }
+    }
+    load();
+    return () => { cancelled = true; };
+  }, [tiers, fetchTiers]);
+
   const selected = useMemo(() => state.brainId, [state.brainId]);
 
   return (
@@ -144,7 +231,7 @@ export default function BrainForm({
       {/* Select Brain type */}
       <div className="text-sm text-gray-300 mb-2">Select Brain type</div>
       <div className="grid grid-cols-3 gap-4 mb-6">
-        {tiers.map((t) => (
+        {(tiers ?? []).map((t) => (
           <TierCard
             key={t.id}
             tier={t}
@@ -153,6 +240,11 @@ export default function BrainForm({
             onLocked={() => onRequestUnlock?.(t)}
           />
         ))}
+
+        {/* Loading skeletons when fetching for first time */}
+        {!tiers && Array.from({ length: 3 }).map((_, i) => (
+          <div key={i} className="aspect-square rounded-2xl bg-[#0b0b0b] border border-[#222] animate-pulse" />
+        ))}
       </div>
 
       {/* Instructions */}
@@ -165,6 +257,62 @@ export default function BrainForm({
           className="w-full min-h-[180px] bg-transparent text-white outline-none resize-vertical"
         />
       </div>
+
+      {/* Knowledge base (documents the agent can ground its answers in) */}
+      <div className="mt-6 text-sm font-extrabold mb-2">Knowledge</div>
+      {onUploadDocument ? (
+        <>
+          <DropZone
+            onChange={(url) => URL.revokeObjectURL(url)}
+            onFile={onUploadDocument}
+            accept={KNOWLEDGE_ACCEPT}
+            multiple
+            hint="or drag & drop .txt, .md, .csv or text PDF files"
+          />
+          {knowledgeLoading && !documents.length ? (
+            <div className="mt-3 text-xs text-gray-400">Loading documents…</div>
+          ) : documents.length ? (
+            <ul className="mt-3 flex flex-col gap-2">
+              {documents.map((d) => (
+                <DocumentRow
+                  key={d.id}
+                  doc={d}
+                  onDelete={onDeleteDocument ? () => onDeleteDocument(d) : undefined}
+                />
+              ))}
+            </ul>
+          ) : (
+            <div className="mt-3 text-xs text-gray-400">No documents yet.</div>
+          )}
+        </>
+      ) : (
+        <div className="rounded-2xl bg-[#0b0b0b] border border-[#222] p-4 text-xs text-gray-400">
+          Save the agent first, then upload company documents for it to answer from.
+        </div>
+      )}
+
+      {/* Compiled prompt (live preview of what the agent will actually be told) */}
+      <details className="mt-6 rounded-2xl bg-[#0b0b0b] border border-[#222] p-4" open>
+        <summary className="cursor-pointer select-none flex items-center justify-between text-sm font-extrabold">
+          <span>Compiled prompt</span>
+          <span className="text-[11px] font-normal text-gray-400">
+            {promptLoading
+              ? "Compiling…"
+              : compiledPrompt
+                ? `v${compiledPrompt.version} · ${compiledPrompt.hash}`
+                : "—"}
+          </span>
+        </summary>
+        {compiledPrompt ? (
+          <pre className="mt-3 max-h-[320px] overflow-y-auto whitespace-pre-wrap text-xs leading-5 text-gray-300 font-mono">
+            {compiledPrompt.prompt}
+          </pre>
+        ) : (
+          <div className="mt-3 text-xs text-gray-400">
+            The prompt preview will appear here.
+          </div>
+        )}
+      </details>
     </div>
   );
 }
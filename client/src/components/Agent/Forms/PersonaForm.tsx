@@ -6,6 +6,10 @@ type Props = {
   value: AgentAppearance;
   onChange: (next: AgentAppearance) => void;
   className?: string;
+  /** Avatar Studio is a premium persona; false once the user's plan unlocks it */
+  studioLocked?: boolean;
+  /** Called if a locked persona is clicked (e.g., open paywall) */
+  onRequestUnlock?: (personaId: string) => void;
 };
 
 const ACCENT = "#E7E31B";
@@ -89,7 +93,13 @@ function PersonaCard({
   );
 }
 
-export default function PersonaForm({ value, onChange, className = "" }: Props) {
+export default function PersonaForm({
+  value,
+  onChange,
+  className = "",
+  studioLocked = true,
+  onRequestUnlock,
+}: Props) {
   // Local mirrors for UI control
   const [bgColor, setBgColor] = React.useState<string>(value?.bgColor ?? "#111111");
   const [items, setItems] = React.useState<any[]>([]);
@@ -154,11 +164,11 @@ export default function PersonaForm({ value, onChange, className = "" }: Props)
       {/* Grid of personas */}
       <div className="grid grid-cols-3 gap-4">
         <PersonaCard
-          key={"create"}
-          persona={"create"}
+          key={"studio"}
+          persona={"studio"}
           active={false}
-          onClick={() => openAvatarStudio()}
-          locked={true}
+          onClick={() => (studioLocked ? onRequestUnlock?.("studio") : openAvatarStudio())}
+          locked={studioLocked}
         />
         {(items ?? []).map((p) => (
           <PersonaCard
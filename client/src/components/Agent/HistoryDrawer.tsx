@@ -0,0 +1,227 @@
+import * as React from "react";
+import { History, RotateCcw, X } from "lucide-react";
+import {
+  getRevisionDiff,
+  listRevisions,
+  restoreRevision,
+  asVersionConflict,
+  type AgentRevision,
+  type RevisionDiff,
+} from "../../services/agents";
+import type { ApiError } from "../../lib/api";
+import { FIELD_LABELS } from "./fieldLabels";
+
+const ACCENT = "#E7E31B";
+
+const ACTION_LABELS: Record<AgentRevision["action"], string> = {
+  initial: "Before history",
+  created: "Created",
+  updated: "Edited",
+  restored: "Restored",
+};
+
+type Props = {
+  open: boolean;
+  agentId: number | string;
+  /** Editors and owners can restore */
+  canRestore: boolean;
+  onClose: () => void;
+  /** Version the page's edits are based on; a restore over a newer save fails instead of overwriting it */
+  getVersion?: () => number | null;
+  /** Called after a restore so the page reloads the agent */
+  onRestored: () => void;
+};
+
+function formatValue(v: unknown) {
+  if (v === null || v === undefined || v === "") return "—";
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+function DiffValue({ before, after }: { before: unknown; after: unknown }) {
+  return (
+    <div className="mt-0.5 grid gap-0.5 text-xs">
+      <div className="line-through text-red-300/80 break-words whitespace-pre-wrap">{formatValue(before)}</div>
+      <div className="text-green-300 break-words whitespace-pre-wrap">{formatValue(after)}</div>
+    </div>
+  );
+}
+
+function DiffView({ diff }: { diff: RevisionDiff }) {
+  const { added, removed, changed } = diff.connections;
+  const empty = !diff.fields.length && !added.length && !removed.length && !changed.length;
+  if (empty) return <p className="text-xs text-gray-400">No differences.</p>;
+  return (
+    <ul className="space-y-2">
+      {diff.fields.map((f) => (
+        <li key={f.path}>
+          <div className="text-xs font-semibold text-gray-300">{FIELD_LABELS[f.path] ?? f.path}</div>
+          <DiffValue before={f.before} after={f.after} />
+        </li>
+      ))}
+      {added.map((c) => (
+        <li key={`added-${c.extId}`} className="text-xs text-green-300">+ Connection {c.providerId} ({c.extId})</li>
+      ))}
+      {removed.map((c) => (
+        <li key={`removed-${c.extId}`} className="text-xs text-red-300/80">− Connection {c.providerId} ({c.extId})</li>
+      ))}
+      {changed.map((c) =>
+        c.changes.map((ch) => (
+          <li key={`changed-${c.extId}-${ch.field}`}>
+            <div className="text-xs font-semibold text-gray-300">Connection {c.providerId} · {ch.field}</div>
+            <DiffValue before={ch.before} after={ch.after} />
+          </li>
+        ))
+      )}
+    </ul>
+  );
+}
+
+/** Right-side drawer: the agent's revisions with field-level diffs and restore */
+export default function HistoryDrawer({ open, agentId, canRestore, getVersion, onClose, onRestored }: Props) {
+  const [revisions, setRevisions] = React.useState<AgentRevision[] | null>(null);
+  const [selected, setSelected] = React.useState<number | null>(null);
+  const [against, setAgainst] = React.useState<"previous" | "current">("previous");
+  const [diff, setDiff] = React.useState<RevisionDiff | null>(null);
+  const [restoring, setRestoring] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const loadRevisions = React.useCallback(async () => {
+    try {
+      setRevisions(await listRevisions(agentId));
+    } catch {
+      setRevisions([]);
+    }
+  }, [agentId]);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setRevisions(null);
+    setSelected(null);
+    setError(null);
+    void loadRevisions();
+  }, [open, loadRevisions]);
+
+  React.useEffect(() => {
+    if (!open || selected === null) return;
+    let cancelled = false;
+    setDiff(null);
+    getRevisionDiff(agentId, selected, against)
+      .then((d) => { if (!cancelled) setDiff(d); })
+      .catch(() => { if (!cancelled) setError("Could not load the changes."); });
+    return () => { cancelled = true; };
+  }, [open, agentId, selected, against]);
+
+  if (!open) return null;
+
+  async function handleRestore(revisionId: number) {
+    setRestoring(true);
+    setError(null);
+    try {
+      await restoreRevision(agentId, revisionId, getVersion?.());
+      onRestored();
+      setSelected(null);
+      await loadRevisions();
+    } catch (err) {
+      setError(asVersionConflict(err)
+        ? "Someone else saved this agent since you opened it. Reload the page, then restore again."
+        : (err as ApiError).message === "entitlement_required"
+          ? "This version uses assets your plan doesn't include."
+          : "Restore failed. Please try again.");
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/70" onClick={onClose} />
+      <aside className="relative z-10 h-full w-full max-w-md overflow-y-auto bg-[#121212] border-l border-white/10 p-6 text-white">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute right-4 top-4 w-8 h-8 grid place-items-center rounded-full bg-white/5 hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+
+        <div className="flex items-center gap-3 mb-5">
+          <div className="w-10 h-10 rounded-full grid place-items-center" style={{ backgroundColor: ACCENT }}>
+            <History className="w-5 h-5 text-black" />
+          </div>
+          <h3 className="text-lg font-semibold">Version history</h3>
+        </div>
+
+        {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+
+        {revisions === null ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }, (_, i) => (
+              <div key={i} className="h-14 rounded-xl bg-white/5 animate-pulse" />
+            ))}
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-400">No saved versions yet. Each save from now on is kept here.</p>
+        ) : (
+          <ul className="space-y-2">
+            {revisions.map((rev, idx) => {
+              const isOpen = rev.id === selected;
+              return (
+                <li key={rev.id} className="rounded-xl bg-white/5 border" style={{ borderColor: isOpen ? ACCENT : "transparent" }}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(isOpen ? null : rev.id)}
+                    className="w-full text-left px-4 py-3"
+                  >
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="font-semibold">
+                        {ACTION_LABELS[rev.action]}
+                        {idx === 0 && <span className="ml-2 text-[10px] uppercase text-gray-400">current</span>}
+                      </span>
+                      <span className="text-xs text-gray-400">{new Date(rev.updatedAt).toLocaleString()}</span>
+                    </div>
+                    <div className="text-xs text-gray-400 truncate">
+                      {rev.author ? rev.author.fullName || rev.author.email : "—"}
+                    </div>
+                  </button>
+
+                  {isOpen && (
+                    <div className="px-4 pb-4 space-y-3">
+                      <div className="flex gap-3 text-xs">
+                        {(["previous", "current"] as const).map((a) => (
+                          <button
+                            key={a}
+                            type="button"
+                            onClick={() => setAgainst(a)}
+                            className={against === a ? "font-bold" : "text-gray-400 hover:text-white"}
+                            style={against === a ? { color: ACCENT } : undefined}
+                          >
+                            {a === "previous" ? "Changes in this version" : "Compared to now"}
+                          </button>
+                        ))}
+                      </div>
+                      {diff ? <DiffView diff={diff} /> : <div className="h-10 rounded-lg bg-white/5 animate-pulse" />}
+                      {canRestore && idx > 0 && (
+                        <button
+                          type="button"
+                          disabled={restoring}
+                          onClick={() => void handleRestore(rev.id)}
+                          className="flex items-center gap-2 px-4 h-9 rounded-full font-extrabold text-xs text-black"
+                          style={{ backgroundColor: ACCENT }}
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          {restoring ? "RESTORING…" : "RESTORE THIS VERSION"}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { Crown, X } from "lucide-react";
+import type { Entitlements, LockedAsset, Plan } from "../../services/entitlements";
+import { planIncludes } from "../../services/entitlements";
+
+const ACCENT = "#E7E31B";
+
+const KIND_LABELS: Record<LockedAsset["kind"], string> = {
+  brain: "Brain tier",
+  persona: "Persona",
+  background: "Background",
+};
+
+// Where the "Upgrade" button sends users (billing page, sales form…); optional
+const UPGRADE_URL = import.meta.env.VITE_UPGRADE_URL as string | undefined;
+
+type Props = {
+  open: boolean;
+  /** What the user tried to use */
+  required: LockedAsset[];
+  entitlements: Entitlements | null;
+  onClose: () => void;
+};
+
+/** Plans that unlock every required asset (cheapest first, as sorted by the server) */
+function plansUnlocking(plans: Plan[], required: LockedAsset[]) {
+  return plans.filter((p) => required.every((r) => planIncludes(p, r.kind, r.id)));
+}
+
+export default function PaywallDialog({ open, required, entitlements, onClose }: Props) {
+  if (!open) return null;
+  const current = entitlements?.plan ?? null;
+  const upgrades = plansUnlocking(entitlements?.plans ?? [], required);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70" onClick={onClose} />
+      <div className="relative z-10 w-full max-w-sm rounded-2xl bg-[#121212] p-6 shadow-xl border border-white/10 text-white">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute right-4 top-4 w-8 h-8 grid place-items-center rounded-full bg-white/5 hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+
+        <div className="w-10 h-10 rounded-full grid place-items-center mb-3" style={{ backgroundColor: ACCENT }}>
+          <Crown className="w-5 h-5 text-black" />
+        </div>
+        <h3 className="text-lg font-semibold">Upgrade to unlock</h3>
+        <p className="mt-1 text-sm text-gray-300">
+          {current ? `Your ${current.name} plan doesn't include:` : "Your plan doesn't include:"}
+        </p>
+
+        <ul className="mt-3 space-y-1 text-sm">
+          {required.map((r) => (
+            <li key={`${r.kind}:${r.id}`} className="flex items-center justify-between rounded-xl bg-white/5 px-3 py-2">
+              <span className="text-gray-400">{KIND_LABELS[r.kind]}</span>
+              <span className="font-medium">{r.label ?? r.id}</span>
+            </li>
+          ))}
+        </ul>
+
+        {upgrades.length > 0 && (
+          <p className="mt-4 text-sm text-gray-300">
+            Available with: <span className="text-white font-medium">{upgrades.map((p) => p.name).join(", ")}</span>
+          </p>
+        )}
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button className="px-4 h-10 rounded-xl border border-white/10" onClick={onClose}>
+            Not now
+          </button>
+          {UPGRADE_URL ? (
+            <a
+              href={UPGRADE_URL}
+              target="_blank"
+              rel="noreferrer"
+              className="px-4 h-10 rounded-xl font-extrabold grid place-items-center"
+              style={{ backgroundColor: ACCENT, color: "#000" }}
+            >
+              Upgrade
+            </a>
+          ) : (
+            <span className="self-center text-xs text-gray-400">Ask an admin to upgrade your plan.</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import * as React from "react";
+import { Users, X } from "lucide-react";
+import { listShares, shareAgent, unshareAgent, type AgentShare } from "../../services/agents";
+import type { ApiError } from "../../lib/api";
+
+const ACCENT = "#E7E31B";
+
+type Props = {
+  open: boolean;
+  agentId: number | string;
+  onClose: () => void;
+};
+
+function describeError(err: unknown) {
+  switch ((err as ApiError).message) {
+    case "user_not_found":
+      return "No account uses that email.";
+    case "cannot_share_with_owner":
+      return "That's the agent's owner.";
+    case "invalid_payload":
+      return "Enter a valid email address.";
+    default:
+      return "Something went wrong. Please try again.";
+  }
+}
+
+/** Owner-only dialog: share the agent with single users as viewer or editor */
+export default function ShareDialog({ open, agentId, onClose }: Props) {
+  const [shares, setShares] = React.useState<AgentShare[] | null>(null);
+  const [email, setEmail] = React.useState("");
+  const [role, setRole] = React.useState<AgentShare["role"]>("viewer");
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setShares(null);
+    setError(null);
+    listShares(agentId)
+      .then((list) => { if (!cancelled) setShares(list); })
+      .catch(() => { if (!cancelled) setShares([]); });
+    return () => { cancelled = true; };
+  }, [open, agentId]);
+
+  if (!open) return null;
+
+  async function run(fn: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await fn();
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const handleShare = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    void run(async () => {
+      const share = await shareAgent(agentId, email.trim(), role);
+      setShares((prev) => [...(prev ?? []).filter((s) => s.userId !== share.userId), share]);
+      setEmail("");
+    });
+  };
+
+  const handleRole = (share: AgentShare, next: AgentShare["role"]) =>
+    run(async () => {
+      const updated = await shareAgent(agentId, share.email, next);
+      setShares((prev) => (prev ?? []).map((s) => (s.userId === updated.userId ? updated : s)));
+    });
+
+  const handleRemove = (share: AgentShare) =>
+    run(async () => {
+      await unshareAgent(agentId, share.userId);
+      setShares((prev) => (prev ?? []).filter((s) => s.userId !== share.userId));
+    });
+
+  const selectClass = "rounded-xl bg-black text-white border border-white/10 px-2 h-10 text-sm focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70" onClick={onClose} />
+      <div className="relative z-10 w-full max-w-md rounded-2xl bg-[#121212] p-6 shadow-xl border border-white/10 text-white">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute right-4 top-4 w-8 h-8 grid place-items-center rounded-full bg-white/5 hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+
+        <div className="w-10 h-10 rounded-full grid place-items-center mb-3" style={{ backgroundColor: ACCENT }}>
+          <Users className="w-5 h-5 text-black" />
+        </div>
+        <h3 className="text-lg font-semibold">Share this agent</h3>
+        <p className="mt-1 text-sm text-gray-300">Viewers can open and chat with it; editors can also change it.</p>
+
+        <form onSubmit={handleShare} className="mt-4 flex gap-2">
+          <input
+            type="email"
+            className="min-w-0 flex-1 rounded-xl bg-black border border-white/10 px-3 h-10 text-sm placeholder-gray-500 focus:outline-none"
+            placeholder="Email address"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <select className={selectClass} value={role} onChange={(e) => setRole(e.target.value as AgentShare["role"])}>
+            <option value="viewer">Viewer</option>
+            <option value="editor">Editor</option>
+          </select>
+          <button
+            type="submit"
+            disabled={busy}
+            className="px-4 h-10 rounded-xl font-extrabold"
+            style={{ backgroundColor: ACCENT, color: "#000" }}
+          >
+            Share
+          </button>
+        </form>
+        {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+
+        <ul className="mt-4 space-y-2 text-sm">
+          {shares === null ? (
+            <li className="h-10 rounded-xl bg-white/5 animate-pulse" />
+          ) : shares.length === 0 ? (
+            <li className="text-gray-400">Not shared with anyone yet.</li>
+          ) : (
+            shares.map((s) => (
+              <li key={s.userId} className="flex items-center gap-2 rounded-xl bg-white/5 px-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <div className="font-medium truncate">{s.fullName || s.email}</div>
+                  {s.fullName && <div className="text-xs text-gray-400 truncate">{s.email}</div>}
+                </div>
+                <select
+                  className={selectClass}
+                  value={s.role}
+                  disabled={busy}
+                  onChange={(e) => void handleRole(s, e.target.value as AgentShare["role"])}
+                >
+                  <option value="viewer">Viewer</option>
+                  <option value="editor">Editor</option>
+                </select>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void handleRemove(s)}
+                  className="w-8 h-8 grid place-items-center rounded-full hover:bg-white/10"
+                  aria-label={`Stop sharing with ${s.email}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+}
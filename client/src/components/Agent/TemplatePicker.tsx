@@ -0,0 +1,74 @@
+import * as React from "react";
+import { Crown, LayoutTemplate, Plus, X } from "lucide-react";
+import { listTemplates, type AgentTemplate } from "../../services/agents";
+
+const ACCENT = "#E7E31B";
+
+type Props = {
+  open: boolean;
+  onPick: (template: AgentTemplate) => void;
+  /** Start from the empty wizard */
+  onBlank: () => void;
+};
+
+/** Shown when /create opens: start from a curated preset or from scratch */
+export default function TemplatePicker({ open, onPick, onBlank }: Props) {
+  const [templates, setTemplates] = React.useState<AgentTemplate[] | null>(null);
+
+  React.useEffect(() => {
+    if (!open || templates) return;
+    let cancelled = false;
+    listTemplates()
+      .then((list) => { if (!cancelled) setTemplates(list); })
+      .catch(() => { if (!cancelled) setTemplates([]); });
+    return () => { cancelled = true; };
+  }, [open, templates]);
+
+  if (!open) return null;
+
+  const cardClass = "text-left rounded-xl bg-white/5 hover:bg-white/10 border border-white/10 p-4 transition";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70" onClick={onBlank} />
+      <div className="relative z-10 w-full max-w-2xl max-h-[85vh] overflow-y-auto rounded-2xl bg-[#121212] p-6 shadow-xl border border-white/10 text-white">
+        <button
+          type="button"
+          onClick={onBlank}
+          className="absolute right-4 top-4 w-8 h-8 grid place-items-center rounded-full bg-white/5 hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+
+        <div className="w-10 h-10 rounded-full grid place-items-center mb-3" style={{ backgroundColor: ACCENT }}>
+          <LayoutTemplate className="w-5 h-5 text-black" />
+        </div>
+        <h3 className="text-lg font-semibold">Start from a template</h3>
+        <p className="mt-1 text-sm text-gray-300">Pick a preset to fill in every step, then adjust what you like.</p>
+
+        <div className="mt-5 grid gap-3 sm:grid-cols-2">
+          <button type="button" onClick={onBlank} className={cardClass}>
+            <div className="flex items-center gap-2 font-semibold">
+              <Plus className="w-4 h-4" />
+              Blank agent
+            </div>
+            <p className="mt-1 text-xs text-gray-400">Set up every step yourself.</p>
+          </button>
+
+          {templates === null
+            ? Array.from({ length: 3 }, (_, i) => <div key={i} className="h-24 rounded-xl bg-white/5 animate-pulse" />)
+            : templates.map((t) => (
+              <button key={t.id} type="button" onClick={() => onPick(t)} className={cardClass}>
+                <div className="flex items-center justify-between gap-2 font-semibold">
+                  <span>{t.name}</span>
+                  {t.locked && <Crown className="w-4 h-4" style={{ color: ACCENT }} aria-label="Needs an upgrade" />}
+                </div>
+                <p className="mt-1 text-xs text-gray-400">{t.summary}</p>
+              </button>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+}
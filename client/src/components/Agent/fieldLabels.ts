@@ -0,0 +1,22 @@
+// Human labels for agent field paths ("section.key"), as used in revision diffs and conflict views
+export const FIELD_LABELS: Record<string, string> = {
+  "identity.name": "Name",
+  "identity.role": "Role",
+  "identity.companyName": "Company",
+  "identity.desc": "Description",
+  "appearance.personaId": "Persona",
+  "appearance.bgColor": "Background color",
+  "voice.language": "Language",
+  "voice.name": "Voice",
+  "style.formality": "Formality",
+  "style.pace": "Pace",
+  "style.calm": "Calm",
+  "style.introvert": "Introvert",
+  "style.empathy": "Empathy",
+  "style.humor": "Humor",
+  "style.creativity": "Creativity",
+  "style.directness": "Directness",
+  "brain.id": "Brain tier",
+  "brain.instructions": "Instructions",
+  "cards.backgroundId": "Background card",
+};
@@ -6,9 +6,19 @@ export type DropZoneProps = {
   value?: string;                    // preview URL (object URL or remote URL)
   onChange: (url: string) => void;   // called with preview URL
   onFile?: (file: File) => void;     // optional raw file
+  accept?: string;                   // <input accept>, images by default
+  multiple?: boolean;                // onFile is called once per file
+  hint?: string;                     // line under "Click to upload"
 };
 
-export default function DropZone({ value, onChange, onFile }: DropZoneProps) {
+export default function DropZone({
+  value,
+  onChange,
+  onFile,
+  accept = "image/*",
+  multiple = false,
+  hint = "or drag & drop an image",
+}: DropZoneProps) {
   const [drag, setDrag] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const openingRef = useRef(false);
@@ -18,7 +28,8 @@ export default function DropZone({ value, onChange, onFile }: DropZoneProps) {
     const file = files[0];
     const url = URL.createObjectURL(file);
     onChange(url);        // preview for immediate display
-    onFile?.(file);       // raw file for upload/persistence
+    const picked = multiple ? Array.from(files) : [file];
+    picked.forEach((f) => onFile?.(f));   // raw file(s) for upload/persistence
   }
 
   function openPicker() {
@@ -43,7 +54,7 @@ export default function DropZone({ value, onChange, onFile }: DropZoneProps) {
         ) : (
           <div className="text-gray-300">
             <div className="font-semibold">Click to upload</div>
-            <div className="text-xs opacity-80">or drag & drop an image</div>
+            <div className="text-xs opacity-80">{hint}</div>
           </div>
         )}
       </div>
@@ -51,10 +62,14 @@ export default function DropZone({ value, onChange, onFile }: DropZoneProps) {
       <input
         ref={inputRef}
         type="file"
-        accept="image/*"
+        accept={accept}
+        multiple={multiple}
         className="hidden"
         onClick={(e) => e.stopPropagation()}              // avoids bubbling -> double open
-        onChange={(e) => handleFiles(e.currentTarget.files)}
+        onChange={(e) => {
+          handleFiles(e.currentTarget.files);
+          e.currentTarget.value = "";   // allow picking the same file again
+        }}
       />
     </>
   );
@@ -1,7 +1,11 @@
 import * as React from "react";
 import { Link, useNavigate, useParams } from "react-router-dom";
 import LogoMark from "./LogoMark";
-import { listAgents } from "../services/agents";
+import WorkspaceSwitcher from "./WorkspaceSwitcher";
+import { Search } from "lucide-react";
+import { listAgents, listSharedAgents, type AgentAccessRole } from "../services/agents";
+import { useAuth } from "../auth/AuthProvider";
+import { getActiveWorkspaceId } from "../workspace";
 
 export type Agent = {
   id: number | string;
@@ -18,6 +22,7 @@ export type SidebarNavProps = {
 };
 
 const ACCENT = "#E7E31B";
+const PAGE_SIZE = 30;
 const FALLBACK_THUMB = "/assets/personas/placeholder.png";
 
 const getAgentName = (a: Agent) =>
@@ -76,36 +81,117 @@ const SidebarNav: React.FC<SidebarNavProps> = ({
 }) => {
   const navigate = useNavigate();
   const { id: activeId } = useParams<{ id?: string }>();
+  const { user } = useAuth();
+  const isAdmin = user?.userRole === "ADMIN" || user?.userRole === "SUPER_ADMIN";
 
+  const [workspaceId, setWorkspaceId] = React.useState<number | null>(() => getActiveWorkspaceId());
+  const [workspaceRole, setWorkspaceRole] = React.useState<AgentAccessRole>("owner");
   const [agents, setAgents] = React.useState<Agent[]>([]);
+  const [sharedAgents, setSharedAgents] = React.useState<Agent[]>([]);
   const [loading, setLoading] = React.useState(true);
   const [error, setError] = React.useState<unknown | null>(null);
 
+  // The list is paged: the first page loads on mount/search, the rest as the sentinel scrolls into view
+  const [search, setSearch] = React.useState("");
+  const [query, setQuery] = React.useState("");
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = React.useState(false);
+  const sentinelRef = React.useRef<HTMLDivElement>(null);
+  // Responses of superseded requests (older search, previous workspace) are dropped
+  const requestRef = React.useRef(0);
+
+  React.useEffect(() => {
+    const t = setTimeout(() => setQuery(search.trim()), 300);
+    return () => clearTimeout(t);
+  }, [search]);
+
   const refreshAgents = React.useCallback(async () => {
+    const request = ++requestRef.current;
     try {
       setLoading(true);
       setError(null);
-      const res: any = await listAgents();
-      const data = Array.isArray(res) ? res : (res?.agents ?? []);
-      setAgents(data);
+      const res = await listAgents({ organizationId: workspaceId, q: query, limit: PAGE_SIZE });
+      if (request !== requestRef.current) return;
+      setAgents(res.agents);
+      setNextCursor(res.nextCursor);
+      setWorkspaceRole(res.role ?? "owner");
     } catch (e) {
-      setError(e);
+      if (request === requestRef.current) setError(e);
     } finally {
-      setLoading(false);
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [workspaceId, query]);
+
+  const loadMore = React.useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const request = requestRef.current;
+    try {
+      setLoadingMore(true);
+      const res = await listAgents({ organizationId: workspaceId, q: query, limit: PAGE_SIZE, cursor: nextCursor });
+      if (request !== requestRef.current) return;
+      setAgents((prev) => {
+        const seen = new Set(prev.map((a) => String(a.id)));
+        return [...prev, ...res.agents.filter((a) => !seen.has(String(a.id)))];
+      });
+      setNextCursor(res.nextCursor);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [workspaceId, query, nextCursor, loadingMore]);
+
+  React.useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el || !nextCursor) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((e) => e.isIntersecting)) void loadMore();
+    }, { rootMargin: "200px" });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
+
+  // Shared-with-me is the same in every workspace; a failure just hides the section
+  const refreshShared = React.useCallback(async () => {
+    try {
+      const res = await listSharedAgents();
+      setSharedAgents(res.agents);
+    } catch {
+      setSharedAgents([]);
     }
   }, []);
 
+  React.useEffect(() => {
+    const onChanged = (e: Event) => setWorkspaceId((e as CustomEvent).detail?.organizationId ?? null);
+    window.addEventListener("workspace:changed", onChanged);
+    return () => window.removeEventListener("workspace:changed", onChanged);
+  }, []);
+
   React.useEffect(() => {
     const ac = new AbortController();
     refreshAgents();
     return () => ac.abort();
   }, [refreshAgents]);
 
+  React.useEffect(() => { void refreshShared(); }, [refreshShared]);
+
+  // Patch the loaded pages in place when the event says what changed; reload the first page otherwise
   React.useEffect(() => {
-    const onChanged = (_e: any) => { refreshAgents(); };
-    window.addEventListener("agents:changed", onChanged as any);
-    return () => window.removeEventListener("agents:changed", onChanged as any);
-  }, [refreshAgents]);
+    const onChanged = (e: Event) => {
+      const detail = (e as CustomEvent).detail as { type?: string; agent?: Agent; id?: number | string } | undefined;
+      const changed = detail?.agent;
+      if (detail?.type === "updated" && changed?.id !== undefined) {
+        setAgents((prev) => prev.map((a) => (String(a.id) === String(changed.id) ? { ...a, ...changed } : a)));
+      } else if ((detail?.type === "deleted" || detail?.type === "archived") && detail.id !== undefined) {
+        setAgents((prev) => prev.filter((a) => String(a.id) !== String(detail.id)));
+      } else {
+        void refreshAgents();
+      }
+      void refreshShared();
+    };
+    window.addEventListener("agents:changed", onChanged);
+    return () => window.removeEventListener("agents:changed", onChanged);
+  }, [refreshAgents, refreshShared]);
 
   
   const onAgentClick = (a: Agent) => navigate(`/agents/${a.id}`);
@@ -115,18 +201,38 @@ const SidebarNav: React.FC<SidebarNavProps> = ({
     <nav className={`h-full flex flex-col ${className}`} aria-label="Sidebar">
       <style>{`.no-scrollbar{ -ms-overflow-style:none; scrollbar-width:none } .no-scrollbar::-webkit-scrollbar{ display:none }`}</style>
 
-      <header className="flex-none h-40 md:h-48 px-2">
+      <header className="flex-none h-52 md:h-60 px-2">
         <div className="w-full h-full flex flex-col items-center justify-center gap-4">
           <LogoMark src={"/assets/logo.png"} size={96} />
-          <Link to="/create" className="flex items-center gap-3 text-white font-extrabold select-none" aria-label="Create Agent">
-            <span className="grid place-items-center w-8 h-8 rounded-full bg-white text-black text-2xl leading-none">+</span>
-            <span className="uppercase leading-[0.95] text-[20px] text-left">
-              CREATE<br />AGENT
-            </span>
-          </Link>
+          <WorkspaceSwitcher />
+          {/* viewers of a workspace can't add agents to it */}
+          {workspaceRole !== "viewer" && (
+            <Link to="/create" className="flex items-center gap-3 text-white font-extrabold select-none" aria-label="Create Agent">
+              <span className="grid place-items-center w-8 h-8 rounded-full bg-white text-black text-2xl leading-none">+</span>
+              <span className="uppercase leading-[0.95] text-[20px] text-left">
+                CREATE<br />AGENT
+              </span>
+            </Link>
+          )}
         </div>
       </header>
 
+      {!overrideAgents && (
+        <div className="flex-none px-1 pb-2">
+          <label className="flex items-center gap-2 rounded-xl bg-[#1c1c1c] px-3 h-9 text-sm text-white/60 focus-within:text-white">
+            <Search className="w-4 h-4 flex-none" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search agents"
+              aria-label="Search agents"
+              className="w-full bg-transparent text-white placeholder-white/40 focus:outline-none"
+            />
+          </label>
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto no-scrollbar px-1 space-y-2">
         {children}
         {loading && <div className="text-gray-400 text-sm px-3 py-2">Loading agents…</div>}
@@ -140,11 +246,34 @@ const SidebarNav: React.FC<SidebarNavProps> = ({
           );
         })}
         {!loading && !error && data.length === 0 && (
-          <div className="text-gray-400 text-sm px-3 py-2">No agents yet.</div>
+          <div className="text-gray-400 text-sm px-3 py-2">{query ? "No matching agents." : "No agents yet."}</div>
+        )}
+        {!overrideAgents && !loading && nextCursor && (
+          <div ref={sentinelRef} className="text-gray-400 text-sm px-3 py-2">
+            {loadingMore ? "Loading more…" : null}
+          </div>
+        )}
+        {!overrideAgents && sharedAgents.length > 0 && (
+          <>
+            <div className="text-white/60 text-xs font-extrabold uppercase tracking-wide px-3 pt-4">Shared with me</div>
+            {sharedAgents.map((a) => (
+              <div key={`shared-${a.id}`}>
+                <SidebarAgentCard agent={a} active={String(a.id) === String(activeId ?? "")} onClick={onAgentClick} />
+              </div>
+            ))}
+          </>
         )}
       </div>
 
       <footer className="flex-none px-0 p-0 m-0 mt-auto">
+        <Link to="/trash" className="block text-center text-white/60 hover:text-white font-extrabold uppercase tracking-wide text-sm pt-3">
+          Archive &amp; Trash
+        </Link>
+        {isAdmin && (
+          <Link to="/admin" className="block text-center text-white/60 hover:text-white font-extrabold uppercase tracking-wide text-sm pt-3">
+            Admin
+          </Link>
+        )}
         <button className="w-full h-14 md:h-16 flex items-center justify-center text-center p-0 m-0">
           <Link to="/account" className="block text-white font-extrabold uppercase tracking-wide">
             Account
@@ -0,0 +1,188 @@
+// src/components/Trash/TrashList.tsx
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { ArchiveRestore, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "react-hot-toast";
+import {
+  listAgents,
+  listTrash,
+  purgeAgent,
+  restoreAgent,
+  setAgentArchived,
+  type Agent,
+  type TrashedAgent,
+} from "../../services/agents";
+import type { ApiError } from "../../lib/api";
+import { getActiveWorkspaceId } from "../../workspace";
+
+const rowClass = "flex items-center gap-3 rounded-2xl bg-[#0b0b0b] border border-[#222] px-4 py-3";
+const iconButtonClass =
+  "grid place-items-center w-9 h-9 rounded-full bg-[#1c1c1c] hover:bg-[#2a2a2a] disabled:opacity-50 shrink-0";
+
+function AgentLabel({ agent, meta }: { agent: Agent; meta: string }) {
+  return (
+    <div className="min-w-0 flex-1">
+      <div className="font-semibold truncate">{agent.identity.name || `Agent #${agent.id}`}</div>
+      <div className="text-xs text-gray-400 truncate">
+        {agent.identity.role} · {meta}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Center pane of /trash for the active workspace: archived agents (unarchive)
+ * and deleted ones (restore, or delete for good before they are purged).
+ */
+export default function TrashList() {
+  const navigate = useNavigate();
+  const [workspaceId, setWorkspaceId] = React.useState<number | null>(() => getActiveWorkspaceId());
+  const [archived, setArchived] = React.useState<Agent[] | null>(null);
+  const [trash, setTrash] = React.useState<TrashedAgent[] | null>(null);
+  // set when the trash can't be shown (workspace members who aren't owners)
+  const [trashError, setTrashError] = React.useState<string | null>(null);
+  const [busyId, setBusyId] = React.useState<number | null>(null);
+  const [confirmPurge, setConfirmPurge] = React.useState<TrashedAgent | null>(null);
+
+  React.useEffect(() => {
+    const onChanged = (e: Event) => setWorkspaceId((e as CustomEvent).detail?.organizationId ?? null);
+    window.addEventListener("workspace:changed", onChanged);
+    return () => window.removeEventListener("workspace:changed", onChanged);
+  }, []);
+
+  const reload = React.useCallback(async () => {
+    const [archivedRes, trashRes] = await Promise.allSettled([
+      listAgents({ organizationId: workspaceId, archived: true, limit: 100 }),
+      listTrash(workspaceId),
+    ]);
+    setArchived(archivedRes.status === "fulfilled" ? archivedRes.value.agents : []);
+    if (trashRes.status === "fulfilled") {
+      setTrash(trashRes.value);
+      setTrashError(null);
+    } else {
+      setTrash([]);
+      setTrashError((trashRes.reason as ApiError).message || "Could not load the trash.");
+    }
+  }, [workspaceId]);
+
+  React.useEffect(() => { void reload(); }, [reload]);
+
+  async function run(agentId: number, action: () => Promise<unknown>, done: string) {
+    setBusyId(agentId);
+    try {
+      await action();
+      toast.success(done);
+      window.dispatchEvent(new CustomEvent("agents:changed", { detail: { type: "restored", id: agentId } }));
+      await reload();
+    } catch (e) {
+      toast.error((e as ApiError).message || "Something went wrong.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="text-white space-y-8">
+      <section className="space-y-3">
+        <h1 className="text-3xl font-extrabold">Archived</h1>
+        <p className="text-sm text-gray-400">Archived agents are hidden from the sidebar but keep working.</p>
+        {archived === null ? (
+          <div className="h-[62px] rounded-2xl bg-[#0b0b0b] border border-[#222] animate-pulse" />
+        ) : archived.length === 0 ? (
+          <p className="text-sm text-gray-400">No archived agents.</p>
+        ) : (
+          <ul className="space-y-2">
+            {archived.map((a) => (
+              <li key={a.id} className={rowClass}>
+                <button type="button" className="min-w-0 flex-1 text-left" onClick={() => navigate(`/agents/${a.id}`)}>
+                  <AgentLabel agent={a} meta={`archived ${new Date(a.archivedAt ?? a.updatedAt).toLocaleDateString()}`} />
+                </button>
+                <button
+                  type="button"
+                  className={iconButtonClass}
+                  disabled={busyId === a.id}
+                  onClick={() => void run(a.id, () => setAgentArchived(a.id, false), "Agent unarchived.")}
+                  aria-label="Unarchive"
+                  title="Unarchive"
+                >
+                  <ArchiveRestore className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <h1 className="text-3xl font-extrabold">Trash</h1>
+        <p className="text-sm text-gray-400">Deleted agents can be restored until they are deleted for good.</p>
+        {trashError ? (
+          <p className="text-sm text-gray-400">{trashError}</p>
+        ) : trash === null ? (
+          <div className="h-[62px] rounded-2xl bg-[#0b0b0b] border border-[#222] animate-pulse" />
+        ) : trash.length === 0 ? (
+          <p className="text-sm text-gray-400">The trash is empty.</p>
+        ) : (
+          <ul className="space-y-2">
+            {trash.map((a) => (
+              <li key={a.id} className={rowClass}>
+                <AgentLabel agent={a} meta={`deleted for good on ${new Date(a.purgeAt).toLocaleDateString()}`} />
+                <button
+                  type="button"
+                  className={iconButtonClass}
+                  disabled={busyId === a.id}
+                  onClick={() => void run(a.id, () => restoreAgent(a.id), "Agent restored.")}
+                  aria-label="Restore"
+                  title="Restore"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  className={`${iconButtonClass} text-red-400`}
+                  disabled={busyId === a.id}
+                  onClick={() => setConfirmPurge(a)}
+                  aria-label="Delete forever"
+                  title="Delete forever"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {confirmPurge && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/70" onClick={() => busyId === null && setConfirmPurge(null)} />
+          <div className="relative z-10 w-full max-w-sm rounded-2xl bg-[#121212] p-6 shadow-xl border border-white/10">
+            <h3 className="text-lg font-semibold">Delete “{confirmPurge.identity.name}” forever?</h3>
+            <p className="mt-2 text-sm text-gray-300">
+              Its connections, conversations, knowledge and history are deleted too. This cannot be undone.
+            </p>
+            <div className="mt-6 flex justify-end gap-3">
+              <button
+                className="px-4 h-10 rounded-xl border border-white/10"
+                onClick={() => setConfirmPurge(null)}
+                disabled={busyId !== null}
+              >
+                Cancel
+              </button>
+              <button
+                className="px-4 h-10 rounded-xl bg-red-600 hover:bg-red-700 text-white"
+                disabled={busyId !== null}
+                onClick={() => {
+                  const target = confirmPurge;
+                  void run(target.id, () => purgeAgent(target.id), "Agent deleted forever.").then(() => setConfirmPurge(null));
+                }}
+              >
+                {busyId !== null ? "Deleting…" : "Delete forever"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+// src/components/WorkspaceSwitcher.tsx
+import React from "react";
+import { Check, ChevronDown, Mail, Plus, UserPlus } from "lucide-react";
+import { toast } from "react-hot-toast";
+import {
+  acceptInvitation,
+  createOrganization,
+  declineInvitation,
+  inviteMember,
+  listMyInvitations,
+  listOrganizations,
+  type MemberRole,
+  type Organization,
+  type OrganizationInvitation,
+} from "../services/organizations";
+import { getActiveWorkspaceId, setActiveWorkspaceId } from "../workspace";
+import type { ApiError } from "../lib/api";
+
+const ACCENT = "#E7E31B";
+
+const inputClass =
+  "min-w-0 flex-1 rounded-full bg-black text-white border border-[#222] px-3 h-8 text-xs placeholder-gray-500 focus:outline-none";
+
+function describeError(err: unknown) {
+  switch ((err as ApiError).message) {
+    case "email_unverified":
+      return "Verify your email to join a workspace.";
+    case "already_member":
+      return "That person is already a member.";
+    case "invitation_not_found":
+      return "This invitation has expired.";
+    default:
+      return "Something went wrong. Please try again.";
+  }
+}
+
+/**
+ * Sidebar header control: pick the active workspace (personal agents or an
+ * organization), answer pending invitations, create a workspace and, for
+ * owners, invite people into the active one.
+ */
+export default function WorkspaceSwitcher() {
+  const [open, setOpen] = React.useState(false);
+  const [activeId, setActiveId] = React.useState<number | null>(() => getActiveWorkspaceId());
+  const [organizations, setOrganizations] = React.useState<Organization[]>([]);
+  const [invitations, setInvitations] = React.useState<OrganizationInvitation[]>([]);
+  const [newName, setNewName] = React.useState("");
+  const [inviteEmail, setInviteEmail] = React.useState("");
+  const [inviteRole, setInviteRole] = React.useState<MemberRole>("viewer");
+  const [busy, setBusy] = React.useState(false);
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const [orgs, invites] = await Promise.all([listOrganizations(), listMyInvitations()]);
+      setOrganizations(orgs);
+      setInvitations(invites);
+      // the stored workspace may be gone (left, removed or deleted)
+      const stored = getActiveWorkspaceId();
+      if (stored && !orgs.some((o) => o.id === stored)) setActiveWorkspaceId(null);
+    } catch {
+      // the switcher stays on what it has
+    }
+  }, []);
+
+  React.useEffect(() => { void refresh(); }, [refresh]);
+
+  React.useEffect(() => {
+    const onChanged = (e: Event) => setActiveId((e as CustomEvent).detail?.organizationId ?? null);
+    window.addEventListener("workspace:changed", onChanged);
+    return () => window.removeEventListener("workspace:changed", onChanged);
+  }, []);
+
+  const active = organizations.find((o) => o.id === activeId) ?? null;
+
+  function select(id: number | null) {
+    setActiveWorkspaceId(id);
+    setOpen(false);
+  }
+
+  async function run(fn: () => Promise<void>) {
+    setBusy(true);
+    try {
+      await fn();
+    } catch (err) {
+      toast.error(describeError(err));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    void run(async () => {
+      const org = await createOrganization(name);
+      setNewName("");
+      await refresh();
+      select(org.id);
+    });
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!active || !inviteEmail.trim()) return;
+    void run(async () => {
+      await inviteMember(active.id, inviteEmail.trim(), inviteRole);
+      setInviteEmail("");
+      toast.success("Invitation sent.");
+    });
+  };
+
+  const handleAccept = (inv: OrganizationInvitation) =>
+    run(async () => {
+      const org = await acceptInvitation(inv.id);
+      await refresh();
+      select(org.id);
+      toast.success(`Joined ${org.name}.`);
+    });
+
+  const handleDecline = (inv: OrganizationInvitation) =>
+    run(async () => {
+      await declineInvitation(inv.id);
+      await refresh();
+    });
+
+  const option = (id: number | null, label: string, hint?: string) => (
+    <button
+      key={id ?? "personal"}
+      type="button"
+      onClick={() => select(id)}
+      className="w-full flex items-center gap-2 rounded-xl px-3 py-2 text-left text-sm hover:bg-[#1a1a1a]"
+    >
+      <span className="min-w-0 flex-1 truncate">{label}</span>
+      {hint && <span className="text-[10px] uppercase text-gray-500">{hint}</span>}
+      {id === activeId && <Check className="w-4 h-4" style={{ color: ACCENT }} />}
+    </button>
+  );
+
+  return (
+    <div className="relative w-full">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="w-full flex items-center justify-between gap-2 rounded-full border border-[#222] bg-black px-4 h-9 text-sm text-white"
+        aria-expanded={open}
+        aria-label="Switch workspace"
+      >
+        <span className="truncate font-semibold">{active?.name ?? "Personal"}</span>
+        {invitations.length > 0 && (
+          <span className="rounded-full px-1.5 text-[10px] font-bold text-black" style={{ backgroundColor: ACCENT }}>
+            {invitations.length}
+          </span>
+        )}
+        <ChevronDown className="w-4 h-4 shrink-0 text-gray-400" />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 right-0 top-11 z-20 rounded-2xl border border-[#222] bg-[#0b0b0b] p-2 text-white shadow-xl space-y-2">
+          <div>
+            {option(null, "Personal")}
+            {organizations.map((o) => option(o.id, o.name, o.role ?? undefined))}
+          </div>
+
+          {invitations.length > 0 && (
+            <div className="border-t border-[#1e1e1e] pt-2 space-y-1">
+              {invitations.map((inv) => (
+                <div key={inv.id} className="px-3 py-1 text-xs">
+                  <div className="flex items-center gap-1.5 text-gray-300">
+                    <Mail className="w-3.5 h-3.5" />
+                    <span className="truncate">
+                      {inv.organizationName} <span className="text-gray-500">as {inv.role}</span>
+                    </span>
+                  </div>
+                  <div className="mt-1 flex gap-3">
+                    <button type="button" disabled={busy} className="font-bold" style={{ color: ACCENT }} onClick={() => void handleAccept(inv)}>
+                      Join
+                    </button>
+                    <button type="button" disabled={busy} className="text-gray-400 hover:text-white" onClick={() => void handleDecline(inv)}>
+                      Decline
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {active?.role === "owner" && (
+            <form onSubmit={handleInvite} className="border-t border-[#1e1e1e] pt-2 flex items-center gap-1.5">
+              <input
+                className={inputClass}
+                type="email"
+                placeholder="Invite by email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+              />
+              <select
+                className="rounded-full bg-black text-white border border-[#222] px-2 h-8 text-xs focus:outline-none"
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as MemberRole)}
+              >
+                <option value="viewer">Viewer</option>
+                <option value="editor">Editor</option>
+                <option value="owner">Owner</option>
+              </select>
+              <button type="submit" disabled={busy} aria-label="Send invitation" className="text-gray-300 hover:text-white">
+                <UserPlus className="w-4 h-4" />
+              </button>
+            </form>
+          )}
+
+          <form onSubmit={handleCreate} className="border-t border-[#1e1e1e] pt-2 flex items-center gap-1.5">
+            <input
+              className={inputClass}
+              placeholder="New workspace"
+              value={newName}
+              maxLength={120}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <button type="submit" disabled={busy} aria-label="Create workspace" className="text-gray-300 hover:text-white">
+              <Plus className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import * as React from "react";
+import type { ChatMessage } from "../components/Agent/CenterStage";
+import {
+  listConversations,
+  createConversation,
+  listMessages,
+  streamMessage,
+  cancelStream,
+  type ConversationMessage,
+} from "../services/conversations";
+
+function toChatMessage(m: ConversationMessage): ChatMessage {
+  return {
+    id: String(m.id),
+    role: m.role,
+    text: m.text,
+    status: m.status === "error" ? "error" : m.status === "streaming" ? "pending" : "normal",
+    sources: m.sources?.length ? m.sources : undefined,
+  };
+}
+
+function tempId() {
+  return `tmp-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Persisted chat with one agent, shaped for CenterStage's controlled
+ * `messages` / `onSendMessage` props. Resumes the latest conversation,
+ * lazily creates one on the first send, and streams replies token by token.
+ */
+export function useAgentChat(agentId?: string | number) {
+  const [messages, setMessages] = React.useState<ChatMessage[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [streaming, setStreaming] = React.useState(false);
+  const conversationIdRef = React.useRef<number | null>(null);
+  const streamRef = React.useRef<{ controller: AbortController; replyId: number | null } | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    conversationIdRef.current = null;
+    setMessages([]);
+    if (!agentId) return;
+
+    (async () => {
+      setLoading(true);
+      try {
+        const { conversations } = await listConversations(agentId);
+        const latest = conversations[0];
+        if (!latest || cancelled) return;
+        conversationIdRef.current = latest.id;
+        const res = await listMessages(agentId, latest.id);
+        if (!cancelled) setMessages(res.messages.map(toChatMessage));
+      } catch (e) {
+        console.error(e);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      // Leaving the agent: stop reading (generation finishes server-side)
+      streamRef.current?.controller.abort();
+      streamRef.current = null;
+    };
+  }, [agentId]);
+
+  const patchMessage = (id: string, patch: Partial<ChatMessage> | ((m: ChatMessage) => Partial<ChatMessage>)) =>
+    setMessages((prev) =>
+      prev.map((m) => (m.id === id ? { ...m, ...(typeof patch === "function" ? patch(m) : patch) } : m))
+    );
+
+  const send = React.useCallback(
+    async (text: string) => {
+      if (!agentId || streamRef.current) return;
+      const pendingId = tempId();
+      let replyKey: string | null = null;
+      const controller = new AbortController();
+      streamRef.current = { controller, replyId: null };
+      setStreaming(true);
+      setMessages((prev) => [...prev, { id: pendingId, role: "user", text, status: "pending" }]);
+
+      try {
+        if (conversationIdRef.current == null) {
+          const { conversation } = await createConversation(agentId);
+          conversationIdRef.current = conversation.id;
+        }
+        await streamMessage(
+          agentId,
+          conversationIdRef.current,
+          text,
+          {
+            onStart: ({ message, reply }) => {
+              replyKey = String(reply.id);
+              if (streamRef.current) streamRef.current.replyId = reply.id;
+              setMessages((prev) => [
+                ...prev.map((m) => (m.id === pendingId ? toChatMessage(message) : m)),
+                { ...toChatMessage(reply), status: "pending" },
+              ]);
+            },
+            onToken: (delta) => {
+              if (replyKey) patchMessage(replyKey, (m) => ({ text: m.text + delta }));
+            },
+            onDone: (reply) => {
+              if (replyKey) patchMessage(replyKey, toChatMessage(reply));
+            },
+            onError: (reply) => {
+              if (replyKey) {
+                patchMessage(replyKey, {
+                  ...(reply ? toChatMessage(reply) : {}),
+                  status: "error",
+                  error: "Reply failed",
+                });
+              }
+            },
+          },
+          controller.signal
+        );
+      } catch (e: unknown) {
+        if (controller.signal.aborted) return;
+        const error = e instanceof Error ? e.message : "Failed to send";
+        patchMessage(replyKey ?? pendingId, { status: "error", error });
+      } finally {
+        if (streamRef.current?.controller === controller) {
+          streamRef.current = null;
+          setStreaming(false);
+        }
+      }
+    },
+    [agentId]
+  );
+
+  /** Stop the reply being streamed; keeps whatever text arrived so far */
+  const cancel = React.useCallback(async () => {
+    const current = streamRef.current;
+    if (!current || !agentId) return;
+    streamRef.current = null;
+    setStreaming(false);
+    current.controller.abort();
+    if (current.replyId != null && conversationIdRef.current != null) {
+      patchMessage(String(current.replyId), { status: "normal" });
+      try {
+        await cancelStream(agentId, conversationIdRef.current, current.replyId);
+      } catch (e) {
+        console.error(e);
+      }
+    }
+  }, [agentId]);
+
+  return { messages, loading, streaming, send, cancel };
+}
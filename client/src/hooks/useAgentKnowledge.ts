@@ -0,0 +1,108 @@
+import * as React from "react";
+import {
+  listKnowledge,
+  uploadKnowledge,
+  deleteKnowledge,
+  type KnowledgeDocument,
+} from "../services/knowledge";
+
+/** Server documents plus local rows for files still uploading */
+export type KnowledgeItem = Omit<KnowledgeDocument, "id" | "status"> & {
+  id: number | string;
+  status: KnowledgeDocument["status"] | "uploading";
+};
+
+const POLL_MS = 1500;
+
+function uploadingItem(agentId: number, file: File): KnowledgeItem {
+  const now = new Date().toISOString();
+  return {
+    id: `tmp-${Math.random().toString(36).slice(2, 9)}`,
+    agentId,
+    filename: file.name,
+    mimeType: file.type,
+    sizeBytes: file.size,
+    status: "uploading",
+    error: null,
+    chunkCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Knowledge documents of one agent for the Brain step: upload, delete, and
+ * poll while any document is still being indexed.
+ */
+export function useAgentKnowledge(agentId?: string | number) {
+  const [documents, setDocuments] = React.useState<KnowledgeItem[]>([]);
+  const [loading, setLoading] = React.useState(false);
+
+  const refresh = React.useCallback(async () => {
+    if (!agentId) return;
+    const res = await listKnowledge(agentId);
+    setDocuments((prev) => [
+      ...prev.filter((d) => d.status === "uploading"),
+      ...res.documents,
+    ]);
+  }, [agentId]);
+
+  React.useEffect(() => {
+    setDocuments([]);
+    if (!agentId) return;
+    let cancelled = false;
+    setLoading(true);
+    refresh()
+      .catch((e) => console.error(e))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId, refresh]);
+
+  const processing = documents.some((d) => d.status === "processing");
+  React.useEffect(() => {
+    if (!processing) return;
+    const t = window.setInterval(() => {
+      refresh().catch((e) => console.error(e));
+    }, POLL_MS);
+    return () => window.clearInterval(t);
+  }, [processing, refresh]);
+
+  const upload = React.useCallback(
+    async (file: File) => {
+      if (!agentId) return;
+      const pending = uploadingItem(Number(agentId), file);
+      setDocuments((prev) => [pending, ...prev]);
+      try {
+        const { document } = await uploadKnowledge(agentId, file);
+        setDocuments((prev) => prev.map((d) => (d.id === pending.id ? document : d)));
+      } catch (e) {
+        console.error(e);
+        const error = e instanceof Error ? e.message : "Upload failed";
+        setDocuments((prev) =>
+          prev.map((d) => (d.id === pending.id ? { ...d, status: "error", error } : d))
+        );
+      }
+    },
+    [agentId]
+  );
+
+  const remove = React.useCallback(
+    async (item: KnowledgeItem) => {
+      setDocuments((prev) => prev.filter((d) => d.id !== item.id));
+      if (!agentId || typeof item.id !== "number") return;
+      try {
+        await deleteKnowledge(agentId, item.id);
+      } catch (e) {
+        console.error(e);
+        refresh().catch(() => {});
+      }
+    },
+    [agentId, refresh]
+  );
+
+  return { documents, loading, upload, remove };
+}
@@ -1,4 +1,5 @@
-// Lightweight API wrapper (stateless JWT: no refresh-cookie, no auto /refresh)
+// Lightweight API wrapper: short-lived Bearer JWT + httpOnly refresh cookie.
+// A 401 triggers one POST /auth/refresh (shared by concurrent calls) and a retry.
 
 import { getCurrentUserId, getAccessTokenFromStorage } from "../session";
 
@@ -16,7 +17,7 @@ type Setter = (token: string | null) => void;
 
 // Will be set by AuthProvider, but we also guard with a localStorage fallback.
 let getAccessToken: Getter = () => null;
-// kept for back-compat; we won't call it here (no refresh flow on the client)
+// Called with the new token after a refresh (or null once the session is gone)
 let setAccessToken: Setter = () => {};
 
 export function setAccessTokenGetter(fn: Getter) {
@@ -26,6 +27,11 @@ export function setAccessTokenHandler(fn: Setter) {
   setAccessToken = fn;
 }
 
+/** Hand a token obtained outside the auth flow (e.g. after a password change) to AuthProvider */
+export function updateAccessToken(token: string | null) {
+  setAccessToken(token);
+}
+
 /* ------------------------------------------------------------------ */
 /* Config                                                              */
 /* ------------------------------------------------------------------ */
@@ -36,6 +42,11 @@ const API_URL =
 
 const API_PREFIX = "/api";
 
+/** Absolute URL of an API path, for full-page navigations (e.g. OIDC sign-in) */
+export function apiUrl(path: string) {
+  return `${API_URL}${API_PREFIX}${path}`;
+}
+
 /* ------------------------------------------------------------------ */
 /* Internals                                                           */
 /* ------------------------------------------------------------------ */
@@ -67,16 +78,53 @@ function withAuth(init?: RequestInit): RequestInit {
   return {
     ...init,
     headers,
-    // cookies are not required for stateless JWT; keeping include is harmless
+    // the refresh cookie must travel with /auth/* calls
     credentials: "include",
   };
 }
 
+// Endpoints whose 401 means "bad credentials", not "access token expired"
+const NO_REFRESH_PATHS = ["/auth/login", "/auth/login/2fa", "/auth/register", "/auth/refresh", "/auth/logout"];
+
+let refreshing: Promise<string | null> | null = null;
+
+/**
+ * Exchange the refresh cookie for a new access token. Concurrent callers share
+ * one request (refresh tokens are single-use). Resolves null when the session
+ * is gone; AuthProvider is told either way.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshing) {
+    refreshing = (async () => {
+      try {
+        const res = await fetch(`${API_URL}${API_PREFIX}/auth/refresh`, {
+          method: "POST",
+          credentials: "include",
+        });
+        const token = res.ok ? ((await res.json()) as { accessToken?: string }).accessToken ?? null : null;
+        setAccessToken(token);
+        return token;
+      } catch {
+        return null; // network error: keep the current token, the caller sees the 401
+      } finally {
+        refreshing = null;
+      }
+    })();
+  }
+  return refreshing;
+}
+
 async function request(path: string, init?: RequestInit): Promise<Response> {
   const url = path.startsWith("http") ? path : `${API_URL}${path}`;
   const res = await fetch(url, withAuth(init));
-  // No auto-refresh retry here. If it's 401, the caller (AuthProvider) should handle logout.
-  return res;
+  if (res.status !== 401 || NO_REFRESH_PATHS.some((p) => path.endsWith(p))) return res;
+
+  // Access token expired or revoked: refresh once, then retry with the new token
+  const token = await refreshAccessToken();
+  if (!token) return res;
+  const headers = new Headers(init?.headers || {});
+  headers.set("Authorization", `Bearer ${token}`);
+  return fetch(url, withAuth({ ...init, headers }));
 }
 
 async function json<T>(res: Response): Promise<T> {
@@ -93,43 +141,182 @@ export async function apiGet<T>(path: string): Promise<T> {
   return json<T>(res);
 }
 
-export async function apiPost<T>(path: string, body?: unknown): Promise<T> {
+// `headers` carries per-request extras such as If-Match
+
+export async function apiPost<T>(path: string, body?: unknown, headers?: Record<string, string>): Promise<T> {
   const res = await request(`${API_PREFIX}${path}`, {
     method: "POST",
     body: body ? JSON.stringify(body) : undefined,
+    headers,
   });
   if (!res.ok) throw await toApiError(res);
   return json<T>(res);
 }
 
-export async function apiPut<T>(path: string, body?: unknown): Promise<T> {
+export async function apiPut<T>(path: string, body?: unknown, headers?: Record<string, string>): Promise<T> {
   const res = await request(`${API_PREFIX}${path}`, {
     method: "PUT",
     body: body ? JSON.stringify(body) : undefined,
+    headers,
   });
   if (!res.ok) throw await toApiError(res);
   return json<T>(res);
 }
 
-export async function apiPatch<T>(path: string, body?: unknown): Promise<T> {
+export async function apiPatch<T>(path: string, body?: unknown, headers?: Record<string, string>): Promise<T> {
   const res = await request(`${API_PREFIX}${path}`, {
     method: "PATCH",
     body: body ? JSON.stringify(body) : undefined,
+    headers,
   });
   if (!res.ok) throw await toApiError(res);
   return json<T>(res);
 }
 
-export async function apiDelete<T>(path: string): Promise<T> {
-  const res = await request(`${API_PREFIX}${path}`, { method: "DELETE" });
+export async function apiDelete<T>(path: string, headers?: Record<string, string>): Promise<T> {
+  const res = await request(`${API_PREFIX}${path}`, { method: "DELETE", headers });
+  if (!res.ok) throw await toApiError(res);
+  return json<T>(res);
+}
+
+/**
+ * Upload a file as the raw request body (no multipart). The browser sets
+ * Content-Type from the Blob; extra headers (e.g. X-Filename) go in `headers`.
+ */
+export async function apiUpload<T>(path: string, file: Blob, headers?: Record<string, string>): Promise<T> {
+  const res = await request(`${API_PREFIX}${path}`, {
+    method: "POST",
+    body: file,
+    headers,
+  });
   if (!res.ok) throw await toApiError(res);
   return json<T>(res);
 }
 
+/* ------------------------------------------------------------------ */
+/* Streaming (Server-Sent Events over fetch)                           */
+/* ------------------------------------------------------------------ */
+// EventSource can't send an Authorization header, so we read the SSE
+// wire format from a fetch body instead; Bearer auth works as usual.
+
+export type StreamEvent = {
+  id?: string;
+  event: string;
+  data: string;
+};
+
+export type StreamOptions = {
+  method?: "GET" | "POST";
+  body?: unknown;
+  /** Abort to cancel the stream (no reconnect is attempted) */
+  signal?: AbortSignal;
+  onEvent: (e: StreamEvent) => void;
+  /** GET endpoint used to resume (with Last-Event-ID) if the connection drops */
+  resumePath?: string;
+  /** Events that end the stream; a drop before one of these triggers a resume */
+  terminalEvents?: string[];
+  maxRetries?: number;
+  retryDelayMs?: number;
+};
+
+/** Split a text/event-stream body into events. Returns the unparsed tail. */
+function parseSseChunk(buffer: string, emit: (e: StreamEvent) => void): string {
+  const frames = buffer.split(/\r?\n\r?\n/);
+  const rest = frames.pop() ?? "";
+  for (const frame of frames) {
+    const evt: StreamEvent = { event: "message", data: "" };
+    const data: string[] = [];
+    for (const line of frame.split(/\r?\n/)) {
+      if (!line || line.startsWith(":")) continue; // comment / heartbeat
+      const idx = line.indexOf(":");
+      const field = idx === -1 ? line : line.slice(0, idx);
+      const value = idx === -1 ? "" : line.slice(idx + 1).replace(/^ /, "");
+      if (field === "id") evt.id = value;
+      else if (field === "event") evt.event = value;
+      else if (field === "data") data.push(value);
+    }
+    if (!data.length && !evt.id) continue;
+    evt.data = data.join("\n");
+    emit(evt);
+  }
+  return rest;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Open an SSE stream with Bearer auth. Resolves when a terminal event
+ * arrives (or the stream closes and cannot be resumed), rejects on HTTP
+ * errors. Dropped connections are resumed via `resumePath` + Last-Event-ID.
+ */
+export async function apiStream(path: string, opts: StreamOptions): Promise<void> {
+  const {
+    method = "GET",
+    body,
+    signal,
+    onEvent,
+    resumePath,
+    terminalEvents = ["done", "error"],
+    maxRetries = 3,
+    retryDelayMs = 1000,
+  } = opts;
+
+  let lastEventId: string | null = null;
+  let finished = false;
+  let attempt = 0;
+
+  const emit = (e: StreamEvent) => {
+    if (e.id) lastEventId = e.id;
+    if (terminalEvents.includes(e.event)) finished = true;
+    onEvent(e);
+  };
+
+  while (!finished) {
+    const resuming = attempt > 0;
+    const headers = new Headers({ Accept: "text/event-stream" });
+    if (resuming && lastEventId) headers.set("Last-Event-ID", lastEventId);
+
+    try {
+      const res = await request(`${API_PREFIX}${resuming ? resumePath : path}`, {
+        method: resuming ? "GET" : method,
+        headers,
+        body: !resuming && body ? JSON.stringify(body) : undefined,
+        signal,
+      });
+      if (!res.ok) throw await toApiError(res);
+      if (!res.body) throw new Error("Streaming is not supported by this browser");
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer = parseSseChunk(buffer + decoder.decode(value, { stream: true }), emit);
+      }
+    } catch (e) {
+      // Cancelled by caller, or a real HTTP error: don't retry
+      if (signal?.aborted || (e as ApiError)?.status) throw e;
+    }
+
+    if (finished || signal?.aborted) return;
+    if (!resumePath || !lastEventId || attempt >= maxRetries) {
+      throw new Error("Stream interrupted");
+    }
+    attempt += 1;
+    await sleep(retryDelayMs * attempt);
+  }
+}
+
 /* ------------------------------------------------------------------ */
 /* Error utility                                                       */
 /* ------------------------------------------------------------------ */
-export type ApiError = Error & { status?: number; details?: unknown };
+export type ApiError = Error & {
+  status?: number;
+  details?: unknown;
+  /** Seconds to wait before retrying (429: Retry-After header, else body.retryAfter) */
+  retryAfter?: number;
+};
 
 async function toApiError(res: Response): Promise<ApiError> {
   let details: any = undefined;
@@ -145,5 +332,7 @@ async function toApiError(res: Response): Promise<ApiError> {
   );
   err.status = res.status;
   err.details = details;
+  const retryAfter = Number(res.headers.get("Retry-After") ?? details?.retryAfter);
+  if (Number.isFinite(retryAfter) && retryAfter > 0) err.retryAfter = retryAfter;
   return err;
 }
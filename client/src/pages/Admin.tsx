@@ -0,0 +1,34 @@
+// src/pages/Admin.tsx
+import React from "react";
+import ThreePaneLayout from "../layouts/ThreePaneLayout";
+import SidebarNav from "../components/SidebarNav";
+import AdminUserList from "../components/Admin/AdminUserList";
+import AdminUserPanel from "../components/Admin/AdminUserPanel";
+import type { AdminUser } from "../services/admin";
+
+/** Admin console (ADMIN / SUPER_ADMIN; gated by Protected in App.tsx) */
+export default function Admin() {
+  const [selected, setSelected] = React.useState<AdminUser | null>(null);
+  // bumped after an edit so the list reflects it
+  const [version, setVersion] = React.useState(0);
+
+  function handleChange(user: AdminUser) {
+    setSelected(user);
+    setVersion((v) => v + 1);
+  }
+
+  return (
+    <ThreePaneLayout
+      sidebar={<SidebarNav />}
+      center={<AdminUserList selectedId={selected?.id ?? null} onSelect={setSelected} version={version} />}
+      right={
+        selected ? (
+          <AdminUserPanel key={selected.id} user={selected} onChange={handleChange} />
+        ) : (
+          <p className="text-sm text-gray-400 pt-2">Select a user to manage their account.</p>
+        )
+      }
+      rightWidth={420}
+    />
+  );
+}
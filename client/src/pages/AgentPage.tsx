@@ -10,17 +10,51 @@ import VoiceSoulForm from "../components/Agent/Forms/VoiceSoulForm";
 import BrainForm from "../components/Agent/Forms/BrainForm";
 import BackgroundCardsForm from "../components/Agent/Forms/BackgroundCardsForm";
 import ConnectionsForm from "../components/Agent/Forms/ConnectionsForm";
+import PaywallDialog from "../components/Agent/PaywallDialog";
+import ShareDialog from "../components/Agent/ShareDialog";
+import HistoryDrawer from "../components/Agent/HistoryDrawer";
+import ConflictDialog, { type LocalAgentState } from "../components/Agent/ConflictDialog";
+import TemplatePicker from "../components/Agent/TemplatePicker";
+import DuplicateDialog from "../components/Agent/DuplicateDialog";
+import { useAgentChat } from "../hooks/useAgentChat";
+import { useAgentKnowledge } from "../hooks/useAgentKnowledge";
 
 import {
   getAgent,
   createAgent,
-  patchAgent,
+  saveAgentFull,
   listConnections,
   deleteAgent,
-  saveConnectionsDelta,
+  previewAgentPrompt,
+  exportAgent,
+  importAgent,
+  setAgentArchived,
+  asVersionConflict,
+  type AgentAccessRole,
+  type AgentTemplate,
+  type CompiledPrompt,
+  type ConnectionInput,
   type ConnectionItem,
+  type VersionConflict,
 } from "../services/agents";
-import { Zap, IdCard, UserRound, AudioLines, Layers, Brain, List, Eye, Trash2 } from "lucide-react";
+import {
+  getEntitlements,
+  isLockedFor,
+  asEntitlementError,
+  type Entitlements,
+  type LockedAsset,
+} from "../services/entitlements";
+import {
+  createDraft,
+  deleteDraft,
+  getLatestDraft,
+  saveDraft,
+  type AgentDraft,
+  type DraftPayload,
+} from "../services/drafts";
+import type { ApiError } from "../lib/api";
+import { getActiveWorkspaceId } from "../workspace";
+import { Zap, IdCard, UserRound, AudioLines, Layers, Brain, List, Eye, Trash2, Users, Copy, Download, Upload, Archive, ArchiveRestore } from "lucide-react";
 import InlineNotification from "../components/Notification";
 
 const ACCENT = "#E7E31B";
@@ -103,6 +137,18 @@ function toInt010(v?: number, fallback = 5) {
   return Math.max(0, Math.min(10, n));
 }
 
+// Connections as the server takes them (ids and timestamps are its own).
+// Loaded connections have no `token`; leaving it out keeps the stored one.
+function toConnectionInputs(items: ConnectionItem[]): ConnectionInput[] {
+  return items.map(({ providerId, extId, status, config, token }) => ({
+    providerId,
+    extId,
+    status: status ?? "needs_setup",
+    config: config ?? null,
+    ...(token !== undefined ? { token } : {}),
+  }));
+}
+
 function buildPayload(
   identity: { name?: string; role?: string; desc?: string | null; companyName?: string | null },
   appearance: { personaId?: string | null; bgColor?: string | null },
@@ -216,8 +262,83 @@ export default function AgentPage() {
   const [showNotif, setShowNotif] = React.useState(false);
   const [notifMessage, setNotifMessage] = React.useState<{ title: string; description?: string; variant?: "info" | "success" | "error" | "warning" }>({ title: "", description: "", variant: "info" });
   const [confirmDeleteOpen, setConfirmDeleteOpen] = React.useState(false);
+  const [shareOpen, setShareOpen] = React.useState(false);
+  const [historyOpen, setHistoryOpen] = React.useState(false);
+  // bumped to reload the agent from the server (e.g. after restoring a revision)
+  const [reloadKey, setReloadKey] = React.useState(0);
+
+  // Caller's role on the agent being edited (null while creating). Viewers get every step read-only.
+  const [role, setRole] = React.useState<AgentAccessRole | null>(null);
+  const readOnly = role === "viewer";
+
+  // Server version the edits are based on; saves send it so concurrent edits surface as a conflict
+  const versionRef = React.useRef<number | null>(null);
+  const [conflict, setConflict] = React.useState<VersionConflict | null>(null);
+
+  // Create mode autosaves the wizard to a server-side draft on every step change.
+  // Saves are queued so a slow first save can't spawn a second draft.
+  const draftIdRef = React.useRef<string | null>(null);
+  const draftQueueRef = React.useRef<Promise<void>>(Promise.resolve());
+  const [resumedDraft, setResumedDraft] = React.useState<AgentDraft | null>(null);
+  // /create without a draft to resume opens on the template gallery
+  const [templatePickerOpen, setTemplatePickerOpen] = React.useState(false);
+  const [duplicateOpen, setDuplicateOpen] = React.useState(false);
+  const importInputRef = React.useRef<HTMLInputElement>(null);
+  const [transferring, setTransferring] = React.useState(false);
+  // Archived agents are hidden from the sidebar but otherwise work as usual
+  const [archivedAt, setArchivedAt] = React.useState<string | null>(null);
+
+  // Plan entitlements: decide which premium assets show as locked, and feed the paywall
+  const [entitlements, setEntitlements] = React.useState<Entitlements | null>(null);
+  const [paywall, setPaywall] = React.useState<LockedAsset[] | null>(null);
+
+  React.useEffect(() => {
+    getEntitlements().then(setEntitlements).catch((e) => console.error(e));
+  }, []);
+
+  const isBackgroundLocked = React.useCallback(
+    (bg: { id: string; locked?: boolean }) =>
+      entitlements ? isLockedFor(entitlements, "background", bg.id) : !!bg.locked,
+    [entitlements]
+  );
 
-  const prevConnectionsRef = React.useRef<ConnectionItem[]>([]);
+  // Persisted chat with the agent being edited (create mode has nothing to talk to yet)
+  const chat = useAgentChat(editId);
+  const knowledge = useAgentKnowledge(editId);
+
+  const [compiledPrompt, setCompiledPrompt] = React.useState<CompiledPrompt | null>(null);
+  const [promptLoading, setPromptLoading] = React.useState(false);
+
+  // Live system-prompt preview while the Brain step is open (debounced)
+  React.useEffect(() => {
+    if (current !== "brain") return;
+    let cancelled = false;
+    setPromptLoading(true);
+    const t = window.setTimeout(async () => {
+      try {
+        const { prompt } = await previewAgentPrompt({
+          identity: {
+            name: identity.name?.trim() || undefined,
+            role: identity.role?.trim() || undefined,
+            companyName: identity.companyName ?? null,
+            desc: identity.desc ?? null,
+          },
+          voice: { language: voice.language, name: voice.name },
+          style,
+          brain: { instructions: brain.instructions ?? null },
+        });
+        if (!cancelled) setCompiledPrompt(prompt);
+      } catch (e) {
+        console.error(e);
+      } finally {
+        if (!cancelled) setPromptLoading(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(t);
+    };
+  }, [current, identity, voice, style, brain]);
 
   React.useEffect(() => {
     let cancelled = false;
@@ -227,6 +348,9 @@ export default function AgentPage() {
         if (editId) {
           const res = await getAgent(editId);
           const agent = (res as any)?.agent ?? res;
+          if (!cancelled) setRole(res?.role ?? "owner");
+          if (!cancelled) versionRef.current = agent?.version ?? null;
+          if (!cancelled) setArchivedAt(agent?.archivedAt ?? null);
           if (agent) {
             const mapped = serverToLocal(agent);
             if (!cancelled) {
@@ -242,16 +366,18 @@ export default function AgentPage() {
           try {
             if (editId) {
               const serverConnections = await listConnections(editId);
-              if (!cancelled) {
-                setConnections({ items: serverConnections });
-                prevConnectionsRef.current = serverConnections; // snapshot for diff
-              }
+              if (!cancelled) setConnections({ items: serverConnections });
             }
           } catch {
             /* ignore connections error */
           }
         } else {
-          // CREATE mode — start clean
+          // CREATE mode — start clean, then resume the latest draft if there is one
+          setRole(null);
+          setCurrent("identity");
+          draftIdRef.current = null;
+          setResumedDraft(null);
+          setTemplatePickerOpen(false);
           setIdentity({ name: "", role: "", desc: "" });
           setAppearance({ personaId: null, bgColor: null });
           setVoice({
@@ -271,6 +397,30 @@ export default function AgentPage() {
           setBrain({ id: "", instructions: "" });
           setCards({ backgroundId: null });
           setConnections({ items: [] });
+
+          try {
+            const draft = await getLatestDraft(getActiveWorkspaceId());
+            if (draft && !cancelled) {
+              const { identity: i, appearance: a, voice: v, style: st, brain: b, cards: c, connections: conns } = draft.payload;
+              draftIdRef.current = draft.id;
+              setResumedDraft(draft);
+              setIdentity((prev) => ({ ...prev, ...i, companyName: i?.companyName ?? prev.companyName }));
+              setAppearance((prev) => ({ ...prev, ...a }));
+              setVoice((prev) => ({ ...prev, ...v }));
+              setStyle((prev) => ({ ...prev, ...st }));
+              setBrain((prev) => ({ ...prev, ...b }));
+              setCards((prev) => ({ ...prev, ...c }));
+              setConnections({
+                items: (conns ?? []).filter((x): x is ConnectionItem => !!x.extId && !!x.providerId),
+              });
+              const step = STEPS.find((s) => s.key === draft.step);
+              if (step) setCurrent(step.key);
+            } else if (!cancelled) {
+              setTemplatePickerOpen(true);
+            }
+          } catch (e) {
+            console.error(e);
+          }
         }
       } finally {
         if (!cancelled) setLoading(false);
@@ -279,21 +429,174 @@ export default function AgentPage() {
     return () => {
       cancelled = true;
     };
-  }, [editId]);
+  }, [editId, reloadKey]);
 
-  const next = () =>
-    setCurrent((prev) => STEPS[Math.min(STEPS.findIndex((s) => s.key === prev) + 1, STEPS.length - 1)].key);
-  const back = () =>
-    setCurrent((prev) => STEPS[Math.max(STEPS.findIndex((s) => s.key === prev) - 1, 0)].key);
-  const goto = (k: StepKey) => setCurrent(k);
+  function autosaveDraft(step: StepKey) {
+    const payload: DraftPayload = {
+      identity,
+      appearance,
+      voice: { language: voice.language, name: voice.name },
+      style,
+      brain,
+      cards,
+      connections: connections.items,
+    };
+    draftQueueRef.current = draftQueueRef.current.then(async () => {
+      try {
+        if (draftIdRef.current) {
+          try {
+            await saveDraft(draftIdRef.current, step, payload);
+            return;
+          } catch (err) {
+            // expired or discarded elsewhere: start a new draft below
+            if ((err as ApiError).status !== 404) throw err;
+          }
+        }
+        draftIdRef.current = (await createDraft(getActiveWorkspaceId(), step, payload)).id;
+      } catch (e) {
+        console.error(e);
+      }
+    });
+  }
+
+  const goto = (k: StepKey) => {
+    setCurrent(k);
+    if (!editId) autosaveDraft(k);
+  };
+  const next = () => goto(STEPS[Math.min(STEPS.findIndex((s) => s.key === current) + 1, STEPS.length - 1)].key);
+  const back = () => goto(STEPS[Math.max(STEPS.findIndex((s) => s.key === current) - 1, 0)].key);
+
+  function applyTemplate(t: AgentTemplate) {
+    const { identity: i, appearance: a, voice: v, style: st, brain: b } = t.preset;
+    setIdentity((prev) => ({ ...prev, ...i, companyName: i?.companyName ?? prev.companyName }));
+    setAppearance((prev) => ({ ...prev, ...a }));
+    setVoice((prev) => ({ ...prev, ...v }));
+    setStyle((prev) => ({ ...prev, ...st }));
+    setBrain((prev) => ({ ...prev, ...b }));
+    setTemplatePickerOpen(false);
+  }
+
+  async function handleDiscardDraft() {
+    await draftQueueRef.current;
+    const draftId = draftIdRef.current;
+    draftIdRef.current = null;
+    if (draftId) {
+      try {
+        await deleteDraft(draftId);
+      } catch (e) {
+        console.error(e);
+      }
+    }
+    setReloadKey((k) => k + 1);
+  }
+
+  async function handleExport() {
+    if (!editId) return;
+    setTransferring(true);
+    try {
+      const bundle = await exportAgent(editId);
+      const slug = (bundle.agent.identity.name || "agent").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" }));
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${slug || "agent"}.agent.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error(e);
+      setNotifMessage({ title: "Export failed", description: (e as ApiError).message, variant: "error" });
+      setShowNotif(true);
+    } finally {
+      setTransferring(false);
+    }
+  }
+
+  // Imports go to the active workspace, like newly created agents
+  async function handleImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setTransferring(true);
+    try {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        setNotifMessage({ title: "Import failed", description: "That file isn't valid JSON.", variant: "error" });
+        setShowNotif(true);
+        return;
+      }
+      const res = await importAgent(bundle, getActiveWorkspaceId());
+      const reauth = res.needsReauth.map((c) => c.providerId);
+      setNotifMessage(
+        reauth.length
+          ? {
+            title: "Agent imported.",
+            description: `Sign in again to reconnect: ${[...new Set(reauth)].join(", ")}.`,
+            variant: "warning",
+          }
+          : { title: "Agent imported.", variant: "success" }
+      );
+      setShowNotif(true);
+      window.dispatchEvent(new CustomEvent("agents:changed", { detail: { type: "created", agent: res.agent } }));
+      navigate(`/agents/${res.agent.id}`);
+    } catch (err) {
+      console.error(err);
+      const locked = asEntitlementError(err);
+      if (locked) {
+        setPaywall(locked.required);
+        return;
+      }
+      const issue = ((err as ApiError).details as { error?: string } | undefined)?.error;
+      setNotifMessage({
+        title: "Import failed",
+        description: issue === "unsupported_version"
+          ? "This file was exported by a newer version, or isn't an agent export."
+          : (err as ApiError).message,
+        variant: "error",
+      });
+      setShowNotif(true);
+    } finally {
+      setTransferring(false);
+    }
+  }
+
+  async function handleToggleArchived() {
+    if (!editId) return;
+    const archive = !archivedAt;
+    try {
+      const { agent } = await setAgentArchived(editId, archive, versionRef.current);
+      versionRef.current = agent.version;
+      setArchivedAt(agent.archivedAt ?? null);
+      setNotifMessage({ title: archive ? "Agent archived." : "Agent unarchived.", variant: "success" });
+      setShowNotif(true);
+      window.dispatchEvent(new CustomEvent("agents:changed", {
+        detail: archive ? { type: "archived", id: agent.id } : { type: "unarchived", agent },
+      }));
+    } catch (e) {
+      console.error(e);
+      const stale = asVersionConflict(e);
+      setNotifMessage({
+        title: archive ? "Archive failed" : "Unarchive failed",
+        description: stale ? "Someone else changed this agent. Reload and try again." : (e as ApiError).message,
+        variant: "error",
+      });
+      setShowNotif(true);
+    }
+  }
 
   async function handleConfirmDelete() {
     if (!editId) return;
     try {
       setDeleting(true);
-      await deleteAgent(editId);
-      setNotifMessage({ title: "Agent deleted.", variant: "success" });
+      const { purgeAt } = await deleteAgent(editId);
+      setNotifMessage({
+        title: "Agent moved to Trash.",
+        description: `You can restore it from Archive & Trash until ${new Date(purgeAt).toLocaleDateString()}.`,
+        variant: "success",
+      });
       setShowNotif(true);
+      window.dispatchEvent(new CustomEvent("agents:changed", { detail: { type: "deleted", id: editId } }));
       navigate("/agents");
     } catch (e: any) {
       console.error(e);
@@ -331,36 +634,46 @@ export default function AgentPage() {
       console.log("Agent: ", payload)
 
       if (editId) {
-        // 1) Update the agent core
-        await patchAgent(editId, agentPayload as any);
-
-        // 2) Apply delta for connections against original snapshot
-        await saveConnectionsDelta(editId, prevConnectionsRef.current, connections.items);
-
-        // 3) Snapshot the new current
-        prevConnectionsRef.current = connections.items;
+        // Agent and the full connection set in one transaction, guarded by the version the edits started from
+        const res = await saveAgentFull(
+          editId,
+          { ...(agentPayload as any), connections: toConnectionInputs(connections.items) },
+          versionRef.current
+        );
+        versionRef.current = res.agent.version;
+        setConnections({ items: res.connections });
 
         setNotifMessage({ title: "Agent updated.", variant: "success" });
         setShowNotif(true);
       } else {
         // CREATE
-        // 1) Create the agent first
-        const res = await createAgent(agentPayload as any);
-        const newId = (res as any)?.agent?.id ?? (res as any)?.id;
-
-        // 2) Save all connections as delta from empty
-        if (newId) {
-          await saveConnectionsDelta(newId, [], connections.items);
-        }
+        // Agent and connections in one call, finalizing the draft (let pending autosaves land first)
+        await draftQueueRef.current;
+        const res = await createAgent({
+          ...(agentPayload as any),
+          draftId: draftIdRef.current,
+          organizationId: getActiveWorkspaceId(),
+          connections: toConnectionInputs(connections.items),
+        });
+        draftIdRef.current = null;
 
         setNotifMessage({ title: "Agent created.", variant: "success" });
         setShowNotif(true);
 
-        // Optional: navigate to the edit page of the new agent
-        // navigate(`/agents/${newId}`);
+        navigate(`/agents/${res.agent.id}`);
       }
     } catch (e: any) {
       console.error(e);
+      const locked = asEntitlementError(e);
+      if (locked) {
+        setPaywall(locked.required);
+        return;
+      }
+      const stale = asVersionConflict(e);
+      if (stale) {
+        setConflict(stale);
+        return;
+      }
       setNotifMessage({
         title: "Failed to save agent.",
         description: e?.message ?? "Please check your input and try again.",
@@ -380,6 +693,22 @@ export default function AgentPage() {
     }
   }
 
+  // Conflict resolution: overwrite the newer server version with the local edits, or drop them
+  async function handleKeepMine() {
+    if (!conflict?.agent) return;
+    versionRef.current = conflict.agent.version;
+    setConflict(null);
+    await handleSave();
+  }
+  function handleUseServer() {
+    setConflict(null);
+    setReloadKey((k) => k + 1);
+  }
+  const localAgent = React.useMemo(
+    () => ({ identity, appearance, voice: { language: voice.language, name: voice.name }, style, brain, cards }) as LocalAgentState,
+    [identity, appearance, voice, style, brain, cards]
+  );
+
   const active = current;
   const activeIndex = STEPS.findIndex((s) => s.key === active);
 
@@ -387,29 +716,100 @@ export default function AgentPage() {
     <>
       <ThreePaneLayout
         sidebar={<SidebarNav />}
-        center={<CenterStage saving={saving} />}
+        center={
+          <CenterStage
+            saving={saving}
+            messages={editId ? chat.messages : undefined}
+            onSendMessage={editId ? chat.send : undefined}
+            streaming={chat.streaming}
+            onCancelStream={chat.cancel}
+          />
+        }
         right={
           <div className="h-full pr-7 lg:pr-8">
             {/* === OLD HEADER STYLE (exact HTML/classes; only values changed) === */}
             <div className="flex items-start justify-between">
               <div>
-                <div className="text-xs font-semibold uppercase tracking-widest text-[#a8a8a8]">{editId ? "Edit" : "Create"} Agent</div>
+                <div className="text-xs font-semibold uppercase tracking-widest text-[#a8a8a8]">{readOnly ? "View" : editId ? "Edit" : "Create"} Agent</div>
                 <h2 className="text-2xl font-bold">{identity?.name || "Untitled Agent"}</h2>
                 <div className="text-sm text-[#a8a8a8]">{identity?.role || "—"}</div>
               </div>
               <div className="flex items-center gap-3">
-                <button className="grid place-items-center w-10 h-10 rounded-full bg-[#1c1c1c]">
+                <button
+                  onClick={() => setHistoryOpen(true)}
+                  disabled={!editId}
+                  className="grid place-items-center w-10 h-10 rounded-full bg-[#1c1c1c] disabled:opacity-50"
+                  aria-label="Version history"
+                  title="Version history"
+                >
                   <List className="w-5 h-5" />
                 </button>
                 <button className="grid place-items-center w-10 h-10 rounded-full bg-[#1c1c1c]">
                   <Eye className="w-5 h-5" />
                 </button>
                 {editId && (
+                  <button
+                    onClick={() => void handleExport()}
+                    disabled={transferring}
+                    className="grid place-items-center w-10 h-10 rounded-full bg-[#1c1c1c] disabled:opacity-50"
+                    aria-label="Export agent"
+                    title="Export agent"
+                  >
+                    <Download className="w-5 h-5" />
+                  </button>
+                )}
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={transferring}
+                  className="grid place-items-center w-10 h-10 rounded-full bg-[#1c1c1c] disabled:opacity-50"
+                  aria-label="Import agent"
+                  title="Import agent"
+                >
+                  <Upload className="w-5 h-5" />
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => void handleImportFile(e)}
+                />
+                {editId && !readOnly && (
+                  <button
+                    onClick={() => void handleToggleArchived()}
+                    className="grid place-items-center w-10 h-10 rounded-full bg-[#1c1c1c]"
+                    aria-label={archivedAt ? "Unarchive agent" : "Archive agent"}
+                    title={archivedAt ? "Unarchive agent" : "Archive agent"}
+                  >
+                    {archivedAt ? <ArchiveRestore className="w-5 h-5" /> : <Archive className="w-5 h-5" />}
+                  </button>
+                )}
+                {editId && (
+                  <button
+                    onClick={() => setDuplicateOpen(true)}
+                    className="grid place-items-center w-10 h-10 rounded-full bg-[#1c1c1c]"
+                    aria-label="Duplicate agent"
+                    title="Duplicate agent"
+                  >
+                    <Copy className="w-5 h-5" />
+                  </button>
+                )}
+                {editId && role === "owner" && (
+                  <button
+                    onClick={() => setShareOpen(true)}
+                    className="grid place-items-center w-10 h-10 rounded-full bg-[#1c1c1c]"
+                    aria-label="Share agent"
+                    title="Share agent"
+                  >
+                    <Users className="w-5 h-5" />
+                  </button>
+                )}
+                {editId && role === "owner" && (
                   <button
                     onClick={() => setConfirmDeleteOpen(true)}
                     className="grid place-items-center w-10 h-10 rounded-full bg-red-600 hover:bg-red-700 text-white"
-                    aria-label="Delete agent"
-                    title="Delete agent"
+                    aria-label="Move agent to Trash"
+                    title="Move agent to Trash"
                   >
                     <Trash2 className="w-5 h-5" />
                   </button>
@@ -419,6 +819,32 @@ export default function AgentPage() {
 
             <div className="h-px w-full bg-[#1e1e1e] my-5" />
 
+            {readOnly && (
+              <div className="mb-5 rounded-xl bg-white/5 px-4 py-2 text-sm text-gray-300">
+                Shared with you as a viewer. You can browse and chat, but not make changes.
+              </div>
+            )}
+
+            {editId && archivedAt && (
+              <div className="mb-5 flex items-center justify-between gap-3 rounded-xl bg-white/5 px-4 py-2 text-sm text-gray-300">
+                <span>Archived — hidden from the sidebar.</span>
+                {!readOnly && (
+                  <button type="button" onClick={() => void handleToggleArchived()} className="font-semibold hover:text-white">
+                    Unarchive
+                  </button>
+                )}
+              </div>
+            )}
+
+            {!editId && resumedDraft && (
+              <div className="mb-5 flex items-center justify-between gap-3 rounded-xl bg-white/5 px-4 py-2 text-sm text-gray-300">
+                <span>Picked up your draft from {new Date(resumedDraft.updatedAt).toLocaleString()}.</span>
+                <button type="button" onClick={() => void handleDiscardDraft()} className="font-semibold hover:text-white">
+                  Start over
+                </button>
+              </div>
+            )}
+
             {/* === OLD STEP BUTTON STRIP (exact HTML/classes) === */}
             <div className="flex items-center justify-center gap-4 mb-6">
               {STEPS.map(({ key, Icon }, idx) => {
@@ -450,73 +876,99 @@ export default function AgentPage() {
               <>
                 {active === "identity" && (
                   <>
-                    <IdentityForm
-                      initial={identity as any}
-                      onChange={(p: any) => setIdentity((prev) => ({ ...prev, ...p }))}
-                    />
-                    <StepFooter onBack={back} onNext={next} />
+                    <fieldset disabled={readOnly}>
+                      <IdentityForm
+                        initial={identity as any}
+                        onChange={(p: any) => setIdentity((prev) => ({ ...prev, ...p }))}
+                      />
+                    </fieldset>
+                    <StepFooter onBack={back} onNext={next} nextLabel={readOnly ? "Next" : undefined} />
                   </>
                 )}
 
                 {active === "appearance" && (
                   <>
-                    <PersonaForm
-                      value={appearance ?? undefined}
-                      onChange={(p: any) =>
-                        setAppearance((prev) => ({ ...prev, personaId: p.id, bgColor: p.bgColor }))
-                      }
-                    />
-                    <StepFooter onBack={back} onNext={next} />
+                    <fieldset disabled={readOnly}>
+                      <PersonaForm
+                        value={appearance ?? undefined}
+                        onChange={(p: any) =>
+                          setAppearance((prev) => ({ ...prev, personaId: p.personaId, bgColor: p.bgColor }))
+                        }
+                        studioLocked={!entitlements || isLockedFor(entitlements, "persona", "studio")}
+                        onRequestUnlock={(id) => setPaywall([{ kind: "persona", id, label: "Avatar Studio" }])}
+                      />
+                    </fieldset>
+                    <StepFooter onBack={back} onNext={next} nextLabel={readOnly ? "Next" : undefined} />
                   </>
                 )}
 
                 {active === "voiceSoul" && (
                   <>
-                    <VoiceSoulForm
-                      initial={{ voice, style } as any}
-                      onChange={(d: any) => {
-                        setVoice((prev) => ({ ...prev, ...d.voice }));
-                        setStyle((prev) => ({ ...prev, ...d.style }));
-                      }}
-                    />
-                    <StepFooter onBack={back} onNext={next} />
+                    <fieldset disabled={readOnly}>
+                      <VoiceSoulForm
+                        initial={{ voice, style } as any}
+                        onChange={(d: any) => {
+                          setVoice((prev) => ({ ...prev, ...d.voice }));
+                          setStyle((prev) => ({ ...prev, ...d.style }));
+                        }}
+                      />
+                    </fieldset>
+                    <StepFooter onBack={back} onNext={next} nextLabel={readOnly ? "Next" : undefined} />
                   </>
                 )}
 
                 {active === "brain" && (
                   <>
-                    <BrainForm
-                      initial={brain as any}
-                      onChange={(d: any) => setBrain((prev) => ({ ...prev, ...d }))}
-                    />
-                    <StepFooter onBack={back} onNext={next} />
+                    <fieldset disabled={readOnly}>
+                      <BrainForm
+                        initial={{ brainId: brain.id || undefined, instructions: brain.instructions ?? "" }}
+                        onChange={(d) => setBrain({ id: d.brainId, instructions: d.instructions })}
+                        compiledPrompt={compiledPrompt}
+                        promptLoading={promptLoading}
+                        documents={knowledge.documents}
+                        knowledgeLoading={knowledge.loading}
+                        onUploadDocument={editId && !readOnly ? knowledge.upload : undefined}
+                        onDeleteDocument={readOnly ? undefined : knowledge.remove}
+                        onRequestUnlock={(t) =>
+                          setPaywall([{ kind: "brain", id: t.id, label: t.title.replace(/\n/g, " ") }])
+                        }
+                      />
+                    </fieldset>
+                    <StepFooter onBack={back} onNext={next} nextLabel={readOnly ? "Next" : undefined} />
                   </>
                 )}
 
                 {active === "cards" && (
                   <>
-                    <BackgroundCardsForm
-                      onRequestApply={(bg: any) =>
-                        setCards({ backgroundId: bg?.id ?? null })
-                      }
-                      onChange={(cardsList: any[]) => {
-                        if (!cardsList?.length) return;
-                        const exists = cardsList.find(
-                          (c: any) => c.id === cards.backgroundId
-                        );
-                        if (!exists) setCards({ backgroundId: cardsList[0].id });
-                      }}
-                    />
-                    <StepFooter onBack={back} onNext={next} />
+                    <fieldset disabled={readOnly}>
+                      <BackgroundCardsForm
+                        onRequestApply={(bg: any) =>
+                          setCards({ backgroundId: bg?.id ?? null })
+                        }
+                        onChange={(cardsList: any[]) => {
+                          if (!cardsList?.length) return;
+                          const exists = cardsList.find(
+                            (c: any) => c.id === cards.backgroundId
+                          );
+                          const fallback = cardsList.find((c: any) => !isBackgroundLocked(c));
+                          if (!exists && fallback) setCards({ backgroundId: fallback.id });
+                        }}
+                        isLocked={isBackgroundLocked}
+                        onRequestUnlock={(bg) => setPaywall([{ kind: "background", id: bg.id, label: bg.name }])}
+                      />
+                    </fieldset>
+                    <StepFooter onBack={back} onNext={next} nextLabel={readOnly ? "Next" : undefined} />
                   </>
                 )}
 
                 {active === "connections" && (
                   <>
-                    <ConnectionsForm
-                      initial={connections.items}
-                      onChange={(items: ConnectionItem[]) => setConnections({ items })}
-                    />
+                    <fieldset disabled={readOnly}>
+                      <ConnectionsForm
+                        initial={connections.items}
+                        onChange={(items: ConnectionItem[]) => setConnections({ items })}
+                      />
+                    </fieldset>
                     <div className="mt-4 flex items-center gap-2">
                       <button
                         onClick={back}
@@ -524,14 +976,16 @@ export default function AgentPage() {
                       >
                         Back
                       </button>
-                      <button
-                        onClick={handleSave}
-                        className="px-5 py-2 rounded-full font-extrabold"
-                        style={{ backgroundColor: ACCENT, color: "#000" }}
-                        disabled={saving}
-                      >
-                        {saving ? "Saving…" : editId ? "Save Changes" : "Create Agent"}
-                      </button>
+                      {!readOnly && (
+                        <button
+                          onClick={handleSave}
+                          className="px-5 py-2 rounded-full font-extrabold"
+                          style={{ backgroundColor: ACCENT, color: "#000" }}
+                          disabled={saving}
+                        >
+                          {saving ? "Saving…" : editId ? "Save Changes" : "Create Agent"}
+                        </button>
+                      )}
                     </div>
                   </>
                 )}
@@ -548,8 +1002,10 @@ export default function AgentPage() {
             onClick={() => !deleting && setConfirmDeleteOpen(false)}
           />
           <div className="relative z-10 w-full max-w-sm rounded-2xl bg-[#121212] p-6 shadow-xl border border-white/10">
-            <h3 className="text-lg font-semibold">Delete this agent?</h3>
-            <p className="mt-2 text-sm text-gray-300">This action cannot be undone.</p>
+            <h3 className="text-lg font-semibold">Move this agent to Trash?</h3>
+            <p className="mt-2 text-sm text-gray-300">
+              It disappears from your agents. You can restore it from Archive &amp; Trash until it is deleted for good.
+            </p>
             <div className="mt-6 flex justify-end gap-3">
               <button
                 className="px-4 h-10 rounded-xl border border-white/10"
@@ -563,13 +1019,70 @@ export default function AgentPage() {
                 onClick={handleConfirmDelete}
                 disabled={deleting}
               >
-                {deleting ? "Deleting…" : "Delete"}
+                {deleting ? "Moving…" : "Move to Trash"}
               </button>
             </div>
           </div>
         </div>
       )}
 
+      {editId && (
+        <DuplicateDialog
+          open={duplicateOpen}
+          agentId={editId}
+          agentName={identity?.name ?? ""}
+          onClose={() => setDuplicateOpen(false)}
+          onDuplicated={(agent) => {
+            setDuplicateOpen(false);
+            setNotifMessage({ title: "Agent duplicated.", variant: "success" });
+            setShowNotif(true);
+            window.dispatchEvent(new CustomEvent("agents:changed", { detail: { type: "created", agent } }));
+            navigate(`/agents/${agent.id}`);
+          }}
+        />
+      )}
+      <TemplatePicker
+        open={!editId && templatePickerOpen}
+        onPick={applyTemplate}
+        onBlank={() => setTemplatePickerOpen(false)}
+      />
+
+      {editId && (
+        <ShareDialog open={shareOpen} agentId={editId} onClose={() => setShareOpen(false)} />
+      )}
+      {editId && (
+        <HistoryDrawer
+          open={historyOpen}
+          agentId={editId}
+          canRestore={!readOnly}
+          getVersion={() => versionRef.current}
+          onClose={() => setHistoryOpen(false)}
+          onRestored={() => {
+            setReloadKey((k) => k + 1);
+            setNotifMessage({ title: "Version restored.", variant: "success" });
+            setShowNotif(true);
+            window.dispatchEvent(new CustomEvent("agents:changed", { detail: { type: "updated" } }));
+          }}
+        />
+      )}
+
+      <ConflictDialog
+        conflict={conflict}
+        local={localAgent}
+        localConnections={connections.items}
+        busy={saving}
+        onKeepMine={() => void handleKeepMine()}
+        onUseServer={handleUseServer}
+        onClose={() => setConflict(null)}
+      />
+
+      <PaywallDialog
+        open={!!paywall}
+        required={paywall ?? []}
+        entitlements={entitlements}
+        onClose={() => setPaywall(null)}
+      />
+
       {showNotif && (
         <InlineNotification
           title={notifMessage.title}
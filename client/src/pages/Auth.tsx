@@ -3,7 +3,16 @@ import LoadingOverlay from "../components/LoadingOverlay";
 import LogoMark from "../components/LogoMark";
 import Field from "../components/Form/Field";
 import { useAuth } from "../auth/AuthProvider";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+	forgotPassword,
+	resetPassword,
+	listOidcProviders,
+	oidcStartUrl,
+	type OidcProvider,
+	type TwoFactorChallenge,
+} from "../services/auth";
+import type { ApiError } from "../lib/api";
 
 // === Types for submitting ===
 export type LoginPayload = { email: string; password: string };
@@ -25,6 +34,8 @@ export type FormProps<Payload> = {
 	error?: string;
 };
 
+export type AuthMode = "login" | "register" | "forgot";
+
 // === Static config (assets + accent) ===
 const FACE_SRC = "/assets/face2.png";
 const LOGO_SRC = "/assets/logo.png";
@@ -54,10 +65,78 @@ function DividerOr() {
 	);
 }
 
-function LoginForm({ onSwitch, onSubmit, error }: FormProps<LoginPayload>) {
+/** Messages for the ?oidc_error= reasons the single sign-on callback redirects with */
+const OIDC_ERRORS: Record<string, string> = {
+	cancelled: "Sign-in was cancelled.",
+	email_required: "Your provider didn't share an email address, so we couldn't sign you in.",
+	email_unverified: "An account with this email already exists. Log in with your password first.",
+	account_unverified: "An account with this email exists but was never verified. Log in with its password (or reset it) and verify the email, then use single sign-on.",
+	flow_expired: "The sign-in took too long. Please try again.",
+	account_disabled: "This account has been disabled.",
+};
+
+/** Only in-app paths ("/agents/3"), never another origin */
+function safeReturnTo(value: string | null) {
+	return value && /^\/(?![/\\])/.test(value) ? value : "/create";
+}
+
+/** "Continue with …" buttons for the configured single sign-on providers (none: renders nothing) */
+function SsoButtons({ returnTo }: { returnTo: string }) {
+	const [providers, setProviders] = useState<OidcProvider[]>([]);
+
+	React.useEffect(() => {
+		listOidcProviders().then(setProviders).catch(() => setProviders([]));
+	}, []);
+
+	if (!providers.length) return null;
+	return (
+		<div className="mt-3 space-y-3">
+			{providers.map((p) => (
+				<a
+					key={p.id}
+					href={oidcStartUrl(p.id, returnTo)}
+					className="block w-full rounded-full border border-[#333] text-center font-semibold text-white hover:border-white transition"
+					style={{ padding: "12px 18px" }}
+				>
+					Continue with {p.name}
+				</a>
+			))}
+		</div>
+	);
+}
+
+/** Seconds left until `until` (epoch ms), ticking every second; 0 once passed */
+function useCountdown(until?: number | null) {
+	const [now, setNow] = useState(() => Date.now());
+	React.useEffect(() => {
+		if (!until || until <= Date.now()) return;
+		setNow(Date.now());
+		const t = setInterval(() => setNow(Date.now()), 1000);
+		return () => clearInterval(t);
+	}, [until]);
+	return until ? Math.max(0, Math.ceil((until - now) / 1000)) : 0;
+}
+
+function formatWait(seconds: number) {
+	if (seconds < 60) return `${seconds}s`;
+	const m = Math.floor(seconds / 60);
+	const s = seconds % 60;
+	return s ? `${m}m ${s}s` : `${m}m`;
+}
+
+function LoginForm({
+	onSwitch,
+	onSubmit,
+	error,
+	notice,
+	onForgot,
+	lockedUntil,
+	returnTo,
+}: FormProps<LoginPayload> & { notice?: string; onForgot: () => void; lockedUntil?: number | null; returnTo: string }) {
 	const [email, setEmail] = useState("");
 	const [password, setPassword] = useState("");
 	const [loading, setLoading] = useState(false);
+	const waitSeconds = useCountdown(lockedUntil);
 
 	async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
 		e.preventDefault();
@@ -78,7 +157,16 @@ function LoginForm({ onSwitch, onSubmit, error }: FormProps<LoginPayload>) {
 				aria-label="Login form"
 			>
 				<h1 className="text-3xl font-extrabold text-white mb-8">Login to your Account</h1>
-				{error && (
+				{notice && !error && (
+					<p className="text-xs -mt-3 mb-3" style={{ color: ACCENT }}>
+						{notice}
+					</p>
+				)}
+				{waitSeconds > 0 ? (
+					<p className="text-xs text-red-400 -mt-3 mb-3">
+						Too many attempts. Try again in {formatWait(waitSeconds)}.
+					</p>
+				) : error && (
 					<p className="text-xs text-red-400 -mt-3 mb-3">
 						{error}
 					</p>
@@ -103,7 +191,17 @@ function LoginForm({ onSwitch, onSubmit, error }: FormProps<LoginPayload>) {
 					onChange={(e) => setPassword(e.target.value)}
 					required
 				/>
-				<SubmitButton disabled={loading}>{loading ? "Logging in..." : "Login"}</SubmitButton>
+				<div className="-mt-2 mb-5 text-right">
+					<button
+						type="button"
+						className="text-xs text-gray-400 underline hover:text-white"
+						onClick={onForgot}
+					>
+						Forgot password?
+					</button>
+				</div>
+				<SubmitButton disabled={loading || waitSeconds > 0}>{loading ? "Logging in..." : "Login"}</SubmitButton>
+				<SsoButtons returnTo={returnTo} />
 
 				<DividerOr />
 
@@ -224,29 +322,315 @@ function RegisterForm({ onSwitch, onSubmit }: FormProps<RegisterPayload>) {
 	);
 }
 
-export default function AuthScreens({ defaultMode = "login", onLogin, onRegister }: { defaultMode?: "login" | "register" } & AuthHandlers) {
-	const [mode, setMode] = useState(defaultMode);
+/** Second login step for accounts with 2FA: authenticator code or a recovery code */
+function TwoFactorForm({
+	onSubmit,
+	onCancel,
+	error,
+}: {
+	onSubmit: (code: string) => Promise<void> | void;
+	onCancel: () => void;
+	error?: string;
+}) {
+	const [code, setCode] = useState("");
+	const [useRecovery, setUseRecovery] = useState(false);
+	const [loading, setLoading] = useState(false);
+
+	async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+		e.preventDefault();
+		setLoading(true);
+		try {
+			await onSubmit(code.trim());
+		} finally {
+			setLoading(false);
+		}
+	}
+
+	return (
+		<>
+			<LoadingOverlay open={loading} gifSrc={LOADER_GIF} size={300} />
+			<form onSubmit={handleSubmit} className="max-w-md w-full" aria-label="Two-factor form">
+				<h1 className="text-3xl font-extrabold text-white mb-8">Two-factor Authentication</h1>
+				<p className="text-sm text-gray-400 -mt-4 mb-6">
+					{useRecovery
+						? "Enter one of the recovery codes you saved when you turned on 2FA."
+						: "Enter the 6-digit code from your authenticator app."}
+				</p>
+				{error && <p className="text-xs text-red-400 -mt-3 mb-3">{error}</p>}
+				<Field
+					label={useRecovery ? "Recovery Code" : "Code"}
+					name="code"
+					placeholder={useRecovery ? "xxxxx-xxxxx" : "123456"}
+					autoComplete="one-time-code"
+					value={code}
+					onChange={(e) => setCode(e.target.value)}
+					required
+				/>
+				<SubmitButton disabled={loading || !code.trim()}>{loading ? "Verifying…" : "Verify"}</SubmitButton>
+				<div className="mt-4 flex items-center justify-between text-sm text-gray-400">
+					<button
+						type="button"
+						className="underline"
+						onClick={() => {
+							setUseRecovery((v) => !v);
+							setCode("");
+						}}
+					>
+						{useRecovery ? "Use an authenticator code" : "Use a recovery code"}
+					</button>
+					<button type="button" className="underline" onClick={onCancel}>
+						Back to login
+					</button>
+				</div>
+				<p className="text-[11px] text-gray-500 mt-10">© DESIGNED BY FUTURE HUMAN</p>
+			</form>
+		</>
+	);
+}
+
+/**
+ * "forgot" mode: asks for the email to send a reset link to, or — when opened
+ * from that link (`resetToken`) — for the new password.
+ */
+function ForgotPasswordForm({
+	onSwitch,
+	resetToken,
+	onReset,
+}: {
+	onSwitch: () => void;
+	resetToken?: string | null;
+	onReset: () => void;
+}) {
+	const pwdRegex = /^(?=.*[A-Z])(?=.*\d).{8,}$/;
+	const [email, setEmail] = useState("");
+	const [pwd, setPwd] = useState("");
+	const [confirm, setConfirm] = useState("");
+	const [touched, setTouched] = useState(false);
+	const [sentTo, setSentTo] = useState("");
+	const [error, setError] = useState("");
+	const [loading, setLoading] = useState(false);
+
+	const isPwdValid = pwdRegex.test(pwd);
+	const isMatch = confirm.length > 0 && pwd === confirm;
+
+	async function handleRequest(e: React.FormEvent<HTMLFormElement>) {
+		e.preventDefault();
+		setError("");
+		setLoading(true);
+		try {
+			await forgotPassword(email.trim());
+			setSentTo(email.trim());
+		} catch {
+			setError("Could not send the reset link. Please try again.");
+		} finally {
+			setLoading(false);
+		}
+	}
+
+	async function handleReset(e: React.FormEvent<HTMLFormElement>) {
+		e.preventDefault();
+		setTouched(true);
+		if (!resetToken || !isPwdValid || !isMatch) return;
+		setError("");
+		setLoading(true);
+		try {
+			await resetPassword(resetToken, pwd);
+			onReset();
+		} catch (err) {
+			const code = (err as ApiError).message;
+			setError(
+				code === "reset_token_expired"
+					? "This reset link has expired. Request a new one."
+					: "This reset link is invalid or was already used."
+			);
+		} finally {
+			setLoading(false);
+		}
+	}
+
+	const backToLogin = (
+		<>
+			<DividerOr />
+			<p className="text-sm text-gray-400">
+				Remembered it?{" "}
+				<button type="button" className="font-semibold underline" style={{ color: ACCENT }} onClick={onSwitch}>
+					Back to login
+				</button>
+			</p>
+			<p className="text-[11px] text-gray-500 mt-10">© DESIGNED BY FUTURE HUMAN</p>
+		</>
+	);
+
+	if (resetToken) {
+		return (
+			<>
+				<LoadingOverlay open={loading} gifSrc={LOADER_GIF} size={300} />
+				<form onSubmit={handleReset} className="max-w-md w-full" aria-label="Reset password form">
+					<h1 className="text-3xl font-extrabold text-white mb-8">Choose a new Password</h1>
+					{error && <p className="text-xs text-red-400 -mt-3 mb-3">{error}</p>}
+					<Field
+						label="New Password"
+						type="password"
+						name="password"
+						placeholder="Create a password"
+						autoComplete="new-password"
+						value={pwd}
+						onChange={(e) => setPwd(e.target.value)}
+						aria-invalid={touched && !isPwdValid}
+						required />
+					{touched && !isPwdValid && (
+						<p className="text-xs text-red-400 -mt-3 mb-3">
+							Must be at least 8 characters and include an uppercase letter and a number.
+						</p>
+					)}
+					<Field
+						label="Confirm Password"
+						type="password"
+						name="confirm"
+						placeholder="Re-enter password"
+						autoComplete="new-password"
+						value={confirm}
+						onChange={(e) => setConfirm(e.target.value)}
+						aria-invalid={touched && !isMatch}
+						required />
+					{touched && !isMatch && (
+						<p className="text-xs text-red-400 -mt-3 mb-3">Passwords do not match.</p>
+					)}
+					<SubmitButton disabled={loading}>{loading ? "Saving…" : "Reset password"}</SubmitButton>
+					{backToLogin}
+				</form>
+			</>
+		);
+	}
+
+	return (
+		<>
+			<LoadingOverlay open={loading} gifSrc={LOADER_GIF} size={300} />
+			<form onSubmit={handleRequest} className="max-w-md w-full" aria-label="Forgot password form">
+				<h1 className="text-3xl font-extrabold text-white mb-8">Reset your Password</h1>
+				{error && <p className="text-xs text-red-400 -mt-3 mb-3">{error}</p>}
+				{sentTo ? (
+					<p className="text-sm text-gray-300 mb-6">
+						If an account exists for <span className="font-semibold text-white">{sentTo}</span>, we've
+						emailed a link to reset your password. Check your inbox.
+					</p>
+				) : (
+					<>
+						<p className="text-sm text-gray-400 -mt-4 mb-6">
+							Enter your account email and we'll send you a link to choose a new password.
+						</p>
+						<Field
+							label="Email"
+							type="email"
+							name="email"
+							placeholder="Enter Your Email"
+							autoComplete="email"
+							value={email}
+							onChange={(e) => setEmail(e.target.value)}
+							required
+						/>
+						<SubmitButton disabled={loading}>{loading ? "Sending…" : "Send reset link"}</SubmitButton>
+					</>
+				)}
+				{backToLogin}
+			</form>
+		</>
+	);
+}
+
+export default function AuthScreens({ defaultMode = "login", onLogin, onRegister }: { defaultMode?: AuthMode } & AuthHandlers) {
+	const [searchParams, setSearchParams] = useSearchParams();
+	const resetToken = searchParams.get("reset");
+	const returnTo = safeReturnTo(searchParams.get("returnTo"));
+	const [mode, setMode] = useState<AuthMode>(resetToken ? "forgot" : defaultMode);
 	const [imgFailed, setImgFailed] = React.useState(!FACE_SRC);
 	const [imgLoading, setImgLoading] = useState(!!FACE_SRC && !imgFailed);
 	const [loginError, setLoginError] = useState("");
+	const [loginNotice, setLoginNotice] = useState("");
+	const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+	const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+	const [twoFactorError, setTwoFactorError] = useState("");
+
+	// Back from single sign-on: an error to show, or (#challenge=…) a 2FA step to finish
+	React.useEffect(() => {
+		const oidcError = searchParams.get("oidc_error");
+		if (oidcError) {
+			setLoginError(OIDC_ERRORS[oidcError] ?? "Single sign-on failed. Please try again.");
+			setSearchParams({}, { replace: true });
+		}
+		const challengeToken = new URLSearchParams(window.location.hash.slice(1)).get("challenge");
+		if (challengeToken) {
+			setChallenge({ twoFactorRequired: true, challengeToken });
+			window.history.replaceState(null, "", window.location.pathname + window.location.search);
+		}
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, []);
+
+	const switchMode = (next: AuthMode) => {
+		if (resetToken) setSearchParams({}, { replace: true });
+		setLoginError("");
+		setLoginNotice("");
+		setChallenge(null);
+		setMode(next);
+	};
 
-	const isLogin = mode === "login";
+	const handlePasswordReset = () => {
+		switchMode("login");
+		setLoginNotice("Your password was changed. Log in with the new one.");
+	};
 
-	const { login, register } = useAuth()
+	const { login, completeTwoFactor, register } = useAuth()
 	const navigate = useNavigate();
 
 	// Login submit handler
 	const loginHandler = async (values: { email: string; password: string }) => {
 		try {
-			await login({ email: values.email.trim(), password: values.password });
+			const res = await login({ email: values.email.trim(), password: values.password });
+			if ("twoFactorRequired" in res) {
+				// password OK; the code step renders next
+				setLoginError("");
+				setTwoFactorError("");
+				setChallenge(res);
+				return;
+			}
 			// Success: AuthProvider sets user/token; your route guards/effects can redirect.
 			if (onLogin) await onLogin({ email: values.email, password: values.password });
-			navigate("/create"); // Redirect after login
-		} catch (err: any) {
-			console.error('Login failed:', err?.response?.data ?? err);
-			// surface in your UI if you have a toast/state here
-			// e.g., toast.error(err?.response?.data?.message ?? 'Invalid credentials')
-			setLoginError(err?.response?.data?.error ?? 'Invalid credentials');
+			navigate(returnTo); // Redirect after login
+		} catch (err) {
+			const e = err as ApiError;
+			console.error('Login failed:', e.details ?? e);
+			if (e.status === 429 && e.retryAfter) {
+				// locked out: LoginForm counts down and blocks submits until then
+				setLockedUntil(Date.now() + e.retryAfter * 1000);
+				setLoginError("");
+				return;
+			}
+			setLoginError(
+				e.status === 401 ? 'Invalid credentials'
+					: e.message === 'account_disabled' ? 'This account has been disabled.'
+						: e.message || 'Could not log in'
+			);
+		}
+	};
+
+	// 2FA code submit handler
+	const twoFactorHandler = async (code: string) => {
+		if (!challenge) return;
+		try {
+			await completeTwoFactor(challenge.challengeToken, code);
+			navigate(returnTo);
+		} catch (err) {
+			const status = (err as ApiError).status;
+			const reason = (err as ApiError).message;
+			if (status === 429) {
+				const wait = (err as ApiError).retryAfter;
+				setTwoFactorError(`Too many attempts. Try again in ${formatWait(wait ?? 60)}.`);
+			} else if (reason === "challenge_expired" || reason === "invalid_challenge") {
+				setChallenge(null);
+				setLoginError("Your sign-in timed out. Please log in again.");
+			} else {
+				setTwoFactorError(status === 401 ? "That code didn't work. Try again." : "Could not verify the code.");
+			}
 		}
 	};
 
@@ -322,10 +706,33 @@ export default function AuthScreens({ defaultMode = "login", onLogin, onRegister
 							</div>
 						</div>
 
-						{isLogin ? (
-							<LoginForm onSwitch={() => setMode("register")} onSubmit={loginHandler} error={loginError} />
-						) : (
-							<RegisterForm onSwitch={() => setMode("login")} onSubmit={registerHandler} />
+						{mode === "login" && challenge && (
+							<TwoFactorForm
+								onSubmit={twoFactorHandler}
+								onCancel={() => switchMode("login")}
+								error={twoFactorError}
+							/>
+						)}
+						{mode === "login" && !challenge && (
+							<LoginForm
+								onSwitch={() => switchMode("register")}
+								onForgot={() => switchMode("forgot")}
+								onSubmit={loginHandler}
+								error={loginError}
+								notice={loginNotice}
+								lockedUntil={lockedUntil}
+								returnTo={returnTo}
+							/>
+						)}
+						{mode === "register" && (
+							<RegisterForm onSwitch={() => switchMode("login")} onSubmit={registerHandler} />
+						)}
+						{mode === "forgot" && (
+							<ForgotPasswordForm
+								onSwitch={() => switchMode("login")}
+								resetToken={resetToken}
+								onReset={handlePasswordReset}
+							/>
 						)}
 					</div>
 				</div>
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import LoadingOverlay from "../components/LoadingOverlay";
+import { useAuth } from "../auth/AuthProvider";
+
+const LOADER_GIF = "/assets/loader.gif";
+
+/** Landing page after single sign-on: the API set the refresh cookie, turn it into a session */
+export default function OidcCallback() {
+	const [searchParams] = useSearchParams();
+	const { resumeSession } = useAuth();
+	const navigate = useNavigate();
+	const started = useRef(false);
+
+	useEffect(() => {
+		// StrictMode runs effects twice; the refresh token is single-use
+		if (started.current) return;
+		started.current = true;
+		const returnTo = searchParams.get("returnTo");
+		void (async () => {
+			const user = await resumeSession();
+			if (!user) navigate("/auth?oidc_error=session_failed", { replace: true });
+			else navigate(returnTo && /^\/(?![/\\])/.test(returnTo) ? returnTo : "/create", { replace: true });
+		})();
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, []);
+
+	return <div className="min-h-screen w-full bg-black"><LoadingOverlay gifSrc={LOADER_GIF} size={300} /></div>;
+}
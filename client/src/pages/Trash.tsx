@@ -0,0 +1,15 @@
+// src/pages/Trash.tsx
+import ThreePaneLayout from "../layouts/ThreePaneLayout";
+import SidebarNav from "../components/SidebarNav";
+import TrashList from "../components/Trash/TrashList";
+
+/** Archived and deleted agents of the active workspace */
+export default function Trash() {
+  return (
+    <ThreePaneLayout
+      sidebar={<SidebarNav />}
+      center={<TrashList />}
+      rightWidth={0}
+    />
+  );
+}
@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { MailCheck } from "lucide-react";
+import LogoMark from "../components/LogoMark";
+import { useAuth } from "../auth/AuthProvider";
+import { resendVerification, verifyEmail } from "../services/auth";
+import type { ApiError } from "../lib/api";
+
+const LOGO_SRC = "/assets/logo.png";
+const ACCENT = "#E7E31B";
+
+type LinkState = "verifying" | "verified" | "expired" | "invalid";
+
+function Shell({ title, children }: React.PropsWithChildren<{ title: string }>) {
+	return (
+		<div className="min-h-screen w-full bg-black text-white grid place-items-center p-6">
+			<div className="w-full max-w-md">
+				<div className="mb-8 w-16 h-16 rounded-full grid place-items-center" style={{ backgroundColor: ACCENT }}>
+					<LogoMark type="logo" src={LOGO_SRC} />
+				</div>
+				<h1 className="text-3xl font-extrabold mb-4">{title}</h1>
+				{children}
+				<p className="text-[11px] text-gray-500 mt-10">© DESIGNED BY FUTURE HUMAN</p>
+			</div>
+		</div>
+	);
+}
+
+function PrimaryButton({ children, disabled, onClick }: React.PropsWithChildren<{ disabled?: boolean; onClick: () => void }>) {
+	return (
+		<button
+			type="button"
+			disabled={disabled}
+			onClick={onClick}
+			className={`w-full rounded-full font-semibold text-black transition-transform active:scale-[0.98] ${disabled ? "opacity-60 cursor-not-allowed" : ""}`}
+			style={{ backgroundColor: ACCENT, padding: "12px 18px" }}
+		>
+			{children}
+		</button>
+	);
+}
+
+/** Opened from the emailed link: confirms the token, then continues into the app */
+function VerifyLink({ token }: { token: string }) {
+	const [state, setState] = useState<LinkState>("verifying");
+	const { user, refreshUser } = useAuth();
+	const navigate = useNavigate();
+	const started = useRef(false);
+
+	useEffect(() => {
+		// StrictMode runs effects twice; the request only needs to go out once
+		if (started.current) return;
+		started.current = true;
+		void (async () => {
+			try {
+				await verifyEmail(token);
+				setState("verified");
+				if (user) await refreshUser();
+			} catch (err) {
+				setState((err as ApiError).message === "verification_token_expired" ? "expired" : "invalid");
+			}
+		})();
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [token]);
+
+	if (state === "verifying") {
+		return <Shell title="Verifying…"><p className="text-sm text-gray-400">One moment while we confirm your email.</p></Shell>;
+	}
+	if (state === "verified") {
+		return (
+			<Shell title="Email verified">
+				<p className="text-sm text-gray-300 mb-6">Your account is active. Welcome to Future Human!</p>
+				<PrimaryButton onClick={() => navigate(user ? "/create" : "/auth", { replace: true })}>
+					{user ? "Continue" : "Log in"}
+				</PrimaryButton>
+			</Shell>
+		);
+	}
+	return (
+		<Shell title={state === "expired" ? "Link expired" : "Invalid link"}>
+			<p className="text-sm text-gray-300 mb-6">
+				{state === "expired"
+					? "This verification link has expired."
+					: "This verification link is invalid or belongs to another address."}{" "}
+				{user ? "Request a new one below." : "Log in to request a new one."}
+			</p>
+			<PrimaryButton onClick={() => navigate(user ? "/verify-email" : "/auth", { replace: true })}>
+				{user ? "Get a new link" : "Log in"}
+			</PrimaryButton>
+		</Shell>
+	);
+}
+
+/** "Check your inbox": where Protected sends signed-in users with an unverified email */
+function CheckInbox() {
+	const { user, isLoading, refreshUser, logout } = useAuth();
+	const navigate = useNavigate();
+	const [cooldown, setCooldown] = useState(0);
+	const [message, setMessage] = useState("");
+	const [busy, setBusy] = useState(false);
+
+	useEffect(() => {
+		if (cooldown <= 0) return;
+		const t = setTimeout(() => setCooldown((c) => c - 1), 1000);
+		return () => clearTimeout(t);
+	}, [cooldown]);
+
+	useEffect(() => {
+		if (isLoading) return;
+		if (!user) navigate("/auth", { replace: true });
+		else if (user.emailVerifiedAt) navigate("/create", { replace: true });
+	}, [isLoading, user, navigate]);
+
+	async function handleResend() {
+		setBusy(true);
+		setMessage("");
+		try {
+			await resendVerification();
+			setMessage("A new link is on its way.");
+			setCooldown(60);
+		} catch (err) {
+			const e = err as ApiError;
+			if (e.status === 429 && e.retryAfter) setCooldown(e.retryAfter);
+			else if (e.status === 409) await refreshUser();
+			else setMessage("Could not send the email. Please try again.");
+		} finally {
+			setBusy(false);
+		}
+	}
+
+	async function handleContinue() {
+		setBusy(true);
+		setMessage("");
+		const fresh = await refreshUser();
+		setBusy(false);
+		if (fresh && !fresh.emailVerifiedAt) setMessage("Your email isn't verified yet. Open the link we sent you.");
+	}
+
+	return (
+		<Shell title="Check your inbox">
+			<div className="flex items-start gap-3 mb-6">
+				<MailCheck className="w-6 h-6 shrink-0" style={{ color: ACCENT }} />
+				<p className="text-sm text-gray-300">
+					We sent a verification link to <span className="font-semibold text-white">{user?.email}</span>.
+					Open it to activate your account.
+				</p>
+			</div>
+			{message && <p className="text-xs mb-4" style={{ color: ACCENT }}>{message}</p>}
+			<PrimaryButton disabled={busy} onClick={() => void handleContinue()}>
+				I've verified my email
+			</PrimaryButton>
+			<div className="mt-4 flex items-center justify-between text-sm text-gray-400">
+				<button
+					type="button"
+					disabled={busy || cooldown > 0}
+					onClick={() => void handleResend()}
+					className="underline disabled:no-underline disabled:opacity-60"
+				>
+					{cooldown > 0 ? `Resend in ${cooldown}s` : "Resend the email"}
+				</button>
+				<Link to="/account" className="underline">Account</Link>
+				<button
+					type="button"
+					className="underline"
+					onClick={async () => {
+						await logout();
+						navigate("/auth", { replace: true });
+					}}
+				>
+					Log out
+				</button>
+			</div>
+		</Shell>
+	);
+}
+
+export default function VerifyEmail() {
+	const [searchParams] = useSearchParams();
+	const token = searchParams.get("token");
+	return token ? <VerifyLink token={token} /> : <CheckInbox />;
+}
@@ -1,5 +1,5 @@
 // client/src/services/account.ts
-import { apiGet, apiPatch } from '../lib/api';
+import { apiDelete, apiGet, apiPatch, apiPost, updateAccessToken } from '../lib/api';
 
 export type UserRole = 'SUPER_ADMIN' | 'ADMIN' | 'USER';
 
@@ -18,6 +18,25 @@ export type Account = {
   fullName?: string;
 };
 
+/** A signed-in device (GET /account/sessions) */
+export type AccountSession = {
+  id: number;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  /** setup started but not confirmed yet */
+  pending: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+};
+
 export type AccountUpdateInput = Partial<{
   firstName: string | null;
   lastName: string | null;
@@ -37,10 +56,51 @@ export async function updateAccount(patch: AccountUpdateInput): Promise<{ user:
   return apiPatch('/account', patch);
 }
 
-/** Change password (requires current password) */
+/**
+ * Change password (requires current password). Other devices are signed out;
+ * this one continues with the returned access token.
+ */
 export async function changePassword(input: {
   currentPassword: string;
   newPassword: string;
-}): Promise<{ ok: true }> {
-  return apiPatch('/account/password', input);
-}
\ No newline at end of file
+}): Promise<{ ok: true; accessToken: string }> {
+  const res = await apiPatch<{ ok: true; accessToken: string }>('/account/password', input);
+  updateAccessToken(res.accessToken);
+  return res;
+}
+/** Live sessions of the current user, most recently active first */
+export async function listSessions(): Promise<{ sessions: AccountSession[] }> {
+  return apiGet('/account/sessions');
+}
+
+/** Sign one device out (`current` is true when it was this one) */
+export async function revokeSession(id: number): Promise<{ ok: true; current: boolean }> {
+  return apiDelete(`/account/sessions/${id}`);
+}
+
+/** Sign out every other device; this one continues with the returned access token */
+export async function revokeOtherSessions(): Promise<{ ok: true; accessToken: string }> {
+  const res = await apiDelete<{ ok: true; accessToken: string }>('/account/sessions');
+  updateAccessToken(res.accessToken);
+  return res;
+}
+
+/** 2FA state of the current user */
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+  return apiGet('/account/2fa');
+}
+
+/** Start 2FA enrollment: secret + otpauth:// URI for the authenticator app */
+export async function setupTwoFactor(): Promise<{ secret: string; otpauthUri: string }> {
+  return apiPost('/account/2fa/setup', {});
+}
+
+/** Enable 2FA with a first code; the recovery codes are only returned here */
+export async function confirmTwoFactor(code: string): Promise<{ ok: true; recoveryCodes: string[] }> {
+  return apiPost('/account/2fa/confirm', { code });
+}
+
+/** Turn 2FA off (password required) */
+export async function disableTwoFactor(password: string): Promise<{ ok: true }> {
+  return apiPost('/account/2fa/disable', { password });
+}
@@ -0,0 +1,71 @@
+// client/src/services/admin.ts
+// Admin console (ADMIN / SUPER_ADMIN only). Matches server routes:
+// GET   /api/admin/users?q&role&status&limit&offset -> { users, total, limit, offset }
+// GET   /api/admin/users/:id            -> { user }
+// GET   /api/admin/users/:id/agents     -> { agents }
+// PATCH /api/admin/users/:id/role       -> { user }   (SUPER_ADMIN only)
+// POST  /api/admin/users/:id/disable    -> { user }   (also signs the user out everywhere)
+// POST  /api/admin/users/:id/enable     -> { user }
+import { apiGet, apiPatch, apiPost } from "../lib/api";
+import type { UserRole } from "./account";
+import type { Agent } from "./agents";
+
+export type AdminUser = {
+  id: number;
+  firstName: string | null;
+  lastName: string | null;
+  fullName: string;
+  email: string;
+  userRole: UserRole;
+  planId: string;
+  emailVerifiedAt: string | null;
+  twoFactorEnabled: boolean;
+  disabledAt: string | null;
+  agentCount: number;
+  lastSeenAt: string | null;
+  createdAt: string;
+};
+
+export type AdminUserQuery = {
+  q?: string;
+  role?: UserRole;
+  status?: "active" | "disabled";
+  limit?: number;
+  offset?: number;
+};
+
+export type AdminUserPage = {
+  users: AdminUser[];
+  total: number;
+  limit: number;
+  offset: number;
+};
+
+export async function listUsers(query: AdminUserQuery = {}): Promise<AdminUserPage> {
+  const params = new URLSearchParams();
+  for (const [k, v] of Object.entries(query)) {
+    if (v !== undefined && v !== "") params.set(k, String(v));
+  }
+  const qs = params.toString();
+  return apiGet<AdminUserPage>(`/admin/users${qs ? `?${qs}` : ""}`);
+}
+
+export async function getUser(id: number): Promise<AdminUser> {
+  const res = await apiGet<{ user: AdminUser }>(`/admin/users/${id}`);
+  return res.user;
+}
+
+export async function listUserAgents(id: number): Promise<Agent[]> {
+  const res = await apiGet<{ agents: Agent[] }>(`/admin/users/${id}/agents`);
+  return res.agents;
+}
+
+export async function changeUserRole(id: number, role: UserRole): Promise<AdminUser> {
+  const res = await apiPatch<{ user: AdminUser }>(`/admin/users/${id}/role`, { role });
+  return res.user;
+}
+
+export async function setUserDisabled(id: number, disabled: boolean): Promise<AdminUser> {
+  const res = await apiPost<{ user: AdminUser }>(`/admin/users/${id}/${disabled ? "disable" : "enable"}`, {});
+  return res.user;
+}
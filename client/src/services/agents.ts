@@ -1,4 +1,4 @@
-import { apiGet, apiPost, apiPatch, apiDelete } from "../lib/api";
+import { apiGet, apiPost, apiPut, apiPatch, apiDelete, type ApiError } from "../lib/api";
 
 /* ----------------------------- Types (server-aligned) ----------------------------- */
 
@@ -43,6 +43,8 @@ export type AgentCards = {
 export type Agent = {
   id: number;
   ownerId: number;
+  /** Owning workspace, null for a personal agent */
+  organizationId?: number | null;
   identity: AgentIdentity;
   appearance: AgentAppearance;
   voice: { language: string; name: string };
@@ -50,10 +52,19 @@ export type Agent = {
   brain: { id: string; instructions?: string | null };
   cards: AgentCards;
   draftId?: string | null;
+  /** Bumped by every save of the agent or its connections; send it back to detect conflicts */
+  version: number;
+  /** Hidden from agent lists (still usable) */
+  archivedAt?: string | null;
+  /** In the trash since */
+  deletedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 };
 
+/** A deleted agent that can still be restored until `purgeAt` */
+export type TrashedAgent = Agent & { purgeAt: string };
+
 export type AgentCreate = {
   identity: AgentIdentity;
   appearance?: AgentAppearance;
@@ -62,6 +73,94 @@ export type AgentCreate = {
   brain: AgentBrain;
   cards?: AgentCards;
   draftId?: string | null;
+  /** Create the agent in this workspace (editors and owners) */
+  organizationId?: number | null;
+  /** Connections saved together with the agent (one per extId) */
+  connections?: ConnectionInput[];
+};
+
+/** Everything PUT /agents/:id/full replaces: all agent fields and the complete connection set */
+export type AgentFull = Omit<AgentCreate, "organizationId" | "connections"> & { connections: ConnectionInput[] };
+
+/** An agent with its connections, as create and full saves return it */
+export type AgentState = { agent: Agent; connections: ConnectionItem[] };
+
+/** A curated preset the create wizard can start from */
+export type AgentTemplate = {
+  id: string;
+  name: string;
+  summary: string;
+  preset: {
+    identity?: Partial<AgentIdentity>;
+    appearance?: AgentAppearance;
+    voice?: Partial<AgentVoice>;
+    style?: Partial<AgentStyle>;
+    brain?: Partial<AgentBrain>;
+  };
+  /** Uses assets the current plan doesn't include */
+  locked: boolean;
+};
+
+export type DuplicateOptions = {
+  /** Target workspace (null: my personal agents) */
+  organizationId?: number | null;
+  /** Copy connections too; their tokens are never copied */
+  includeConnections?: boolean;
+  name?: string;
+};
+
+/**
+ * Portable export of an agent (GET /agents/:id/export). Connections carry no
+ * tokens; `needsReauth` marks the ones that had one.
+ */
+export type AgentBundle = {
+  format: "agent-bundle";
+  bundleVersion: number;
+  exportedAt?: string;
+  agent: Pick<Agent, "identity" | "appearance" | "voice" | "style" | "brain" | "cards">;
+  connections: (Omit<ConnectionInput, "token"> & { needsReauth: boolean })[];
+};
+
+/** Result of an import: the new agent, and the connections to sign in to again */
+export type ImportResult = AgentState & {
+  needsReauth: { extId: string; providerId: string }[];
+  /** Bundle version the file was upgraded from (null: already current) */
+  migratedFrom: number | null;
+};
+
+/** Filters, sort and paging of GET /agents */
+export type AgentListQuery = {
+  /** Workspace to list (absent: my personal agents) */
+  organizationId?: number | null;
+  /** Search in name, role and company */
+  q?: string;
+  brain?: string;
+  language?: string;
+  hasConnections?: boolean;
+  /** List archived agents instead of active ones */
+  archived?: boolean;
+  /** created and updated: latest first; name: A–Z */
+  sort?: "created" | "updated" | "name";
+  limit?: number;
+  /** `nextCursor` of the previous page */
+  cursor?: string | null;
+};
+
+export type AgentListPage = { agents: Agent[]; role: AgentAccessRole; nextCursor: string | null };
+
+/** The caller's role on an agent or in a workspace */
+export type AgentAccessRole = "viewer" | "editor" | "owner";
+
+/** An agent shared with the current user */
+export type SharedAgent = Agent & { shareRole: "viewer" | "editor" };
+
+/** A user an agent is shared with */
+export type AgentShare = {
+  userId: number;
+  email: string;
+  fullName: string;
+  role: "viewer" | "editor";
+  createdAt: string;
 };
 
 export type AgentUpdate = {
@@ -74,6 +173,26 @@ export type AgentUpdate = {
   draftId?: string | null;
 };
 
+/* ------------------------------ Compiled prompt ------------------------------ */
+
+export type ToneBand = "low" | "mid" | "high";
+
+export type ToneDirective = {
+  key: keyof AgentStyle;
+  label: string;
+  value: number;
+  band: ToneBand;
+  directive: string;
+};
+
+export type CompiledPrompt = {
+  version: number;
+  hash: string;
+  prompt: string;
+  language: string;
+  tone: ToneDirective[];
+};
+
 /* --------------------------- Connections sub-API types --------------------------- */
 
 export type ConnectionStatus = "connected" | "needs_setup" | "error";
@@ -85,13 +204,44 @@ export type ConnectionItem = {
   extId: string;
   status?: ConnectionStatus;
   config?: any | null;
+  /** Only sent to the server; responses carry `hasToken` instead */
   token?: string | null;
+  hasToken?: boolean;
   createdAt?: string;
   updatedAt?: string;
 };
 
 export type ConnectionUpdate = Partial<ConnectionItem>;
 
+/** A connection as sent to the server */
+export type ConnectionInput = Omit<ConnectionItem, "id" | "agentId" | "hasToken" | "createdAt" | "updatedAt">;
+
+/* ------------------------------ Revisions types ------------------------------ */
+
+export type AgentRevision = {
+  id: number;
+  agentId: number;
+  /** "initial" = state before history was kept */
+  action: "initial" | "created" | "updated" | "restored";
+  author: { id: number; email: string | null; fullName: string } | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type FieldChange = { path: string; before: unknown; after: unknown };
+
+export type RevisionDiff = {
+  /** Revision id, "current" or null (nothing before) */
+  from: number | "current" | null;
+  to: number;
+  fields: FieldChange[];
+  connections: {
+    added: ConnectionItem[];
+    removed: ConnectionItem[];
+    changed: { extId: string; providerId: string; changes: { field: string; before: unknown; after: unknown }[] }[];
+  };
+};
+
 /* --------------------------------- Utilities --------------------------------- */
 
 // Remove only undefined (keep nulls so server can null fields intentionally)
@@ -110,32 +260,185 @@ function clean<T>(obj: T): T {
 
 const base = "/agents";
 
-/** List current user's agents */
-export async function listAgents(): Promise<{ agents: Agent[] }> {
-  return apiGet(`${base}`);
+/** One page of the current user's personal agents, or of a workspace's agents */
+export async function listAgents(query: AgentListQuery = {}): Promise<AgentListPage> {
+  const params = new URLSearchParams();
+  for (const [k, v] of Object.entries(query)) {
+    if (v !== undefined && v !== null && v !== "") params.set(k, String(v));
+  }
+  const qs = params.toString();
+  return apiGet(qs ? `${base}?${qs}` : `${base}`);
+}
+
+/** Agents other users shared with me */
+export async function listSharedAgents(): Promise<{ agents: SharedAgent[] }> {
+  return apiGet(`${base}/shared`);
 }
 
-/** Read one agent by id */
-export async function getAgent(id: number | string): Promise<{ agent: Agent }> {
+/** Read one agent by id, with the caller's role on it */
+export async function getAgent(id: number | string): Promise<{ agent: Agent; role: AgentAccessRole }> {
   return apiGet(`${base}/${id}`);
 }
 
-/** Create an agent (server-shaped payload only) */
-export async function createAgent(payload: AgentCreate): Promise<{ agent: Agent }> {
+/** Presets for the create wizard */
+export async function listTemplates(): Promise<AgentTemplate[]> {
+  const res = await apiGet<{ templates: AgentTemplate[] }>(`${base}/templates`);
+  return res.templates;
+}
+
+/** Copy an agent (into my personal agents or a workspace I edit) */
+export async function duplicateAgent(id: number | string, options: DuplicateOptions = {}): Promise<AgentState> {
+  return apiPost(`${base}/${id}/duplicate`, clean(options));
+}
+
+/** Export an agent as a bundle that can be imported into another account */
+export async function exportAgent(id: number | string): Promise<AgentBundle> {
+  return apiGet(`${base}/${id}/export`);
+}
+
+/** Create an agent from an exported bundle (any supported bundle version) */
+export async function importAgent(bundle: unknown, organizationId?: number | null): Promise<ImportResult> {
+  return apiPost(`${base}/import`, clean({ bundle, organizationId }));
+}
+
+/** Create an agent and its connections in one call (server-shaped payload only) */
+export async function createAgent(payload: AgentCreate): Promise<AgentState> {
   return apiPost(`${base}`, clean(payload));
 }
 
-/** Partial update (send only the top-level objects you intend to change) */
+/* ------------------------ Optimistic concurrency ------------------------ */
+// Writes can carry the agent version they were based on (If-Match). When
+// someone else saved in between, the server answers 412 with its current state.
+
+/** Body of a 412: the agent and its connections as they are on the server now */
+export type VersionConflict = {
+  error: "version_conflict";
+  message: string;
+  agent: Agent | null;
+  connections: ConnectionItem[];
+};
+
+function ifMatch(version?: number | null): Record<string, string> | undefined {
+  return version != null ? { "If-Match": `"${version}"` } : undefined;
+}
+
+/** Extract the conflict payload from an API error, if that's what it is */
+export function asVersionConflict(e: unknown): VersionConflict | null {
+  const err = e as ApiError | null;
+  const details = err?.details as VersionConflict | undefined;
+  return err?.status === 412 && details?.error === "version_conflict" ? details : null;
+}
+
+/** Partial update (send only the top-level objects you intend to change); `version` guards against lost updates */
 export async function patchAgent(
   id: number | string,
-  patch: AgentUpdate
+  patch: AgentUpdate,
+  version?: number | null
+): Promise<{ agent: Agent }> {
+  return apiPatch(`${base}/${id}`, clean(patch), ifMatch(version));
+}
+
+/** Save the agent and its whole connection set atomically; connections left out are deleted */
+export async function saveAgentFull(
+  id: number | string,
+  payload: AgentFull,
+  version?: number | null
+): Promise<AgentState> {
+  return apiPut(`${base}/${id}/full`, clean(payload), ifMatch(version));
+}
+
+/** Move one agent to the trash; it is purged at `purgeAt` unless restored */
+export async function deleteAgent(id: number | string, version?: number | null): Promise<{ ok: true; purgeAt: string }> {
+  return apiDelete(`${base}/${id}`, ifMatch(version));
+}
+
+/* --------------------------- Archive & trash --------------------------- */
+
+/** Archive (hide from agent lists) or unarchive an agent */
+export async function setAgentArchived(
+  id: number | string,
+  archived: boolean,
+  version?: number | null
 ): Promise<{ agent: Agent }> {
-  return apiPatch(`${base}/${id}`, clean(patch));
+  return apiPost(`${base}/${id}/${archived ? "archive" : "unarchive"}`, {}, ifMatch(version));
+}
+
+/** Deleted agents of my personal agents, or of a workspace I own */
+export async function listTrash(organizationId?: number | null): Promise<TrashedAgent[]> {
+  const res = await apiGet<{ agents: TrashedAgent[] }>(
+    organizationId ? `${base}/trash?organizationId=${organizationId}` : `${base}/trash`
+  );
+  return res.agents;
+}
+
+/** Take an agent out of the trash */
+export async function restoreAgent(id: number | string): Promise<{ agent: Agent }> {
+  return apiPost(`${base}/${id}/restore`, {});
 }
 
-/** Delete one agent */
-export async function deleteAgent(id: number | string): Promise<{ ok: true }> {
-  return apiDelete(`${base}/${id}`);
+/** Delete an agent in the trash for good */
+export async function purgeAgent(id: number | string): Promise<{ ok: true }> {
+  return apiDelete(`${base}/${id}/purge`);
+}
+
+/** Compiled system prompt of a saved agent */
+export async function getAgentPrompt(id: number | string): Promise<{ prompt: CompiledPrompt }> {
+  return apiGet(`${base}/${id}/prompt`);
+}
+
+/** Compile an unsaved agent payload (live preview while editing) */
+export async function previewAgentPrompt(payload: AgentUpdate): Promise<{ prompt: CompiledPrompt }> {
+  return apiPost(`${base}/prompt/preview`, clean(payload));
+}
+
+/* ----------------------------- Shares sub-API ----------------------------- */
+
+/** Users the agent is shared with (owners only) */
+export async function listShares(agentId: number | string): Promise<AgentShare[]> {
+  const res = await apiGet<{ shares: AgentShare[] }>(`${base}/${agentId}/shares`);
+  return res.shares;
+}
+
+/** Share with a registered user by email; sharing again changes the role */
+export async function shareAgent(
+  agentId: number | string,
+  email: string,
+  role: AgentShare["role"]
+): Promise<AgentShare> {
+  const res = await apiPost<{ share: AgentShare }>(`${base}/${agentId}/shares`, { email, role });
+  return res.share;
+}
+
+/** Stop sharing with a user (or, with your own id, drop an agent shared with you) */
+export async function unshareAgent(agentId: number | string, userId: number | string): Promise<void> {
+  await apiDelete(`${base}/${agentId}/shares/${userId}`);
+}
+
+/* ---------------------------- Revisions sub-API ---------------------------- */
+
+/** Version history of an agent, newest first */
+export async function listRevisions(agentId: number | string): Promise<AgentRevision[]> {
+  const res = await apiGet<{ revisions: AgentRevision[] }>(`${base}/${agentId}/revisions`);
+  return res.revisions;
+}
+
+/** Changes from `against` to a revision ("previous": what that save changed, "current": what a restore would change) */
+export async function getRevisionDiff(
+  agentId: number | string,
+  revisionId: number,
+  against: "previous" | "current" | number = "previous"
+): Promise<RevisionDiff> {
+  const res = await apiGet<{ diff: RevisionDiff }>(`${base}/${agentId}/revisions/${revisionId}/diff?against=${against}`);
+  return res.diff;
+}
+
+/** Put the agent and its connections back to a revision */
+export async function restoreRevision(
+  agentId: number | string,
+  revisionId: number,
+  version?: number | null
+): Promise<{ agent: Agent; connections: ConnectionItem[]; revisionId: number }> {
+  return apiPost(`${base}/${agentId}/revisions/${revisionId}/restore`, {}, ifMatch(version));
 }
 
 /* -------------------------- Connections sub-API -------------------------- */
@@ -145,25 +448,31 @@ export async function listConnections(agentId: number | string): Promise<Connect
   return (res?.connections ?? []) as ConnectionItem[];
 }
 
+// Connection writes share the agent's version and answer with the new one
+
 export async function createConnection(
   agentId: number | string,
-  payload: Omit<ConnectionItem, "id" | "agentId" | "createdAt" | "updatedAt">
-): Promise<ConnectionItem> {
-  const res = (await apiPost(`/agents/${agentId}/connections`, payload)) as any;
-  return res.connection as ConnectionItem;
+  payload: Omit<ConnectionItem, "id" | "agentId" | "createdAt" | "updatedAt">,
+  version?: number | null
+): Promise<{ connection: ConnectionItem; version: number }> {
+  return apiPost(`/agents/${agentId}/connections`, payload, ifMatch(version));
 }
 
 export async function updateConnection(
   agentId: number | string,
   connId: number | string,
-  patch: Partial<Omit<ConnectionItem, "id" | "agentId" | "createdAt" | "updatedAt">>
-): Promise<ConnectionItem> {
-  const res = (await apiPatch(`/agents/${agentId}/connections/${connId}`, patch)) as any;
-  return res.connection as ConnectionItem;
+  patch: Partial<Omit<ConnectionItem, "id" | "agentId" | "createdAt" | "updatedAt">>,
+  version?: number | null
+): Promise<{ connection: ConnectionItem; version: number }> {
+  return apiPatch(`/agents/${agentId}/connections/${connId}`, patch, ifMatch(version));
 }
 
-export async function deleteConnection(agentId: number | string, connId: number | string): Promise<void> {
-  await apiDelete(`/agents/${agentId}/connections/${connId}`);
+export async function deleteConnection(
+  agentId: number | string,
+  connId: number | string,
+  version?: number | null
+): Promise<{ ok: true; version: number }> {
+  return apiDelete(`/agents/${agentId}/connections/${connId}`, ifMatch(version));
 }
 
 // ---------- Bulk diff helper (create/update/delete in one submit) ----------
@@ -188,8 +497,15 @@ function equalConn(a: ConnectionItem, b: ConnectionItem) {
 /**
  * Compute delta between `before` (loaded from server) and `after` (edited in form),
  * then perform API calls for created/updated/deleted connections.
+ * With `version`, each call is guarded by the version the previous one returned;
+ * the final version is returned.
  */
-export const saveConnectionsDelta = async (agentId: string | number, before: ConnectionItem[], after: ConnectionItem[]) => {
+export const saveConnectionsDelta = async (
+  agentId: string | number,
+  before: ConnectionItem[],
+  after: ConnectionItem[],
+  version?: number | null
+) => {
     const key = (c: ConnectionItem) => (c.id != null ? `id:${c.id}` : `k:${c.providerId}#${c.extId}`);
 
     const pre = new Map(before.map((c) => [key(c), c]));
@@ -209,8 +525,9 @@ export const saveConnectionsDelta = async (agentId: string | number, before: Con
           status: c.status ?? "needs_setup",
           config: c.config ?? null,
           token: c.token ?? null,
-        });
-        created.push(made);
+        }, version);
+        created.push(made.connection);
+        if (version != null) version = made.version;
         continue;
       }
       if (!equalConn(prev, c) && prev.id != null) {
@@ -220,19 +537,21 @@ export const saveConnectionsDelta = async (agentId: string | number, before: Con
           status: c.status,
           config: c.config,
           token: c.token,
-        });
-        updated.push(up);
+        }, version);
+        updated.push(up.connection);
+        if (version != null) version = up.version;
       }
     }
 
     // Delete
     for (const [k, c] of pre) {
       if (!cur.has(k) && c.id != null) {
-        await deleteConnection(agentId!, c.id);
+        const res = await deleteConnection(agentId!, c.id, version);
         deleted.push(c.id);
+        if (version != null) version = res.version;
       }
     }
 
-    return { created, updated, deleted };
+    return { created, updated, deleted, version };
   };
 
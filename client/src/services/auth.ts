@@ -1,10 +1,19 @@
-// Auth service (stateless JWT). Matches server routes:
-// POST /api/auth/register -> { user, accessToken }
-// POST /api/auth/login    -> { user, accessToken }
+// Auth service (access JWT + httpOnly refresh cookie). Matches server routes:
+// POST /api/auth/register -> { user, accessToken }  (+ refresh cookie)
+// POST /api/auth/login    -> { user, accessToken }  (+ refresh cookie)
+//                            or { twoFactorRequired, challengeToken } when 2FA is on
+// POST /api/auth/login/2fa -> { user, accessToken }  (challenge token + TOTP/recovery code)
+// POST /api/auth/refresh  -> { user, accessToken }  (rotates the cookie)
 // GET  /api/auth/me       -> { user | null }
-// POST /api/auth/logout   -> { ok: true }
+// POST /api/auth/logout   -> { ok: true }            (revokes this session)
+// POST /api/auth/forgot-password -> { ok: true }     (emails a reset link)
+// POST /api/auth/reset-password  -> { ok: true }     (signs out every session)
+// POST /api/auth/verify-email    -> { ok: true }     (token from the emailed link)
+// POST /api/auth/verify-email/resend -> { ok: true } (429 + retryAfter when throttled)
+// GET  /api/auth/oidc/providers -> { providers }     (single sign-on providers)
+// GET  /api/auth/oidc/:id/start  (browser navigation; ends on /auth/callback with a refresh cookie)
 
-import { apiGet, apiPost } from "../lib/api";
+import { apiGet, apiPost, apiUrl, refreshAccessToken } from "../lib/api";
 
 /* ----------------------------- Types ----------------------------- */
 
@@ -18,6 +27,8 @@ export type User = {
   address?: string | null;
   postalCode?: string | null;
   country?: string | null;
+  /** null until the email address is verified */
+  emailVerifiedAt?: string | null;
   createdAt?: string;
   updatedAt?: string;
   fullName?: string;
@@ -44,6 +55,24 @@ export type AuthResponse = {
   accessToken: string;
 };
 
+/** Password accepted, but the account has 2FA: finish with loginTwoFactor() */
+export type TwoFactorChallenge = {
+  twoFactorRequired: true;
+  challengeToken: string;
+};
+
+export type LoginResponse = AuthResponse | TwoFactorChallenge;
+
+export function isTwoFactorChallenge(res: LoginResponse): res is TwoFactorChallenge {
+  return "twoFactorRequired" in res && res.twoFactorRequired === true;
+}
+
+/** A configured OpenID Connect provider ("Continue with …") */
+export type OidcProvider = {
+  id: string;
+  name: string;
+};
+
 export type MeResponse = {
   user: User | null;
 };
@@ -55,9 +84,13 @@ export async function register(payload: RegisterPayload): Promise<AuthResponse>
   return apiPost<AuthResponse>("/auth/register", payload);
 }
 
-export async function login(payload: LoginPayload): Promise<AuthResponse> {
-  // returns { user, accessToken }
-  return apiPost<AuthResponse>("/auth/login", payload);
+export async function login(payload: LoginPayload): Promise<LoginResponse> {
+  // returns { user, accessToken }, or a 2FA challenge
+  return apiPost<LoginResponse>("/auth/login", payload);
+}
+
+export async function loginTwoFactor(challengeToken: string, code: string): Promise<AuthResponse> {
+  return apiPost<AuthResponse>("/auth/login/2fa", { challengeToken, code });
 }
 
 export async function me(): Promise<MeResponse> {
@@ -66,6 +99,42 @@ export async function me(): Promise<MeResponse> {
 }
 
 export async function logout(): Promise<{ ok: true }> {
-  // stateless JWT: this is just for UX symmetry
+  // revokes the session server-side and clears the refresh cookie
   return apiPost<{ ok: true }>("/auth/logout", {});
 }
+
+/** New access token from the refresh cookie (null when there's no live session) */
+export async function refresh(): Promise<string | null> {
+  return refreshAccessToken();
+}
+
+/** Email a password reset link (answers ok whether or not the account exists) */
+export async function forgotPassword(email: string): Promise<{ ok: true }> {
+  return apiPost<{ ok: true }>("/auth/forgot-password", { email });
+}
+
+/** Set a new password with the token from the reset link */
+export async function resetPassword(token: string, password: string): Promise<{ ok: true }> {
+  return apiPost<{ ok: true }>("/auth/reset-password", { token, password });
+}
+
+/** Confirm the email address with the token from the verification link */
+export async function verifyEmail(token: string): Promise<{ ok: true }> {
+  return apiPost<{ ok: true }>("/auth/verify-email", { token });
+}
+
+/** Email a new verification link to the signed-in user */
+export async function resendVerification(): Promise<{ ok: true }> {
+  return apiPost<{ ok: true }>("/auth/verify-email/resend", {});
+}
+
+/** Single sign-on providers offered on the login screen */
+export async function listOidcProviders(): Promise<OidcProvider[]> {
+  const res = await apiGet<{ providers: OidcProvider[] }>("/auth/oidc/providers");
+  return res.providers;
+}
+
+/** Where to send the browser to sign in with a provider; it comes back to `returnTo` */
+export function oidcStartUrl(providerId: string, returnTo = "/create"): string {
+  return apiUrl(`/auth/oidc/${encodeURIComponent(providerId)}/start?returnTo=${encodeURIComponent(returnTo)}`);
+}
@@ -0,0 +1,24 @@
+import { apiGet } from "../lib/api";
+
+/* ----------------------------- Types (server-aligned) ----------------------------- */
+
+export type BrainLimits = {
+  contextTokens: number;
+  maxOutputTokens: number;
+};
+
+export type Brain = {
+  id: string;
+  title: string;
+  subtitle?: string;
+  locked?: boolean;
+  badge?: "crown" | "lock";
+  limits: BrainLimits;
+};
+
+/* -------------------------------- Endpoints -------------------------------- */
+
+/** Brain tiers available to the wizard (level1 / level2 / super …) */
+export async function listBrains(): Promise<{ brains: Brain[] }> {
+  return apiGet("/brains");
+}
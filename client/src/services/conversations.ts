@@ -0,0 +1,121 @@
+import { apiGet, apiPost, apiDelete, apiStream } from "../lib/api";
+
+/* ----------------------------- Types (server-aligned) ----------------------------- */
+
+export type ConversationMessageRole = "user" | "assistant";
+
+export type Conversation = {
+  id: number;
+  agentId: number;
+  userId: number;
+  title?: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Knowledge excerpt an assistant reply was grounded in (cited as [index]) */
+export type MessageSource = {
+  index: number;
+  documentId: number;
+  chunkId: number;
+  filename: string;
+  seq: number;
+  score: number;
+  snippet: string;
+};
+
+export type ConversationMessage = {
+  id: number;
+  conversationId: number;
+  role: ConversationMessageRole;
+  text: string;
+  status: "complete" | "streaming" | "cancelled" | "error";
+  engine?: string | null;
+  sources?: MessageSource[];
+  createdAt: string;
+};
+
+export type SendMessageResponse = {
+  message: ConversationMessage;
+  reply: ConversationMessage;
+};
+
+export type StreamHandlers = {
+  /** User message persisted + empty assistant message created */
+  onStart?: (e: { message: ConversationMessage; reply: ConversationMessage }) => void;
+  onToken?: (delta: string) => void;
+  /** Final persisted assistant message */
+  onDone?: (reply: ConversationMessage) => void;
+  onError?: (reply: ConversationMessage | null) => void;
+};
+
+/* -------------------------------- Endpoints -------------------------------- */
+
+const base = (agentId: number | string) => `/agents/${agentId}/conversations`;
+
+/** List the current user's conversations with an agent (latest activity first) */
+export async function listConversations(agentId: number | string): Promise<{ conversations: Conversation[] }> {
+  return apiGet(base(agentId));
+}
+
+/** Start a new conversation with an agent */
+export async function createConversation(
+  agentId: number | string,
+  title?: string | null
+): Promise<{ conversation: Conversation }> {
+  return apiPost(base(agentId), { title: title ?? null });
+}
+
+/** Full message history of one conversation (oldest first) */
+export async function listMessages(
+  agentId: number | string,
+  conversationId: number | string
+): Promise<{ messages: ConversationMessage[] }> {
+  return apiGet(`${base(agentId)}/${conversationId}/messages`);
+}
+
+/** Send a user message; resolves with the persisted message and the agent's reply */
+export async function sendMessage(
+  agentId: number | string,
+  conversationId: number | string,
+  text: string
+): Promise<SendMessageResponse> {
+  return apiPost(`${base(agentId)}/${conversationId}/messages`, { text });
+}
+
+/**
+ * Send a user message and stream the reply token by token (SSE).
+ * Resumes automatically after a dropped connection; abort `signal` to stop
+ * reading (call cancelStream to also stop generation server-side).
+ */
+export async function streamMessage(
+  agentId: number | string,
+  conversationId: number | string,
+  text: string,
+  handlers: StreamHandlers,
+  signal?: AbortSignal
+): Promise<void> {
+  const path = `${base(agentId)}/${conversationId}/stream`;
+  await apiStream(path, {
+    method: "POST",
+    body: { text },
+    signal,
+    resumePath: path,
+    onEvent: (e) => {
+      const data = e.data ? JSON.parse(e.data) : null;
+      if (e.event === "start") handlers.onStart?.(data);
+      else if (e.event === "token") handlers.onToken?.(data?.delta ?? "");
+      else if (e.event === "done") handlers.onDone?.(data.reply);
+      else if (e.event === "error") handlers.onError?.(data?.reply ?? null);
+    },
+  });
+}
+
+/** Stop generating a streamed reply; the partial text is kept */
+export async function cancelStream(
+  agentId: number | string,
+  conversationId: number | string,
+  replyId: number | string
+): Promise<{ ok: true; cancelled: boolean }> {
+  return apiDelete(`${base(agentId)}/${conversationId}/stream/${replyId}`);
+}
@@ -0,0 +1,66 @@
+// client/src/services/drafts.ts
+// Create-wizard drafts (autosaved, partially filled agents). Matches server routes:
+// GET    /api/agents/drafts/latest?organizationId=  -> { draft | null }
+// POST   /api/agents/drafts                         -> { draft }
+// GET    /api/agents/drafts/:draftId                -> { draft }
+// PUT    /api/agents/drafts/:draftId                -> { draft }   (autosave, extends expiry)
+// DELETE /api/agents/drafts/:draftId                -> { ok }
+// Creating the agent with `draftId` consumes the draft (see createAgent).
+import { apiDelete, apiGet, apiPost, apiPut } from "../lib/api";
+import type {
+  AgentAppearance,
+  AgentBrain,
+  AgentCards,
+  AgentIdentity,
+  AgentStyle,
+  AgentVoice,
+  ConnectionItem,
+} from "./agents";
+
+/** Whatever the wizard holds so far; every section may be incomplete */
+export type DraftPayload = {
+  identity?: Partial<AgentIdentity>;
+  appearance?: AgentAppearance;
+  voice?: Partial<AgentVoice>;
+  style?: Partial<AgentStyle>;
+  brain?: Partial<AgentBrain>;
+  cards?: AgentCards;
+  connections?: Partial<ConnectionItem>[];
+};
+
+export type AgentDraft = {
+  id: string;
+  organizationId: number | null;
+  step: string | null;
+  payload: DraftPayload;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+};
+
+const base = "/agents/drafts";
+
+/** The draft /create resumes for a workspace (null: personal agents) */
+export async function getLatestDraft(organizationId: number | null): Promise<AgentDraft | null> {
+  const qs = organizationId ? `?organizationId=${organizationId}` : "";
+  const res = await apiGet<{ draft: AgentDraft | null }>(`${base}/latest${qs}`);
+  return res.draft;
+}
+
+export async function createDraft(
+  organizationId: number | null,
+  step: string | null,
+  payload: DraftPayload
+): Promise<AgentDraft> {
+  const res = await apiPost<{ draft: AgentDraft }>(base, { organizationId, step, payload });
+  return res.draft;
+}
+
+export async function saveDraft(draftId: string, step: string | null, payload: DraftPayload): Promise<AgentDraft> {
+  const res = await apiPut<{ draft: AgentDraft }>(`${base}/${draftId}`, { step, payload });
+  return res.draft;
+}
+
+export async function deleteDraft(draftId: string): Promise<void> {
+  await apiDelete(`${base}/${draftId}`);
+}
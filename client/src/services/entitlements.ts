@@ -0,0 +1,56 @@
+import { apiGet, type ApiError } from "../lib/api";
+
+/* ----------------------------- Types (server-aligned) ----------------------------- */
+
+export type PremiumKind = "brain" | "persona" | "background";
+
+export type Plan = {
+  id: string;
+  name: string;
+  /** "<kind>:<assetId>" keys; "<kind>:*" unlocks every premium asset of that kind */
+  entitlements: string[];
+};
+
+export type Entitlements = {
+  plan: Plan;
+  plans: Plan[];
+  premium: Record<PremiumKind, string[]>;
+};
+
+/** A premium asset the user tried to use */
+export type LockedAsset = { kind: PremiumKind; id: string; label?: string };
+
+/** Body of a `403 entitlement_required` response */
+export type EntitlementRequiredError = {
+  error: "entitlement_required";
+  message: string;
+  plan: string;
+  required: LockedAsset[];
+};
+
+/* -------------------------------- Endpoints -------------------------------- */
+
+/** Current plan, all plans, and the premium asset catalog */
+export async function getEntitlements(): Promise<Entitlements> {
+  return apiGet("/entitlements");
+}
+
+/* --------------------------------- Helpers --------------------------------- */
+
+export function planIncludes(plan: Plan | null | undefined, kind: PremiumKind, id: string) {
+  const keys = plan?.entitlements ?? [];
+  return keys.includes(`${kind}:${id}`) || keys.includes(`${kind}:*`);
+}
+
+/** True when `id` is premium and the user's plan doesn't unlock it */
+export function isLockedFor(ent: Entitlements | null, kind: PremiumKind, id?: string | null) {
+  if (!ent || !id) return false;
+  return (ent.premium[kind] ?? []).includes(id) && !planIncludes(ent.plan, kind, id);
+}
+
+/** Extract the entitlement payload from an API error, if that's what it is */
+export function asEntitlementError(e: unknown): EntitlementRequiredError | null {
+  const err = e as ApiError | null;
+  const details = err?.details as EntitlementRequiredError | undefined;
+  return err?.status === 403 && details?.error === "entitlement_required" ? details : null;
+}
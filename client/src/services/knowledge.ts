@@ -0,0 +1,65 @@
+import { apiGet, apiDelete, apiUpload } from "../lib/api";
+
+/* ----------------------------- Types (server-aligned) ----------------------------- */
+
+export type KnowledgeDocumentStatus = "processing" | "ready" | "error";
+
+export type KnowledgeDocument = {
+  id: number;
+  agentId: number;
+  filename: string;
+  mimeType: string;
+  sizeBytes: number;
+  status: KnowledgeDocumentStatus;
+  error?: string | null;
+  chunkCount: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type KnowledgeSearchResult = {
+  chunkId: number;
+  documentId: number;
+  filename: string;
+  seq: number;
+  score: number;
+  snippet: string;
+  content: string;
+};
+
+/** File types the knowledge base can index */
+export const KNOWLEDGE_ACCEPT = ".txt,.md,.markdown,.csv,.pdf,text/plain,text/markdown,text/csv,application/pdf";
+
+/* -------------------------------- Endpoints -------------------------------- */
+
+const base = (agentId: number | string) => `/agents/${agentId}/knowledge`;
+
+/** Documents attached to an agent (latest first) */
+export async function listKnowledge(agentId: number | string): Promise<{ documents: KnowledgeDocument[] }> {
+  return apiGet(base(agentId));
+}
+
+/** Upload one document; it comes back as 'processing' and is indexed in the background */
+export async function uploadKnowledge(
+  agentId: number | string,
+  file: File
+): Promise<{ document: KnowledgeDocument }> {
+  return apiUpload(base(agentId), file, { "X-Filename": encodeURIComponent(file.name) });
+}
+
+export async function deleteKnowledge(
+  agentId: number | string,
+  documentId: number | string
+): Promise<{ ok: true }> {
+  return apiDelete(`${base(agentId)}/${documentId}`);
+}
+
+/** Best matching chunks for a query */
+export async function searchKnowledge(
+  agentId: number | string,
+  q: string,
+  limit = 5
+): Promise<{ results: KnowledgeSearchResult[] }> {
+  const qs = new URLSearchParams({ q, limit: String(limit) });
+  return apiGet(`${base(agentId)}/search?${qs.toString()}`);
+}
@@ -0,0 +1,107 @@
+// client/src/services/organizations.ts
+// Workspaces (organizations). Matches server routes:
+// GET    /api/organizations                                   -> { organizations }
+// POST   /api/organizations                                   -> { organization }
+// GET    /api/organizations/:orgId                            -> { organization, members, invitations }
+// PATCH  /api/organizations/:orgId                            -> { organization }   (owners)
+// DELETE /api/organizations/:orgId                            -> { ok }             (owners, no agents left)
+// PATCH  /api/organizations/:orgId/members/:userId            -> { members }        (owners)
+// DELETE /api/organizations/:orgId/members/:userId            -> { ok }             (owners, or leave)
+// POST   /api/organizations/:orgId/invitations                -> { invitation }     (owners)
+// DELETE /api/organizations/:orgId/invitations/:invitationId  -> { ok }             (owners)
+// GET    /api/organizations/invitations                       -> { invitations }    (addressed to me)
+// POST   /api/organizations/invitations/:id/accept|decline
+import { apiDelete, apiGet, apiPatch, apiPost } from "../lib/api";
+
+export type MemberRole = "viewer" | "editor" | "owner";
+
+export type Organization = {
+  id: number;
+  name: string;
+  role: MemberRole | null;
+  memberCount?: number;
+  agentCount?: number;
+  createdAt: string;
+};
+
+export type OrganizationMember = {
+  userId: number;
+  email: string;
+  fullName: string;
+  role: MemberRole;
+  joinedAt: string;
+};
+
+export type OrganizationInvitation = {
+  id: number;
+  organizationId: number;
+  organizationName?: string;
+  email: string;
+  role: MemberRole;
+  expiresAt: string;
+  createdAt: string;
+};
+
+export type OrganizationDetail = {
+  organization: Organization;
+  members: OrganizationMember[];
+  invitations: OrganizationInvitation[];
+};
+
+const base = "/organizations";
+
+export async function listOrganizations(): Promise<Organization[]> {
+  const res = await apiGet<{ organizations: Organization[] }>(base);
+  return res.organizations;
+}
+
+export async function createOrganization(name: string): Promise<Organization> {
+  const res = await apiPost<{ organization: Organization }>(base, { name });
+  return res.organization;
+}
+
+export async function getOrganization(id: number): Promise<OrganizationDetail> {
+  return apiGet<OrganizationDetail>(`${base}/${id}`);
+}
+
+export async function renameOrganization(id: number, name: string): Promise<Organization> {
+  const res = await apiPatch<{ organization: Organization }>(`${base}/${id}`, { name });
+  return res.organization;
+}
+
+export async function deleteOrganization(id: number): Promise<void> {
+  await apiDelete(`${base}/${id}`);
+}
+
+export async function changeMemberRole(id: number, userId: number, role: MemberRole): Promise<OrganizationMember[]> {
+  const res = await apiPatch<{ members: OrganizationMember[] }>(`${base}/${id}/members/${userId}`, { role });
+  return res.members;
+}
+
+/** Remove a member, or leave the workspace with your own user id */
+export async function removeMember(id: number, userId: number): Promise<void> {
+  await apiDelete(`${base}/${id}/members/${userId}`);
+}
+
+export async function inviteMember(id: number, email: string, role: MemberRole): Promise<OrganizationInvitation> {
+  const res = await apiPost<{ invitation: OrganizationInvitation }>(`${base}/${id}/invitations`, { email, role });
+  return res.invitation;
+}
+
+export async function revokeInvitation(id: number, invitationId: number): Promise<void> {
+  await apiDelete(`${base}/${id}/invitations/${invitationId}`);
+}
+
+export async function listMyInvitations(): Promise<OrganizationInvitation[]> {
+  const res = await apiGet<{ invitations: OrganizationInvitation[] }>(`${base}/invitations`);
+  return res.invitations;
+}
+
+export async function acceptInvitation(invitationId: number): Promise<Organization> {
+  const res = await apiPost<{ organization: Organization }>(`${base}/invitations/${invitationId}/accept`, {});
+  return res.organization;
+}
+
+export async function declineInvitation(invitationId: number): Promise<void> {
+  await apiPost(`${base}/invitations/${invitationId}/decline`, {});
+}
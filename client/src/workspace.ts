@@ -0,0 +1,26 @@
+// Active workspace (organization) of the sidebar, kept in localStorage.
+// null = the user's personal agents. Changes are broadcast as a
+// "workspace:changed" window event (detail: { organizationId }).
+
+const STORAGE_KEY = "fh.workspaceId";
+
+export function getActiveWorkspaceId(): number | null {
+  try {
+    if (typeof window === "undefined" || !window.localStorage) return null;
+    const raw = Number(window.localStorage.getItem(STORAGE_KEY));
+    return Number.isInteger(raw) && raw > 0 ? raw : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setActiveWorkspaceId(organizationId: number | null): void {
+  try {
+    if (typeof window === "undefined" || !window.localStorage) return;
+    if (organizationId) window.localStorage.setItem(STORAGE_KEY, String(organizationId));
+    else window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+  window.dispatchEvent(new CustomEvent("workspace:changed", { detail: { organizationId } }));
+}
@@ -1,4 +1,6 @@
 require('dotenv').config();
+const os = require('os');
+const path = require('path');
 
 const toBool = (v, d = false) => {
   if (v === undefined) return d;
@@ -13,14 +15,92 @@ const toNum = (v, d) => {
 // --- App / Server ---
 const NODE_ENV = process.env.NODE_ENV || 'development';
 const PORT = toNum(process.env.PORT, 4000);
+/** Proxy hops in front of the API (sets Express 'trust proxy' so req.ip is the client). */
+const TRUST_PROXY = toNum(process.env.TRUST_PROXY, 0);
+/** Public URL of this API; OAuth redirect URIs are built from it. */
+const API_URL = (process.env.API_URL || `http://localhost:${PORT}`).replace(/\/+$/, '');
+/** Public URL of the web client; links in emails point here. */
+const CLIENT_URL = (process.env.CLIENT_URL || 'http://localhost:5173').replace(/\/+$/, '');
 
 // --- Security / Auth ---
 const JWT_SECRET = process.env.JWT_SECRET || 'change-me-in-.env';
 /**
- * Access-token lifetime for stateless auth.
- * Examples: '1h', '12h', '7d'
+ * Access-token lifetime. Keep it short: sessions live on through the
+ * rotating refresh token. Examples: '5m', '15m', '1h'
  */
-const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '7d';
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+/** Refresh-token (session) lifetime, extended on every rotation. */
+const REFRESH_TOKEN_TTL_DAYS = toNum(process.env.REFRESH_TOKEN_TTL_DAYS, 7);
+const REFRESH_COOKIE_NAME = process.env.REFRESH_COOKIE_NAME || 'fh_refresh';
+/** 'lax' works when API and client share a site; use 'none' (+ secure) across sites. */
+const REFRESH_COOKIE_SAMESITE = process.env.REFRESH_COOKIE_SAMESITE || 'lax';
+const REFRESH_COOKIE_SECURE = toBool(process.env.REFRESH_COOKIE_SECURE, NODE_ENV === 'production');
+
+/** How long a password-reset link stays valid. */
+const PASSWORD_RESET_TTL_MINUTES = toNum(process.env.PASSWORD_RESET_TTL_MINUTES, 30);
+
+/** How long an email verification link stays valid. */
+const EMAIL_VERIFY_TTL_HOURS = toNum(process.env.EMAIL_VERIFY_TTL_HOURS, 48);
+/** Minimum wait between two verification emails to the same account. */
+const EMAIL_VERIFY_RESEND_COOLDOWN_SECONDS = toNum(process.env.EMAIL_VERIFY_RESEND_COOLDOWN_SECONDS, 60);
+/** Agents an account may own before its email is verified. */
+const UNVERIFIED_AGENT_LIMIT = toNum(process.env.UNVERIFIED_AGENT_LIMIT, 1);
+
+/** Issuer shown next to the account in authenticator apps. */
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Future Human';
+/** Time allowed between the password step and the 2FA code step of a login. */
+const TWO_FACTOR_CHALLENGE_TTL = process.env.TWO_FACTOR_CHALLENGE_TTL || '5m';
+
+// --- Organizations (see services/organizations.js) ---
+/** Lifetime of a workspace invitation. */
+const ORG_INVITE_TTL_DAYS = toNum(process.env.ORG_INVITE_TTL_DAYS, 14);
+
+// --- Agent history (see services/agentRevisions.js) ---
+/** Revisions kept per agent, oldest pruned first (0 keeps all). */
+const AGENT_REVISIONS_KEEP = toNum(process.env.AGENT_REVISIONS_KEEP, 100);
+/** Saves by the same author within this window fold into one revision (one wizard save = several requests). */
+const AGENT_REVISION_COALESCE_SECONDS = toNum(process.env.AGENT_REVISION_COALESCE_SECONDS, 10);
+
+// --- Wizard drafts (see services/agentDrafts.js) ---
+/** A draft expires this long after its last autosave. */
+const AGENT_DRAFT_TTL_DAYS = toNum(process.env.AGENT_DRAFT_TTL_DAYS, 7);
+/** How often expired drafts are deleted (0 disables the sweep). */
+const AGENT_DRAFT_SWEEP_MINUTES = toNum(process.env.AGENT_DRAFT_SWEEP_MINUTES, 60);
+
+// --- Agent trash (see services/agentTrash.js) ---
+/** Deleted agents can be restored for this long, then they are purged. */
+const AGENT_TRASH_RETENTION_DAYS = toNum(process.env.AGENT_TRASH_RETENTION_DAYS, 30);
+/** How often expired agents are purged from the trash (0 disables the sweep). */
+const AGENT_TRASH_SWEEP_MINUTES = toNum(process.env.AGENT_TRASH_SWEEP_MINUTES, 60);
+
+// --- OpenID Connect sign-in (see services/oidc.js) ---
+/**
+ * JSON array of providers, e.g.
+ * [{"id":"google","name":"Google","issuer":"https://accounts.google.com",
+ *   "clientId":"…","clientSecret":"…","scopes":"openid email profile"}]
+ * Each provider's redirect URI is `${API_URL}/api/auth/oidc/<id>/callback`.
+ */
+const OIDC_PROVIDERS = (() => {
+  const raw = process.env.OIDC_PROVIDERS;
+  if (!raw) return [];
+  try {
+    const list = JSON.parse(raw);
+    if (!Array.isArray(list)) throw new Error('expected an array');
+    return list;
+  } catch (err) {
+    throw new Error(`[config] OIDC_PROVIDERS is not valid JSON: ${err.message}`);
+  }
+})();
+
+// --- Rate limiting (see middleware/rateLimit.js) ---
+/** 'memory' (single process) or 'mysql' (shared by every API instance). */
+const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE || 'memory';
+/** Requests per IP per 15 minutes on each auth endpoint (login, register, 2FA, reset). */
+const AUTH_RATE_LIMIT_PER_IP = toNum(process.env.AUTH_RATE_LIMIT_PER_IP, 50);
+/** Failed logins on one account before it's locked; each further failure doubles the lock. */
+const LOGIN_LOCKOUT_THRESHOLD = toNum(process.env.LOGIN_LOCKOUT_THRESHOLD, 5);
+const LOGIN_LOCKOUT_BASE_SECONDS = toNum(process.env.LOGIN_LOCKOUT_BASE_SECONDS, 30);
+const LOGIN_LOCKOUT_MAX_SECONDS = toNum(process.env.LOGIN_LOCKOUT_MAX_SECONDS, 15 * 60);
 
 // --- Hashing ---
 const BCRYPT_ROUNDS = toNum(process.env.BCRYPT_ROUNDS, 10);
@@ -32,6 +112,33 @@ const DB_USER = process.env.DB_USER || 'root';
 const DB_PASSWORD = process.env.DB_PASSWORD || '';
 const DB_NAME = process.env.DB_NAME || 'future_human';
 
+// --- Conversations ---
+/** Reply engine used by the agent chat (see services/replyEngine.js). */
+const REPLY_ENGINE = process.env.REPLY_ENGINE || 'local';
+/**
+ * Per brain tier adapter override, e.g. 'level2:local,super:openai'.
+ * Tiers not listed use REPLY_ENGINE.
+ */
+const BRAIN_ADAPTERS = Object.fromEntries(
+  String(process.env.BRAIN_ADAPTERS || '')
+    .split(',')
+    .map((pair) => pair.split(':').map((s) => s.trim()))
+    .filter(([tier, engine]) => tier && engine)
+);
+
+// --- Knowledge base ---
+/** Max size of one uploaded knowledge document, in bytes (default 5 MB). */
+const KNOWLEDGE_MAX_BYTES = toNum(process.env.KNOWLEDGE_MAX_BYTES, 5 * 1024 * 1024);
+/** Knowledge chunks retrieved into each chat reply (0 disables retrieval). */
+const RAG_TOP_K = toNum(process.env.RAG_TOP_K, 4);
+
+// --- Mail ---
+/** Mail transport (see services/mailer.js): 'console' logs, 'file' writes .eml files. */
+const MAIL_TRANSPORT = process.env.MAIL_TRANSPORT || 'console';
+const MAIL_FROM = process.env.MAIL_FROM || 'Future Human <no-reply@futurehuman.local>';
+/** Where the 'file' transport drops messages. */
+const MAIL_DIR = process.env.MAIL_DIR || path.join(os.tmpdir(), 'future-human-mail');
+
 // --- CORS ---
 const CORS_ORIGIN = process.env.CORS_ORIGIN || 'http://localhost:5173';
 const CORS_CREDENTIALS = toBool(process.env.CORS_CREDENTIALS, true);
@@ -39,9 +146,38 @@ const CORS_CREDENTIALS = toBool(process.env.CORS_CREDENTIALS, true);
 module.exports = {
   NODE_ENV,
   PORT,
+  TRUST_PROXY,
+  API_URL,
+  CLIENT_URL,
 
   JWT_SECRET,
   ACCESS_TOKEN_TTL,
+  REFRESH_TOKEN_TTL_DAYS,
+  REFRESH_COOKIE_NAME,
+  REFRESH_COOKIE_SAMESITE,
+  REFRESH_COOKIE_SECURE,
+  PASSWORD_RESET_TTL_MINUTES,
+  EMAIL_VERIFY_TTL_HOURS,
+  EMAIL_VERIFY_RESEND_COOLDOWN_SECONDS,
+  UNVERIFIED_AGENT_LIMIT,
+  TOTP_ISSUER,
+  TWO_FACTOR_CHALLENGE_TTL,
+
+  ORG_INVITE_TTL_DAYS,
+  AGENT_REVISIONS_KEEP,
+  AGENT_REVISION_COALESCE_SECONDS,
+  AGENT_DRAFT_TTL_DAYS,
+  AGENT_DRAFT_SWEEP_MINUTES,
+  AGENT_TRASH_RETENTION_DAYS,
+  AGENT_TRASH_SWEEP_MINUTES,
+
+  OIDC_PROVIDERS,
+
+  RATE_LIMIT_STORE,
+  AUTH_RATE_LIMIT_PER_IP,
+  LOGIN_LOCKOUT_THRESHOLD,
+  LOGIN_LOCKOUT_BASE_SECONDS,
+  LOGIN_LOCKOUT_MAX_SECONDS,
 
   BCRYPT_ROUNDS,
 
@@ -51,6 +187,16 @@ module.exports = {
   DB_PASSWORD,
   DB_NAME,
 
+  REPLY_ENGINE,
+  BRAIN_ADAPTERS,
+
+  KNOWLEDGE_MAX_BYTES,
+  RAG_TOP_K,
+
+  MAIL_TRANSPORT,
+  MAIL_FROM,
+  MAIL_DIR,
+
   CORS_ORIGIN,
   CORS_CREDENTIALS,
 };
@@ -259,13 +259,6 @@ async function applyInitialSchemaIfNeeded() {
   });
 }
 
-/* ---------------------------- Built-in hotfixes --------------------------- */
-
-async function applyBuiltInHotfixes() {
-  // Remove legacy refresh_tokens table if present (moved to stateless JWTs)
-  await getPool().query('DROP TABLE IF EXISTS refresh_tokens');
-}
-
 /* ---------------------------- Apply FS migrations ------------------------- */
 
 async function applyFsMigrations() {
@@ -295,7 +288,8 @@ async function applyFsMigrations() {
 /* --------------------------------- Public -------------------------------- */
 
 /**
- * init(): first-run create DB, build pool, ping, bootstrap schema, hotfixes, and apply migrations.
+ * init(): first-run create DB, build pool, ping, bootstrap schema, and apply migrations.
+ * (The legacy refresh_tokens table is dropped by migration 001, before 007 recreates it.)
  */
 async function init() {
   await ensureDatabaseExists();
@@ -313,7 +307,6 @@ async function init() {
   }
 
   await applyInitialSchemaIfNeeded();
-  await applyBuiltInHotfixes();
   await applyFsMigrations();
 }
 
@@ -0,0 +1,158 @@
+// Local OpenID Connect issuer for development and manual testing of
+// services/oidc.js — never mount it in the API.
+//
+//   npm run mock-oidc
+//   OIDC_PROVIDERS=[{"id":"mock","name":"Mock SSO","issuer":"http://localhost:4010","clientId":"future-human","clientSecret":"dev-secret"}]
+//
+// /authorize shows a form to pick the signed-in identity (sub, email, whether the
+// email is verified); everything else follows the spec closely enough for the
+// real client: discovery, JWKS (RS256), code flow with S256 PKCE, nonce, userinfo.
+
+const crypto = require('crypto');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+
+const PORT = Number(process.env.MOCK_OIDC_PORT) || 4010;
+const ISSUER = (process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`).replace(/\/+$/, '');
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'future-human';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'dev-secret';
+const CODE_TTL_MS = 60_000;
+
+const KID = 'mock-1';
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const codes = new Map(); // code → { clientId, redirectUri, nonce, challenge, identity, expiresAt }
+const accessTokens = new Map(); // token → identity
+
+const escapeHtml = (s) =>
+  String(s ?? '').replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+
+function createApp() {
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (_req, res) => {
+    res.json({
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      userinfo_endpoint: `${ISSUER}/userinfo`,
+      jwks_uri: `${ISSUER}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+      scopes_supported: ['openid', 'email', 'profile'],
+    });
+  });
+
+  app.get('/jwks', (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID, use: 'sig', alg: 'RS256' }] });
+  });
+
+  /** Consent screen: the query string is carried through hidden fields */
+  app.get('/authorize', (req, res) => {
+    const q = req.query;
+    if (q.client_id !== CLIENT_ID) return res.status(400).send('unknown client_id');
+    if (q.response_type !== 'code' || q.code_challenge_method !== 'S256' || !q.code_challenge) {
+      return res.status(400).send('expected response_type=code with an S256 code_challenge');
+    }
+    const hidden = ['redirect_uri', 'state', 'nonce', 'code_challenge']
+      .map((k) => `<input type="hidden" name="${k}" value="${escapeHtml(q[k])}">`)
+      .join('');
+    res.type('html').send(`<!doctype html><title>Mock SSO</title>
+<form method="post" action="/authorize" style="font-family:sans-serif;max-width:320px;margin:60px auto;display:grid;gap:8px">
+  <h2>Mock SSO</h2>${hidden}
+  <label>Subject <input name="sub" value="mock-user-1" required></label>
+  <label>Email <input name="email" type="email" value="mock.user@example.com"></label>
+  <label>Name <input name="name" value="Mock User"></label>
+  <label><input type="checkbox" name="email_verified" checked> Email verified</label>
+  <button name="decision" value="allow">Sign in</button>
+  <button name="decision" value="deny">Cancel</button>
+</form>`);
+  });
+
+  app.post('/authorize', (req, res) => {
+    const b = req.body;
+    const redirect = new URL(b.redirect_uri);
+    if (b.state) redirect.searchParams.set('state', b.state);
+    if (b.decision !== 'allow') {
+      redirect.searchParams.set('error', 'access_denied');
+      return res.redirect(302, redirect.toString());
+    }
+
+    const code = crypto.randomBytes(24).toString('base64url');
+    const [given, ...family] = String(b.name || '').trim().split(/\s+/);
+    codes.set(code, {
+      clientId: CLIENT_ID,
+      redirectUri: b.redirect_uri,
+      nonce: b.nonce,
+      challenge: b.code_challenge,
+      expiresAt: Date.now() + CODE_TTL_MS,
+      identity: {
+        sub: b.sub,
+        email: b.email || undefined,
+        email_verified: b.email ? b.email_verified === 'on' : undefined,
+        name: b.name || undefined,
+        given_name: given || undefined,
+        family_name: family.join(' ') || undefined,
+      },
+    });
+    redirect.searchParams.set('code', code);
+    return res.redirect(302, redirect.toString());
+  });
+
+  app.post('/token', (req, res) => {
+    let clientId = req.body.client_id;
+    let clientSecret = req.body.client_secret;
+    const basic = /^Basic (.+)$/.exec(req.get('Authorization') || '');
+    if (basic) {
+      const [id, secret] = Buffer.from(basic[1], 'base64').toString().split(':').map(decodeURIComponent);
+      clientId = id;
+      clientSecret = secret;
+    }
+    if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+
+    const entry = codes.get(req.body.code);
+    codes.delete(req.body.code);
+    if (req.body.grant_type !== 'authorization_code' || !entry || entry.expiresAt < Date.now()) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+    if (entry.redirectUri !== req.body.redirect_uri) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'redirect_uri mismatch' });
+    }
+    const challenge = crypto.createHash('sha256').update(String(req.body.code_verifier || '')).digest('base64url');
+    if (challenge !== entry.challenge) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+
+    const accessToken = crypto.randomBytes(24).toString('base64url');
+    accessTokens.set(accessToken, entry.identity);
+    const idToken = jwt.sign(
+      { ...entry.identity, nonce: entry.nonce },
+      privateKey,
+      { algorithm: 'RS256', keyid: KID, issuer: ISSUER, audience: CLIENT_ID, expiresIn: '5m' }
+    );
+    return res.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 300, id_token: idToken });
+  });
+
+  app.get('/userinfo', (req, res) => {
+    const token = /^Bearer (.+)$/.exec(req.get('Authorization') || '')?.[1];
+    const identity = token && accessTokens.get(token);
+    if (!identity) return res.status(401).json({ error: 'invalid_token' });
+    return res.json(identity);
+  });
+
+  return app;
+}
+
+if (require.main === module) {
+  createApp().listen(PORT, () => {
+    console.log(`Mock OIDC issuer on ${ISSUER} (client_id=${CLIENT_ID})`);
+  });
+}
+
+module.exports = { createApp };
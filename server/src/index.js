@@ -3,9 +3,12 @@ const cors = require('cors');
 const cookieParser = require('cookie-parser');
 
 const db = require('./db');
+const { startDraftSweeper } = require('./services/agentDrafts');
+const { startTrashSweeper } = require('./services/agentTrash');
 const {
   PORT,
   NODE_ENV,
+  TRUST_PROXY,
   // New config shape (comma-separated list supported):
   CORS_ORIGIN,
   CORS_CREDENTIALS,
@@ -32,6 +35,8 @@ const corsOptions = {
     return cb(new Error(`Not allowed by CORS: ${origin}`));
   },
   credentials: typeof CORS_CREDENTIALS === 'boolean' ? CORS_CREDENTIALS : true,
+  // rate-limited responses tell the client when to retry; agent reads carry their version
+  exposedHeaders: ['Retry-After', 'ETag'],
 };
 
 app.use(cors(corsOptions));
@@ -39,12 +44,20 @@ app.use(express.json({ limit: '1mb' }));
 app.use(express.urlencoded({ extended: false }));
 app.use(cookieParser());
 
-// If you deploy behind a proxy (e.g., Nginx/Heroku), uncomment:
-// app.set('trust proxy', 1);
+// Behind a proxy (Nginx/Heroku…) set TRUST_PROXY so req.ip (rate limits, sessions) is the client's
+if (TRUST_PROXY) app.set('trust proxy', TRUST_PROXY);
 
 const authRoutes = require('./routes/auth');
+const oidcRoutes = require('./routes/oidc');
 const agentRoutes = require('./routes/agents');
+const draftRoutes = require('./routes/drafts');
 const accountRoutes = require('./routes/account');
+const adminRoutes = require('./routes/admin');
+const organizationRoutes = require('./routes/organizations');
+const conversationRoutes = require('./routes/conversations');
+const knowledgeRoutes = require('./routes/knowledge');
+const brainRoutes = require('./routes/brains');
+const entitlementRoutes = require('./routes/entitlements');
 
 /** Health endpoint (+ DB ping) */
 app.get('/api/health', async (_req, res) => {
@@ -58,9 +71,17 @@ app.get('/api/health', async (_req, res) => {
 });
 
 /** Routes */
+app.use('/api/auth/oidc', oidcRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/agents/:id/conversations', conversationRoutes);
+app.use('/api/agents/:id/knowledge', knowledgeRoutes);
+app.use('/api/agents/drafts', draftRoutes);
 app.use('/api/agents', agentRoutes);
 app.use('/api/account', accountRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/brains', brainRoutes);
+app.use('/api/entitlements', entitlementRoutes);
 
 /** 404 */
 app.use((req, res) => {
@@ -83,6 +104,8 @@ app.use((err, _req, res, _next) => {
 (async () => {
   try {
     await db.init();
+    startDraftSweeper();
+    startTrashSweeper();
     app.listen(PORT, () => {
       console.log(`API listening on http://localhost:${PORT}`);
     });
@@ -0,0 +1,27 @@
+// Agent access middleware for routes with an agent `:id` param (see services/agentAccess.js).
+// Place after `auth`; sets req.agent and req.agentRole.
+
+const { findAgentAccess, roleAtLeast } = require('../services/agentAccess');
+
+/**
+ * Require at least `minRole` ('viewer' | 'editor' | 'owner') on agent `req.params.id`.
+ * 404 `notFoundError` when the agent is missing or invisible to the user, 403 when the role is too low.
+ */
+function requireAgentAccess(minRole = 'viewer', { notFoundError = 'not_found', includeDeleted = false } = {}) {
+  return async (req, res, next) => {
+    try {
+      const access = await findAgentAccess(Number(req.params.id), req.user.id, { includeDeleted });
+      if (!access) return res.status(404).json({ error: notFoundError });
+      if (!roleAtLeast(access.role, minRole)) {
+        return res.status(403).json({ error: 'forbidden', message: `Requires ${minRole} access to this agent` });
+      }
+      req.agent = access.agent;
+      req.agentRole = access.role;
+      return next();
+    } catch (err) {
+      return next(err);
+    }
+  };
+}
+
+module.exports = { requireAgentAccess };
@@ -1,12 +1,21 @@
-// Stateless auth middleware: validates a Bearer JWT and populates req.user.
+// Auth middleware: validates a Bearer access JWT and populates req.user.
+// Tokens are short-lived, and each request also checks that the token's
+// session and token version are still live, so logout/revocation is immediate.
 // Use `auth` when a route requires login, and `optionalAuth` when it's nice-to-have.
+// `requireRole(...)` goes after `auth` to restrict a route to some user roles.
 
-const { parseAuthHeader, verifyAccessToken } = require('../utils/tokens');
+const {
+  parseAuthHeader,
+  verifyAccessToken,
+  isAccessTokenRevoked,
+  touchSession,
+} = require('../utils/tokens');
 
 /**
- * Require a valid access token. 401 on failure.
+ * Require a valid, unrevoked access token. 401 on failure.
  */
-function auth(req, res, next) {
+async function auth(req, res, next) {
+  let payload;
   try {
     const token = parseAuthHeader(req);
     if (!token) {
@@ -15,34 +24,63 @@ function auth(req, res, next) {
         message: 'Missing Bearer token',
       });
     }
-
-    const payload = verifyAccessToken(token);
-    req.user = normalizeUser(payload);
-    return next();
+    payload = verifyAccessToken(token);
   } catch (err) {
     return res.status(401).json({
       error: 'unauthorized',
       message: 'Invalid or expired token',
     });
   }
+
+  try {
+    if (await isAccessTokenRevoked(payload)) {
+      return res.status(401).json({
+        error: 'unauthorized',
+        message: 'Session has been revoked',
+      });
+    }
+    await touchSession(payload.sid);
+  } catch (err) {
+    return next(err);
+  }
+
+  req.user = normalizeUser(payload);
+  return next();
 }
 
 /**
- * Try to read a token, but don’t fail if it’s missing/invalid.
+ * Try to read a token, but don’t fail if it’s missing/invalid/revoked.
  * Useful for public endpoints that can personalize if logged in.
  */
-function optionalAuth(req, _res, next) {
+async function optionalAuth(req, _res, next) {
   try {
     const token = parseAuthHeader(req);
     if (!token) return next();
     const payload = verifyAccessToken(token);
-    req.user = normalizeUser(payload);
+    if (!(await isAccessTokenRevoked(payload))) req.user = normalizeUser(payload);
   } catch (_e) {
     // ignore
   }
   return next();
 }
 
+/**
+ * Restrict a route to some roles, e.g. `requireRole('ADMIN', 'SUPER_ADMIN')`. 403 otherwise.
+ * Must run after `auth`. The role comes from the access token: role changes bump
+ * the user's token version, so a token carrying an old role is already rejected.
+ */
+function requireRole(...roles) {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'unauthorized', message: 'Missing Bearer token' });
+    }
+    if (!roles.includes(req.user.userRole)) {
+      return res.status(403).json({ error: 'forbidden', message: 'Insufficient role' });
+    }
+    return next();
+  };
+}
+
 /** Ensure consistent shape on req.user */
 function normalizeUser(p) {
   return {
@@ -51,7 +89,8 @@ function normalizeUser(p) {
     userRole: p.userRole || 'USER',
     firstName: p.firstName || null,
     lastName: p.lastName || null,
+    sessionId: p.sid ?? null,
   };
 }
 
-module.exports = { auth, optionalAuth };
+module.exports = { auth, optionalAuth, requireRole };
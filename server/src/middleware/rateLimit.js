@@ -0,0 +1,254 @@
+// Rate limiting + brute-force lockout for sensitive endpoints (login, register…).
+//
+// - rateLimit():      fixed-window request cap per bucket (per IP, per email…)
+// - failureLockout(): counts responses carrying a failure error code (e.g.
+//                     'invalid_credentials') per bucket; past a threshold the
+//                     bucket is locked, twice as long after each further failure.
+//                     Each attempt is counted before the handler runs, so parallel
+//                     requests can't all slip in under the threshold.
+// Both answer 429 { error: 'too_many_requests', retryAfter } with a Retry-After header.
+//
+// Counters live in a store: in-memory by default (single process), or MySQL
+// (RATE_LIMIT_STORE=mysql) so several API instances share them.
+
+const db = require('../db');
+const { RATE_LIMIT_STORE } = require('../config');
+
+/* --------------------------------- Stores -------------------------------- */
+// A store keeps { count, resetAt } counters (resetAt in epoch ms):
+//   increment(key, windowMs) → { count, resetAt }  (starts a new window when expired)
+//   decrement(key)                                (never below 0; no-op when expired)
+//   get(key)                 → { count, resetAt } | null
+//   set(key, count, resetAt)
+//   delete(key)
+
+function createMemoryStore({ sweepMs = 60_000 } = {}) {
+  const entries = new Map();
+  const live = (key) => {
+    const e = entries.get(key);
+    if (e && e.resetAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return e || null;
+  };
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, e] of entries) if (e.resetAt <= now) entries.delete(key);
+  }, sweepMs);
+  sweep.unref?.();
+
+  return {
+    async increment(key, windowMs) {
+      const e = live(key) || { count: 0, resetAt: Date.now() + windowMs };
+      e.count += 1;
+      entries.set(key, e);
+      return { ...e };
+    },
+    async decrement(key) {
+      const e = live(key);
+      if (e) e.count = Math.max(0, e.count - 1);
+    },
+    async get(key) {
+      const e = live(key);
+      return e ? { ...e } : null;
+    },
+    async set(key, count, resetAt) {
+      entries.set(key, { count, resetAt });
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/** Needs the rate_limits table (migration 011). Times are computed by MySQL. */
+function createMysqlStore() {
+  const read = async (key) => {
+    const [rows] = await db.execute(
+      `SELECT hits, TIMESTAMPDIFF(MICROSECOND, NOW(3), reset_at) DIV 1000 AS ttl_ms
+       FROM rate_limits WHERE bucket_key = ? AND reset_at > NOW(3) LIMIT 1`,
+      [key]
+    );
+    if (!rows.length) return null;
+    return { count: Number(rows[0].hits), resetAt: Date.now() + Number(rows[0].ttl_ms) };
+  };
+
+  return {
+    async increment(key, windowMs) {
+      // hits is assigned before reset_at, so both IFs see the old reset_at
+      await db.execute(
+        `INSERT INTO rate_limits (bucket_key, hits, reset_at)
+         VALUES (?, 1, NOW(3) + INTERVAL ? MICROSECOND)
+         ON DUPLICATE KEY UPDATE
+           hits = IF(reset_at <= NOW(3), 1, hits + 1),
+           reset_at = IF(reset_at <= NOW(3), VALUES(reset_at), reset_at)`,
+        [key, windowMs * 1000]
+      );
+      return read(key);
+    },
+    async decrement(key) {
+      await db.execute(
+        `UPDATE rate_limits SET hits = GREATEST(hits - 1, 0)
+         WHERE bucket_key = ? AND reset_at > NOW(3)`,
+        [key]
+      );
+    },
+    get: read,
+    async set(key, count, resetAt) {
+      const ttlMs = Math.max(0, resetAt - Date.now());
+      await db.execute(
+        `INSERT INTO rate_limits (bucket_key, hits, reset_at)
+         VALUES (?, ?, NOW(3) + INTERVAL ? MICROSECOND)
+         ON DUPLICATE KEY UPDATE hits = VALUES(hits), reset_at = VALUES(reset_at)`,
+        [key, count, ttlMs * 1000]
+      );
+    },
+    async delete(key) {
+      await db.execute('DELETE FROM rate_limits WHERE bucket_key = ?', [key]);
+    },
+  };
+}
+
+let defaultStore = null;
+
+/** Store picked by RATE_LIMIT_STORE ('memory' | 'mysql'), created once. */
+function getDefaultStore() {
+  if (!defaultStore) {
+    defaultStore = RATE_LIMIT_STORE === 'mysql' ? createMysqlStore() : createMemoryStore();
+  }
+  return defaultStore;
+}
+
+/* --------------------------------- Keys ---------------------------------- */
+
+/** Bucket per client IP (see TRUST_PROXY when running behind a proxy). */
+const byIp = (req) => req.ip || req.socket?.remoteAddress || null;
+
+/** Bucket per submitted email (normalized); skipped when the body has none. */
+const byEmail = (req) => {
+  const email = req.body?.email;
+  return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : null;
+};
+
+/* ------------------------------- Middleware ------------------------------ */
+
+function tooManyRequests(res, resetAt) {
+  const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({ error: 'too_many_requests', retryAfter });
+}
+
+/**
+ * At most `max` requests per `windowMs` per bucket.
+ * `key(req)` names the bucket (null skips limiting for that request).
+ */
+function rateLimit({ name, windowMs, max, key = byIp, store }) {
+  return async (req, res, next) => {
+    try {
+      const k = key(req);
+      if (!k) return next();
+      const hit = await (store || getDefaultStore()).increment(`rl:${name}:${k}`, windowMs);
+      if (hit.count > max) return tooManyRequests(res, hit.resetAt);
+      return next();
+    } catch (err) {
+      return next(err);
+    }
+  };
+}
+
+/**
+ * Progressive lockout on repeated failures.
+ * A response is a failure when its JSON `error` is one of `failureErrors`.
+ * Failures are counted for `windowMs`; from the `threshold`-th one the bucket
+ * is locked for baseMs, then 2×, 4×… up to maxMs. A success clears the count
+ * when `resetOnSuccess` is set (per-account buckets, not per-IP ones).
+ *
+ * Every attempt reserves a slot in the failure count before `next()`; the slot
+ * is given back when the response isn't a failure. Attempts past the allowed
+ * count (threshold, or one more after each lock) are refused without running
+ * the handler, so a burst of parallel guesses can't outrun the lock.
+ */
+function failureLockout({
+  name,
+  key = byEmail,
+  threshold = 5,
+  baseMs = 30_000,
+  maxMs = 15 * 60_000,
+  windowMs = 60 * 60_000,
+  failureErrors = ['invalid_credentials'],
+  resetOnSuccess = false,
+  store,
+}) {
+  return async (req, res, next) => {
+    const s = store || getDefaultStore();
+    let k;
+    let attempt;
+    try {
+      k = key(req);
+      if (!k) return next();
+      const lock = await s.get(`lock:${name}:${k}`);
+      if (lock) return tooManyRequests(res, lock.resetAt);
+
+      attempt = await s.increment(`fail:${name}:${k}`, windowMs);
+      const allowed = await s.get(`allow:${name}:${k}`);
+      if (attempt.count > (allowed ? allowed.count : threshold)) {
+        // Earlier attempts still in flight hold the remaining slots
+        await s.decrement(`fail:${name}:${k}`);
+        return tooManyRequests(res, Date.now() + 1000);
+      }
+    } catch (err) {
+      return next(err);
+    }
+
+    let settled = false;
+    const settle = (outcome) => {
+      if (settled) return;
+      settled = true;
+      const done =
+        outcome === 'failure'
+          ? lockIfNeeded(s, name, k, attempt, { threshold, baseMs, maxMs })
+          : releaseAttempt(s, name, k, { clear: outcome === 'success' && resetOnSuccess });
+      void done.catch((err) => {
+        console.error('[rateLimit] could not settle attempt:', err);
+      });
+    };
+
+    const json = res.json.bind(res);
+    res.json = (body) => {
+      if (res.statusCode >= 400 && failureErrors.includes(body?.error)) settle('failure');
+      else settle(res.statusCode < 400 ? 'success' : 'error');
+      return json(body);
+    };
+    // Connection dropped (or a non-JSON response): don't keep the slot
+    res.once('close', () => settle('error'));
+    return next();
+  };
+}
+
+/** The reserved attempt was a failure: lock the bucket once past the threshold. */
+async function lockIfNeeded(store, name, k, attempt, { threshold, baseMs, maxMs }) {
+  if (attempt.count < threshold) return;
+  const lockMs = Math.min(maxMs, baseMs * 2 ** (attempt.count - threshold));
+  await store.set(`lock:${name}:${k}`, attempt.count, Date.now() + lockMs);
+  // Once the lock expires, allow exactly one more attempt
+  await store.set(`allow:${name}:${k}`, attempt.count + 1, attempt.resetAt);
+}
+
+/** The reserved attempt wasn't a failure: give the slot back (or forget the bucket). */
+async function releaseAttempt(store, name, k, { clear }) {
+  if (!clear) return store.decrement(`fail:${name}:${k}`);
+  await store.delete(`fail:${name}:${k}`);
+  await store.delete(`allow:${name}:${k}`);
+}
+
+module.exports = {
+  rateLimit,
+  failureLockout,
+  byIp,
+  byEmail,
+  createMemoryStore,
+  createMysqlStore,
+  getDefaultStore,
+};
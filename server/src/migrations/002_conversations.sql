@@ -0,0 +1,26 @@
+CREATE TABLE IF NOT EXISTS conversations (
+  id BIGINT(20) UNSIGNED NOT NULL AUTO_INCREMENT,
+  agent_id BIGINT(20) UNSIGNED NOT NULL,
+  user_id BIGINT(20) UNSIGNED NOT NULL,
+  title VARCHAR(191) DEFAULT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY ix_conversations_agent_user (agent_id, user_id),
+  KEY ix_conversations_updated_at (updated_at),
+  CONSTRAINT fk_conversations_agent FOREIGN KEY (agent_id) REFERENCES agents (id) ON DELETE CASCADE,
+  CONSTRAINT fk_conversations_user FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE TABLE IF NOT EXISTS messages (
+  id BIGINT(20) UNSIGNED NOT NULL AUTO_INCREMENT,
+  conversation_id BIGINT(20) UNSIGNED NOT NULL,
+  role ENUM('user','assistant') NOT NULL,
+  content MEDIUMTEXT NOT NULL,
+  status ENUM('complete','error') NOT NULL DEFAULT 'complete',
+  engine VARCHAR(64) DEFAULT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY ix_messages_conversation_id (conversation_id, id),
+  CONSTRAINT fk_messages_conversation FOREIGN KEY (conversation_id) REFERENCES conversations (id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
@@ -0,0 +1,2 @@
+ALTER TABLE messages
+  MODIFY status ENUM('complete','streaming','cancelled','error') NOT NULL DEFAULT 'complete';
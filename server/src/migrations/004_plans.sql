@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS plans (
+  id VARCHAR(32) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  entitlements LONGTEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_bin NOT NULL CHECK (json_valid(entitlements)),
+  sort_order INT NOT NULL DEFAULT 0,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+/* Entitlements are "<kind>:<assetId>" keys; "<kind>:*" unlocks every premium asset of that kind */
+INSERT IGNORE INTO plans (id, name, entitlements, sort_order) VALUES
+  ('free', 'Free', '[]', 0),
+  ('pro', 'Pro', '["brain:super","persona:*","background:*"]', 1);
+
+ALTER TABLE users
+  ADD COLUMN plan_id VARCHAR(32) NOT NULL DEFAULT 'free' AFTER user_role,
+  ADD KEY ix_users_plan_id (plan_id),
+  ADD CONSTRAINT fk_users_plan FOREIGN KEY (plan_id) REFERENCES plans (id);
@@ -0,0 +1,42 @@
+CREATE TABLE IF NOT EXISTS knowledge_documents (
+  id BIGINT(20) UNSIGNED NOT NULL AUTO_INCREMENT,
+  agent_id BIGINT(20) UNSIGNED NOT NULL,
+  uploaded_by BIGINT(20) UNSIGNED DEFAULT NULL,
+  filename VARCHAR(255) NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  size_bytes INT UNSIGNED NOT NULL DEFAULT 0,
+  status ENUM('processing','ready','error') NOT NULL DEFAULT 'processing',
+  error VARCHAR(255) DEFAULT NULL,
+  chunk_count INT UNSIGNED NOT NULL DEFAULT 0,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY ix_knowledge_documents_agent_id (agent_id),
+  CONSTRAINT fk_knowledge_documents_agent FOREIGN KEY (agent_id) REFERENCES agents (id) ON DELETE CASCADE,
+  CONSTRAINT fk_knowledge_documents_user FOREIGN KEY (uploaded_by) REFERENCES users (id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+CREATE TABLE IF NOT EXISTS knowledge_chunks (
+  id BIGINT(20) UNSIGNED NOT NULL AUTO_INCREMENT,
+  document_id BIGINT(20) UNSIGNED NOT NULL,
+  agent_id BIGINT(20) UNSIGNED NOT NULL,
+  seq INT UNSIGNED NOT NULL,
+  content MEDIUMTEXT NOT NULL,
+  term_count INT UNSIGNED NOT NULL DEFAULT 0,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_knowledge_chunks_doc_seq (document_id, seq),
+  KEY ix_knowledge_chunks_agent_id (agent_id),
+  CONSTRAINT fk_knowledge_chunks_document FOREIGN KEY (document_id) REFERENCES knowledge_documents (id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+/* Inverted index for BM25 lexical search: one row per (chunk, term) */
+CREATE TABLE IF NOT EXISTS knowledge_terms (
+  chunk_id BIGINT(20) UNSIGNED NOT NULL,
+  agent_id BIGINT(20) UNSIGNED NOT NULL,
+  term VARCHAR(64) NOT NULL,
+  tf SMALLINT UNSIGNED NOT NULL,
+  PRIMARY KEY (chunk_id, term),
+  KEY ix_knowledge_terms_agent_term (agent_id, term),
+  CONSTRAINT fk_knowledge_terms_chunk FOREIGN KEY (chunk_id) REFERENCES knowledge_chunks (id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
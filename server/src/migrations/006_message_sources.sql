@@ -0,0 +1,3 @@
+/* Knowledge citations attached to an assistant reply: [{ index, documentId, chunkId, filename, seq, snippet, score }] */
+ALTER TABLE messages
+  ADD COLUMN sources LONGTEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_bin DEFAULT NULL CHECK (json_valid(sources)) AFTER engine;
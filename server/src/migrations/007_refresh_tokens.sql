@@ -0,0 +1,33 @@
+/* Bumped to invalidate every access token of a user at once (password change…) */
+ALTER TABLE users
+  ADD COLUMN token_version INT UNSIGNED NOT NULL DEFAULT 0 AFTER password_hash;
+
+/* One row per signed-in device; a session owns a chain of rotating refresh tokens */
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id BIGINT(20) UNSIGNED NOT NULL AUTO_INCREMENT,
+  user_id BIGINT(20) UNSIGNED NOT NULL,
+  user_agent VARCHAR(255) DEFAULT NULL,
+  ip VARCHAR(45) DEFAULT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  revoked_at DATETIME DEFAULT NULL,
+  revoked_reason VARCHAR(32) DEFAULT NULL,
+  PRIMARY KEY (id),
+  KEY ix_user_sessions_user_id (user_id, revoked_at),
+  CONSTRAINT fk_user_sessions_user FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+/* Only a sha256 of each refresh token is stored; used_at marks a rotated token */
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id BIGINT(20) UNSIGNED NOT NULL AUTO_INCREMENT,
+  session_id BIGINT(20) UNSIGNED NOT NULL,
+  token_hash CHAR(64) NOT NULL,
+  expires_at DATETIME NOT NULL,
+  used_at DATETIME DEFAULT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_refresh_tokens_hash (token_hash),
+  KEY ix_refresh_tokens_session_id (session_id),
+  CONSTRAINT fk_refresh_tokens_session FOREIGN KEY (session_id) REFERENCES user_sessions (id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
@@ -0,0 +1,7 @@
+/* Email verification: NULL until the emailed link is opened */
+ALTER TABLE users
+  ADD COLUMN email_verified_at DATETIME DEFAULT NULL AFTER email,
+  ADD COLUMN verification_sent_at DATETIME DEFAULT NULL AFTER email_verified_at;
+
+/* Accounts created before verification existed are trusted as-is */
+UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
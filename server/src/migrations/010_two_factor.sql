@@ -0,0 +1,17 @@
+/* TOTP 2FA: the secret is stored encrypted; it is pending until totp_enabled_at is set */
+ALTER TABLE users
+  ADD COLUMN totp_secret VARCHAR(255) DEFAULT NULL AFTER token_version,
+  ADD COLUMN totp_enabled_at DATETIME DEFAULT NULL AFTER totp_secret,
+  ADD COLUMN totp_last_step BIGINT(20) UNSIGNED DEFAULT NULL AFTER totp_enabled_at;
+
+/* Single-use recovery codes (sha256 only), replaced as a set on each enrollment */
+CREATE TABLE IF NOT EXISTS user_recovery_codes (
+  id BIGINT(20) UNSIGNED NOT NULL AUTO_INCREMENT,
+  user_id BIGINT(20) UNSIGNED NOT NULL,
+  code_hash CHAR(64) NOT NULL,
+  used_at DATETIME DEFAULT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_user_recovery_codes_hash (user_id, code_hash),
+  CONSTRAINT fk_user_recovery_codes_user FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
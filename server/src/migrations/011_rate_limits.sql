@@ -0,0 +1,8 @@
+/* Shared counters for middleware/rateLimit.js when RATE_LIMIT_STORE=mysql */
+CREATE TABLE IF NOT EXISTS rate_limits (
+  bucket_key VARCHAR(191) NOT NULL,
+  hits INT UNSIGNED NOT NULL DEFAULT 0,
+  reset_at DATETIME(3) NOT NULL,
+  PRIMARY KEY (bucket_key),
+  KEY ix_rate_limits_reset_at (reset_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
@@ -0,0 +1,5 @@
+/* Accounts disabled by an admin can't sign in; their sessions are revoked when disabled */
+ALTER TABLE users
+  ADD COLUMN disabled_at DATETIME DEFAULT NULL AFTER token_version,
+  ADD COLUMN disabled_by BIGINT(20) UNSIGNED DEFAULT NULL AFTER disabled_at,
+  ADD KEY ix_users_disabled (disabled_at);
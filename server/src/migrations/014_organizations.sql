@@ -0,0 +1,44 @@
+/* Workspaces: members share the agents owned by the organization */
+CREATE TABLE IF NOT EXISTS organizations (
+  id BIGINT(20) UNSIGNED NOT NULL AUTO_INCREMENT,
+  name VARCHAR(191) NOT NULL,
+  created_by BIGINT(20) UNSIGNED DEFAULT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  CONSTRAINT fk_organizations_creator FOREIGN KEY (created_by) REFERENCES users (id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+/* owner: everything incl. members and deleting agents; editor: create/edit agents; viewer: read + chat */
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id BIGINT(20) UNSIGNED NOT NULL,
+  user_id BIGINT(20) UNSIGNED NOT NULL,
+  role ENUM('owner','editor','viewer') NOT NULL DEFAULT 'viewer',
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (organization_id, user_id),
+  KEY ix_organization_members_user (user_id),
+  CONSTRAINT fk_organization_members_org FOREIGN KEY (organization_id) REFERENCES organizations (id) ON DELETE CASCADE,
+  CONSTRAINT fk_organization_members_user FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+/* Pending invitations by email; accepted by the signed-in user owning that (verified) address */
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id BIGINT(20) UNSIGNED NOT NULL AUTO_INCREMENT,
+  organization_id BIGINT(20) UNSIGNED NOT NULL,
+  email VARCHAR(191) NOT NULL,
+  role ENUM('owner','editor','viewer') NOT NULL DEFAULT 'viewer',
+  invited_by BIGINT(20) UNSIGNED DEFAULT NULL,
+  expires_at DATETIME NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  UNIQUE KEY uq_organization_invitations_email (organization_id, email),
+  KEY ix_organization_invitations_email (email),
+  CONSTRAINT fk_organization_invitations_org FOREIGN KEY (organization_id) REFERENCES organizations (id) ON DELETE CASCADE,
+  CONSTRAINT fk_organization_invitations_inviter FOREIGN KEY (invited_by) REFERENCES users (id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+/* Workspace agents; NULL = personal agent of owner_id. An organization can't be deleted while it has agents */
+ALTER TABLE agents
+  ADD COLUMN organization_id BIGINT(20) UNSIGNED DEFAULT NULL AFTER owner_id,
+  ADD KEY ix_agents_organization_id (organization_id),
+  ADD CONSTRAINT fk_agents_organization FOREIGN KEY (organization_id) REFERENCES organizations (id) ON DELETE RESTRICT;
@@ -0,0 +1,13 @@
+/* One agent shared with one user, short of a workspace. viewer: read + chat; editor: edit */
+CREATE TABLE IF NOT EXISTS agent_shares (
+  agent_id BIGINT(20) UNSIGNED NOT NULL,
+  user_id BIGINT(20) UNSIGNED NOT NULL,
+  role ENUM('editor','viewer') NOT NULL DEFAULT 'viewer',
+  shared_by BIGINT(20) UNSIGNED DEFAULT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (agent_id, user_id),
+  KEY ix_agent_shares_user (user_id),
+  CONSTRAINT fk_agent_shares_agent FOREIGN KEY (agent_id) REFERENCES agents (id) ON DELETE CASCADE,
+  CONSTRAINT fk_agent_shares_user FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+  CONSTRAINT fk_agent_shares_sharer FOREIGN KEY (shared_by) REFERENCES users (id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
@@ -0,0 +1,14 @@
+/* Snapshot of an agent (rowToAgent payload + connections) after each save, for history / diff / restore */
+CREATE TABLE IF NOT EXISTS agent_revisions (
+  id BIGINT(20) UNSIGNED NOT NULL AUTO_INCREMENT,
+  agent_id BIGINT(20) UNSIGNED NOT NULL,
+  author_id BIGINT(20) UNSIGNED DEFAULT NULL,
+  action ENUM('initial','created','updated','restored') NOT NULL DEFAULT 'updated',
+  snapshot LONGTEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_bin NOT NULL CHECK (json_valid(snapshot)),
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (id),
+  KEY ix_agent_revisions_agent (agent_id, id),
+  CONSTRAINT fk_agent_revisions_agent FOREIGN KEY (agent_id) REFERENCES agents (id) ON DELETE CASCADE,
+  CONSTRAINT fk_agent_revisions_author FOREIGN KEY (author_id) REFERENCES users (id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
@@ -0,0 +1,16 @@
+/* Autosaved, partially valid create-wizard state (incl. connections). Consumed when the agent is created, swept when expired */
+CREATE TABLE IF NOT EXISTS agent_drafts (
+  id CHAR(36) NOT NULL,
+  user_id BIGINT(20) UNSIGNED NOT NULL,
+  organization_id BIGINT(20) UNSIGNED DEFAULT NULL,
+  step VARCHAR(32) DEFAULT NULL,
+  payload LONGTEXT CHARACTER SET utf8mb4 COLLATE utf8mb4_bin NOT NULL CHECK (json_valid(payload)),
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  PRIMARY KEY (id),
+  KEY ix_agent_drafts_user (user_id, updated_at),
+  KEY ix_agent_drafts_expires (expires_at),
+  CONSTRAINT fk_agent_drafts_user FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+  CONSTRAINT fk_agent_drafts_org FOREIGN KEY (organization_id) REFERENCES organizations (id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
@@ -0,0 +1,3 @@
+/* Optimistic concurrency: bumped by every write to an agent or its connections, served as the agent's ETag */
+ALTER TABLE agents
+  ADD COLUMN version INT UNSIGNED NOT NULL DEFAULT 1 AFTER draft_id;
@@ -0,0 +1,6 @@
+/* Keyset pagination of agent lists: per owner / per workspace, by last update or by name (the primary key breaks ties) */
+ALTER TABLE agents
+  ADD KEY ix_agents_owner_updated (owner_id, updated_at),
+  ADD KEY ix_agents_owner_name (owner_id, identity_name),
+  ADD KEY ix_agents_org_updated (organization_id, updated_at),
+  ADD KEY ix_agents_org_name (organization_id, identity_name);
@@ -0,0 +1,6 @@
+/* Archived agents are hidden from agent lists; deleted agents sit in the trash until restored or purged */
+ALTER TABLE agents
+  ADD COLUMN archived_at DATETIME DEFAULT NULL AFTER version,
+  ADD COLUMN deleted_at DATETIME DEFAULT NULL AFTER archived_at,
+  ADD COLUMN deleted_by BIGINT(20) UNSIGNED DEFAULT NULL AFTER deleted_at,
+  ADD KEY ix_agents_deleted (deleted_at);
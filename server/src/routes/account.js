@@ -4,7 +4,17 @@ const bcrypt = require('bcryptjs');
 
 const db = require('../db');
 const { auth } = require('../middleware/auth');
-const { revokeAllUserRefreshTokens } = require('../utils/tokens');
+const {
+  revokeAllUserRefreshTokens,
+  revokeSession,
+  signAccessToken,
+} = require('../utils/tokens');
+const {
+  getTwoFactorStatus,
+  beginEnrollment,
+  confirmEnrollment,
+  disableTwoFactor,
+} = require('../services/twoFactor');
 
 const router = express.Router();
 
@@ -20,12 +30,25 @@ function mapUserRow(u) {
     address: u.address,
     postalCode: u.postal_code, // renamed
     country: u.country,        // renamed
+    emailVerifiedAt: u.email_verified_at ?? null,
     createdAt: u.created_at,
     updatedAt: u.updated_at,
     fullName: [u.first_name, u.last_name].filter(Boolean).join(' ').trim(),
   };
 }
 
+function mapSessionRow(s, currentSessionId) {
+  return {
+    id: s.id,
+    userAgent: s.user_agent,
+    ip: s.ip,
+    createdAt: s.created_at,
+    lastSeenAt: s.last_seen_at,
+    expiresAt: s.expires_at,
+    current: Number(s.id) === currentSessionId,
+  };
+}
+
 function buildUpdateSQL(cols) {
   const keys = Object.keys(cols);
   if (!keys.length) return { sql: '', values: [] };
@@ -50,6 +73,14 @@ const ChangePasswordSchema = z.object({
   newPassword: z.string().min(6),
 });
 
+const TwoFactorConfirmSchema = z.object({
+  code: z.string().min(1).max(16),
+});
+
+const TwoFactorDisableSchema = z.object({
+  password: z.string().min(1),
+});
+
 // ---------- routes ----------
 router.use(auth);
 
@@ -95,7 +126,11 @@ router.patch('/', async (req, res) => {
   return res.json({ user: mapUserRow(rows[0]) });
 });
 
-/** PATCH /api/account/password */
+/**
+ * PATCH /api/account/password
+ * Signs every other device out; returns a new access token for this one
+ * (the old one is invalidated by the token-version bump).
+ */
 router.patch('/password', async (req, res) => {
   const parsed = ChangePasswordSchema.safeParse(req.body);
   if (!parsed.success) {
@@ -116,8 +151,116 @@ router.patch('/password', async (req, res) => {
   const newHash = await bcrypt.hash(newPassword, 10);
   await db.execute('UPDATE users SET password_hash = ? WHERE id = ?', [newHash, req.user.id]);
 
-  await revokeAllUserRefreshTokens(req.user.id);
+  const tokenVersion = await revokeAllUserRefreshTokens(req.user.id, {
+    exceptSessionId: req.user.sessionId,
+    reason: 'password_change',
+  });
+  const accessToken = signAccessToken(req.user, { sessionId: req.user.sessionId, tokenVersion });
+
+  return res.json({ ok: true, accessToken });
+});
+
+/**
+ * GET /api/account/sessions
+ * Signed-in devices (live sessions), most recently active first.
+ */
+router.get('/sessions', async (req, res) => {
+  const [rows] = await db.execute(
+    `SELECT id, user_agent, ip, created_at, last_seen_at, expires_at
+     FROM user_sessions
+     WHERE user_id = ? AND revoked_at IS NULL AND expires_at > NOW()
+     ORDER BY last_seen_at DESC, id DESC`,
+    [req.user.id]
+  );
+  const sessions = rows.map((s) => mapSessionRow(s, Number(req.user.sessionId)));
+  return res.json({ sessions });
+});
+
+/**
+ * DELETE /api/account/sessions
+ * "Sign out everywhere else": revokes every session but the current one and
+ * returns a new access token for this device (the token version is bumped).
+ */
+router.delete('/sessions', async (req, res) => {
+  const tokenVersion = await revokeAllUserRefreshTokens(req.user.id, {
+    exceptSessionId: req.user.sessionId,
+    reason: 'signed_out_elsewhere',
+  });
+  const accessToken = signAccessToken(req.user, { sessionId: req.user.sessionId, tokenVersion });
+  return res.json({ ok: true, accessToken });
+});
+
+/**
+ * DELETE /api/account/sessions/:id
+ * Signs one device out. Revoking the current session is the same as logging out.
+ */
+router.delete('/sessions/:id', async (req, res) => {
+  const sessionId = Number(req.params.id);
+  if (!Number.isInteger(sessionId) || sessionId <= 0) {
+    return res.status(400).json({ error: 'invalid_id' });
+  }
+
+  const [rows] = await db.execute(
+    'SELECT id FROM user_sessions WHERE id = ? AND user_id = ? AND revoked_at IS NULL LIMIT 1',
+    [sessionId, req.user.id]
+  );
+  if (!rows.length) return res.status(404).json({ error: 'not_found' });
+
+  await revokeSession(sessionId, 'revoked_by_user');
+  return res.json({ ok: true, current: sessionId === Number(req.user.sessionId) });
+});
+
+/** GET /api/account/2fa */
+router.get('/2fa', async (req, res) => {
+  return res.json(await getTwoFactorStatus(req.user.id));
+});
 
+/**
+ * POST /api/account/2fa/setup
+ * Starts enrollment: returns the secret and its otpauth:// URI (for the QR code).
+ */
+router.post('/2fa/setup', async (req, res) => {
+  const result = await beginEnrollment(req.user.id);
+  if (!result.ok) {
+    const status = result.reason === 'already_enabled' ? 409 : 404;
+    return res.status(status).json({ error: result.reason });
+  }
+  return res.json({ secret: result.secret, otpauthUri: result.otpauthUri });
+});
+
+/**
+ * POST /api/account/2fa/confirm
+ * Enables 2FA with a first code from the app; returns the recovery codes (shown once).
+ */
+router.post('/2fa/confirm', async (req, res) => {
+  const parsed = TwoFactorConfirmSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+
+  const result = await confirmEnrollment(req.user.id, parsed.data.code);
+  if (!result.ok) {
+    const status = result.reason === 'already_enabled' ? 409 : 400;
+    return res.status(status).json({ error: result.reason });
+  }
+  return res.json({ ok: true, recoveryCodes: result.recoveryCodes });
+});
+
+/**
+ * POST /api/account/2fa/disable
+ * Turns 2FA off (password required) and drops the recovery codes.
+ */
+router.post('/2fa/disable', async (req, res) => {
+  const parsed = TwoFactorDisableSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+
+  const result = await disableTwoFactor(req.user.id, parsed.data.password);
+  if (!result.ok) {
+    const error = result.reason === 'invalid_password' ? 'invalid_current_password' : result.reason;
+    return res.status(400).json({ error });
+  }
   return res.json({ ok: true });
 });
 
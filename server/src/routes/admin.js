@@ -0,0 +1,189 @@
+// Admin console API (mounted at /api/admin): user management for ADMIN and
+// SUPER_ADMIN. Admins manage regular users; only super admins change roles or
+// act on other admins. Nobody changes their own role or disables themselves.
+
+const express = require('express');
+const { z } = require('zod');
+const db = require('../db');
+const { auth, requireRole } = require('../middleware/auth');
+const { revokeAllUserRefreshTokens } = require('../utils/tokens');
+const { SELECT_BASE, rowToAgent } = require('../utils/agents');
+
+const router = express.Router();
+router.use(auth, requireRole('ADMIN', 'SUPER_ADMIN'));
+
+const ROLES = ['USER', 'ADMIN', 'SUPER_ADMIN'];
+
+/* ------------------------ Schemas ------------------------ */
+const listUsersSchema = z.object({
+  q: z.string().trim().max(191).optional(),
+  role: z.enum(ROLES).optional(),
+  status: z.enum(['active', 'disabled']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const changeRoleSchema = z.object({
+  role: z.enum(ROLES),
+});
+
+/* ------------------------ Helpers ------------------------ */
+
+// Admin view of a user: profile plus account state, no secrets
+const SELECT_USERS = `
+  SELECT u.id, u.first_name, u.last_name, u.email, u.user_role, u.plan_id,
+         u.email_verified_at, u.totp_enabled_at, u.disabled_at, u.created_at,
+         (SELECT COUNT(*) FROM agents a WHERE a.owner_id = u.id) AS agent_count,
+         (SELECT MAX(s.last_seen_at) FROM user_sessions s WHERE s.user_id = u.id) AS last_seen_at
+  FROM users u
+`;
+
+function mapAdminUserRow(u) {
+  return {
+    id: u.id,
+    firstName: u.first_name,
+    lastName: u.last_name,
+    fullName: [u.first_name, u.last_name].filter(Boolean).join(' ').trim(),
+    email: u.email,
+    userRole: u.user_role,
+    planId: u.plan_id,
+    emailVerifiedAt: u.email_verified_at ?? null,
+    twoFactorEnabled: !!u.totp_enabled_at,
+    disabledAt: u.disabled_at ?? null,
+    agentCount: Number(u.agent_count ?? 0),
+    lastSeenAt: u.last_seen_at ?? null,
+    createdAt: u.created_at,
+  };
+}
+
+async function findAdminUser(id) {
+  const [rows] = await db.execute(`${SELECT_USERS} WHERE u.id = ? LIMIT 1`, [id]);
+  return rows.length ? rows[0] : null;
+}
+
+/**
+ * Load the target user of a write and check the actor may touch it.
+ * → { ok: true, target } | { ok: false, status, error }
+ */
+async function loadManagedUser(req) {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) return { ok: false, status: 404, error: 'not_found' };
+  if (id === Number(req.user.id)) return { ok: false, status: 409, error: 'cannot_modify_self' };
+
+  const target = await findAdminUser(id);
+  if (!target) return { ok: false, status: 404, error: 'not_found' };
+  // admins only manage regular users
+  if (target.user_role !== 'USER' && req.user.userRole !== 'SUPER_ADMIN') {
+    return { ok: false, status: 403, error: 'forbidden' };
+  }
+  return { ok: true, target };
+}
+
+/* ------------------------ Routes ------------------------ */
+
+/**
+ * GET /api/admin/users?q=&role=&status=&limit=&offset=
+ * Search users by name or email (newest first), optionally by role and status.
+ */
+router.get('/users', async (req, res) => {
+  const parsed = listUsersSchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  const { q, role, status, limit, offset } = parsed.data;
+
+  const where = [];
+  const params = [];
+  if (q) {
+    const like = `%${q.replace(/[\\%_]/g, '\\$&')}%`;
+    where.push(`(u.email LIKE ? OR CONCAT_WS(' ', u.first_name, u.last_name) LIKE ?)`);
+    params.push(like, like);
+  }
+  if (role) {
+    where.push('u.user_role = ?');
+    params.push(role);
+  }
+  if (status) where.push(status === 'disabled' ? 'u.disabled_at IS NOT NULL' : 'u.disabled_at IS NULL');
+  const whereSql = where.length ? `WHERE ${where.join(' AND ')}` : '';
+
+  const [[{ total }]] = await db.execute(`SELECT COUNT(*) AS total FROM users u ${whereSql}`, params);
+  // LIMIT/OFFSET are validated integers; inlined because prepared LIMIT params are unreliable in mysql2
+  const [rows] = await db.execute(
+    `${SELECT_USERS} ${whereSql} ORDER BY u.id DESC LIMIT ${limit} OFFSET ${offset}`,
+    params
+  );
+  return res.json({ users: rows.map(mapAdminUserRow), total: Number(total), limit, offset });
+});
+
+/**
+ * GET /api/admin/users/:id
+ */
+router.get('/users/:id', async (req, res) => {
+  const u = await findAdminUser(req.params.id);
+  if (!u) return res.status(404).json({ error: 'not_found' });
+  return res.json({ user: mapAdminUserRow(u) });
+});
+
+/**
+ * GET /api/admin/users/:id/agents
+ * Any user's agents, read-only.
+ */
+router.get('/users/:id/agents', async (req, res) => {
+  const u = await findAdminUser(req.params.id);
+  if (!u) return res.status(404).json({ error: 'not_found' });
+  const [rows] = await db.execute(`${SELECT_BASE} WHERE owner_id = ? ORDER BY id DESC`, [u.id]);
+  return res.json({ agents: rows.map(rowToAgent) });
+});
+
+/**
+ * PATCH /api/admin/users/:id/role
+ * Super admins only. Bumps the user's token version so their next request
+ * refreshes into a token carrying the new role.
+ */
+router.patch('/users/:id/role', requireRole('SUPER_ADMIN'), async (req, res) => {
+  const parsed = changeRoleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  const managed = await loadManagedUser(req);
+  if (!managed.ok) return res.status(managed.status).json({ error: managed.error });
+
+  if (managed.target.user_role !== parsed.data.role) {
+    await db.execute(
+      'UPDATE users SET user_role = ?, token_version = token_version + 1 WHERE id = ?',
+      [parsed.data.role, managed.target.id]
+    );
+  }
+  return res.json({ user: mapAdminUserRow(await findAdminUser(managed.target.id)) });
+});
+
+/**
+ * POST /api/admin/users/:id/disable
+ * Blocks sign-in and revokes every session of the user.
+ */
+router.post('/users/:id/disable', async (req, res) => {
+  const managed = await loadManagedUser(req);
+  if (!managed.ok) return res.status(managed.status).json({ error: managed.error });
+
+  if (!managed.target.disabled_at) {
+    await db.execute(
+      'UPDATE users SET disabled_at = NOW(), disabled_by = ? WHERE id = ?',
+      [req.user.id, managed.target.id]
+    );
+    await revokeAllUserRefreshTokens(managed.target.id, { reason: 'disabled' });
+  }
+  return res.json({ user: mapAdminUserRow(await findAdminUser(managed.target.id)) });
+});
+
+/**
+ * POST /api/admin/users/:id/enable
+ */
+router.post('/users/:id/enable', async (req, res) => {
+  const managed = await loadManagedUser(req);
+  if (!managed.ok) return res.status(managed.status).json({ error: managed.error });
+
+  await db.execute('UPDATE users SET disabled_at = NULL, disabled_by = NULL WHERE id = ?', [managed.target.id]);
+  return res.json({ user: mapAdminUserRow(await findAdminUser(managed.target.id)) });
+});
+
+module.exports = router;
@@ -2,6 +2,43 @@ const express = require('express');
 const { z } = require('zod');
 const db = require('../db');
 const { auth } = require('../middleware/auth');
+const { requireAgentAccess } = require('../middleware/agentAccess');
+const {
+  SELECT_BASE,
+  SELECT_CONNECTIONS,
+  rowToAgent,
+  rowToConnection,
+  rowToPublicConnection,
+  payloadToColumns,
+  buildUpdateSQL,
+  agentETag,
+  parseIfMatch,
+} = require('../utils/agents');
+const { compilePrompt } = require('../services/promptCompiler');
+const { DEFAULT_BRAIN_ID, isKnownBrain } = require('../services/brains');
+const { getUserPlan, findLockedSelections, entitlementRequired } = require('../services/entitlements');
+const { canCreateAgent } = require('../services/emailVerification');
+const { getMemberRole, roleAtLeast } = require('../services/organizations');
+const {
+  ensureBaseline,
+  recordRevision,
+  listRevisions,
+  getRevision,
+  diffRevision,
+  restoreColumns,
+  restoreRevision,
+} = require('../services/agentRevisions');
+const { deleteDraft } = require('../services/agentDrafts');
+const { listTemplates } = require('../services/agentTemplates');
+const { parseBundle, buildBundle } = require('../services/agentBundles');
+const { purgeDate, listTrash, purgeAgent } = require('../services/agentTrash');
+const {
+  SHARE_ROLES,
+  listShares,
+  shareAgent,
+  unshareAgent,
+  listSharedAgents,
+} = require('../services/agentAccess');
 
 const router = express.Router();
 router.use(auth);
@@ -11,6 +48,20 @@ router.use(auth);
 const nonEmpty = z.string().trim().min(1);
 const styleScore = z.number().int().min(0).max(10);
 
+const ConnectionCreateSchema = z.object({
+  extId: nonEmpty,
+  providerId: nonEmpty,
+  status: z.enum(['connected', 'needs_setup', 'error']).default('needs_setup'),
+  config: z.any().optional(),
+  token: z.string().optional().nullable(),
+});
+
+// a whole connection set (create, PUT /full): one entry per extId
+const ConnectionSetSchema = z.array(ConnectionCreateSchema).max(50).refine(
+  (list) => new Set(list.map((c) => c.extId)).size === list.length,
+  { message: 'Duplicate extId' }
+);
+
 const AgentCreateSchema = z.object({
   identity: z.object({
     name: nonEmpty,
@@ -44,171 +95,116 @@ const AgentCreateSchema = z.object({
     backgroundId: z.string().optional().nullable(),
   }).partial().default({}),
   draftId: z.string().optional().nullable(),
+  /** Workspace that owns the agent (null/absent: a personal agent) */
+  organizationId: z.number().int().positive().optional().nullable(),
+  /** Connections created together with the agent */
+  connections: ConnectionSetSchema.default([]),
 });
 
-const AgentUpdateSchema = AgentCreateSchema.deepPartial();
+// the owning workspace is set at creation only; connections have their own routes
+const AgentUpdateSchema = AgentCreateSchema.omit({ organizationId: true, connections: true }).deepPartial();
 
-const ConnectionCreateSchema = z.object({
-  extId: nonEmpty,
-  providerId: nonEmpty,
-  status: z.enum(['connected', 'needs_setup', 'error']).default('needs_setup'),
-  config: z.any().optional(),
-  token: z.string().optional().nullable(),
+// PUT /:id/full: every agent field plus the complete connection set
+const AgentFullSchema = AgentCreateSchema.omit({ organizationId: true }).extend({
+  connections: ConnectionSetSchema,
 });
 
-const ConnectionUpdateSchema = ConnectionCreateSchema.partial();
+const AgentListQuerySchema = z.object({
+  organizationId: z.coerce.number().int().positive().optional(),
+  /** Text search over name, role and company */
+  q: z.string().trim().max(100).optional(),
+  brain: z.string().trim().min(1).max(64).optional(),
+  language: z.string().trim().min(1).max(32).optional(),
+  hasConnections: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+  /** List the archived agents instead of the active ones */
+  archived: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+  sort: z.enum(['created', 'updated', 'name']).default('created'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  /** `nextCursor` of the previous page */
+  cursor: z.string().max(512).optional(),
+});
 
-/* ------------------------------ mappers --------------------------------- */
+const TrashQuerySchema = z.object({
+  organizationId: z.coerce.number().int().positive().optional(),
+});
 
-function rowToAgent(r) {
-  return {
-    id: r.id,
-    ownerId: r.owner_id,
-    identity: {
-      name: r.identity_name,
-      role: r.identity_role,
-      companyName: r.identity_company_name,
-      desc: r.identity_desc,
-    },
-    appearance: {
-      personaId: r.appearance_persona_id,
-      bgColor: r.appearance_bg_color,
-    },
-    voice: {
-      language: r.voice_language,
-      name: r.voice_name,
-    },
-    style: {
-      formality: r.style_formality,
-      pace: r.style_pace,
-      calm: r.temp_calm,
-      introvert: r.temp_introvert,
-      empathy: r.empathy,
-      humor: r.humor,
-      creativity: r.creativity,
-      directness: r.directness,
-    },
-    brain: {
-      id: r.brain_id,
-      instructions: r.brain_instructions,
-    },
-    cards: {
-      backgroundId: r.cards_background_id,
-    },
-    draftId: r.draft_id,
-    createdAt: r.created_at,
-    updatedAt: r.updated_at,
-  };
-}
+const ConnectionUpdateSchema = ConnectionCreateSchema.partial();
 
-function payloadToColumns(p) {
-  // Flatten nested payload to DB columns
-  const cols = {};
-  if (p.identity) {
-    if (p.identity.name !== undefined) cols.identity_name = p.identity.name;
-    if (p.identity.role !== undefined) cols.identity_role = p.identity.role;
-    if (p.identity.companyName !== undefined) cols.identity_company_name = p.identity.companyName ?? null;
-    if (p.identity.desc !== undefined) cols.identity_desc = p.identity.desc ?? null;
-  }
-  if (p.appearance) {
-    if (p.appearance.personaId !== undefined) cols.appearance_persona_id = p.appearance.personaId ?? null;
-    if (p.appearance.bgColor !== undefined) cols.appearance_bg_color = p.appearance.bgColor ?? null;
-  }
-  if (p.voice) {
-    if (p.voice.language !== undefined) cols.voice_language = p.voice.language;
-    if (p.voice.name !== undefined) cols.voice_name = p.voice.name;
-  }
-  if (p.style) {
-    if (p.style.formality !== undefined) cols.style_formality = p.style.formality;
-    if (p.style.pace !== undefined) cols.style_pace = p.style.pace;
-    if (p.style.calm !== undefined) cols.temp_calm = p.style.calm;
-    if (p.style.introvert !== undefined) cols.temp_introvert = p.style.introvert;
-    if (p.style.empathy !== undefined) cols.empathy = p.style.empathy;
-    if (p.style.humor !== undefined) cols.humor = p.style.humor;
-    if (p.style.creativity !== undefined) cols.creativity = p.style.creativity;
-    if (p.style.directness !== undefined) cols.directness = p.style.directness;
-  }
-  if (p.brain) {
-    if (p.brain.id !== undefined) cols.brain_id = p.brain.id;
-    if (p.brain.instructions !== undefined) cols.brain_instructions = p.brain.instructions ?? null;
-  }
-  if (p.cards) {
-    if (p.cards.backgroundId !== undefined) cols.cards_background_id = p.cards.backgroundId ?? null;
-  }
-  if (p.draftId !== undefined) cols.draft_id = p.draftId ?? null;
-
-  return cols;
-}
+const RevisionDiffQuerySchema = z.object({
+  against: z.union([z.enum(['previous', 'current']), z.coerce.number().int().positive()]).default('previous'),
+});
 
-function buildUpdateSQL(cols) {
-  // Map payload-style keys to actual DB column names
-  const alias = {
-    empathy: 'pers_empathy',
-    humor: 'pers_humor',
-    creativity: 'pers_creativity',
-    directness: 'pers_directness',
-  };
+const DuplicateSchema = z.object({
+  /** Where the copy goes (null/absent: the caller's personal agents) */
+  organizationId: z.number().int().positive().optional().nullable(),
+  /** Copy the connections too (never their tokens) */
+  includeConnections: z.boolean().default(false),
+  /** Name of the copy (default: "<name> (copy)") */
+  name: z.string().trim().min(1).max(191).optional(),
+});
 
-  // Apply aliases and dedupe (explicit DB names win if both provided)
-  const mapped = {};
-  for (const [k, v] of Object.entries(cols)) {
-    const col = alias[k] || k;
-    mapped[col] = v;
-  }
+// the bundle itself is validated (and upgraded) by services/agentBundles.js
+const ImportSchema = z.object({
+  bundle: z.unknown(),
+  /** Workspace to import into (null/absent: the caller's personal agents) */
+  organizationId: z.number().int().positive().optional().nullable(),
+});
 
-  const keys = Object.keys(mapped);
-  if (!keys.length) return { sql: '', values: [] };
+const ShareCreateSchema = z.object({
+  email: z.string().trim().email().max(191),
+  role: z.enum(SHARE_ROLES).default('viewer'),
+});
 
-  const sets = keys.map(k => `${k} = ?`).join(', ');
-  const values = keys.map(k => mapped[k]);
-  return { sql: sets, values };
-}
+/* ------------------------- Optimistic concurrency ------------------------ */
+// Every write to an agent or its connections bumps agents.version, served as
+// the agent's ETag. A write sent with If-Match only applies while that version
+// is current; otherwise it fails with 412 and the agent as it is now, so the
+// client can reconcile. Writes without If-Match apply unconditionally.
 
-/* --------------------------------- SQL ---------------------------------- */
-
-const SELECT_BASE = `
-  SELECT
-    id, owner_id,
-    identity_name, identity_role, identity_company_name, identity_desc,
-    appearance_persona_id, appearance_bg_color,
-    voice_language, voice_name,
-    style_formality, style_pace, temp_calm, temp_introvert,
-    pers_empathy, pers_humor, pers_creativity, pers_directness,
-    brain_id, brain_instructions,
-    cards_background_id,
-    draft_id,
-    created_at, updated_at
-  FROM agents
-`;
+/** The agent (null if gone) and its connections, as the API returns them */
+async function readAgentState(agentId) {
+  const [rows] = await db.execute(`${SELECT_BASE} WHERE id = ?`, [agentId]);
+  const [connections] = await db.execute(`${SELECT_CONNECTIONS} WHERE agent_id = ? ORDER BY id DESC`, [agentId]);
+  return { agent: rows.length ? rowToAgent(rows[0]) : null, connections: connections.map(rowToPublicConnection) };
+}
 
-/* -------------------------------- Routes -------------------------------- */
+/** 412 with the agent and connections as they are now */
+async function versionConflict(res, agentId) {
+  const { agent, connections } = await readAgentState(agentId);
+  if (agent) res.set('ETag', agentETag(agent.version));
+  return res.status(412).json({
+    error: 'version_conflict',
+    message: 'The agent was changed since you loaded it',
+    agent,
+    connections,
+  });
+}
 
 /**
- * GET /api/agents
- * List current user's agents (latest first)
+ * Run `write(conn)` in a transaction holding the agent row, after checking the
+ * request's If-Match. The version is bumped when the write reports a change
+ * (truthy result). → { ok: true, result, version } | { ok: false, reason: 'version_conflict' }
  */
-router.get('/', async (req, res) => {
-  const [rows] = await db.execute(
-    `${SELECT_BASE} WHERE owner_id = ? ORDER BY id DESC`,
-    [req.user.id]
-  );
-  res.json({ agents: rows.map(rowToAgent) });
-});
+async function writeVersioned(req, agentId, write) {
+  const expected = parseIfMatch(req.get('If-Match'));
+  return db.withTransaction(async (conn) => {
+    const [rows] = await conn.execute('SELECT version FROM agents WHERE id = ? FOR UPDATE', [agentId]);
+    const version = Number(rows[0]?.version);
+    if (expected !== null && version !== expected) return { ok: false, reason: 'version_conflict' };
+    const result = await write(conn);
+    if (!result) return { ok: true, result, version };
+    await conn.execute('UPDATE agents SET version = version + 1 WHERE id = ?', [agentId]);
+    return { ok: true, result, version: version + 1 };
+  });
+}
 
-/**
- * POST /api/agents
- * Create an agent for current user
- */
-router.post('/', async (req, res) => {
-  const parsed = AgentCreateSchema.safeParse(req.body);
-  if (!parsed.success) {
-    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
-  }
-  const cols = payloadToColumns(parsed.data);
+/* ---------------------------- Writing agents ----------------------------- */
 
-  const [result] = await db.execute(
+/** Insert an agent from a full column set (see payloadToColumns). → new id */
+async function insertAgent(conn, ownerId, organizationId, cols) {
+  const [result] = await conn.execute(
     `INSERT INTO agents (
-      owner_id,
+      owner_id, organization_id,
       identity_name, identity_role, identity_company_name, identity_desc,
       appearance_persona_id, appearance_bg_color,
       voice_language, voice_name,
@@ -217,9 +213,9 @@ router.post('/', async (req, res) => {
       brain_id, brain_instructions,
       cards_background_id,
       draft_id
-    ) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)`,
+    ) VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)`,
     [
-      req.user.id,
+      ownerId, organizationId,
       cols.identity_name, cols.identity_role, cols.identity_company_name ?? null, cols.identity_desc ?? null,
       cols.appearance_persona_id ?? null, cols.appearance_bg_color ?? null,
       cols.voice_language, cols.voice_name,
@@ -230,108 +226,745 @@ router.post('/', async (req, res) => {
       cols.draft_id ?? null,
     ]
   );
+  return result.insertId;
+}
 
-  const agentId = result.insertId;
-  const [rows] = await db.execute(`${SELECT_BASE} WHERE id = ?`, [agentId]);
-  res.status(201).json({ agent: rowToAgent(rows[0]) });
-});
+/**
+ * Who may add agents to a workspace: its editors and owners.
+ * → null when allowed, else { status, body } to answer with
+ */
+async function workspaceWriteDenied(organizationId, userId) {
+  const role = await getMemberRole(organizationId, userId);
+  if (!role) return { status: 404, body: { error: 'organization_not_found' } };
+  if (!roleAtLeast(role, 'editor')) {
+    return { status: 403, body: { error: 'forbidden', message: 'Requires editor access to this workspace' } };
+  }
+  return null;
+}
+
+/* --------------------------- Connection sets ----------------------------- */
+
+function connectionValues(agentId, c) {
+  return [agentId, c.extId, c.providerId, c.status, c.config ? JSON.stringify(c.config) : null, c.token ?? null];
+}
+
+/** Bulk-insert connections of an agent (inside a transaction) */
+async function insertConnections(conn, agentId, list) {
+  if (!list.length) return;
+  await conn.query(
+    'INSERT INTO agent_connections (agent_id, ext_id, provider_id, status, config, token) VALUES ?',
+    [list.map((c) => connectionValues(agentId, c))]
+  );
+}
 
 /**
- * GET /api/agents/:id
- * Read one (enforce ownership)
+ * Make the agent's connections exactly `list`, matched by extId: existing ones
+ * are updated in place (keeping their ids), new ones inserted, the rest deleted.
+ * An entry without `token` keeps the stored one (responses never include it).
  */
-router.get('/:id', async (req, res) => {
-  const id = Number(req.params.id);
+async function replaceConnections(conn, agentId, list) {
+  const [rows] = await conn.execute(`${SELECT_CONNECTIONS} WHERE agent_id = ?`, [agentId]);
+  const existing = new Map(rows.map(rowToConnection).map((c) => [c.extId, c]));
+  const added = [];
+  for (const c of list) {
+    const prev = existing.get(c.extId);
+    existing.delete(c.extId);
+    if (!prev) {
+      added.push(c);
+      continue;
+    }
+    await conn.execute(
+      'UPDATE agent_connections SET provider_id = ?, status = ?, config = ?, token = ? WHERE id = ?',
+      [c.providerId, c.status, c.config ? JSON.stringify(c.config) : null, c.token === undefined ? prev.token : c.token, prev.id]
+    );
+  }
+  if (existing.size) {
+    await conn.query('DELETE FROM agent_connections WHERE id IN (?)', [[...existing.values()].map((c) => c.id)]);
+  }
+  await insertConnections(conn, agentId, added);
+}
+
+/* -------------------------------- Listing -------------------------------- */
+// Lists are paged by keyset: the cursor carries the sort value and id of the
+// last row, so pages stay stable while agents are created or edited.
+
+/** Sort → column and direction; the id breaks ties in the same direction */
+const LIST_SORTS = {
+  created: { column: 'id', dir: 'DESC' },
+  updated: { column: 'updated_at', dir: 'DESC' },
+  name: { column: 'identity_name', dir: 'ASC' },
+};
+
+function encodeCursor(sort, row) {
+  const value = LIST_SORTS[sort].column === 'id' ? null : row[LIST_SORTS[sort].column];
+  return Buffer.from(JSON.stringify({ s: sort, v: value, id: row.id })).toString('base64url');
+}
+
+/** → { value, id } | null when malformed or made for another sort */
+function decodeCursor(sort, cursor) {
+  try {
+    const c = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (c?.s !== sort || !Number.isInteger(c.id)) return null;
+    if (sort === 'updated') {
+      const date = new Date(c.v);
+      return Number.isNaN(date.getTime()) ? null : { value: date, id: c.id };
+    }
+    if (sort === 'name' && typeof c.v !== 'string') return null;
+    return { value: c.v, id: c.id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One page of agents matching `scopeSql` and the list filters.
+ * → { ok: true, agents, nextCursor } | { ok: false, reason: 'invalid_cursor' }
+ */
+async function listAgentPage(scopeSql, scopeParams, query) {
+  const { q, brain, language, hasConnections, archived, sort, limit, cursor } = query;
+  const { column, dir } = LIST_SORTS[sort];
+  const where = [scopeSql, 'deleted_at IS NULL', `archived_at IS ${archived ? 'NOT ' : ''}NULL`];
+  const params = [...scopeParams];
+
+  if (q) {
+    const like = `%${q.replace(/[\\%_]/g, '\\$&')}%`;
+    where.push('(identity_name LIKE ? OR identity_role LIKE ? OR identity_company_name LIKE ?)');
+    params.push(like, like, like);
+  }
+  if (brain) {
+    where.push('brain_id = ?');
+    params.push(brain);
+  }
+  if (language) {
+    where.push('voice_language = ?');
+    params.push(language);
+  }
+  if (hasConnections !== undefined) {
+    where.push(`${hasConnections ? '' : 'NOT '}EXISTS (SELECT 1 FROM agent_connections c WHERE c.agent_id = agents.id)`);
+  }
+  if (cursor) {
+    const after = decodeCursor(sort, cursor);
+    if (!after) return { ok: false, reason: 'invalid_cursor' };
+    const cmp = dir === 'DESC' ? '<' : '>';
+    if (column === 'id') {
+      where.push(`id ${cmp} ?`);
+      params.push(after.id);
+    } else {
+      where.push(`(${column} ${cmp} ? OR (${column} = ? AND id ${cmp} ?))`);
+      params.push(after.value, after.value, after.id);
+    }
+  }
+
+  // one extra row tells whether there is a next page; LIMIT is a validated integer (see admin.js)
+  const orderSql = column === 'id' ? `id ${dir}` : `${column} ${dir}, id ${dir}`;
   const [rows] = await db.execute(
-    `${SELECT_BASE} WHERE id = ? AND owner_id = ? LIMIT 1`,
-    [id, req.user.id]
+    `${SELECT_BASE} WHERE ${where.join(' AND ')} ORDER BY ${orderSql} LIMIT ${limit + 1}`,
+    params
   );
-  if (!rows.length) return res.status(404).json({ error: 'not_found' });
-  res.json({ agent: rowToAgent(rows[0]) });
+  const page = rows.slice(0, limit);
+  return {
+    ok: true,
+    agents: page.map(rowToAgent),
+    nextCursor: rows.length > limit ? encodeCursor(sort, page[page.length - 1]) : null,
+  };
+}
+
+/* -------------------------------- Routes -------------------------------- */
+
+/**
+ * GET /api/agents?organizationId=&q=&brain=&language=&hasConnections=&archived=&sort=&limit=&cursor=
+ * List the current user's personal agents, or a workspace's agents for its members,
+ * one page at a time; archived agents only with `archived=true`, deleted ones never
+ * (see GET /trash). Sorts: created (latest first, default), updated (latest first), name.
+ * → { agents, role, nextCursor } (nextCursor null on the last page)
+ */
+router.get('/', async (req, res) => {
+  const parsed = AgentListQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_query', issues: parsed.error.issues });
+  }
+  const { organizationId } = parsed.data;
+
+  let role = 'owner';
+  let page;
+  if (organizationId) {
+    role = await getMemberRole(organizationId, req.user.id);
+    if (!role) return res.status(404).json({ error: 'organization_not_found' });
+    page = await listAgentPage('organization_id = ?', [organizationId], parsed.data);
+  } else {
+    page = await listAgentPage('owner_id = ? AND organization_id IS NULL', [req.user.id], parsed.data);
+  }
+  if (!page.ok) return res.status(400).json({ error: page.reason });
+  res.json({ agents: page.agents, role, nextCursor: page.nextCursor });
+});
+
+/**
+ * POST /api/agents
+ * Create an agent for current user (capped while the email is unverified),
+ * or in a workspace where the user is at least an editor (`organizationId`).
+ * The agent and its `connections` are created in one transaction.
+ * With `draftId` this finalizes a wizard draft: the draft is consumed, and a
+ * repeated request returns the agent already created from it.
+ * → { agent, connections }
+ */
+router.post('/', async (req, res) => {
+  const parsed = AgentCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  const draftId = parsed.data.draftId ?? null;
+  if (draftId) {
+    // finalizing the same draft again (a retried request) returns the agent it already created
+    const [existing] = await db.execute(
+      'SELECT id FROM agents WHERE owner_id = ? AND draft_id = ? AND deleted_at IS NULL LIMIT 1',
+      [req.user.id, draftId]
+    );
+    if (existing.length) return res.json(await readAgentState(existing[0].id));
+  }
+  const cols = payloadToColumns(parsed.data);
+  cols.brain_id = cols.brain_id || DEFAULT_BRAIN_ID;
+  if (!isKnownBrain(cols.brain_id)) {
+    return res.status(400).json({ error: 'invalid_brain', message: `Unknown brain tier: ${cols.brain_id}` });
+  }
+  const plan = await getUserPlan(req.user.id);
+  const locked = findLockedSelections(cols, plan);
+  if (locked.length) return res.status(403).json(entitlementRequired(plan, locked));
+  const allowed = await canCreateAgent(req.user.id);
+  if (!allowed.ok) return res.status(403).json(allowed.error);
+
+  const organizationId = parsed.data.organizationId ?? null;
+  if (organizationId) {
+    const denied = await workspaceWriteDenied(organizationId, req.user.id);
+    if (denied) return res.status(denied.status).json(denied.body);
+  }
+
+  const agentId = await db.withTransaction(async (conn) => {
+    const id = await insertAgent(conn, req.user.id, organizationId, cols);
+    await insertConnections(conn, id, parsed.data.connections);
+    return id;
+  });
+
+  await recordRevision(agentId, req.user.id, 'created');
+  if (draftId) await deleteDraft(draftId, req.user.id);
+  const state = await readAgentState(agentId);
+  res.set('ETag', agentETag(state.agent.version));
+  res.status(201).json(state);
+});
+
+/**
+ * POST /api/agents/import
+ * Create an agent from an exported bundle (older bundle versions are upgraded).
+ * Connections come without tokens; the ones that had one are listed in
+ * `needsReauth` and start as needs_setup. → 201 { agent, connections, needsReauth }
+ */
+router.post('/import', async (req, res) => {
+  const parsed = ImportSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  const result = parseBundle(parsed.data.bundle);
+  if (!result.ok) {
+    return res.status(400).json({ error: result.reason, issues: result.issues });
+  }
+  const { agent, connections } = result.bundle;
+
+  const cols = payloadToColumns(agent);
+  cols.brain_id = cols.brain_id || DEFAULT_BRAIN_ID;
+  if (!isKnownBrain(cols.brain_id)) {
+    return res.status(400).json({ error: 'invalid_brain', message: `Unknown brain tier: ${cols.brain_id}` });
+  }
+  const plan = await getUserPlan(req.user.id);
+  const locked = findLockedSelections(cols, plan);
+  if (locked.length) return res.status(403).json(entitlementRequired(plan, locked));
+  const allowed = await canCreateAgent(req.user.id);
+  if (!allowed.ok) return res.status(403).json(allowed.error);
+
+  const organizationId = parsed.data.organizationId ?? null;
+  if (organizationId) {
+    const denied = await workspaceWriteDenied(organizationId, req.user.id);
+    if (denied) return res.status(denied.status).json(denied.body);
+  }
+
+  const agentId = await db.withTransaction(async (conn) => {
+    const id = await insertAgent(conn, req.user.id, organizationId, cols);
+    await insertConnections(conn, id, connections.map((c) => ({
+      ...c,
+      status: c.needsReauth ? 'needs_setup' : c.status,
+      token: null,
+    })));
+    return id;
+  });
+  await recordRevision(agentId, req.user.id, 'created');
+
+  const state = await readAgentState(agentId);
+  res.set('ETag', agentETag(state.agent.version));
+  res.status(201).json({
+    ...state,
+    needsReauth: connections.filter((c) => c.needsReauth).map(({ extId, providerId }) => ({ extId, providerId })),
+    migratedFrom: result.migratedFrom,
+  });
+});
+
+/**
+ * GET /api/agents/shared
+ * Agents other people shared with the current user, each with its `shareRole`
+ */
+router.get('/shared', async (req, res) => {
+  res.json({ agents: await listSharedAgents(req.user.id) });
+});
+
+/**
+ * GET /api/agents/trash?organizationId=
+ * Deleted agents that can still be restored, each with its `purgeAt`:
+ * the user's personal ones, or a workspace's (workspace owners).
+ */
+router.get('/trash', async (req, res) => {
+  const parsed = TrashQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_query', issues: parsed.error.issues });
+  }
+  const { organizationId } = parsed.data;
+
+  if (organizationId) {
+    const role = await getMemberRole(organizationId, req.user.id);
+    if (!role) return res.status(404).json({ error: 'organization_not_found' });
+    if (role !== 'owner') {
+      return res.status(403).json({ error: 'forbidden', message: 'Only workspace owners can see its trash' });
+    }
+    return res.json({ agents: await listTrash('organization_id = ?', [organizationId]) });
+  }
+  res.json({ agents: await listTrash('owner_id = ? AND organization_id IS NULL', [req.user.id]) });
+});
+
+/**
+ * GET /api/agents/templates
+ * Curated presets the create wizard starts from. `locked` is relative to the
+ * current user's plan (the preset selects assets the plan doesn't include).
+ */
+router.get('/templates', async (req, res) => {
+  const plan = await getUserPlan(req.user.id);
+  const templates = (await listTemplates()).map((t) => ({
+    ...t,
+    locked: findLockedSelections(payloadToColumns(t.preset), plan).length > 0,
+  }));
+  res.json({ templates });
+});
+
+/**
+ * POST /api/agents/prompt/preview
+ * Compile a (possibly unsaved) agent payload into its system prompt.
+ * Lets the wizard show the prompt live while sliders/instructions change.
+ */
+router.post('/prompt/preview', async (req, res) => {
+  const parsed = AgentUpdateSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  res.json({ prompt: compilePrompt(parsed.data) });
+});
+
+/**
+ * GET /api/agents/:id
+ * Read one, with the caller's role on it ('viewer' | 'editor' | 'owner').
+ * The ETag is the agent's version; send it back as If-Match when saving.
+ */
+router.get('/:id', requireAgentAccess('viewer'), async (req, res) => {
+  res.set('ETag', agentETag(req.agent.version));
+  res.json({ agent: req.agent, role: req.agentRole });
+});
+
+/**
+ * GET /api/agents/:id/export
+ * The agent as a portable bundle (see services/agentBundles.js); connection tokens are left out.
+ * 422 when the stored agent doesn't fit the bundle format.
+ */
+router.get('/:id/export', requireAgentAccess('viewer'), async (req, res) => {
+  const [rows] = await db.execute(`${SELECT_CONNECTIONS} WHERE agent_id = ? ORDER BY id ASC`, [req.agent.id]);
+  const result = buildBundle(req.agent, rows.map(rowToConnection));
+  if (!result.ok) {
+    return res.status(422).json({
+      error: result.reason,
+      message: 'This agent has settings an export bundle cannot hold',
+      issues: result.issues,
+    });
+  }
+  const { bundle } = result;
+  const slug = String(req.agent.identity.name || 'agent').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  res.set('Content-Disposition', `attachment; filename="${slug || 'agent'}.agent.json"`);
+  res.json(bundle);
+});
+
+/**
+ * GET /api/agents/:id/prompt
+ * Compiled system prompt of the saved agent
+ */
+router.get('/:id/prompt', requireAgentAccess('viewer'), async (req, res) => {
+  res.json({ prompt: compilePrompt(req.agent) });
 });
 
 /**
  * PATCH /api/agents/:id
- * Partial update
+ * Partial update (editors and owners). With If-Match: 412 version_conflict
+ * when someone else saved the agent or its connections in the meantime.
  */
-router.patch('/:id', async (req, res) => {
+router.patch('/:id', requireAgentAccess('editor'), async (req, res) => {
   const id = Number(req.params.id);
   const parsed = AgentUpdateSchema.safeParse(req.body);
   if (!parsed.success) {
     return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
   }
   const cols = payloadToColumns(parsed.data);
+  if (cols.brain_id !== undefined) {
+    cols.brain_id = cols.brain_id || DEFAULT_BRAIN_ID;
+    if (!isKnownBrain(cols.brain_id)) {
+      return res.status(400).json({ error: 'invalid_brain', message: `Unknown brain tier: ${cols.brain_id}` });
+    }
+  }
+  const current = req.agent;
+  const plan = await getUserPlan(req.user.id);
+  const locked = findLockedSelections(cols, plan, current);
+  if (locked.length) return res.status(403).json(entitlementRequired(plan, locked));
+
   const { sql, values } = buildUpdateSQL(cols);
   if (!sql) return res.json({}); // nothing to update
 
+  const expected = parseIfMatch(req.get('If-Match'));
+  if (expected !== null && expected !== Number(current.version)) return versionConflict(res, id);
+
+  await ensureBaseline(id);
   const [result] = await db.execute(
-    `UPDATE agents SET ${sql} WHERE id = ? AND owner_id = ?`,
-    [...values, id, req.user.id]
+    `UPDATE agents SET ${sql}, version = version + 1 WHERE id = ?${expected === null ? '' : ' AND version = ?'}`,
+    expected === null ? [...values, id] : [...values, id, expected]
   );
-  if (result.affectedRows === 0) return res.status(404).json({ error: 'not_found' });
+  if (result.affectedRows === 0) return versionConflict(res, id); // saved by someone else just now
+  await recordRevision(id, req.user.id);
 
   const [rows] = await db.execute(`${SELECT_BASE} WHERE id = ?`, [id]);
-  res.json({ agent: rowToAgent(rows[0]) });
+  const agent = rowToAgent(rows[0]);
+  res.set('ETag', agentETag(agent.version));
+  res.json({ agent });
+});
+
+/**
+ * PUT /api/agents/:id/full
+ * Save every agent field and the complete connection set in one transaction
+ * (editors). Connections are matched by extId; ones left out are deleted.
+ * Honors If-Match. → { agent, connections }
+ */
+router.put('/:id/full', requireAgentAccess('editor'), async (req, res) => {
+  const id = req.agent.id;
+  const parsed = AgentFullSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  const cols = payloadToColumns(parsed.data);
+  cols.brain_id = cols.brain_id || DEFAULT_BRAIN_ID;
+  if (!isKnownBrain(cols.brain_id)) {
+    return res.status(400).json({ error: 'invalid_brain', message: `Unknown brain tier: ${cols.brain_id}` });
+  }
+  const plan = await getUserPlan(req.user.id);
+  const locked = findLockedSelections(cols, plan, req.agent);
+  if (locked.length) return res.status(403).json(entitlementRequired(plan, locked));
+
+  const { sql, values } = buildUpdateSQL(cols);
+  await ensureBaseline(id);
+  const outcome = await writeVersioned(req, id, async (conn) => {
+    await conn.execute(`UPDATE agents SET ${sql} WHERE id = ?`, [...values, id]);
+    await replaceConnections(conn, id, parsed.data.connections);
+    return true;
+  });
+  if (!outcome.ok) return versionConflict(res, id);
+  await recordRevision(id, req.user.id);
+
+  const state = await readAgentState(id);
+  res.set('ETag', agentETag(state.agent.version));
+  res.json(state);
+});
+
+/**
+ * POST /api/agents/:id/duplicate
+ * Copy an agent the caller can see into their personal agents or a workspace
+ * they edit. With `includeConnections`, connections are copied without tokens
+ * (those have to be set up again). → 201 { agent, connections }
+ */
+router.post('/:id/duplicate', requireAgentAccess('viewer'), async (req, res) => {
+  const parsed = DuplicateSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  const source = req.agent;
+  const cols = payloadToColumns({
+    identity: { ...source.identity, name: (parsed.data.name ?? `${source.identity.name} (copy)`).slice(0, 191) },
+    appearance: source.appearance,
+    voice: source.voice,
+    style: source.style,
+    brain: source.brain,
+    cards: source.cards,
+  });
+  // the copy is a new agent: whatever it selects must be in the caller's plan
+  const plan = await getUserPlan(req.user.id);
+  const locked = findLockedSelections(cols, plan);
+  if (locked.length) return res.status(403).json(entitlementRequired(plan, locked));
+  const allowed = await canCreateAgent(req.user.id);
+  if (!allowed.ok) return res.status(403).json(allowed.error);
+
+  const organizationId = parsed.data.organizationId ?? null;
+  if (organizationId) {
+    const denied = await workspaceWriteDenied(organizationId, req.user.id);
+    if (denied) return res.status(denied.status).json(denied.body);
+  }
+
+  let connections = [];
+  if (parsed.data.includeConnections) {
+    const [rows] = await db.execute(`${SELECT_CONNECTIONS} WHERE agent_id = ? ORDER BY id ASC`, [source.id]);
+    connections = rows.map(rowToConnection).map((c) => ({
+      extId: c.extId,
+      providerId: c.providerId,
+      status: c.token ? 'needs_setup' : c.status,
+      config: c.config,
+      token: null,
+    }));
+  }
+
+  const agentId = await db.withTransaction(async (conn) => {
+    const id = await insertAgent(conn, req.user.id, organizationId, cols);
+    await insertConnections(conn, id, connections);
+    return id;
+  });
+  await recordRevision(agentId, req.user.id, 'created');
+
+  const state = await readAgentState(agentId);
+  res.set('ETag', agentETag(state.agent.version));
+  res.status(201).json(state);
 });
 
 /**
  * DELETE /api/agents/:id
+ * Move the agent to the trash (see services/agentTrash.js); it is purged at `purgeAt`
+ * unless restored. Owners only (the creator of a personal agent, workspace owners).
+ * Honors If-Match. → { ok, purgeAt }
  */
-router.delete('/:id', async (req, res) => {
-  const id = Number(req.params.id);
+router.delete('/:id', requireAgentAccess('owner'), async (req, res) => {
+  const id = req.agent.id;
 
-  // First, delete all connections of the agent
-  await db.execute(
-    'DELETE FROM agent_connections WHERE agent_id = ?',
-    [id]
-  );
+  const outcome = await writeVersioned(req, id, async (conn) => {
+    const [result] = await conn.execute(
+      'UPDATE agents SET deleted_at = NOW(), deleted_by = ? WHERE id = ? AND deleted_at IS NULL',
+      [req.user.id, id]
+    );
+    return result.affectedRows > 0;
+  });
+  if (!outcome.ok) return versionConflict(res, id);
+  if (!outcome.result) return res.status(404).json({ error: 'not_found' });
+  const [[{ deleted_at: deletedAt }]] = await db.execute('SELECT deleted_at FROM agents WHERE id = ?', [id]);
+  res.json({ ok: true, purgeAt: purgeDate(deletedAt) });
+});
 
-  // Then, delete the agent itself
-  const [result2] = await db.execute(
-    'DELETE FROM agents WHERE id = ? AND owner_id = ?',
-    [id, req.user.id]
-  );
-  if (result2.affectedRows === 0) return res.status(404).json({ error: 'not_found' });
+/* ------------------------------ Archive & trash ---------------------------- */
+
+/**
+ * Set or clear `archived_at`; a no-op when already in that state.
+ * → { agent } with its ETag. Honors If-Match.
+ */
+async function setArchived(req, res, archived) {
+  const id = req.agent.id;
+  const outcome = await writeVersioned(req, id, async (conn) => {
+    const [result] = await conn.execute(
+      archived
+        ? 'UPDATE agents SET archived_at = NOW() WHERE id = ? AND archived_at IS NULL'
+        : 'UPDATE agents SET archived_at = NULL WHERE id = ? AND archived_at IS NOT NULL',
+      [id]
+    );
+    return result.affectedRows > 0;
+  });
+  if (!outcome.ok) return versionConflict(res, id);
+
+  const { agent } = await readAgentState(id);
+  res.set('ETag', agentETag(agent.version));
+  return res.json({ agent });
+}
+
+/**
+ * POST /api/agents/:id/archive
+ * Hide the agent from agent lists without deleting it (editors)
+ */
+router.post('/:id/archive', requireAgentAccess('editor'), (req, res) => setArchived(req, res, true));
+
+/**
+ * POST /api/agents/:id/unarchive
+ */
+router.post('/:id/unarchive', requireAgentAccess('editor'), (req, res) => setArchived(req, res, false));
+
+/**
+ * POST /api/agents/:id/restore
+ * Take the agent out of the trash (owners). Honors If-Match. → { agent }
+ */
+router.post('/:id/restore', requireAgentAccess('owner', { includeDeleted: true }), async (req, res) => {
+  const id = req.agent.id;
+  if (!req.agent.deletedAt) return res.status(409).json({ error: 'not_in_trash' });
+  // restoring counts against the same cap as creating
+  const allowed = await canCreateAgent(req.agent.ownerId);
+  if (!allowed.ok) return res.status(403).json(allowed.error);
+
+  const outcome = await writeVersioned(req, id, async (conn) => {
+    const [result] = await conn.execute(
+      'UPDATE agents SET deleted_at = NULL, deleted_by = NULL WHERE id = ? AND deleted_at IS NOT NULL',
+      [id]
+    );
+    return result.affectedRows > 0;
+  });
+  if (!outcome.ok) return versionConflict(res, id);
+  if (!outcome.result) return res.status(409).json({ error: 'not_in_trash' });
+
+  const { agent } = await readAgentState(id);
+  res.set('ETag', agentETag(agent.version));
+  res.json({ agent });
+});
+
+/**
+ * DELETE /api/agents/:id/purge
+ * Delete an agent in the trash for good, with its connections, conversations,
+ * knowledge and history (owners)
+ */
+router.delete('/:id/purge', requireAgentAccess('owner', { includeDeleted: true }), async (req, res) => {
+  if (!req.agent.deletedAt) return res.status(409).json({ error: 'not_in_trash' });
+  const purged = await purgeAgent(req.agent.id);
+  if (!purged) return res.status(409).json({ error: 'not_in_trash' });
   res.json({ ok: true });
 });
 
+/* ------------------------------ Shares sub-API ---------------------------- */
+
+/**
+ * GET /api/agents/:id/shares
+ * Users the agent is shared with (owners)
+ */
+router.get('/:id/shares', requireAgentAccess('owner'), async (req, res) => {
+  res.json({ shares: await listShares(req.agent.id) });
+});
+
+/**
+ * POST /api/agents/:id/shares
+ * Share with a registered user by email as viewer or editor (owners).
+ * Sharing again with the same user changes the role.
+ */
+router.post('/:id/shares', requireAgentAccess('owner'), async (req, res) => {
+  const parsed = ShareCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  const result = await shareAgent(req.agent, req.user.id, parsed.data.email, parsed.data.role);
+  if (!result.ok) {
+    if (result.reason === 'owner') {
+      return res.status(409).json({ error: 'cannot_share_with_owner', message: 'The owner already has full access' });
+    }
+    return res.status(404).json({ error: 'user_not_found', message: 'No account uses that email' });
+  }
+  res.status(201).json({ share: result.share });
+});
+
+/**
+ * DELETE /api/agents/:id/shares/:userId
+ * Stop sharing (owners), or drop an agent shared with you (own id)
+ */
+router.delete('/:id/shares/:userId', requireAgentAccess('viewer'), async (req, res) => {
+  const userId = Number(req.params.userId);
+  if (userId !== Number(req.user.id) && req.agentRole !== 'owner') {
+    return res.status(403).json({ error: 'forbidden', message: 'Requires owner access to this agent' });
+  }
+  const found = await unshareAgent(req.agent.id, userId);
+  if (!found) return res.status(404).json({ error: 'share_not_found' });
+  res.json({ ok: true });
+});
+
+/* ----------------------------- Revisions sub-API -------------------------- */
+
+/**
+ * GET /api/agents/:id/revisions
+ * Version history, newest first (author, action, time; no snapshots)
+ */
+router.get('/:id/revisions', requireAgentAccess('viewer'), async (req, res) => {
+  res.json({ revisions: await listRevisions(req.agent.id) });
+});
+
+/**
+ * GET /api/agents/:id/revisions/:revId
+ * One revision with its full snapshot ({ agent, connections })
+ */
+router.get('/:id/revisions/:revId', requireAgentAccess('viewer'), async (req, res) => {
+  const revision = await getRevision(req.agent.id, Number(req.params.revId));
+  if (!revision) return res.status(404).json({ error: 'revision_not_found' });
+  res.json({ revision });
+});
+
+/**
+ * GET /api/agents/:id/revisions/:revId/diff?against=previous|current|<revId>
+ * Field-level changes from `against` to this revision. 'previous' (default):
+ * what that save changed; 'current': what restoring it would change.
+ */
+router.get('/:id/revisions/:revId/diff', requireAgentAccess('viewer'), async (req, res) => {
+  const parsed = RevisionDiffQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_query', issues: parsed.error.issues });
+  }
+  const result = await diffRevision(req.agent.id, Number(req.params.revId), parsed.data.against);
+  if (!result.ok) return res.status(404).json({ error: 'revision_not_found' });
+  res.json({ diff: result.diff });
+});
+
+/**
+ * POST /api/agents/:id/revisions/:revId/restore
+ * Put the agent and its connections back as they were in the revision (editors).
+ * The restore itself becomes the newest revision. Honors If-Match.
+ */
+router.post('/:id/revisions/:revId/restore', requireAgentAccess('editor'), async (req, res) => {
+  const agentId = req.agent.id;
+  const revision = await getRevision(agentId, Number(req.params.revId));
+  if (!revision) return res.status(404).json({ error: 'revision_not_found' });
+
+  // a revision may use assets the current plan no longer includes
+  const plan = await getUserPlan(req.user.id);
+  const locked = findLockedSelections(restoreColumns(revision.snapshot), plan, req.agent);
+  if (locked.length) return res.status(403).json(entitlementRequired(plan, locked));
+
+  await ensureBaseline(agentId);
+  const outcome = await writeVersioned(req, agentId, (conn) => restoreRevision(conn, agentId, revision));
+  if (!outcome.ok) return versionConflict(res, agentId);
+  const revisionId = await recordRevision(agentId, req.user.id, 'restored');
+
+  const state = await readAgentState(agentId);
+  res.set('ETag', agentETag(state.agent.version));
+  res.json({ ...state, revisionId });
+});
+
 /* --------------------------- Connections sub-API ------------------------- */
 
+// connection routes have always answered agent_not_found
+const agentNotFound = { notFoundError: 'agent_not_found' };
+
+// Connections share the agent's version: writes honor If-Match against the
+// agent's ETag and answer with the new `version` (and ETag).
+
 /**
  * GET /api/agents/:id/connections
+ * Tokens are left out; `hasToken` tells whether one is set
  */
-router.get('/:id/connections', async (req, res) => {
+router.get('/:id/connections', requireAgentAccess('viewer', agentNotFound), async (req, res) => {
   const agentId = Number(req.params.id);
-  // Ownership: ensure this agent belongs to user
-  const [own] = await db.execute('SELECT id FROM agents WHERE id = ? AND owner_id = ? LIMIT 1', [agentId, req.user.id]);
-  if (!own.length) return res.status(404).json({ error: 'agent_not_found' });
 
   const [rows] = await db.execute(
-    `SELECT id, agent_id, ext_id, provider_id, status, config, token, created_at, updated_at
-     FROM agent_connections WHERE agent_id = ? ORDER BY id DESC`,
+    `${SELECT_CONNECTIONS} WHERE agent_id = ? ORDER BY id DESC`,
     [agentId]
   );
-  const connections = rows.map(r => ({
-    id: r.id,
-    agentId: r.agent_id,
-    extId: r.ext_id,
-    providerId: r.provider_id,
-    status: r.status,
-    config: r.config ? (typeof r.config === 'string' ? JSON.parse(r.config) : r.config) : null,
-    token: r.token,
-    createdAt: r.created_at,
-    updatedAt: r.updated_at,
-  }));
-  res.json({ connections });
+  res.set('ETag', agentETag(req.agent.version));
+  res.json({ connections: rows.map(rowToPublicConnection) });
 });
 
 /**
  * POST /api/agents/:id/connections
  */
-router.post('/:id/connections', async (req, res) => {
+router.post('/:id/connections', requireAgentAccess('editor', agentNotFound), async (req, res) => {
   const agentId = Number(req.params.id);
-  const [own] = await db.execute('SELECT id FROM agents WHERE id = ? AND owner_id = ? LIMIT 1', [agentId, req.user.id]);
-  if (!own.length) return res.status(404).json({ error: 'agent_not_found' });
 
   const parsed = ConnectionCreateSchema.safeParse(req.body);
   if (!parsed.success) {
@@ -339,47 +972,39 @@ router.post('/:id/connections', async (req, res) => {
   }
   const { extId, providerId, status, config, token } = parsed.data;
 
+  await ensureBaseline(agentId);
+  let outcome;
   try {
-    const [result] = await db.execute(
-      `INSERT INTO agent_connections (agent_id, ext_id, provider_id, status, config, token)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-      [agentId, extId, providerId, status, config ? JSON.stringify(config) : null, token ?? null]
-    );
-    const [rows] = await db.execute(
-      `SELECT id, agent_id, ext_id, provider_id, status, config, token, created_at, updated_at
-       FROM agent_connections WHERE id = ?`,
-      [result.insertId]
-    );
-    const r = rows[0];
-    res.status(201).json({
-      connection: {
-        id: r.id,
-        agentId: r.agent_id,
-        extId: r.ext_id,
-        providerId: r.provider_id,
-        status: r.status,
-        config: r.config ? (typeof r.config === 'string' ? JSON.parse(r.config) : r.config) : null,
-        token: r.token,
-        createdAt: r.created_at,
-        updatedAt: r.updated_at,
-      }
+    outcome = await writeVersioned(req, agentId, async (conn) => {
+      const [result] = await conn.execute(
+        `INSERT INTO agent_connections (agent_id, ext_id, provider_id, status, config, token)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [agentId, extId, providerId, status, config ? JSON.stringify(config) : null, token ?? null]
+      );
+      return result.insertId;
     });
   } catch (e) {
     // Unique constraint on (agent_id, ext_id) could throw
     return res.status(409).json({ error: 'duplicate_ext_id', message: e.message });
   }
+  if (!outcome.ok) return versionConflict(res, agentId);
+  await recordRevision(agentId, req.user.id);
+
+  const [rows] = await db.execute(
+    `${SELECT_CONNECTIONS} WHERE id = ?`,
+    [outcome.result]
+  );
+  res.set('ETag', agentETag(outcome.version));
+  res.status(201).json({ connection: rowToPublicConnection(rows[0]), version: outcome.version });
 });
 
 /**
  * PATCH /api/agents/:id/connections/:connId
  */
-router.patch('/:id/connections/:connId', async (req, res) => {
+router.patch('/:id/connections/:connId', requireAgentAccess('editor', agentNotFound), async (req, res) => {
   const agentId = Number(req.params.id);
   const connId = Number(req.params.connId);
 
-  const [own] = await db.execute('SELECT id FROM agents WHERE id = ? AND owner_id = ? LIMIT 1', [agentId, req.user.id]);
-  if (!own.length) return res.status(404).json({ error: 'agent_not_found' });
-
   const parsed = ConnectionUpdateSchema.safeParse(req.body);
   if (!parsed.success) {
     return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
@@ -396,66 +1021,66 @@ router.patch('/:id/connections/:connId', async (req, res) => {
   const { sql, values } = buildUpdateSQL(updates);
   if (!sql) return res.json({}); // nothing to update
 
-  const [result] = await db.execute(
-    `UPDATE agent_connections SET ${sql} WHERE id = ? AND agent_id = ?`,
-    [...values, connId, agentId]
-  );
-  if (result.affectedRows === 0) return res.status(404).json({ error: 'connection_not_found' });
+  await ensureBaseline(agentId);
+  const outcome = await writeVersioned(req, agentId, async (conn) => {
+    const [result] = await conn.execute(
+      `UPDATE agent_connections SET ${sql} WHERE id = ? AND agent_id = ?`,
+      [...values, connId, agentId]
+    );
+    return result.affectedRows > 0;
+  });
+  if (!outcome.ok) return versionConflict(res, agentId);
+  if (!outcome.result) return res.status(404).json({ error: 'connection_not_found' });
+  await recordRevision(agentId, req.user.id);
 
   const [rows] = await db.execute(
-    `SELECT id, agent_id, ext_id, provider_id, status, config, token, created_at, updated_at
-     FROM agent_connections WHERE id = ?`,
+    `${SELECT_CONNECTIONS} WHERE id = ?`,
     [connId]
   );
-  const r = rows[0];
-  res.json({
-    connection: {
-      id: r.id,
-      agentId: r.agent_id,
-      extId: r.ext_id,
-      providerId: r.provider_id,
-      status: r.status,
-      config: r.config ? (typeof r.config === 'string' ? JSON.parse(r.config) : r.config) : null,
-      token: r.token,
-      createdAt: r.created_at,
-      updatedAt: r.updated_at,
-    }
-  });
+  res.set('ETag', agentETag(outcome.version));
+  res.json({ connection: rowToPublicConnection(rows[0]), version: outcome.version });
 });
 
 /**
  * DELETE /api/agents/:id/connections/:connId
  */
-router.delete('/:id/connections/:connId', async (req, res) => {
+router.delete('/:id/connections/:connId', requireAgentAccess('editor', agentNotFound), async (req, res) => {
   const agentId = Number(req.params.id);
   const connId = Number(req.params.connId);
 
-  const [own] = await db.execute('SELECT id FROM agents WHERE id = ? AND owner_id = ? LIMIT 1', [agentId, req.user.id]);
-  if (!own.length) return res.status(404).json({ error: 'agent_not_found' });
-
-  const [result] = await db.execute(
-    'DELETE FROM agent_connections WHERE id = ? AND agent_id = ?',
-    [connId, agentId]
-  );
-  if (result.affectedRows === 0) return res.status(404).json({ error: 'connection_not_found' });
-  res.json({ ok: true });
+  await ensureBaseline(agentId);
+  const outcome = await writeVersioned(req, agentId, async (conn) => {
+    const [result] = await conn.execute(
+      'DELETE FROM agent_connections WHERE id = ? AND agent_id = ?',
+      [connId, agentId]
+    );
+    return result.affectedRows > 0;
+  });
+  if (!outcome.ok) return versionConflict(res, agentId);
+  if (!outcome.result) return res.status(404).json({ error: 'connection_not_found' });
+  await recordRevision(agentId, req.user.id);
+  res.set('ETag', agentETag(outcome.version));
+  res.json({ ok: true, version: outcome.version });
 });
 
 /**
  * DELETE /api/agents/:id/connections
  */
-router.delete('/:id/connections', async (req, res) => {
+router.delete('/:id/connections', requireAgentAccess('editor', agentNotFound), async (req, res) => {
   const agentId = Number(req.params.id);
 
-  // Ensure agent belongs to user
-  const [own] = await db.execute('SELECT id FROM agents WHERE id = ? AND owner_id = ? LIMIT 1', [agentId, req.user.id]);
-  if (!own.length) return res.status(404).json({ error: 'agent_not_found' });
-
-  const [result] = await db.execute(
-    'DELETE FROM agent_connections WHERE agent_id = ?',
-    [agentId]
-  );
-  res.json({ ok: true, deleted: result.affectedRows });
+  await ensureBaseline(agentId);
+  const outcome = await writeVersioned(req, agentId, async (conn) => {
+    const [result] = await conn.execute(
+      'DELETE FROM agent_connections WHERE agent_id = ?',
+      [agentId]
+    );
+    return result.affectedRows;
+  });
+  if (!outcome.ok) return versionConflict(res, agentId);
+  await recordRevision(agentId, req.user.id);
+  res.set('ETag', agentETag(outcome.version));
+  res.json({ ok: true, deleted: outcome.result, version: outcome.version });
 });
 
 
@@ -2,8 +2,35 @@ const express = require('express');
 const bcrypt = require('bcryptjs');
 const { z } = require('zod');
 const db = require('../db');
-const { signAccessToken } = require('../utils/tokens');
-const { auth } = require('../middleware/auth');
+const {
+  signAccessToken,
+  createSession,
+  rotateRefreshToken,
+  findRefreshSession,
+  revokeSession,
+  setRefreshCookie,
+  clearRefreshCookie,
+  readRefreshCookie,
+} = require('../utils/tokens');
+const { auth, optionalAuth } = require('../middleware/auth');
+const { rateLimit, failureLockout, byIp, byEmail } = require('../middleware/rateLimit');
+const {
+  AUTH_RATE_LIMIT_PER_IP,
+  LOGIN_LOCKOUT_THRESHOLD,
+  LOGIN_LOCKOUT_BASE_SECONDS,
+  LOGIN_LOCKOUT_MAX_SECONDS,
+} = require('../config');
+const { requestPasswordReset, resetPassword } = require('../services/passwordReset');
+const {
+  issueLoginChallenge,
+  readLoginChallenge,
+  verifySecondFactor,
+} = require('../services/twoFactor');
+const {
+  sendVerificationEmail,
+  verifyEmailToken,
+  resendVerificationEmail,
+} = require('../services/emailVerification');
 
 const router = express.Router();
 
@@ -24,6 +51,24 @@ const loginSchema = z.object({
   password: z.string().min(1),
 });
 
+const loginTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().min(1).max(32),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
 /* ------------------------ Helpers ------------------------ */
 function mapUserRow(u) {
   return {
@@ -36,19 +81,75 @@ function mapUserRow(u) {
     address: u.address,
     postalCode: u.postal_code,
     country: u.country,
+    emailVerifiedAt: u.email_verified_at ?? null,
     createdAt: u.created_at,
     updatedAt: u.updated_at,
     fullName: [u.first_name, u.last_name].filter(Boolean).join(' ').trim(),
   };
 }
 
+/**
+ * Open a device session for a user row: sets the httpOnly refresh cookie
+ * and returns a short-lived access token bound to that session.
+ */
+async function signIn(req, res, u) {
+  const session = await createSession(u.id, req);
+  setRefreshCookie(res, session.refreshToken, session.expiresAt);
+  return signAccessToken(mapUserRow(u), { sessionId: session.sessionId, tokenVersion: u.token_version });
+}
+
+/* ------------------------ Rate limits ------------------------ */
+const perIp = (name) => rateLimit({ name, windowMs: 15 * 60_000, max: AUTH_RATE_LIMIT_PER_IP, key: byIp });
+
+const lockoutTiming = {
+  threshold: LOGIN_LOCKOUT_THRESHOLD,
+  baseMs: LOGIN_LOCKOUT_BASE_SECONDS * 1000,
+  maxMs: LOGIN_LOCKOUT_MAX_SECONDS * 1000,
+};
+
+/** Bucket for the 2FA step: the account the challenge token belongs to */
+const byChallengeUser = (req) => {
+  const challenge = readLoginChallenge(req.body?.challengeToken);
+  return challenge.ok ? `user:${challenge.userId}` : null;
+};
+
+// Per account (cleared by a successful login) and per IP (password spraying: higher bar)
+const loginLimits = [
+  perIp('login'),
+  failureLockout({ name: 'login', key: byEmail, resetOnSuccess: true, ...lockoutTiming }),
+  failureLockout({
+    name: 'login-ip',
+    key: byIp,
+    ...lockoutTiming,
+    threshold: LOGIN_LOCKOUT_THRESHOLD * 4,
+  }),
+];
+
+const twoFactorLimits = [
+  perIp('login-2fa'),
+  failureLockout({
+    name: 'login-2fa',
+    key: byChallengeUser,
+    failureErrors: ['invalid_code'],
+    resetOnSuccess: true,
+    ...lockoutTiming,
+  }),
+];
+
+// Reset emails: also capped per address so nobody gets flooded
+const forgotPasswordLimits = [
+  perIp('forgot-password'),
+  rateLimit({ name: 'forgot-password-email', windowMs: 60 * 60_000, max: 5, key: byEmail }),
+];
+
 /* ------------------------ Routes ------------------------ */
 
 /**
  * POST /api/auth/register
- * Creates a user and returns a signed access token (no cookies, no refresh).
+ * Creates a user, starts a session (refresh cookie) and returns an access token.
+ * The account stays unverified (and limited) until the emailed link is opened.
  */
-router.post('/register', async (req, res) => {
+router.post('/register', perIp('register'), async (req, res) => {
   const parsed = registerSchema.safeParse(req.body);
   if (!parsed.success) {
     return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
@@ -85,15 +186,20 @@ router.post('/register', async (req, res) => {
   const [rows] = await db.execute('SELECT * FROM users WHERE id = ?', [userId]);
   const user = mapUserRow(rows[0]);
 
-  const accessToken = signAccessToken(user);
+  sendVerificationEmail(rows[0]).catch((err) => {
+    console.error('[auth] verification email failed:', err);
+  });
+
+  const accessToken = await signIn(req, res, rows[0]);
   return res.status(201).json({ user, accessToken });
 });
 
 /**
  * POST /api/auth/login
- * Verifies credentials and returns a signed access token (no cookies, no refresh).
+ * Verifies credentials, starts a session (refresh cookie) and returns an access token.
+ * With 2FA on, returns { twoFactorRequired, challengeToken } instead; finish at /login/2fa.
  */
-router.post('/login', async (req, res) => {
+router.post('/login', ...loginLimits, async (req, res) => {
   const parsed = loginSchema.safeParse(req.body);
   if (!parsed.success) {
     return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
@@ -110,9 +216,73 @@ router.post('/login', async (req, res) => {
   const u = rows[0];
   const ok = await bcrypt.compare(password, u.password_hash);
   if (!ok) return res.status(401).json({ error: 'invalid_credentials' });
+  if (u.disabled_at) return res.status(403).json({ error: 'account_disabled' });
+
+  if (u.totp_enabled_at) {
+    return res.json({ twoFactorRequired: true, challengeToken: issueLoginChallenge(u) });
+  }
 
   const user = mapUserRow(u);
-  const accessToken = signAccessToken(user);
+  const accessToken = await signIn(req, res, u);
+  return res.json({ user, accessToken });
+});
+
+/**
+ * POST /api/auth/login/2fa
+ * Second login step: a TOTP or recovery code for the password step's challenge token.
+ */
+router.post('/login/2fa', ...twoFactorLimits, async (req, res) => {
+  const parsed = loginTwoFactorSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+
+  const challenge = readLoginChallenge(parsed.data.challengeToken);
+  if (!challenge.ok) {
+    const error = challenge.reason === 'expired' ? 'challenge_expired' : 'invalid_challenge';
+    return res.status(401).json({ error });
+  }
+
+  const [rows] = await db.execute('SELECT * FROM users WHERE id = ? LIMIT 1', [challenge.userId]);
+  // a password change/reset since the password step voids the challenge
+  if (!rows.length || Number(rows[0].token_version) !== Number(challenge.tokenVersion)) {
+    return res.status(401).json({ error: 'invalid_challenge' });
+  }
+  if (rows[0].disabled_at) return res.status(403).json({ error: 'account_disabled' });
+
+  const second = await verifySecondFactor(challenge.userId, parsed.data.code);
+  if (!second.ok) return res.status(401).json({ error: 'invalid_code' });
+
+  const user = mapUserRow(rows[0]);
+  const accessToken = await signIn(req, res, rows[0]);
+  return res.json({ user, accessToken });
+});
+
+/**
+ * POST /api/auth/refresh
+ * Rotates the refresh cookie and returns a fresh access token.
+ * Replaying an already-rotated refresh token revokes its whole session.
+ */
+router.post('/refresh', async (req, res) => {
+  const result = await rotateRefreshToken(readRefreshCookie(req), req);
+  if (!result.ok) {
+    clearRefreshCookie(res);
+    const error = result.reason === 'reused' ? 'refresh_token_reused' : 'invalid_refresh_token';
+    return res.status(401).json({ error });
+  }
+
+  const [rows] = await db.execute('SELECT * FROM users WHERE id = ? LIMIT 1', [result.userId]);
+  if (!rows.length || rows[0].disabled_at) {
+    clearRefreshCookie(res);
+    return res.status(401).json({ error: 'invalid_refresh_token' });
+  }
+
+  setRefreshCookie(res, result.refreshToken, result.expiresAt);
+  const user = mapUserRow(rows[0]);
+  const accessToken = signAccessToken(user, {
+    sessionId: result.sessionId,
+    tokenVersion: rows[0].token_version,
+  });
   return res.json({ user, accessToken });
 });
 
@@ -132,10 +302,92 @@ router.get('/me', auth, async (req, res) => {
 
 /**
  * POST /api/auth/logout
- * Stateless JWTs can't be "logged out" server-side without a blocklist.
- * This endpoint exists for client UX; just return ok.
+ * Revokes the current session (from the refresh cookie, else the access token)
+ * so neither its refresh token nor its access tokens work anymore.
+ */
+router.post('/logout', optionalAuth, async (req, res) => {
+  const sessionId = (await findRefreshSession(readRefreshCookie(req))) || req.user?.sessionId;
+  if (sessionId) await revokeSession(sessionId, 'logout');
+  clearRefreshCookie(res);
+  return res.json({ ok: true });
+});
+
+/**
+ * POST /api/auth/verify-email
+ * Confirms the address from a verification link token. No login needed, so
+ * the link works on any device.
+ */
+router.post('/verify-email', async (req, res) => {
+  const parsed = verifyEmailSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+
+  const result = await verifyEmailToken(parsed.data.token);
+  if (!result.ok) {
+    const error = result.reason === 'expired' ? 'verification_token_expired' : 'invalid_verification_token';
+    return res.status(400).json({ error });
+  }
+  return res.json({ ok: true });
+});
+
+/**
+ * POST /api/auth/verify-email/resend
+ * Emails a new verification link to the signed-in user (throttled).
  */
-router.post('/logout', async (_req, res) => {
+router.post('/verify-email/resend', auth, async (req, res) => {
+  const result = await resendVerificationEmail(req.user.id);
+  if (!result.ok) {
+    if (result.reason === 'throttled') {
+      res.set('Retry-After', String(result.retryAfter));
+      return res.status(429).json({ error: 'too_many_requests', retryAfter: result.retryAfter });
+    }
+    if (result.reason === 'already_verified') return res.status(409).json({ error: 'already_verified' });
+    return res.status(404).json({ error: 'not_found' });
+  }
+  return res.json({ ok: true });
+});
+
+/**
+ * POST /api/auth/forgot-password
+ * Emails a one-time reset link when the address belongs to an account.
+ * Always answers 200 so the endpoint can't be used to probe for accounts.
+ */
+router.post('/forgot-password', ...forgotPasswordLimits, async (req, res) => {
+  const parsed = forgotPasswordSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+
+  const email = parsed.data.email.toLowerCase().trim();
+  const [rows] = await db.execute(
+    'SELECT id, email, first_name FROM users WHERE email = ? LIMIT 1',
+    [email]
+  );
+  if (rows.length) {
+    // not awaited: response time must not depend on whether the account exists
+    requestPasswordReset(rows[0], req).catch((err) => {
+      console.error('[auth] password reset email failed:', err);
+    });
+  }
+  return res.json({ ok: true });
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Sets a new password from a reset token and signs out every session.
+ */
+router.post('/reset-password', perIp('reset-password'), async (req, res) => {
+  const parsed = resetPasswordSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+
+  const result = await resetPassword(parsed.data.token, parsed.data.password);
+  if (!result.ok) {
+    const error = result.reason === 'expired' ? 'reset_token_expired' : 'invalid_reset_token';
+    return res.status(400).json({ error });
+  }
   return res.json({ ok: true });
 });
 
@@ -0,0 +1,23 @@
+const express = require('express');
+const { auth } = require('../middleware/auth');
+const { listBrains } = require('../services/brains');
+const { getUserPlan, isEntitled } = require('../services/entitlements');
+
+const router = express.Router();
+router.use(auth);
+
+/**
+ * GET /api/brains
+ * Brain tiers the wizard can offer, with their limits.
+ * `locked` is relative to the current user's plan.
+ */
+router.get('/', async (req, res) => {
+  const plan = await getUserPlan(req.user.id);
+  const brains = listBrains().map((b) => ({
+    ...b,
+    locked: b.locked && !isEntitled(plan, 'brain', b.id),
+  }));
+  res.json({ brains });
+});
+
+module.exports = router;
@@ -0,0 +1,365 @@
+const express = require('express');
+const { z } = require('zod');
+const db = require('../db');
+const { auth } = require('../middleware/auth');
+const { requireAgentAccess } = require('../middleware/agentAccess');
+const { getBrainAdapter } = require('../services/brains');
+const { compilePrompt } = require('../services/promptCompiler');
+const { retrieveSources, toCitation, knowledgeSection } = require('../services/knowledge');
+const { startRun, getRun, subscribeRun, cancelRun } = require('../services/replyStreams');
+const { openSse, writeEvent, getLastEventId } = require('../utils/sse');
+
+// Mounted at /api/agents/:id/conversations (needs the parent :id param)
+const router = express.Router({ mergeParams: true });
+router.use(auth);
+// viewers can chat too; conversations themselves stay per-user
+router.use(requireAgentAccess('viewer', { notFoundError: 'agent_not_found' }));
+
+/* ----------------------------- zod schemas ------------------------------ */
+
+const ConversationCreateSchema = z.object({
+  title: z.string().trim().max(191).optional().nullable(),
+});
+
+const MessageCreateSchema = z.object({
+  text: z.string().trim().min(1).max(8000),
+});
+
+/* ------------------------------ mappers --------------------------------- */
+
+function rowToConversation(r) {
+  return {
+    id: r.id,
+    agentId: r.agent_id,
+    userId: r.user_id,
+    title: r.title,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+function parseSources(v) {
+  if (!v) return [];
+  if (Array.isArray(v)) return v;
+  try {
+    return JSON.parse(v);
+  } catch {
+    return [];
+  }
+}
+
+function rowToMessage(r) {
+  return {
+    id: r.id,
+    conversationId: r.conversation_id,
+    role: r.role,
+    text: r.content,
+    status: r.status,
+    engine: r.engine,
+    sources: parseSources(r.sources),
+    createdAt: r.created_at,
+  };
+}
+
+/* ------------------------------- helpers -------------------------------- */
+
+async function findConversation(conversationId, agentId, userId) {
+  const [rows] = await db.execute(
+    `SELECT id, agent_id, user_id, title, created_at, updated_at
+     FROM conversations WHERE id = ? AND agent_id = ? AND user_id = ? LIMIT 1`,
+    [conversationId, agentId, userId]
+  );
+  return rows.length ? rows[0] : null;
+}
+
+const MESSAGE_COLUMNS = 'id, conversation_id, role, content, status, engine, sources, created_at';
+
+async function listMessageRows(conversationId) {
+  const [rows] = await db.execute(
+    `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE conversation_id = ? ORDER BY id ASC`,
+    [conversationId]
+  );
+  return rows;
+}
+
+async function insertMessage(conversationId, { role, content, status = 'complete', engine = null, sources = null }) {
+  const [result] = await db.execute(
+    `INSERT INTO messages (conversation_id, role, content, status, engine, sources)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [conversationId, role, content, status, engine, sources?.length ? JSON.stringify(sources) : null]
+  );
+  const [rows] = await db.execute(
+    `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = ?`,
+    [result.insertId]
+  );
+  return rows[0];
+}
+
+async function findMessage(messageId, conversationId) {
+  const [rows] = await db.execute(
+    `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = ? AND conversation_id = ? LIMIT 1`,
+    [messageId, conversationId]
+  );
+  return rows.length ? rows[0] : null;
+}
+
+/**
+ * Engine context for one reply: compiled system prompt plus the knowledge
+ * chunks most relevant to the message. `sources` are the citations to store.
+ */
+async function buildReplyContext(agent, history, message) {
+  const knowledge = await retrieveSources(agent.id, message);
+  const { prompt } = compilePrompt(agent);
+  return {
+    sources: knowledge.map(toCitation),
+    context: {
+      agent,
+      systemPrompt: knowledge.length ? `${prompt}\n\n${knowledgeSection(knowledge)}` : prompt,
+      history,
+      message,
+      knowledge,
+    },
+  };
+}
+
+/* -------------------------------- SSE ----------------------------------- */
+
+// Event ids are "<assistantMessageId>:<tokenSeq>" so a reconnect knows where to resume.
+function parseStreamEventId(id) {
+  const m = /^(\d+):(\d+)$/.exec(id || '');
+  return m ? { messageId: Number(m[1]), seq: Number(m[2]) } : null;
+}
+
+/** Terminal event: `done` with the persisted reply, or `error`. Ends the response. */
+async function writeFinal(res, messageId, conversationId) {
+  const row = await findMessage(messageId, conversationId);
+  const reply = row ? rowToMessage(row) : null;
+  if (reply && reply.status !== 'error') {
+    writeEvent(res, { event: 'done', data: { reply } });
+  } else {
+    writeEvent(res, { event: 'error', data: { error: 'reply_failed', reply } });
+  }
+  res.end();
+}
+
+/** Pipe a run's tokens (after `afterSeq`) to an open SSE response. */
+function pipeRun(req, res, run, afterSeq, stopHeartbeat) {
+  const unsubscribe = subscribeRun(run, afterSeq, (evt) => {
+    if (evt.type === 'token') {
+      writeEvent(res, {
+        id: `${run.messageId}:${evt.seq}`,
+        event: 'token',
+        data: { delta: evt.delta },
+      });
+      return;
+    }
+    stopHeartbeat();
+    writeFinal(res, run.messageId, run.conversationId).catch(() => res.end());
+  });
+
+  // Dropping the connection does not cancel generation; the client may resume.
+  req.on('close', () => {
+    unsubscribe();
+    stopHeartbeat();
+  });
+}
+
+/* -------------------------------- Routes -------------------------------- */
+
+/**
+ * GET /api/agents/:id/conversations
+ * Current user's conversations with this agent (latest activity first)
+ */
+router.get('/', async (req, res) => {
+  const agentId = Number(req.params.id);
+  const [rows] = await db.execute(
+    `SELECT id, agent_id, user_id, title, created_at, updated_at
+     FROM conversations WHERE agent_id = ? AND user_id = ?
+     ORDER BY updated_at DESC, id DESC`,
+    [agentId, req.user.id]
+  );
+  res.json({ conversations: rows.map(rowToConversation) });
+});
+
+/**
+ * POST /api/agents/:id/conversations
+ * Start a new conversation
+ */
+router.post('/', async (req, res) => {
+  const agentId = Number(req.params.id);
+  const parsed = ConversationCreateSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+
+  const [result] = await db.execute(
+    'INSERT INTO conversations (agent_id, user_id, title) VALUES (?, ?, ?)',
+    [agentId, req.user.id, parsed.data.title ?? null]
+  );
+  const row = await findConversation(result.insertId, agentId, req.user.id);
+  res.status(201).json({ conversation: rowToConversation(row) });
+});
+
+/**
+ * GET /api/agents/:id/conversations/:cid/messages
+ */
+router.get('/:cid/messages', async (req, res) => {
+  const agentId = Number(req.params.id);
+  const conversationId = Number(req.params.cid);
+
+  const conversation = await findConversation(conversationId, agentId, req.user.id);
+  if (!conversation) return res.status(404).json({ error: 'conversation_not_found' });
+
+  const rows = await listMessageRows(conversationId);
+  res.json({ messages: rows.map(rowToMessage) });
+});
+
+/**
+ * POST /api/agents/:id/conversations/:cid/messages
+ * Persist the user's message, ask the reply engine (grounded in the agent's
+ * knowledge), persist the answer with its citations.
+ * Returns both so the client can reconcile its optimistic bubble.
+ */
+router.post('/:cid/messages', async (req, res) => {
+  const agentId = Number(req.params.id);
+  const conversationId = Number(req.params.cid);
+
+  const agent = req.agent;
+
+  const conversation = await findConversation(conversationId, agentId, req.user.id);
+  if (!conversation) return res.status(404).json({ error: 'conversation_not_found' });
+
+  const parsed = MessageCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+
+  const history = (await listMessageRows(conversationId)).map(rowToMessage);
+  const message = await insertMessage(conversationId, { role: 'user', content: parsed.data.text });
+
+  const engine = getBrainAdapter(agent.brain.id);
+  const { context, sources } = await buildReplyContext(agent, history, parsed.data.text);
+  let reply;
+  try {
+    const out = await engine.reply(context);
+    reply = await insertMessage(conversationId, {
+      role: 'assistant',
+      content: out.text,
+      engine: engine.name,
+      sources,
+    });
+  } catch (e) {
+    // The user's message stays persisted; the client marks its bubble as failed
+    return res.status(502).json({
+      error: 'reply_failed',
+      message: e.message,
+      userMessage: rowToMessage(message),
+    });
+  }
+
+  // Bump conversation activity for ordering
+  await db.execute('UPDATE conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = ?', [conversationId]);
+
+  res.status(201).json({ message: rowToMessage(message), reply: rowToMessage(reply) });
+});
+
+/**
+ * POST /api/agents/:id/conversations/:cid/stream
+ * Same as POST /messages, but the reply is streamed as Server-Sent Events:
+ *   start  { message, reply }  – persisted user message + empty assistant message (with sources)
+ *   token  { delta }           – id "<replyId>:<seq>", repeat
+ *   done   { reply }           – final persisted assistant message
+ *   error  { error, reply }
+ */
+router.post('/:cid/stream', async (req, res) => {
+  const agentId = Number(req.params.id);
+  const conversationId = Number(req.params.cid);
+
+  const agent = req.agent;
+
+  const conversation = await findConversation(conversationId, agentId, req.user.id);
+  if (!conversation) return res.status(404).json({ error: 'conversation_not_found' });
+
+  const parsed = MessageCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+
+  const engine = getBrainAdapter(agent.brain.id);
+  const history = (await listMessageRows(conversationId)).map(rowToMessage);
+  const { context, sources } = await buildReplyContext(agent, history, parsed.data.text);
+  const message = await insertMessage(conversationId, { role: 'user', content: parsed.data.text });
+  const reply = await insertMessage(conversationId, {
+    role: 'assistant',
+    content: '',
+    status: 'streaming',
+    engine: engine.name,
+    sources,
+  });
+
+  const stopHeartbeat = openSse(res);
+  writeEvent(res, {
+    id: `${reply.id}:0`,
+    event: 'start',
+    data: { message: rowToMessage(message), reply: rowToMessage(reply) },
+  });
+
+  const run = startRun({
+    messageId: reply.id,
+    conversationId,
+    engine,
+    context,
+  });
+  pipeRun(req, res, run, 0, stopHeartbeat);
+});
+
+/**
+ * GET /api/agents/:id/conversations/:cid/stream
+ * Resume a dropped stream. Requires `Last-Event-ID: <replyId>:<seq>`
+ * (or ?lastEventId=); replays tokens after <seq>, then follows live.
+ */
+router.get('/:cid/stream', async (req, res) => {
+  const agentId = Number(req.params.id);
+  const conversationId = Number(req.params.cid);
+
+  const conversation = await findConversation(conversationId, agentId, req.user.id);
+  if (!conversation) return res.status(404).json({ error: 'conversation_not_found' });
+
+  const last = parseStreamEventId(getLastEventId(req));
+  if (!last) return res.status(400).json({ error: 'missing_last_event_id' });
+
+  const row = await findMessage(last.messageId, conversationId);
+  if (!row || row.role !== 'assistant') return res.status(404).json({ error: 'stream_not_found' });
+
+  const stopHeartbeat = openSse(res);
+  const run = getRun(row.id);
+  if (run) return pipeRun(req, res, run, last.seq, stopHeartbeat);
+
+  // Run is gone (finished long ago or server restarted): the DB row is authoritative
+  if (row.status === 'streaming') {
+    await db.execute("UPDATE messages SET status = 'error' WHERE id = ?", [row.id]);
+  }
+  stopHeartbeat();
+  await writeFinal(res, row.id, conversationId);
+});
+
+/**
+ * DELETE /api/agents/:id/conversations/:cid/stream/:mid
+ * Cancel generation; the partial reply is kept with status 'cancelled'.
+ */
+router.delete('/:cid/stream/:mid', async (req, res) => {
+  const agentId = Number(req.params.id);
+  const conversationId = Number(req.params.cid);
+  const messageId = Number(req.params.mid);
+
+  const conversation = await findConversation(conversationId, agentId, req.user.id);
+  if (!conversation) return res.status(404).json({ error: 'conversation_not_found' });
+
+  const row = await findMessage(messageId, conversationId);
+  if (!row) return res.status(404).json({ error: 'stream_not_found' });
+
+  const cancelled = cancelRun(messageId);
+  res.json({ ok: true, cancelled });
+});
+
+module.exports = router;
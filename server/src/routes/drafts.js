@@ -0,0 +1,149 @@
+// Create-wizard drafts API, mounted at /api/agents/drafts (before /api/agents).
+// Payloads are only loosely checked: a draft is whatever the wizard holds so
+// far. Full validation happens when the agent is created from it.
+
+const express = require('express');
+const { z } = require('zod');
+const { auth } = require('../middleware/auth');
+const { getMemberRole, roleAtLeast } = require('../services/organizations');
+const {
+  getDraft,
+  getLatestDraft,
+  createDraft,
+  saveDraft,
+  deleteDraft,
+} = require('../services/agentDrafts');
+
+const router = express.Router();
+router.use(auth);
+
+/* ------------------------ Schemas ------------------------ */
+const text = (max) => z.string().max(max).nullable();
+const styleScore = z.number().int().min(0).max(10);
+
+const DraftPayloadSchema = z.object({
+  identity: z.object({
+    name: text(191),
+    role: text(191),
+    companyName: text(191),
+    desc: text(5000),
+  }).partial(),
+  appearance: z.object({
+    personaId: text(64),
+    bgColor: text(16),
+  }).partial(),
+  voice: z.object({
+    language: text(16),
+    name: text(64),
+  }).partial(),
+  style: z.object({
+    formality: styleScore,
+    pace: styleScore,
+    calm: styleScore,
+    introvert: styleScore,
+    empathy: styleScore,
+    humor: styleScore,
+    creativity: styleScore,
+    directness: styleScore,
+  }).partial(),
+  brain: z.object({
+    id: text(64),
+    instructions: text(20000),
+  }).partial(),
+  cards: z.object({
+    backgroundId: text(64),
+  }).partial(),
+  connections: z.array(z.object({
+    extId: z.string().max(191),
+    providerId: z.string().max(64),
+    status: z.enum(['connected', 'needs_setup', 'error']),
+    config: z.any(),
+    token: text(2048),
+  }).partial()).max(50),
+}).partial();
+
+const draftSaveSchema = z.object({
+  step: z.string().max(32).optional().nullable(),
+  payload: DraftPayloadSchema,
+});
+
+const draftCreateSchema = draftSaveSchema.extend({
+  organizationId: z.number().int().positive().optional().nullable(),
+});
+
+const latestQuerySchema = z.object({
+  organizationId: z.coerce.number().int().positive().optional(),
+});
+
+/* ------------------------ Routes ------------------------ */
+
+/**
+ * GET /api/agents/drafts/latest?organizationId=
+ * The draft /create resumes: the latest one for personal agents or the workspace
+ */
+router.get('/latest', async (req, res) => {
+  const parsed = latestQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_query', issues: parsed.error.issues });
+  }
+  res.json({ draft: await getLatestDraft(req.user.id, parsed.data.organizationId ?? null) });
+});
+
+/**
+ * POST /api/agents/drafts
+ * Start a draft (workspace drafts need editor access to the workspace)
+ */
+router.post('/', async (req, res) => {
+  const parsed = draftCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  const organizationId = parsed.data.organizationId ?? null;
+  if (organizationId && !roleAtLeast(await getMemberRole(organizationId, req.user.id), 'editor')) {
+    return res.status(403).json({ error: 'forbidden', message: 'Requires editor access to this workspace' });
+  }
+  const draft = await createDraft(req.user.id, {
+    organizationId,
+    step: parsed.data.step ?? null,
+    payload: parsed.data.payload,
+  });
+  res.status(201).json({ draft });
+});
+
+/**
+ * GET /api/agents/drafts/:draftId
+ */
+router.get('/:draftId', async (req, res) => {
+  const draft = await getDraft(req.params.draftId, req.user.id);
+  if (!draft) return res.status(404).json({ error: 'draft_not_found' });
+  res.json({ draft });
+});
+
+/**
+ * PUT /api/agents/drafts/:draftId
+ * Autosave the wizard state (also extends the draft's expiry)
+ */
+router.put('/:draftId', async (req, res) => {
+  const parsed = draftSaveSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  const draft = await saveDraft(req.params.draftId, req.user.id, {
+    step: parsed.data.step ?? null,
+    payload: parsed.data.payload,
+  });
+  if (!draft) return res.status(404).json({ error: 'draft_not_found' });
+  res.json({ draft });
+});
+
+/**
+ * DELETE /api/agents/drafts/:draftId
+ * Discard a draft
+ */
+router.delete('/:draftId', async (req, res) => {
+  const found = await deleteDraft(req.params.draftId, req.user.id);
+  if (!found) return res.status(404).json({ error: 'draft_not_found' });
+  res.json({ ok: true });
+});
+
+module.exports = router;
@@ -0,0 +1,17 @@
+const express = require('express');
+const { auth } = require('../middleware/auth');
+const { PREMIUM_ASSETS, getUserPlan, listPlans } = require('../services/entitlements');
+
+const router = express.Router();
+router.use(auth);
+
+/**
+ * GET /api/entitlements
+ * Current user's plan, the premium asset catalog and the plans that unlock it
+ */
+router.get('/', async (req, res) => {
+  const [plan, plans] = await Promise.all([getUserPlan(req.user.id), listPlans()]);
+  res.json({ plan, plans, premium: PREMIUM_ASSETS });
+});
+
+module.exports = router;
@@ -0,0 +1,154 @@
+const express = require('express');
+const { z } = require('zod');
+const db = require('../db');
+const { auth } = require('../middleware/auth');
+const { requireAgentAccess } = require('../middleware/agentAccess');
+const { detectType } = require('../utils/textExtract');
+const { processDocument, searchKnowledge } = require('../services/knowledge');
+const { KNOWLEDGE_MAX_BYTES } = require('../config');
+
+// Mounted at /api/agents/:id/knowledge (needs the parent :id param)
+const router = express.Router({ mergeParams: true });
+router.use(auth);
+
+/* ----------------------------- zod schemas ------------------------------ */
+
+const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+/* ------------------------------ mappers --------------------------------- */
+
+function rowToDocument(r) {
+  return {
+    id: r.id,
+    agentId: r.agent_id,
+    filename: r.filename,
+    mimeType: r.mime_type,
+    sizeBytes: r.size_bytes,
+    status: r.status,
+    error: r.error,
+    chunkCount: r.chunk_count,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+/* ------------------------------- helpers -------------------------------- */
+
+const DOCUMENT_COLUMNS = `id, agent_id, filename, mime_type, size_bytes, status, error,
+  chunk_count, created_at, updated_at`;
+
+async function findDocument(documentId, agentId) {
+  const [rows] = await db.execute(
+    `SELECT ${DOCUMENT_COLUMNS} FROM knowledge_documents WHERE id = ? AND agent_id = ? LIMIT 1`,
+    [documentId, agentId]
+  );
+  return rows.length ? rows[0] : null;
+}
+
+// Uploads are the raw file body (any Content-Type); the name comes from
+// X-Filename (URI-encoded) or ?filename=
+const parseRawBody = express.raw({ type: () => true, limit: KNOWLEDGE_MAX_BYTES });
+
+function rawUpload(req, res, next) {
+  parseRawBody(req, res, (err) => {
+    if (!err) return next();
+    if (err.type === 'entity.too.large') {
+      return res.status(413).json({ error: 'file_too_large', maxBytes: KNOWLEDGE_MAX_BYTES });
+    }
+    return res.status(400).json({ error: 'invalid_body', message: err.message });
+  });
+}
+
+function uploadFilename(req) {
+  const raw = req.get('X-Filename') || req.query.filename || '';
+  try {
+    return decodeURIComponent(String(raw)).trim().slice(0, 255);
+  } catch {
+    return String(raw).trim().slice(0, 255);
+  }
+}
+
+/* -------------------------------- Routes -------------------------------- */
+
+const agentNotFound = { notFoundError: 'agent_not_found' };
+
+/**
+ * GET /api/agents/:id/knowledge
+ * Documents attached to the agent's brain (latest first)
+ */
+router.get('/', requireAgentAccess('viewer', agentNotFound), async (req, res) => {
+  const agentId = Number(req.params.id);
+  const [rows] = await db.execute(
+    `SELECT ${DOCUMENT_COLUMNS} FROM knowledge_documents WHERE agent_id = ? ORDER BY id DESC`,
+    [agentId]
+  );
+  res.json({ documents: rows.map(rowToDocument) });
+});
+
+/**
+ * POST /api/agents/:id/knowledge
+ * Upload one txt / markdown / CSV / text-based PDF file as the raw request body.
+ * Responds right away with status 'processing'; indexing continues in the
+ * background and the document turns 'ready' or 'error'.
+ */
+router.post('/', requireAgentAccess('editor', agentNotFound), rawUpload, async (req, res) => {
+  const agentId = Number(req.params.id);
+  const filename = uploadFilename(req);
+  if (!filename) return res.status(400).json({ error: 'missing_filename' });
+
+  const mimeType = detectType(filename, req.get('Content-Type'));
+  if (!mimeType) {
+    return res.status(415).json({
+      error: 'unsupported_type',
+      message: 'Upload a .txt, .md, .csv or text-based .pdf file',
+    });
+  }
+
+  const buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  if (!buffer.length) return res.status(400).json({ error: 'empty_file' });
+
+  const [result] = await db.execute(
+    `INSERT INTO knowledge_documents (agent_id, uploaded_by, filename, mime_type, size_bytes)
+     VALUES (?, ?, ?, ?, ?)`,
+    [agentId, req.user.id, filename, mimeType, buffer.length]
+  );
+  const documentId = result.insertId;
+  const row = await findDocument(documentId, agentId);
+  res.status(201).json({ document: rowToDocument(row) });
+
+  processDocument({ documentId, agentId, buffer, mimeType });
+});
+
+/**
+ * GET /api/agents/:id/knowledge/search?q=&limit=
+ * Best matching chunks from the agent's ready documents
+ */
+router.get('/search', requireAgentAccess('viewer', agentNotFound), async (req, res) => {
+  const agentId = Number(req.params.id);
+  const parsed = SearchQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_query', issues: parsed.error.issues });
+  }
+
+  const results = await searchKnowledge(agentId, parsed.data.q, { limit: parsed.data.limit });
+  res.json({ results });
+});
+
+/**
+ * DELETE /api/agents/:id/knowledge/:docId
+ * Remove a document with its chunks and index entries
+ */
+router.delete('/:docId', requireAgentAccess('editor', agentNotFound), async (req, res) => {
+  const agentId = Number(req.params.id);
+  const [result] = await db.execute(
+    'DELETE FROM knowledge_documents WHERE id = ? AND agent_id = ?',
+    [Number(req.params.docId), agentId]
+  );
+  if (result.affectedRows === 0) return res.status(404).json({ error: 'document_not_found' });
+  res.json({ ok: true });
+});
+
+module.exports = router;
@@ -0,0 +1,148 @@
+// OpenID Connect sign-in routes (mounted at /api/auth/oidc).
+// The browser is sent to /:provider/start, then to the provider, then back to
+// /:provider/callback, which ends on the web client: /auth/callback (session
+// cookie set, the client refreshes into an access token), /auth#challenge=…
+// (2FA still needed) or /auth?oidc_error=<reason>.
+
+const express = require('express');
+const db = require('../db');
+const {
+  CLIENT_URL,
+  AUTH_RATE_LIMIT_PER_IP,
+  REFRESH_COOKIE_SECURE,
+} = require('../config');
+const { createSession, setRefreshCookie, signPurposeToken, verifyPurposeToken } = require('../utils/tokens');
+const { rateLimit, byIp } = require('../middleware/rateLimit');
+const {
+  listProviders,
+  getProvider,
+  buildAuthorizationUrl,
+  completeSignIn,
+  findOrLinkUser,
+} = require('../services/oidc');
+const { issueLoginChallenge } = require('../services/twoFactor');
+const { sendVerificationEmail } = require('../services/emailVerification');
+
+const router = express.Router();
+
+const FLOW_PURPOSE = 'oidc_flow';
+const FLOW_COOKIE = 'fh_oidc_flow';
+const FLOW_COOKIE_PATH = '/api/auth/oidc';
+const FLOW_TTL_SECONDS = 10 * 60;
+
+/* ------------------------ Helpers ------------------------ */
+
+/** Only same-app paths ("/agents/3"), never "//evil.example" or absolute URLs */
+function safeReturnTo(value) {
+  return typeof value === 'string' && /^\/(?![/\\])/.test(value) ? value.slice(0, 512) : '/create';
+}
+
+// The provider redirects back with a top-level GET, so the cookie must be SameSite=Lax
+function setFlowCookie(res, flow) {
+  const token = signPurposeToken(flow, FLOW_PURPOSE, FLOW_TTL_SECONDS);
+  res.cookie(FLOW_COOKIE, token, {
+    httpOnly: true,
+    secure: REFRESH_COOKIE_SECURE,
+    sameSite: 'lax',
+    path: FLOW_COOKIE_PATH,
+    maxAge: FLOW_TTL_SECONDS * 1000,
+  });
+}
+
+function clearFlowCookie(res) {
+  res.clearCookie(FLOW_COOKIE, { path: FLOW_COOKIE_PATH });
+}
+
+function failRedirect(res, reason) {
+  return res.redirect(302, `${CLIENT_URL}/auth?oidc_error=${encodeURIComponent(reason)}`);
+}
+
+const perIp = (name) => rateLimit({ name, windowMs: 15 * 60_000, max: AUTH_RATE_LIMIT_PER_IP, key: byIp });
+
+/* ------------------------ Routes ------------------------ */
+
+/**
+ * GET /api/auth/oidc/providers
+ * Configured sign-in providers: [{ id, name }]
+ */
+router.get('/providers', (_req, res) => {
+  res.json({ providers: listProviders() });
+});
+
+/**
+ * GET /api/auth/oidc/:provider/start?returnTo=/path
+ * Redirects the browser to the provider with state, nonce and a PKCE challenge;
+ * the matching secrets ride along in a short-lived signed cookie.
+ */
+router.get('/:provider/start', perIp('oidc-start'), async (req, res) => {
+  const provider = getProvider(req.params.provider);
+  if (!provider) return failRedirect(res, 'unknown_provider');
+
+  const auth = await buildAuthorizationUrl(provider);
+  if (!auth.ok) return failRedirect(res, auth.reason);
+
+  setFlowCookie(res, {
+    provider: provider.id,
+    state: auth.state,
+    nonce: auth.nonce,
+    verifier: auth.codeVerifier,
+    returnTo: safeReturnTo(req.query.returnTo),
+  });
+  return res.redirect(302, auth.url);
+});
+
+/**
+ * GET /api/auth/oidc/:provider/callback?code&state
+ * Checks state against the flow cookie, exchanges the code, verifies the ID token,
+ * links (or creates) the user and opens a session.
+ */
+router.get('/:provider/callback', perIp('oidc-callback'), async (req, res) => {
+  const provider = getProvider(req.params.provider);
+  const flow = verifyPurposeToken(req.cookies?.[FLOW_COOKIE], FLOW_PURPOSE);
+  clearFlowCookie(res);
+
+  if (!provider) return failRedirect(res, 'unknown_provider');
+  if (!flow.ok) return failRedirect(res, flow.reason === 'expired' ? 'flow_expired' : 'invalid_state');
+
+  const { payload } = flow;
+  if (payload.provider !== provider.id || typeof req.query.state !== 'string' || req.query.state !== payload.state) {
+    return failRedirect(res, 'invalid_state');
+  }
+  if (req.query.error) {
+    return failRedirect(res, req.query.error === 'access_denied' ? 'cancelled' : 'provider_error');
+  }
+  if (typeof req.query.code !== 'string' || !req.query.code) return failRedirect(res, 'provider_error');
+
+  const signInResult = await completeSignIn(provider, {
+    code: req.query.code,
+    nonce: payload.nonce,
+    codeVerifier: payload.verifier,
+  });
+  if (!signInResult.ok) return failRedirect(res, signInResult.reason);
+
+  const linked = await findOrLinkUser(provider, signInResult.claims);
+  if (!linked.ok) return failRedirect(res, linked.reason);
+
+  const [rows] = await db.execute('SELECT * FROM users WHERE id = ? LIMIT 1', [linked.user.id]);
+  const u = rows[0];
+  if (u.disabled_at) return failRedirect(res, 'account_disabled');
+
+  // new account whose provider didn't vouch for the address: same flow as register
+  if (linked.created && !u.email_verified_at) {
+    sendVerificationEmail(u).catch((err) => {
+      console.error('[oidc] verification email failed:', err);
+    });
+  }
+
+  // the provider vouches for the first factor only
+  if (u.totp_enabled_at) {
+    const challenge = encodeURIComponent(issueLoginChallenge(u));
+    return res.redirect(302, `${CLIENT_URL}/auth?returnTo=${encodeURIComponent(payload.returnTo)}#challenge=${challenge}`);
+  }
+
+  const session = await createSession(u.id, req);
+  setRefreshCookie(res, session.refreshToken, session.expiresAt);
+  return res.redirect(302, `${CLIENT_URL}/auth/callback?returnTo=${encodeURIComponent(payload.returnTo)}`);
+});
+
+module.exports = router;
@@ -0,0 +1,228 @@
+// Organizations (workspaces) API, mounted at /api/organizations.
+// Any user can create one and becomes its owner. Owners manage the name,
+// members and invitations; every member can leave (except the last owner).
+
+const express = require('express');
+const { z } = require('zod');
+const { auth } = require('../middleware/auth');
+const {
+  MEMBER_ROLES,
+  roleAtLeast,
+  getMemberRole,
+  listUserOrganizations,
+  createOrganization,
+  getOrganization,
+  renameOrganization,
+  deleteOrganization,
+  listMembers,
+  changeMemberRole,
+  removeMember,
+  listOrganizationInvitations,
+  inviteMember,
+  revokeInvitation,
+  listInvitationsForUser,
+  acceptInvitation,
+  declineInvitation,
+} = require('../services/organizations');
+
+const router = express.Router();
+router.use(auth);
+
+/* ------------------------ Schemas ------------------------ */
+const organizationSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+});
+
+const memberRoleSchema = z.object({
+  role: z.enum(MEMBER_ROLES),
+});
+
+const inviteSchema = z.object({
+  email: z.string().trim().email().max(191),
+  role: z.enum(MEMBER_ROLES).default('viewer'),
+});
+
+/* ------------------------ Helpers ------------------------ */
+
+/**
+ * Require membership of `:orgId` with at least `minRole`; sets req.organizationRole.
+ * Non-members get 404 so workspaces don't leak.
+ */
+function requireOrgRole(minRole) {
+  return async (req, res, next) => {
+    try {
+      const role = await getMemberRole(Number(req.params.orgId), req.user.id);
+      if (!role) return res.status(404).json({ error: 'organization_not_found' });
+      if (!roleAtLeast(role, minRole)) {
+        return res.status(403).json({ error: 'forbidden', message: `Requires ${minRole} role in this workspace` });
+      }
+      req.organizationRole = role;
+      return next();
+    } catch (err) {
+      return next(err);
+    }
+  };
+}
+
+const MEMBER_ERRORS = {
+  not_member: { status: 404, error: 'member_not_found' },
+  last_owner: { status: 409, error: 'last_owner', message: 'A workspace needs at least one owner' },
+};
+
+function sendMemberError(res, reason) {
+  const { status, ...body } = MEMBER_ERRORS[reason];
+  return res.status(status).json(body);
+}
+
+/* ------------------------ Routes ------------------------ */
+
+/**
+ * GET /api/organizations
+ * Workspaces the current user belongs to, with their role.
+ */
+router.get('/', async (req, res) => {
+  res.json({ organizations: await listUserOrganizations(req.user.id) });
+});
+
+/**
+ * POST /api/organizations
+ * Create a workspace; the creator is its owner.
+ */
+router.post('/', async (req, res) => {
+  const parsed = organizationSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  const organization = await createOrganization(req.user.id, parsed.data.name);
+  res.status(201).json({ organization });
+});
+
+/**
+ * GET /api/organizations/invitations
+ * Pending invitations addressed to the current user's email.
+ */
+router.get('/invitations', async (req, res) => {
+  res.json({ invitations: await listInvitationsForUser(req.user.id) });
+});
+
+/**
+ * POST /api/organizations/invitations/:invitationId/accept
+ * Join the workspace (the email must be verified).
+ */
+router.post('/invitations/:invitationId/accept', async (req, res) => {
+  const result = await acceptInvitation(Number(req.params.invitationId), req.user.id);
+  if (!result.ok) {
+    if (result.reason === 'email_unverified') {
+      return res.status(403).json({ error: 'email_unverified', message: 'Verify your email to join a workspace' });
+    }
+    return res.status(404).json({ error: 'invitation_not_found' });
+  }
+  res.json({ organization: await getOrganization(result.organizationId, req.user.id) });
+});
+
+/**
+ * POST /api/organizations/invitations/:invitationId/decline
+ */
+router.post('/invitations/:invitationId/decline', async (req, res) => {
+  const found = await declineInvitation(Number(req.params.invitationId), req.user.id);
+  if (!found) return res.status(404).json({ error: 'invitation_not_found' });
+  res.json({ ok: true });
+});
+
+/**
+ * GET /api/organizations/:orgId
+ * The workspace with its members; owners also get pending invitations.
+ */
+router.get('/:orgId', requireOrgRole('viewer'), async (req, res) => {
+  const orgId = Number(req.params.orgId);
+  const [organization, members] = await Promise.all([
+    getOrganization(orgId, req.user.id),
+    listMembers(orgId),
+  ]);
+  const invitations = req.organizationRole === 'owner' ? await listOrganizationInvitations(orgId) : [];
+  res.json({ organization, members, invitations });
+});
+
+/**
+ * PATCH /api/organizations/:orgId
+ * Rename (owners).
+ */
+router.patch('/:orgId', requireOrgRole('owner'), async (req, res) => {
+  const parsed = organizationSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  const orgId = Number(req.params.orgId);
+  await renameOrganization(orgId, parsed.data.name);
+  res.json({ organization: await getOrganization(orgId, req.user.id) });
+});
+
+/**
+ * DELETE /api/organizations/:orgId
+ * Owners only, once the workspace has no agents left.
+ */
+router.delete('/:orgId', requireOrgRole('owner'), async (req, res) => {
+  const result = await deleteOrganization(Number(req.params.orgId));
+  if (!result.ok) {
+    return res.status(409).json({ error: 'not_empty', message: 'Delete the workspace agents first' });
+  }
+  res.json({ ok: true });
+});
+
+/**
+ * PATCH /api/organizations/:orgId/members/:userId
+ * Change a member's role (owners).
+ */
+router.patch('/:orgId/members/:userId', requireOrgRole('owner'), async (req, res) => {
+  const parsed = memberRoleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  const orgId = Number(req.params.orgId);
+  const result = await changeMemberRole(orgId, Number(req.params.userId), parsed.data.role);
+  if (!result.ok) return sendMemberError(res, result.reason);
+  res.json({ members: await listMembers(orgId) });
+});
+
+/**
+ * DELETE /api/organizations/:orgId/members/:userId
+ * Remove a member (owners), or leave the workspace (any member, own id).
+ */
+router.delete('/:orgId/members/:userId', requireOrgRole('viewer'), async (req, res) => {
+  const orgId = Number(req.params.orgId);
+  const userId = Number(req.params.userId);
+  if (userId !== Number(req.user.id) && req.organizationRole !== 'owner') {
+    return res.status(403).json({ error: 'forbidden', message: 'Requires owner role in this workspace' });
+  }
+  const result = await removeMember(orgId, userId);
+  if (!result.ok) return sendMemberError(res, result.reason);
+  res.json({ ok: true });
+});
+
+/**
+ * POST /api/organizations/:orgId/invitations
+ * Invite an email address with a role (owners). Re-inviting refreshes it.
+ */
+router.post('/:orgId/invitations', requireOrgRole('owner'), async (req, res) => {
+  const parsed = inviteSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'invalid_payload', issues: parsed.error.issues });
+  }
+  const result = await inviteMember(Number(req.params.orgId), req.user, parsed.data.email, parsed.data.role);
+  if (!result.ok) {
+    return res.status(409).json({ error: 'already_member', message: 'That person is already a member' });
+  }
+  res.status(201).json({ invitation: result.invitation });
+});
+
+/**
+ * DELETE /api/organizations/:orgId/invitations/:invitationId
+ * Revoke a pending invitation (owners).
+ */
+router.delete('/:orgId/invitations/:invitationId', requireOrgRole('owner'), async (req, res) => {
+  const found = await revokeInvitation(Number(req.params.orgId), Number(req.params.invitationId));
+  if (!found) return res.status(404).json({ error: 'invitation_not_found' });
+  res.json({ ok: true });
+});
+
+module.exports = router;
@@ -0,0 +1,122 @@
+// Who may do what with an agent. Personal agents (no organization) are
+// visible to their owner, who has the 'owner' role on them; workspace agents
+// give every member of the organization their membership role. On top of
+// that an agent can be shared with single users as viewer or editor; the
+// higher of the share and the owner/membership role wins.
+// Roles, lowest first: viewer (read + chat), editor (edit), owner (delete, share).
+
+const db = require('../db');
+const { SELECT_BASE, rowToAgent } = require('../utils/agents');
+const { MEMBER_ROLES, getMemberRole, roleAtLeast } = require('./organizations');
+
+const SHARE_ROLES = ['viewer', 'editor'];
+
+function higherRole(a, b) {
+  return MEMBER_ROLES.indexOf(a) >= MEMBER_ROLES.indexOf(b) ? a : b;
+}
+
+function mapShareRow(s) {
+  return {
+    userId: s.user_id,
+    email: s.email,
+    fullName: [s.first_name, s.last_name].filter(Boolean).join(' ').trim(),
+    role: s.role,
+    createdAt: s.created_at,
+  };
+}
+
+async function getShareRole(agentId, userId) {
+  const [rows] = await db.execute(
+    'SELECT role FROM agent_shares WHERE agent_id = ? AND user_id = ? LIMIT 1',
+    [agentId, userId]
+  );
+  return rows.length ? rows[0].role : null;
+}
+
+/**
+ * Load an agent with the user's role on it. Agents in the trash count as
+ * missing unless `includeDeleted` (restoring and purging them).
+ * → { agent, role } | null (missing, or not visible to the user)
+ */
+async function findAgentAccess(agentId, userId, { includeDeleted = false } = {}) {
+  if (!Number.isInteger(agentId) || agentId <= 0) return null;
+  const [rows] = await db.execute(`${SELECT_BASE} WHERE id = ? LIMIT 1`, [agentId]);
+  if (!rows.length || (rows[0].deleted_at && !includeDeleted)) return null;
+  const row = rows[0];
+
+  const [baseRole, shareRole] = await Promise.all([
+    row.organization_id
+      ? getMemberRole(row.organization_id, userId)
+      : (Number(row.owner_id) === Number(userId) ? 'owner' : null),
+    getShareRole(agentId, userId),
+  ]);
+  const role = baseRole && shareRole ? higherRole(baseRole, shareRole) : (baseRole || shareRole);
+  if (!role) return null;
+  return { agent: rowToAgent(row), role };
+}
+
+/* --------------------------------- Shares -------------------------------- */
+
+async function listShares(agentId) {
+  const [rows] = await db.execute(
+    `SELECT s.user_id, s.role, s.created_at, u.email, u.first_name, u.last_name
+     FROM agent_shares s JOIN users u ON u.id = s.user_id
+     WHERE s.agent_id = ? ORDER BY s.created_at ASC`,
+    [agentId]
+  );
+  return rows.map(mapShareRow);
+}
+
+/**
+ * Share an agent with the user registered under `email` (re-sharing changes the role).
+ * → { ok: true, share } | { ok: false, reason: 'user_not_found' | 'owner' }
+ */
+async function shareAgent(agent, sharedBy, email, role) {
+  const [users] = await db.execute(
+    'SELECT id FROM users WHERE email = ? LIMIT 1',
+    [email.toLowerCase().trim()]
+  );
+  if (!users.length) return { ok: false, reason: 'user_not_found' };
+  const userId = users[0].id;
+  // the owner of a personal agent already has every right on it
+  if (!agent.organizationId && Number(agent.ownerId) === Number(userId)) return { ok: false, reason: 'owner' };
+
+  await db.execute(
+    `INSERT INTO agent_shares (agent_id, user_id, role, shared_by) VALUES (?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE role = VALUES(role), shared_by = VALUES(shared_by)`,
+    [agent.id, userId, role, sharedBy]
+  );
+  const share = (await listShares(agent.id)).find((s) => Number(s.userId) === Number(userId));
+  return { ok: true, share };
+}
+
+/** Stop sharing an agent with a user. → boolean (found) */
+async function unshareAgent(agentId, userId) {
+  const [result] = await db.execute(
+    'DELETE FROM agent_shares WHERE agent_id = ? AND user_id = ?',
+    [agentId, userId]
+  );
+  return result.affectedRows > 0;
+}
+
+/** Agents shared with the user, each with the share role (latest share first; archived and deleted ones left out). */
+async function listSharedAgents(userId) {
+  const [rows] = await db.execute(
+    `SELECT a.*, s.role AS share_role FROM (${SELECT_BASE}) a
+     JOIN agent_shares s ON s.agent_id = a.id
+     WHERE s.user_id = ? AND a.archived_at IS NULL AND a.deleted_at IS NULL
+     ORDER BY s.created_at DESC, a.id DESC`,
+    [userId]
+  );
+  return rows.map((r) => ({ ...rowToAgent(r), shareRole: r.share_role }));
+}
+
+module.exports = {
+  SHARE_ROLES,
+  findAgentAccess,
+  roleAtLeast,
+  listShares,
+  shareAgent,
+  unshareAgent,
+  listSharedAgents,
+};
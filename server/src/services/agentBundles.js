@@ -0,0 +1,127 @@
+// Portable agent bundles: a versioned JSON document carrying an agent's
+// settings and its connections without secrets, for moving agents between
+// accounts (staging → production). Export always writes the current version;
+// import upgrades older bundles step by step before validating them.
+//
+// Version history:
+//   1 – no envelope: the body of GET /api/agents/:id ({ agent }), optionally
+//       with the `connections` of GET /api/agents/:id/connections (tokens and all)
+//   2 – { format: 'agent-bundle', bundleVersion: 2, exportedAt, agent, connections },
+//       connections redacted: no token, `needsReauth` when one was set
+
+const { z } = require('zod');
+
+const BUNDLE_FORMAT = 'agent-bundle';
+const BUNDLE_VERSION = 2;
+
+/* --------------------------------- Schema -------------------------------- */
+
+const nonEmpty = z.string().trim().min(1);
+const text = z.string().optional().nullable();
+const styleScore = z.number().int().min(0).max(10);
+
+const BundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  bundleVersion: z.literal(BUNDLE_VERSION),
+  exportedAt: z.string().optional(),
+  agent: z.object({
+    identity: z.object({ name: nonEmpty, role: nonEmpty, companyName: text, desc: text }),
+    appearance: z.object({
+      personaId: text,
+      bgColor: z.string().regex(/^#?[0-9a-fA-F]{3,8}$/).optional().nullable(),
+    }).partial().default({}),
+    voice: z.object({ language: nonEmpty, name: nonEmpty }),
+    style: z.object({
+      formality: styleScore,
+      pace: styleScore,
+      calm: styleScore,
+      introvert: styleScore,
+      empathy: styleScore,
+      humor: styleScore,
+      creativity: styleScore,
+      directness: styleScore,
+    }),
+    brain: z.object({ id: text, instructions: text }),
+    cards: z.object({ backgroundId: text }).partial().default({}),
+  }),
+  connections: z.array(z.object({
+    extId: nonEmpty,
+    providerId: nonEmpty,
+    status: z.enum(['connected', 'needs_setup', 'error']).default('needs_setup'),
+    config: z.any().optional(),
+    needsReauth: z.boolean().default(false),
+  })).max(50).default([])
+    .refine((list) => new Set(list.map((c) => c.extId)).size === list.length, { message: 'Duplicate extId' }),
+});
+
+/* -------------------------------- Versions ------------------------------- */
+
+function redactConnection(c) {
+  return {
+    extId: c.extId,
+    providerId: c.providerId,
+    status: c.status,
+    config: c.config ?? null,
+    needsReauth: !!c.token,
+  };
+}
+
+function pickAgentFields(agent) {
+  const { identity, appearance, voice, style, brain, cards } = agent ?? {};
+  return { identity, appearance, voice, style, brain, cards };
+}
+
+/** Upgrades from bundle version N to N + 1 */
+const UPGRADES = {
+  1: (raw) => ({
+    format: BUNDLE_FORMAT,
+    bundleVersion: 2,
+    agent: pickAgentFields(raw.agent),
+    connections: Array.isArray(raw.connections) ? raw.connections.map(redactConnection) : [],
+  }),
+};
+
+function bundleVersionOf(raw) {
+  if (raw?.format === BUNDLE_FORMAT) return Number(raw.bundleVersion);
+  if (raw && typeof raw === 'object' && raw.agent && raw.bundleVersion === undefined) return 1;
+  return null;
+}
+
+/**
+ * Upgrade and validate a bundle of any known version.
+ * → { ok: true, bundle, migratedFrom } | { ok: false, reason: 'unsupported_version' | 'invalid_bundle', issues? }
+ */
+function parseBundle(raw) {
+  const from = bundleVersionOf(raw);
+  if (!Number.isInteger(from) || from < 1 || from > BUNDLE_VERSION) {
+    return { ok: false, reason: 'unsupported_version' };
+  }
+  let doc = raw;
+  for (let v = from; v < BUNDLE_VERSION; v += 1) doc = UPGRADES[v](doc);
+
+  const parsed = BundleSchema.safeParse(doc);
+  if (!parsed.success) return { ok: false, reason: 'invalid_bundle', issues: parsed.error.issues };
+  return { ok: true, bundle: parsed.data, migratedFrom: from < BUNDLE_VERSION ? from : null };
+}
+
+/**
+ * Bundle of an agent (rowToAgent shape) and its connections; tokens never leave.
+ * Stored data the bundle format can't carry (e.g. more than 50 connections) is reported, not thrown.
+ * → { ok: true, bundle } | { ok: false, reason: 'not_exportable', issues }
+ */
+function buildBundle(agent, connections) {
+  const parsed = BundleSchema.safeParse({
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    agent: pickAgentFields(agent),
+    connections: connections.map(redactConnection),
+  });
+  if (!parsed.success) return { ok: false, reason: 'not_exportable', issues: parsed.error.issues };
+  return { ok: true, bundle: parsed.data };
+}
+
+module.exports = {
+  parseBundle,
+  buildBundle,
+};
@@ -0,0 +1,99 @@
+// Create-wizard drafts. The wizard autosaves whatever it holds (partially
+// valid, connections included) on each step change, so a refresh of /create
+// resumes where the user left off. Creating the agent with `draftId`
+// consumes the draft (see POST /api/agents). Drafts expire
+// AGENT_DRAFT_TTL_DAYS after their last save and are swept periodically.
+
+const crypto = require('crypto');
+const db = require('../db');
+const { AGENT_DRAFT_TTL_DAYS, AGENT_DRAFT_SWEEP_MINUTES } = require('../config');
+
+function mapDraftRow(d) {
+  return {
+    id: d.id,
+    organizationId: d.organization_id ?? null,
+    step: d.step ?? null,
+    payload: typeof d.payload === 'string' ? JSON.parse(d.payload) : d.payload,
+    createdAt: d.created_at,
+    updatedAt: d.updated_at,
+    expiresAt: d.expires_at,
+  };
+}
+
+const SELECT_DRAFTS = `
+  SELECT id, organization_id, step, payload, created_at, updated_at, expires_at
+  FROM agent_drafts
+`;
+
+/** The user's live draft, or null (missing, someone else's, or expired). */
+async function getDraft(draftId, userId) {
+  const [rows] = await db.execute(
+    `${SELECT_DRAFTS} WHERE id = ? AND user_id = ? AND expires_at > NOW() LIMIT 1`,
+    [draftId, userId]
+  );
+  return rows.length ? mapDraftRow(rows[0]) : null;
+}
+
+/** Most recently saved live draft for a workspace (null = personal agents). */
+async function getLatestDraft(userId, organizationId = null) {
+  const [rows] = await db.execute(
+    `${SELECT_DRAFTS}
+     WHERE user_id = ? AND organization_id <=> ? AND expires_at > NOW()
+     ORDER BY updated_at DESC LIMIT 1`,
+    [userId, organizationId]
+  );
+  return rows.length ? mapDraftRow(rows[0]) : null;
+}
+
+async function createDraft(userId, { organizationId = null, step = null, payload }) {
+  const id = crypto.randomUUID();
+  await db.execute(
+    `INSERT INTO agent_drafts (id, user_id, organization_id, step, payload, expires_at)
+     VALUES (?, ?, ?, ?, ?, NOW() + INTERVAL ? DAY)`,
+    [id, userId, organizationId, step, JSON.stringify(payload), AGENT_DRAFT_TTL_DAYS]
+  );
+  return getDraft(id, userId);
+}
+
+/** Autosave: replace the draft's state and push its expiry out. → draft | null */
+async function saveDraft(draftId, userId, { step = null, payload }) {
+  const [result] = await db.execute(
+    `UPDATE agent_drafts SET step = ?, payload = ?, expires_at = NOW() + INTERVAL ? DAY
+     WHERE id = ? AND user_id = ? AND expires_at > NOW()`,
+    [step, JSON.stringify(payload), AGENT_DRAFT_TTL_DAYS, draftId, userId]
+  );
+  if (result.affectedRows === 0) return null;
+  return getDraft(draftId, userId);
+}
+
+/** → boolean (found) */
+async function deleteDraft(draftId, userId) {
+  const [result] = await db.execute('DELETE FROM agent_drafts WHERE id = ? AND user_id = ?', [draftId, userId]);
+  return result.affectedRows > 0;
+}
+
+async function purgeExpiredDrafts() {
+  const [result] = await db.execute('DELETE FROM agent_drafts WHERE expires_at <= NOW()');
+  return result.affectedRows;
+}
+
+/** Start the periodic sweep of expired drafts (no-op when disabled). */
+function startDraftSweeper() {
+  if (AGENT_DRAFT_SWEEP_MINUTES <= 0) return;
+  const timer = setInterval(() => {
+    purgeExpiredDrafts()
+      .then((n) => { if (n) console.log(`[drafts] purged ${n} expired draft(s)`); })
+      .catch((err) => console.error('[drafts] sweep failed:', err));
+  }, AGENT_DRAFT_SWEEP_MINUTES * 60_000);
+  timer.unref?.();
+}
+
+module.exports = {
+  getDraft,
+  getLatestDraft,
+  createDraft,
+  saveDraft,
+  deleteDraft,
+  purgeExpiredDrafts,
+  startDraftSweeper,
+};
@@ -0,0 +1,277 @@
+// Agent version history. Every save snapshots the agent (the full rowToAgent
+// payload) and its connections into agent_revisions, with author and time.
+// Saves by the same author in quick succession fold into one revision (the
+// wizard saves the agent, then each connection, as separate requests). Agents
+// created before history existed get an 'initial' revision of their state
+// right before their first change, so that state can be restored too.
+// Connection tokens are never stored in snapshots, only whether one was set;
+// a restore keeps the live token of each connection it brings back.
+
+const db = require('../db');
+const { AGENT_REVISIONS_KEEP, AGENT_REVISION_COALESCE_SECONDS } = require('../config');
+const {
+  SELECT_BASE,
+  SELECT_CONNECTIONS,
+  rowToAgent,
+  rowToConnection,
+  payloadToColumns,
+  buildUpdateSQL,
+} = require('../utils/agents');
+
+/** Agent sections compared field by field in diffs (and written back on restore). */
+const DIFF_SECTIONS = ['identity', 'appearance', 'voice', 'style', 'brain', 'cards'];
+const CONNECTION_FIELDS = ['providerId', 'status', 'config', 'hasToken'];
+
+/* -------------------------------- Snapshots ------------------------------ */
+
+/** Current state of an agent as stored in a revision. → { agent, connections } | null */
+async function snapshotAgent(agentId, conn = db) {
+  const [rows] = await conn.execute(`${SELECT_BASE} WHERE id = ? LIMIT 1`, [agentId]);
+  if (!rows.length) return null;
+  const [connections] = await conn.execute(`${SELECT_CONNECTIONS} WHERE agent_id = ? ORDER BY id ASC`, [agentId]);
+  return {
+    agent: rowToAgent(rows[0]),
+    connections: connections.map(rowToConnection).map(({ extId, providerId, status, config, token }) => ({
+      extId, providerId, status, config, hasToken: !!token,
+    })),
+  };
+}
+
+/** Stored snapshot → object; snapshots written before tokens were left out lose theirs here */
+function parseSnapshot(raw) {
+  const snapshot = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  if (!snapshot?.connections) return snapshot;
+  return {
+    ...snapshot,
+    connections: snapshot.connections.map(({ token, ...c }) => ({ ...c, hasToken: c.hasToken ?? !!token })),
+  };
+}
+
+function sameValue(a, b) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/* ---------------------------------- Diffs -------------------------------- */
+
+/**
+ * Field-level changes from `before` to `after` (either may be null = nothing).
+ * → { fields: [{ path, before, after }], connections: { added, removed, changed } }
+ */
+function diffSnapshots(before, after) {
+  const fields = [];
+  for (const section of DIFF_SECTIONS) {
+    const a = before?.agent?.[section] ?? {};
+    const b = after?.agent?.[section] ?? {};
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      if (!sameValue(a[key], b[key])) {
+        fields.push({ path: `${section}.${key}`, before: a[key] ?? null, after: b[key] ?? null });
+      }
+    }
+  }
+
+  const beforeByExt = new Map((before?.connections ?? []).map((c) => [c.extId, c]));
+  const afterByExt = new Map((after?.connections ?? []).map((c) => [c.extId, c]));
+  const connections = { added: [], removed: [], changed: [] };
+  for (const [extId, c] of afterByExt) {
+    const prev = beforeByExt.get(extId);
+    if (!prev) {
+      connections.added.push(c);
+      continue;
+    }
+    const changes = CONNECTION_FIELDS
+      .filter((f) => !sameValue(prev[f], c[f]))
+      .map((f) => ({ field: f, before: prev[f] ?? null, after: c[f] ?? null }));
+    if (changes.length) connections.changed.push({ extId, providerId: c.providerId, changes });
+  }
+  for (const [extId, c] of beforeByExt) {
+    if (!afterByExt.has(extId)) connections.removed.push(c);
+  }
+  return { fields, connections };
+}
+
+function isEmptyDiff(d) {
+  return !d.fields.length && !d.connections.added.length && !d.connections.removed.length && !d.connections.changed.length;
+}
+
+/* -------------------------------- Recording ------------------------------ */
+
+function mapRevisionRow(r) {
+  return {
+    id: r.id,
+    agentId: r.agent_id,
+    action: r.action,
+    author: r.author_id
+      ? {
+        id: r.author_id,
+        email: r.author_email ?? null,
+        fullName: [r.author_first_name, r.author_last_name].filter(Boolean).join(' ').trim(),
+      }
+      : null,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+const REVISION_COLUMNS = `
+  r.id, r.agent_id, r.author_id, r.action, r.created_at, r.updated_at,
+  u.email AS author_email, u.first_name AS author_first_name, u.last_name AS author_last_name
+`;
+const REVISION_FROM = 'FROM agent_revisions r LEFT JOIN users u ON u.id = r.author_id';
+
+/** Record the pre-history state of an agent that has no revisions yet. Call before changing it. */
+async function ensureBaseline(agentId) {
+  const [rows] = await db.execute('SELECT 1 FROM agent_revisions WHERE agent_id = ? LIMIT 1', [agentId]);
+  if (rows.length) return;
+  const snapshot = await snapshotAgent(agentId);
+  if (!snapshot) return;
+  await db.execute(
+    "INSERT INTO agent_revisions (agent_id, author_id, action, snapshot) VALUES (?, NULL, 'initial', ?)",
+    [agentId, JSON.stringify(snapshot)]
+  );
+}
+
+async function pruneRevisions(agentId) {
+  if (AGENT_REVISIONS_KEEP <= 0) return;
+  // the OFFSET is a validated config integer; inlined because prepared LIMIT params are unreliable in mysql2
+  const [rows] = await db.execute(
+    `SELECT id FROM agent_revisions WHERE agent_id = ? ORDER BY id DESC LIMIT 1 OFFSET ${Math.floor(AGENT_REVISIONS_KEEP)}`,
+    [agentId]
+  );
+  if (!rows.length) return;
+  await db.execute('DELETE FROM agent_revisions WHERE agent_id = ? AND id <= ?', [agentId, rows[0].id]);
+}
+
+/**
+ * Snapshot the agent after a save. Skipped when nothing changed since the
+ * latest revision; folded into it when it's the same author's save moments ago.
+ * `action`: 'created' | 'updated' | 'restored'. → revision id | null
+ */
+async function recordRevision(agentId, authorId, action = 'updated') {
+  const snapshot = await snapshotAgent(agentId);
+  if (!snapshot) return null;
+
+  const [latestRows] = await db.execute(
+    `SELECT id, author_id, action, snapshot, TIMESTAMPDIFF(SECOND, created_at, NOW()) AS age
+     FROM agent_revisions WHERE agent_id = ? ORDER BY id DESC LIMIT 1`,
+    [agentId]
+  );
+  const latest = latestRows[0];
+  if (latest && isEmptyDiff(diffSnapshots(parseSnapshot(latest.snapshot), snapshot))) return latest.id;
+
+  const foldable = latest
+    && action === 'updated'
+    && (latest.action === 'created' || latest.action === 'updated')
+    && Number(latest.author_id) === Number(authorId)
+    && Number(latest.age) < AGENT_REVISION_COALESCE_SECONDS;
+  if (foldable) {
+    await db.execute('UPDATE agent_revisions SET snapshot = ? WHERE id = ?', [JSON.stringify(snapshot), latest.id]);
+    return latest.id;
+  }
+
+  const [result] = await db.execute(
+    'INSERT INTO agent_revisions (agent_id, author_id, action, snapshot) VALUES (?, ?, ?, ?)',
+    [agentId, authorId, action, JSON.stringify(snapshot)]
+  );
+  await pruneRevisions(agentId);
+  return result.insertId;
+}
+
+/* --------------------------------- Reading ------------------------------- */
+
+/** Revisions of an agent, newest first (without snapshots). */
+async function listRevisions(agentId) {
+  const [rows] = await db.execute(
+    `SELECT ${REVISION_COLUMNS} ${REVISION_FROM} WHERE r.agent_id = ? ORDER BY r.id DESC`,
+    [agentId]
+  );
+  return rows.map(mapRevisionRow);
+}
+
+/** One revision with its snapshot, or null. */
+async function getRevision(agentId, revisionId) {
+  const [rows] = await db.execute(
+    `SELECT ${REVISION_COLUMNS}, r.snapshot ${REVISION_FROM} WHERE r.id = ? AND r.agent_id = ? LIMIT 1`,
+    [revisionId, agentId]
+  );
+  if (!rows.length) return null;
+  return { ...mapRevisionRow(rows[0]), snapshot: parseSnapshot(rows[0].snapshot) };
+}
+
+/**
+ * What changed from `against` to the revision:
+ * 'previous' (what that save changed), 'current' (what restoring it would change) or another revision id.
+ * → { ok: true, diff } | { ok: false, reason: 'not_found' | 'against_not_found' }
+ */
+async function diffRevision(agentId, revisionId, against = 'previous') {
+  const revision = await getRevision(agentId, revisionId);
+  if (!revision) return { ok: false, reason: 'not_found' };
+
+  let before = null;
+  let from = null;
+  if (against === 'current') {
+    before = await snapshotAgent(agentId);
+    from = 'current';
+  } else if (against === 'previous') {
+    const [prev] = await db.execute(
+      'SELECT id, snapshot FROM agent_revisions WHERE agent_id = ? AND id < ? ORDER BY id DESC LIMIT 1',
+      [agentId, revisionId]
+    );
+    if (prev.length) {
+      before = parseSnapshot(prev[0].snapshot);
+      from = prev[0].id;
+    }
+  } else {
+    const other = await getRevision(agentId, Number(against));
+    if (!other) return { ok: false, reason: 'against_not_found' };
+    before = other.snapshot;
+    from = other.id;
+  }
+  return { ok: true, diff: { from, to: revision.id, ...diffSnapshots(before, revision.snapshot) } };
+}
+
+/* --------------------------------- Restore ------------------------------- */
+
+/** Columns a restore writes back (the editable agent fields, not ids, owner or draft). */
+function restoreColumns(snapshot) {
+  const payload = {};
+  for (const section of DIFF_SECTIONS) payload[section] = snapshot.agent[section];
+  return payloadToColumns(payload);
+}
+
+/**
+ * Put the agent and its connections back to a revision's snapshot, inside the
+ * caller's transaction (the caller bumps the version and records the
+ * 'restored' revision). A restored connection keeps the live token of the same
+ * extId; one that had a token but has none now needs setup. → true
+ */
+async function restoreRevision(conn, agentId, revision) {
+  const { sql, values } = buildUpdateSQL(restoreColumns(revision.snapshot));
+  const [live] = await conn.execute('SELECT ext_id, token FROM agent_connections WHERE agent_id = ?', [agentId]);
+  const liveTokens = new Map(live.map((r) => [r.ext_id, r.token]));
+  await conn.execute(`UPDATE agents SET ${sql} WHERE id = ?`, [...values, agentId]);
+  await conn.execute('DELETE FROM agent_connections WHERE agent_id = ?', [agentId]);
+  const connections = revision.snapshot.connections ?? [];
+  if (connections.length) {
+    await conn.query(
+      'INSERT INTO agent_connections (agent_id, ext_id, provider_id, status, config, token) VALUES ?',
+      [connections.map((c) => {
+        const token = c.hasToken ? liveTokens.get(c.extId) ?? null : null;
+        const status = c.hasToken && !token ? 'needs_setup' : c.status;
+        return [agentId, c.extId, c.providerId, status, c.config ? JSON.stringify(c.config) : null, token];
+      })]
+    );
+  }
+  return true;
+}
+
+module.exports = {
+  snapshotAgent,
+  diffSnapshots,
+  ensureBaseline,
+  recordRevision,
+  listRevisions,
+  getRevision,
+  diffRevision,
+  restoreColumns,
+  restoreRevision,
+};
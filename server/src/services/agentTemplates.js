@@ -0,0 +1,24 @@
+// Agent templates: curated presets (support rep, sales SDR, receptionist…) the
+// create wizard can start from. Each preset is a partial agent payload —
+// identity, voice, style scores, brain tier and instructions — seeded by the
+// agent_templates migration.
+
+const db = require('../db');
+
+function rowToTemplate(r) {
+  return {
+    id: r.id,
+    name: r.name,
+    summary: r.summary,
+    preset: typeof r.preset === 'string' ? JSON.parse(r.preset) : r.preset,
+  };
+}
+
+async function listTemplates() {
+  const [rows] = await db.execute(
+    'SELECT id, name, summary, preset FROM agent_templates ORDER BY sort_order ASC, id ASC'
+  );
+  return rows.map(rowToTemplate);
+}
+
+module.exports = { listTemplates };
@@ -0,0 +1,57 @@
+// Agent trash. Deleting an agent only stamps `deleted_at`: it drops out of
+// lists and access checks (see services/agentAccess.js) but its owners can
+// restore it until it is purged, AGENT_TRASH_RETENTION_DAYS later or right
+// away on "delete forever". Purging removes the row; connections,
+// conversations, knowledge, shares and revisions cascade with it.
+// Archiving (`archived_at`) is separate: it only hides an agent from lists.
+
+const db = require('../db');
+const { SELECT_BASE, rowToAgent } = require('../utils/agents');
+const { AGENT_TRASH_RETENTION_DAYS, AGENT_TRASH_SWEEP_MINUTES } = require('../config');
+
+/** When an agent deleted at `deletedAt` will be purged */
+function purgeDate(deletedAt) {
+  return new Date(new Date(deletedAt).getTime() + AGENT_TRASH_RETENTION_DAYS * 86_400_000);
+}
+
+/** Deleted agents matching `scopeSql` (most recently deleted first), each with `purgeAt`. */
+async function listTrash(scopeSql, scopeParams) {
+  const [rows] = await db.execute(
+    `${SELECT_BASE} WHERE ${scopeSql} AND deleted_at IS NOT NULL ORDER BY deleted_at DESC, id DESC`,
+    scopeParams
+  );
+  return rows.map((r) => ({ ...rowToAgent(r), purgeAt: purgeDate(r.deleted_at) }));
+}
+
+/** Delete an agent in the trash for good. → boolean (found in the trash) */
+async function purgeAgent(agentId, conn = db) {
+  const [result] = await conn.execute('DELETE FROM agents WHERE id = ? AND deleted_at IS NOT NULL', [agentId]);
+  return result.affectedRows > 0;
+}
+
+async function purgeExpiredAgents() {
+  const [result] = await db.execute(
+    'DELETE FROM agents WHERE deleted_at IS NOT NULL AND deleted_at <= NOW() - INTERVAL ? DAY',
+    [AGENT_TRASH_RETENTION_DAYS]
+  );
+  return result.affectedRows;
+}
+
+/** Start the periodic purge of expired agents (no-op when disabled). */
+function startTrashSweeper() {
+  if (AGENT_TRASH_SWEEP_MINUTES <= 0) return;
+  const timer = setInterval(() => {
+    purgeExpiredAgents()
+      .then((n) => { if (n) console.log(`[trash] purged ${n} agent(s)`); })
+      .catch((err) => console.error('[trash] sweep failed:', err));
+  }, AGENT_TRASH_SWEEP_MINUTES * 60_000);
+  timer.unref?.();
+}
+
+module.exports = {
+  purgeDate,
+  listTrash,
+  purgeAgent,
+  purgeExpiredAgents,
+  startTrashSweeper,
+};
@@ -0,0 +1,137 @@
+// Brain tier registry: each tier the wizard offers (level1 / level2 / super)
+// maps to a model adapter (a reply engine, see services/replyEngine.js) plus
+// the limits that tier runs under. Adapters are wrapped so limits are enforced
+// the same way whatever model sits behind them.
+
+const { BRAIN_ADAPTERS, REPLY_ENGINE } = require('../config');
+const { getEngine, streamReply } = require('./replyEngine');
+
+const DEFAULT_BRAIN_ID = 'level1';
+
+/**
+ * limits:
+ *   contextTokens   – prompt budget (system prompt + history + message)
+ *   maxOutputTokens – reply is cut off past this
+ */
+const BRAINS = [
+  {
+    id: 'level1',
+    title: 'AGENT\nLEVEL ONE',
+    subtitle: 'Instant, accurate single-step answers & lookups',
+    limits: { contextTokens: 4_096, maxOutputTokens: 512 },
+  },
+  {
+    id: 'level2',
+    title: 'AGENT\nLEVEL 2',
+    subtitle: 'Smart multi-step reasoning — handles workflows & follow-ups',
+    limits: { contextTokens: 16_384, maxOutputTokens: 1_024 },
+  },
+  {
+    id: 'super',
+    title: 'SUPER\nBRAIN',
+    subtitle: 'Elite long-term planning, creativity & coding — unlock advanced capabilities',
+    locked: true,
+    badge: 'crown',
+    limits: { contextTokens: 128_000, maxOutputTokens: 4_096 },
+  },
+];
+
+const byId = new Map(BRAINS.map((b) => [b.id, b]));
+
+/* -------------------------------- helpers -------------------------------- */
+
+/** Rough token estimate (~4 chars per token); good enough for budgeting. */
+function estimateTokens(text) {
+  return Math.ceil(String(text || '').length / 4);
+}
+
+/** Keep the most recent history that fits the tier's context budget. */
+function fitHistory({ systemPrompt, history = [], message }, limits) {
+  let budget = limits.contextTokens
+    - limits.maxOutputTokens
+    - estimateTokens(systemPrompt)
+    - estimateTokens(message);
+  const kept = [];
+  for (let i = history.length - 1; i >= 0; i -= 1) {
+    const cost = estimateTokens(history[i].text);
+    if (cost > budget) break;
+    budget -= cost;
+    kept.unshift(history[i]);
+  }
+  return kept;
+}
+
+function clipToTokens(text, maxTokens) {
+  const maxChars = maxTokens * 4;
+  return text.length > maxChars ? text.slice(0, maxChars) : text;
+}
+
+/** Wrap an engine so every call runs within the brain's limits. */
+function withLimits(engine, brain) {
+  const { limits } = brain;
+  const prepare = (ctx) => ({
+    ...ctx,
+    brainId: brain.id,
+    limits,
+    history: fitHistory(ctx, limits),
+  });
+
+  return {
+    name: engine.name,
+    async reply(ctx) {
+      const out = await engine.reply(prepare(ctx));
+      return { ...out, text: clipToTokens(out?.text || '', limits.maxOutputTokens) };
+    },
+    async *stream(ctx) {
+      let used = 0;
+      for await (const delta of streamReply(engine, prepare(ctx))) {
+        used += estimateTokens(delta);
+        if (used > limits.maxOutputTokens) return;
+        yield delta;
+      }
+    },
+  };
+}
+
+/* --------------------------------- Public -------------------------------- */
+
+function isKnownBrain(id) {
+  return byId.has(id);
+}
+
+/** Tier by id; unknown/empty ids fall back to the default tier. */
+function getBrain(id) {
+  return byId.get(id) || byId.get(DEFAULT_BRAIN_ID);
+}
+
+/** The limited adapter serving a tier (BRAIN_ADAPTERS override, else REPLY_ENGINE). */
+function getBrainAdapter(id) {
+  const brain = getBrain(id);
+  const engine = getEngine(BRAIN_ADAPTERS[brain.id] || REPLY_ENGINE);
+  return withLimits(engine, brain);
+}
+
+/** Public shape served by GET /api/brains */
+function toPublicBrain(b) {
+  return {
+    id: b.id,
+    title: b.title,
+    subtitle: b.subtitle,
+    locked: !!b.locked,
+    badge: b.badge,
+    limits: { ...b.limits },
+  };
+}
+
+function listBrains() {
+  return BRAINS.map(toPublicBrain);
+}
+
+module.exports = {
+  DEFAULT_BRAIN_ID,
+  isKnownBrain,
+  getBrain,
+  getBrainAdapter,
+  listBrains,
+  estimateTokens,
+};
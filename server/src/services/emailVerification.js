@@ -0,0 +1,118 @@
+// Email verification: a signed, expiring link (`/verify-email?token=…` on the
+// client) proves the user owns their address. Tokens are purpose tokens (see
+// utils/tokens.js) that embed the email, so a changed address invalidates older links.
+// Until verified, accounts are limited (see canCreateAgent).
+
+const db = require('../db');
+const {
+  CLIENT_URL,
+  EMAIL_VERIFY_TTL_HOURS,
+  EMAIL_VERIFY_RESEND_COOLDOWN_SECONDS,
+  UNVERIFIED_AGENT_LIMIT,
+} = require('../config');
+const { signPurposeToken, verifyPurposeToken } = require('../utils/tokens');
+const { sendMail } = require('./mailer');
+const { verifyEmailEmail } = require('./mailTemplates');
+
+const PURPOSE = 'verify_email';
+
+function signVerificationToken(user) {
+  return signPurposeToken(
+    { sub: String(user.id), email: user.email },
+    PURPOSE,
+    `${EMAIL_VERIFY_TTL_HOURS}h`
+  );
+}
+
+/**
+ * Email a verification link to a user row ({ id, email, first_name }) and
+ * record when it was sent (the resend throttle reads it).
+ */
+async function sendVerificationEmail(user) {
+  const link = `${CLIENT_URL}/verify-email?token=${encodeURIComponent(signVerificationToken(user))}`;
+  await db.execute('UPDATE users SET verification_sent_at = NOW() WHERE id = ?', [user.id]);
+  await sendMail({
+    to: user.email,
+    ...verifyEmailEmail({ user, link, ttlHours: EMAIL_VERIFY_TTL_HOURS }),
+  });
+}
+
+/**
+ * Mark the address in a verification token as verified.
+ * → { ok: true, userId } | { ok: false, reason: 'invalid' | 'expired' }
+ * Opening a link twice is fine: an already verified account still gets ok.
+ */
+async function verifyEmailToken(token) {
+  const verified = verifyPurposeToken(token, PURPOSE);
+  if (!verified.ok) return verified;
+  const { payload } = verified;
+
+  const userId = Number(payload.sub);
+  const [rows] = await db.execute(
+    'SELECT id, email, email_verified_at FROM users WHERE id = ? LIMIT 1',
+    [userId]
+  );
+  if (!rows.length || rows[0].email !== payload.email) return { ok: false, reason: 'invalid' };
+
+  if (!rows[0].email_verified_at) {
+    await db.execute('UPDATE users SET email_verified_at = NOW() WHERE id = ?', [userId]);
+  }
+  return { ok: true, userId };
+}
+
+/**
+ * Send another verification email, at most once per cooldown.
+ * → { ok: true } | { ok: false, reason: 'already_verified' | 'not_found' }
+ *   | { ok: false, reason: 'throttled', retryAfter } (seconds)
+ */
+async function resendVerificationEmail(userId) {
+  const [rows] = await db.execute(
+    `SELECT id, email, first_name, email_verified_at,
+            TIMESTAMPDIFF(SECOND, verification_sent_at, NOW()) AS since_sent
+     FROM users WHERE id = ? LIMIT 1`,
+    [userId]
+  );
+  if (!rows.length) return { ok: false, reason: 'not_found' };
+  const u = rows[0];
+  if (u.email_verified_at) return { ok: false, reason: 'already_verified' };
+
+  if (u.since_sent !== null && u.since_sent < EMAIL_VERIFY_RESEND_COOLDOWN_SECONDS) {
+    return {
+      ok: false,
+      reason: 'throttled',
+      retryAfter: EMAIL_VERIFY_RESEND_COOLDOWN_SECONDS - Number(u.since_sent),
+    };
+  }
+
+  await sendVerificationEmail(u);
+  return { ok: true };
+}
+
+/**
+ * Unverified accounts may own at most UNVERIFIED_AGENT_LIMIT agents.
+ * → { ok: true } | { ok: false, error } (403 body)
+ */
+async function canCreateAgent(userId) {
+  const [rows] = await db.execute(
+    `SELECT u.email_verified_at, (SELECT COUNT(*) FROM agents a WHERE a.owner_id = u.id AND a.deleted_at IS NULL) AS agent_count
+     FROM users u WHERE u.id = ? LIMIT 1`,
+    [userId]
+  );
+  const r = rows[0];
+  if (!r || r.email_verified_at || Number(r.agent_count) < UNVERIFIED_AGENT_LIMIT) return { ok: true };
+  return {
+    ok: false,
+    error: {
+      error: 'email_unverified',
+      message: `Verify your email address to create more than ${UNVERIFIED_AGENT_LIMIT} agent(s).`,
+      limit: UNVERIFIED_AGENT_LIMIT,
+    },
+  };
+}
+
+module.exports = {
+  sendVerificationEmail,
+  verifyEmailToken,
+  resendVerificationEmail,
+  canCreateAgent,
+};
@@ -0,0 +1,110 @@
+// Plans & entitlements: which premium assets (locked brain tiers, personas,
+// backgrounds) a user's plan unlocks. The UI shows crowns/locks, but the
+// agent create/update handlers enforce them here.
+
+const db = require('../db');
+const { listBrains } = require('./brains');
+
+const DEFAULT_PLAN_ID = 'free';
+
+/** Premium asset ids by kind; anything not listed is free for every plan. */
+const PREMIUM_ASSETS = {
+  brain: listBrains().filter((b) => b.locked).map((b) => b.id),
+  persona: ['studio'],
+  background: ['dubai', 'paris'],
+};
+
+/* -------------------------------- helpers -------------------------------- */
+
+function parseEntitlements(v) {
+  if (Array.isArray(v)) return v;
+  try {
+    const parsed = JSON.parse(v || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function rowToPlan(r) {
+  return {
+    id: r.id,
+    name: r.name,
+    entitlements: parseEntitlements(r.entitlements),
+  };
+}
+
+/* --------------------------------- Public -------------------------------- */
+
+function isPremium(kind, id) {
+  return !!id && (PREMIUM_ASSETS[kind] || []).includes(id);
+}
+
+/** True when the plan may use asset `id` of `kind` (free assets always pass). */
+function isEntitled(plan, kind, id) {
+  if (!isPremium(kind, id)) return true;
+  const keys = plan?.entitlements || [];
+  return keys.includes(`${kind}:${id}`) || keys.includes(`${kind}:*`);
+}
+
+/** Current plan of a user (falls back to the default plan). */
+async function getUserPlan(userId) {
+  const [rows] = await db.execute(
+    `SELECT p.id, p.name, p.entitlements
+     FROM users u JOIN plans p ON p.id = u.plan_id
+     WHERE u.id = ? LIMIT 1`,
+    [userId]
+  );
+  if (rows.length) return rowToPlan(rows[0]);
+
+  const [fallback] = await db.execute(
+    'SELECT id, name, entitlements FROM plans WHERE id = ? LIMIT 1',
+    [DEFAULT_PLAN_ID]
+  );
+  return fallback.length ? rowToPlan(fallback[0]) : { id: DEFAULT_PLAN_ID, name: 'Free', entitlements: [] };
+}
+
+async function listPlans() {
+  const [rows] = await db.execute(
+    'SELECT id, name, entitlements FROM plans ORDER BY sort_order ASC, id ASC'
+  );
+  return rows.map(rowToPlan);
+}
+
+/**
+ * Premium assets selected by an agent column set (see payloadToColumns)
+ * that `plan` doesn't unlock → [{ kind, id }]. Empty when everything is allowed.
+ * With `current` (rowToAgent shape), values the agent already has are skipped,
+ * so a downgraded user can still edit the rest of an existing agent.
+ */
+function findLockedSelections(cols, plan, current = null) {
+  const picks = [
+    ['brain', cols.brain_id, current?.brain?.id],
+    ['persona', cols.appearance_persona_id, current?.appearance?.personaId],
+    ['background', cols.cards_background_id, current?.cards?.backgroundId],
+  ];
+  return picks
+    .filter(([kind, id, existing]) => id && id !== existing && !isEntitled(plan, kind, id))
+    .map(([kind, id]) => ({ kind, id }));
+}
+
+/** Body of the 403 returned when a request selects locked assets. */
+function entitlementRequired(plan, required) {
+  const list = required.map((r) => `${r.kind} "${r.id}"`).join(', ');
+  return {
+    error: 'entitlement_required',
+    message: `Your ${plan.name} plan does not include ${list}`,
+    plan: plan.id,
+    required,
+  };
+}
+
+module.exports = {
+  PREMIUM_ASSETS,
+  isPremium,
+  isEntitled,
+  getUserPlan,
+  listPlans,
+  findLockedSelections,
+  entitlementRequired,
+};
@@ -0,0 +1,244 @@
+// Per-agent knowledge base: uploaded documents are extracted to text, split
+// into chunks and indexed in MySQL (knowledge_terms is an inverted index).
+// Search ranks chunks with BM25 over that index — lexical, local, no model needed.
+
+const db = require('../db');
+const { extractText } = require('../utils/textExtract');
+const { RAG_TOP_K } = require('../config');
+
+const CHUNK_CHARS = 1200;
+const MAX_CHUNKS = 2000;
+const TERM_BATCH = 500;
+
+// BM25 parameters (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set((
+  'a an and are as at be but by for from has have he her his i if in into is it its ' +
+  'me my no not of on or our she so than that the their them then there these they ' +
+  'this to us was we were what when which who will with you your'
+).split(' '));
+
+/* -------------------------------- helpers -------------------------------- */
+
+/** Lowercase, accent-folded word tokens without stopwords; light plural folding. */
+function tokenize(text) {
+  const words = String(text || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .match(/[\p{L}\p{N}]+/gu) || [];
+  return words
+    .filter((w) => w.length >= 2 && w.length <= 64 && !STOPWORDS.has(w))
+    .map((w) => (w.length > 3 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w));
+}
+
+function termFrequencies(tokens) {
+  const tf = new Map();
+  for (const t of tokens) tf.set(t, (tf.get(t) || 0) + 1);
+  return tf;
+}
+
+/** Break a paragraph longer than CHUNK_CHARS on sentence, then word boundaries. */
+function splitLong(paragraph) {
+  const pieces = [];
+  let cur = '';
+  for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+    const parts = sentence.length > CHUNK_CHARS
+      ? sentence.match(new RegExp(`[\\s\\S]{1,${CHUNK_CHARS}}(?=\\s|$)`, 'g')) || [sentence]
+      : [sentence];
+    for (const part of parts) {
+      if (cur && cur.length + part.length + 1 > CHUNK_CHARS) {
+        pieces.push(cur);
+        cur = '';
+      }
+      cur = cur ? `${cur} ${part}` : part;
+    }
+  }
+  if (cur) pieces.push(cur);
+  return pieces;
+}
+
+/** Text → chunks of up to ~CHUNK_CHARS, keeping paragraphs together where possible. */
+function chunkText(text) {
+  const paragraphs = String(text || '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap((p) => (p.length > CHUNK_CHARS ? splitLong(p) : [p]));
+
+  const chunks = [];
+  let cur = '';
+  for (const p of paragraphs) {
+    if (cur && cur.length + p.length + 2 > CHUNK_CHARS) {
+      chunks.push(cur);
+      cur = '';
+    }
+    cur = cur ? `${cur}\n\n${p}` : p;
+  }
+  if (cur) chunks.push(cur);
+  return chunks.slice(0, MAX_CHUNKS);
+}
+
+/** ~240 chars of `content` around the first query term it contains. */
+function snippetFor(content, terms) {
+  const lower = content.toLowerCase();
+  let at = -1;
+  for (const t of terms) {
+    const i = lower.indexOf(t);
+    if (i >= 0 && (at < 0 || i < at)) at = i;
+  }
+  const start = Math.max(0, at - 80);
+  const text = content.slice(start, start + 240).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${text}${start + 240 < content.length ? '…' : ''}`;
+}
+
+async function setDocumentStatus(documentId, status, { error = null, chunkCount = 0 } = {}, conn = db) {
+  await conn.execute(
+    'UPDATE knowledge_documents SET status = ?, error = ?, chunk_count = ? WHERE id = ?',
+    [status, error, chunkCount, documentId]
+  );
+}
+
+/* --------------------------------- Public -------------------------------- */
+
+/**
+ * Extract, chunk and index one uploaded document. Never throws: failures
+ * are recorded on the document (status 'error') for the client to show.
+ */
+async function processDocument({ documentId, agentId, buffer, mimeType }) {
+  try {
+    const text = extractText(buffer, mimeType);
+    if (!text.trim()) {
+      await setDocumentStatus(documentId, 'error', { error: 'No extractable text (scanned or empty file?)' });
+      return;
+    }
+    const chunks = chunkText(text);
+
+    await db.withTransaction(async (conn) => {
+      for (let seq = 0; seq < chunks.length; seq += 1) {
+        const tokens = tokenize(chunks[seq]);
+        const [result] = await conn.execute(
+          `INSERT INTO knowledge_chunks (document_id, agent_id, seq, content, term_count)
+           VALUES (?, ?, ?, ?, ?)`,
+          [documentId, agentId, seq, chunks[seq], tokens.length]
+        );
+        const rows = [...termFrequencies(tokens)].map(([term, tf]) => [
+          result.insertId, agentId, term, Math.min(tf, 65535),
+        ]);
+        for (let i = 0; i < rows.length; i += TERM_BATCH) {
+          await conn.query(
+            'INSERT INTO knowledge_terms (chunk_id, agent_id, term, tf) VALUES ?',
+            [rows.slice(i, i + TERM_BATCH)]
+          );
+        }
+      }
+      await setDocumentStatus(documentId, 'ready', { chunkCount: chunks.length }, conn);
+    });
+  } catch (e) {
+    console.error('[knowledge] indexing failed', documentId, e.message);
+    await setDocumentStatus(documentId, 'error', { error: 'Indexing failed' }).catch(() => {});
+  }
+}
+
+/**
+ * BM25 search over an agent's indexed chunks.
+ * → [{ chunkId, documentId, filename, seq, score, snippet, content }] best first.
+ */
+async function searchKnowledge(agentId, query, { limit = 5 } = {}) {
+  const terms = [...new Set(tokenize(query))].slice(0, 32);
+  if (!terms.length) return [];
+
+  const [[stats]] = await db.query(
+    'SELECT COUNT(*) AS n, AVG(term_count) AS avgdl FROM knowledge_chunks WHERE agent_id = ?',
+    [agentId]
+  );
+  const n = Number(stats?.n || 0);
+  if (!n) return [];
+  const avgdl = Number(stats.avgdl) || 1;
+
+  const [dfRows] = await db.query(
+    `SELECT term, COUNT(*) AS df FROM knowledge_terms
+     WHERE agent_id = ? AND term IN (?) GROUP BY term`,
+    [agentId, terms]
+  );
+  const idf = new Map(dfRows.map((r) => {
+    const df = Number(r.df);
+    return [r.term, Math.log(1 + (n - df + 0.5) / (df + 0.5))];
+  }));
+  if (!idf.size) return [];
+
+  const [postings] = await db.query(
+    `SELECT t.chunk_id, t.term, t.tf, c.term_count
+     FROM knowledge_terms t JOIN knowledge_chunks c ON c.id = t.chunk_id
+     WHERE t.agent_id = ? AND t.term IN (?)`,
+    [agentId, [...idf.keys()]]
+  );
+  const scores = new Map();
+  for (const p of postings) {
+    const norm = K1 * (1 - B + B * (Number(p.term_count) / avgdl));
+    const s = idf.get(p.term) * ((p.tf * (K1 + 1)) / (p.tf + norm));
+    scores.set(p.chunk_id, (scores.get(p.chunk_id) || 0) + s);
+  }
+
+  const top = [...scores].sort((a, b) => b[1] - a[1]).slice(0, limit);
+  const [rows] = await db.query(
+    `SELECT c.id, c.document_id, c.seq, c.content, d.filename
+     FROM knowledge_chunks c JOIN knowledge_documents d ON d.id = c.document_id
+     WHERE c.id IN (?)`,
+    [top.map(([id]) => id)]
+  );
+  const byId = new Map(rows.map((r) => [r.id, r]));
+
+  return top.filter(([id]) => byId.has(id)).map(([id, score]) => {
+    const r = byId.get(id);
+    return {
+      chunkId: r.id,
+      documentId: r.document_id,
+      filename: r.filename,
+      seq: r.seq,
+      score: Math.round(score * 1000) / 1000,
+      snippet: snippetFor(r.content, terms),
+      content: r.content,
+    };
+  });
+}
+
+/**
+ * Chunks to ground a chat reply in, numbered from 1 for [n] citations.
+ * → [{ index, documentId, chunkId, filename, seq, score, snippet, content }]
+ */
+async function retrieveSources(agentId, query, { limit = RAG_TOP_K } = {}) {
+  if (limit <= 0) return [];
+  const results = await searchKnowledge(agentId, query, { limit });
+  return results.map((r, i) => ({ index: i + 1, ...r }));
+}
+
+/** Citation metadata stored on the assistant message (no full chunk text). */
+function toCitation({ content: _content, ...source }) {
+  return source;
+}
+
+/** System prompt section listing retrieved excerpts. */
+function knowledgeSection(sources) {
+  const excerpts = sources.map((s) => `[${s.index}] ${s.filename}\n${s.content}`).join('\n\n');
+  return [
+    '# Knowledge',
+    'Answer from these excerpts when they are relevant and cite them inline as [n].',
+    'If they do not cover the question, say so rather than guessing.',
+    '',
+    excerpts,
+  ].join('\n');
+}
+
+module.exports = {
+  tokenize,
+  chunkText,
+  processDocument,
+  searchKnowledge,
+  retrieveSources,
+  toCitation,
+  knowledgeSection,
+};
@@ -0,0 +1,61 @@
+// Transactional email bodies. Each template returns `{ subject, text }`,
+// ready to spread into sendMail({ to, ...template(...) }).
+
+function greeting(user) {
+  const name = user?.first_name || user?.firstName;
+  return name ? `Hi ${name},` : 'Hi,';
+}
+
+/** Password reset link (single use, expires after `ttlMinutes`). */
+function passwordResetEmail({ user, link, ttlMinutes }) {
+  return {
+    subject: 'Reset your Future Human password',
+    text: [
+      greeting(user),
+      '',
+      'We received a request to reset your password. Open this link to choose a new one:',
+      link,
+      '',
+      `The link works once and expires in ${ttlMinutes} minutes.`,
+      "If you didn't ask for this, you can ignore this email; your password stays the same.",
+    ].join('\n'),
+  };
+}
+
+/** Email address confirmation link. */
+function verifyEmailEmail({ user, link, ttlHours }) {
+  return {
+    subject: 'Confirm your email for Future Human',
+    text: [
+      greeting(user),
+      '',
+      'Welcome to Future Human! Confirm your email address to activate your account:',
+      link,
+      '',
+      `The link expires in ${ttlHours} hours.`,
+      "If you didn't create an account, you can ignore this email.",
+    ].join('\n'),
+  };
+}
+
+/** Invitation to join a workspace; accepted from the app once signed in with this address. */
+function organizationInviteEmail({ organizationName, inviterName, role, link, ttlDays }) {
+  return {
+    subject: `You're invited to ${organizationName} on Future Human`,
+    text: [
+      'Hi,',
+      '',
+      `${inviterName || 'A teammate'} invited you to join the "${organizationName}" workspace as ${role === 'viewer' ? 'a viewer' : `an ${role}`}.`,
+      'Sign in (or create an account) with this email address to accept:',
+      link,
+      '',
+      `The invitation expires in ${ttlDays} days.`,
+    ].join('\n'),
+  };
+}
+
+module.exports = {
+  passwordResetEmail,
+  verifyEmailEmail,
+  organizationInviteEmail,
+};
@@ -0,0 +1,79 @@
+// Outgoing mail behind pluggable transports.
+// A transport is `{ name, send(message) }` where message is `{ from, to, subject, text, html }`.
+// MAIL_TRANSPORT picks the active one. `console` logs messages and `file` writes
+// .eml files to MAIL_DIR, so dev and tests never need an SMTP server.
+
+const fs = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+const { MAIL_TRANSPORT, MAIL_FROM, MAIL_DIR } = require('../config');
+
+const transports = new Map();
+
+/**
+ * Register (or replace) a transport by name.
+ */
+function registerTransport(transport) {
+  if (!transport || typeof transport.name !== 'string' || typeof transport.send !== 'function') {
+    throw new Error('[mailer] transport must have a name and a send() function');
+  }
+  transports.set(transport.name, transport);
+  return transport;
+}
+
+/**
+ * Resolve a transport by name (defaults to MAIL_TRANSPORT). Throws on unknown names.
+ */
+function getTransport(name = MAIL_TRANSPORT) {
+  const transport = transports.get(name);
+  if (!transport) throw new Error(`[mailer] unknown transport: ${name}`);
+  return transport;
+}
+
+/** RFC 822-ish rendering used by the dev transports. */
+function toEml(message) {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'Content-Type: text/plain; charset=utf-8',
+  ];
+  return `${headers.join('\r\n')}\r\n\r\n${message.text}\r\n`;
+}
+
+/* ---------------------------- Dev transports ----------------------------- */
+
+registerTransport({
+  name: 'console',
+  async send(message) {
+    console.log(`[mailer] ---- mail to ${message.to} ----\n${toEml(message)}[mailer] ---- end ----`);
+  },
+});
+
+registerTransport({
+  name: 'file',
+  async send(message) {
+    await fs.mkdir(MAIL_DIR, { recursive: true });
+    const file = path.join(MAIL_DIR, `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`);
+    await fs.writeFile(file, toEml(message), 'utf8');
+    return { file };
+  },
+});
+
+/* --------------------------------- Public -------------------------------- */
+
+/**
+ * Send one message through the active transport.
+ * `message`: { to, subject, text, html? } — `from` defaults to MAIL_FROM.
+ */
+async function sendMail(message) {
+  if (!message?.to || !message?.subject) throw new Error('[mailer] to and subject are required');
+  return getTransport().send({ from: MAIL_FROM, ...message });
+}
+
+module.exports = {
+  registerTransport,
+  getTransport,
+  sendMail,
+};
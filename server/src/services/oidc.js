@@ -0,0 +1,283 @@
+// OpenID Connect sign-in (authorization code flow + PKCE) against the
+// providers listed in OIDC_PROVIDERS. Issuer metadata and signing keys come
+// from discovery and are cached; ID tokens are verified locally (iss, aud,
+// exp, nonce, signature). Identities are linked to users in user_identities.
+
+const crypto = require('crypto');
+const bcrypt = require('bcryptjs');
+const jwt = require('jsonwebtoken');
+const db = require('../db');
+const { OIDC_PROVIDERS, API_URL } = require('../config');
+
+const DISCOVERY_TTL_MS = 60 * 60_000;
+const FETCH_TIMEOUT_MS = 10_000;
+const ID_TOKEN_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+// Internal: carries the failure reason up to completeSignIn()
+class OidcError extends Error {
+  constructor(code, message) {
+    super(message || code);
+    this.code = code;
+  }
+}
+
+/* ------------------------------- Providers ------------------------------- */
+
+const providers = new Map(
+  OIDC_PROVIDERS.filter((p) => p && p.id && p.issuer && p.clientId).map((p) => [
+    String(p.id),
+    {
+      id: String(p.id),
+      name: p.name || String(p.id),
+      issuer: String(p.issuer).replace(/\/+$/, ''),
+      clientId: p.clientId,
+      clientSecret: p.clientSecret || null,
+      scopes: p.scopes || 'openid email profile',
+    },
+  ])
+);
+
+/** Public list for the login screen: [{ id, name }] */
+function listProviders() {
+  return [...providers.values()].map(({ id, name }) => ({ id, name }));
+}
+
+function getProvider(id) {
+  return providers.get(String(id)) || null;
+}
+
+function redirectUri(provider) {
+  return `${API_URL}/api/auth/oidc/${encodeURIComponent(provider.id)}/callback`;
+}
+
+/* ------------------------- Discovery + signing keys ---------------------- */
+
+const metadataCache = new Map(); // issuer → { metadata, fetchedAt }
+const jwksCache = new Map(); // jwks_uri → Map(kid → KeyObject)
+
+async function fetchJson(url, init) {
+  const res = await fetch(url, { ...init, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    const detail = body?.error_description || body?.error || `HTTP ${res.status}`;
+    throw new OidcError('provider_error', `[oidc] ${url}: ${detail}`);
+  }
+  return body;
+}
+
+async function discover(provider) {
+  const cached = metadataCache.get(provider.issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) return cached.metadata;
+
+  const metadata = await fetchJson(`${provider.issuer}/.well-known/openid-configuration`);
+  if (String(metadata?.issuer).replace(/\/+$/, '') !== provider.issuer) {
+    throw new OidcError('provider_error', `[oidc] issuer mismatch for ${provider.id}`);
+  }
+  metadataCache.set(provider.issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+/** Signing key for `kid`; the JWKS is refetched once when the kid is unknown (key rotation). */
+async function signingKey(metadata, kid) {
+  let keys = jwksCache.get(metadata.jwks_uri);
+  if (!keys || !keys.has(kid)) {
+    const jwks = await fetchJson(metadata.jwks_uri);
+    keys = new Map();
+    for (const jwk of jwks?.keys || []) {
+      if (jwk.use && jwk.use !== 'sig') continue;
+      try {
+        keys.set(jwk.kid ?? null, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch {
+        // unsupported key type; skip it
+      }
+    }
+    jwksCache.set(metadata.jwks_uri, keys);
+  }
+  // a token without kid is fine when the issuer publishes a single key
+  const key = keys.get(kid ?? null) || (kid == null && keys.size === 1 ? [...keys.values()][0] : null);
+  if (!key) throw new OidcError('invalid_id_token', '[oidc] no signing key for kid');
+  return key;
+}
+
+/* ------------------------------ Flow helpers ----------------------------- */
+
+const randomToken = () => crypto.randomBytes(32).toString('base64url');
+
+/**
+ * Start a sign-in: fresh state, nonce and PKCE verifier.
+ * → { ok: true, url, state, nonce, codeVerifier } (the caller keeps the last three for the callback)
+ *   | { ok: false, reason: 'provider_error' }
+ */
+async function buildAuthorizationUrl(provider) {
+  let metadata;
+  try {
+    metadata = await discover(provider);
+  } catch (err) {
+    console.error('[oidc] discovery failed:', err.message);
+    return { ok: false, reason: 'provider_error' };
+  }
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken();
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: redirectUri(provider),
+    scope: provider.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { ok: true, url: url.toString(), state, nonce, codeVerifier };
+}
+
+/** Trade the authorization code for tokens at the token endpoint. */
+async function exchangeCode(provider, metadata, { code, codeVerifier }) {
+  const form = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri(provider),
+    code_verifier: codeVerifier,
+    client_id: provider.clientId,
+  });
+  const headers = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+  if (provider.clientSecret) {
+    const basic = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(basic).toString('base64')}`;
+  }
+  const tokens = await fetchJson(metadata.token_endpoint, { method: 'POST', headers, body: form });
+  if (!tokens?.id_token) throw new OidcError('invalid_id_token', '[oidc] token response has no id_token');
+  return tokens;
+}
+
+async function verifyIdToken(provider, metadata, idToken, nonce) {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded?.header || !ID_TOKEN_ALGORITHMS.includes(decoded.header.alg)) {
+    throw new OidcError('invalid_id_token', '[oidc] unsupported id_token');
+  }
+  const key = await signingKey(metadata, decoded.header.kid);
+  let claims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: provider.clientId,
+      clockTolerance: 60,
+    });
+  } catch (err) {
+    throw new OidcError('invalid_id_token', `[oidc] ${err.message}`);
+  }
+  if (claims.nonce !== nonce) throw new OidcError('invalid_id_token', '[oidc] nonce mismatch');
+  if (!claims.sub) throw new OidcError('invalid_id_token', '[oidc] id_token has no sub');
+  return claims;
+}
+
+/** Some providers only put email/name in userinfo; fill what the ID token lacks. */
+async function withUserinfo(metadata, claims, accessToken) {
+  if (claims.email || !metadata.userinfo_endpoint || !accessToken) return claims;
+  const info = await fetchJson(metadata.userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+  }).catch(() => null);
+  // userinfo must describe the same subject
+  if (!info || info.sub !== claims.sub) return claims;
+  return { ...info, ...claims };
+}
+
+/**
+ * Finish a sign-in from the callback's `code` and the flow's stored nonce/verifier.
+ * → { ok: true, claims: { sub, email?, email_verified?, given_name?, family_name?, name? } }
+ *   | { ok: false, reason: 'provider_error' | 'invalid_id_token' }
+ */
+async function completeSignIn(provider, { code, nonce, codeVerifier }) {
+  try {
+    const metadata = await discover(provider);
+    const tokens = await exchangeCode(provider, metadata, { code, codeVerifier });
+    const claims = await verifyIdToken(provider, metadata, tokens.id_token, nonce);
+    return { ok: true, claims: await withUserinfo(metadata, claims, tokens.access_token) };
+  } catch (err) {
+    console.error(`[oidc] ${provider.id} sign-in failed:`, err.message);
+    return { ok: false, reason: err instanceof OidcError ? err.code : 'provider_error' };
+  }
+}
+
+/* ------------------------------ User linking ----------------------------- */
+
+const isEmailVerified = (claims) => claims.email_verified === true || claims.email_verified === 'true';
+
+function nameParts(claims) {
+  if (claims.given_name || claims.family_name) {
+    return [claims.given_name || null, claims.family_name || null];
+  }
+  const [first, ...rest] = String(claims.name || '').trim().split(/\s+/);
+  return [first || null, rest.join(' ') || null];
+}
+
+/**
+ * The user row for a verified identity:
+ *   1. an identity already linked → its user
+ *   2. else a user with the same, provider-verified email → link it, but only when that
+ *      account verified the email too: anyone can register an address with a password, and
+ *      linking would hand the real owner an account whose password and sessions they don't control
+ *   3. else a new user (random password; the email counts as verified when the provider says so)
+ * → { ok: true, user, created } | { ok: false, reason: 'email_required' | 'email_unverified' | 'account_unverified' }
+ */
+async function findOrLinkUser(provider, claims) {
+  const subject = String(claims.sub);
+  const email = claims.email ? String(claims.email).toLowerCase().trim() : null;
+  const verified = !!email && isEmailVerified(claims);
+
+  return db.withTransaction(async (conn) => {
+    const [linked] = await conn.execute(
+      `SELECT u.* FROM user_identities i JOIN users u ON u.id = i.user_id
+       WHERE i.provider = ? AND i.subject = ? LIMIT 1`,
+      [provider.id, subject]
+    );
+    if (linked.length) {
+      await conn.execute(
+        'UPDATE user_identities SET last_login_at = NOW(), email = COALESCE(?, email) WHERE provider = ? AND subject = ?',
+        [email, provider.id, subject]
+      );
+      return { ok: true, user: linked[0], created: false };
+    }
+
+    if (!email) return { ok: false, reason: 'email_required' };
+
+    const [existing] = await conn.execute('SELECT * FROM users WHERE email = ? LIMIT 1 FOR UPDATE', [email]);
+    // linking onto an existing account needs proof the provider checked the address
+    if (existing.length && !verified) return { ok: false, reason: 'email_unverified' };
+    // ...and proof the account holder controls it too (pre-registration takeover)
+    if (existing.length && !existing[0].email_verified_at) return { ok: false, reason: 'account_unverified' };
+
+    let user = existing[0];
+    if (!user) {
+      const [firstName, lastName] = nameParts(claims);
+      const passwordHash = await bcrypt.hash(randomToken(), 10);
+      const [result] = await conn.execute(
+        `INSERT INTO users (first_name, last_name, email, password_hash, user_role, email_verified_at)
+         VALUES (?, ?, ?, ?, 'USER', ?)`,
+        [firstName, lastName, email, passwordHash, verified ? new Date() : null]
+      );
+      const [rows] = await conn.execute('SELECT * FROM users WHERE id = ? LIMIT 1', [result.insertId]);
+      user = rows[0];
+    }
+
+    await conn.execute(
+      'INSERT INTO user_identities (user_id, provider, subject, email, last_login_at) VALUES (?, ?, ?, ?, NOW())',
+      [user.id, provider.id, subject, email]
+    );
+    return { ok: true, user, created: !existing.length };
+  });
+}
+
+module.exports = {
+  listProviders,
+  getProvider,
+  buildAuthorizationUrl,
+  completeSignIn,
+  findOrLinkUser,
+};
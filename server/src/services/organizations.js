@@ -0,0 +1,323 @@
+// Organizations (workspaces): members with a role share the agents the
+// organization owns. Roles, lowest first: viewer (read + chat), editor
+// (create/edit agents), owner (members, invitations, deleting agents).
+// Invitations go to an email address; the user signed in with that
+// (verified) address accepts them from the app.
+
+const db = require('../db');
+const { CLIENT_URL, ORG_INVITE_TTL_DAYS } = require('../config');
+const { sendMail } = require('./mailer');
+const { organizationInviteEmail } = require('./mailTemplates');
+
+const MEMBER_ROLES = ['viewer', 'editor', 'owner'];
+
+/** True when `role` is at least `minRole` (null/unknown roles never are). */
+function roleAtLeast(role, minRole) {
+  const rank = MEMBER_ROLES.indexOf(role);
+  return rank !== -1 && rank >= MEMBER_ROLES.indexOf(minRole);
+}
+
+/* --------------------------------- Mapping ------------------------------- */
+
+function mapOrganizationRow(o) {
+  return {
+    id: o.id,
+    name: o.name,
+    role: o.role ?? null,
+    memberCount: o.member_count != null ? Number(o.member_count) : undefined,
+    agentCount: o.agent_count != null ? Number(o.agent_count) : undefined,
+    createdAt: o.created_at,
+  };
+}
+
+function mapMemberRow(m) {
+  return {
+    userId: m.user_id,
+    email: m.email,
+    fullName: [m.first_name, m.last_name].filter(Boolean).join(' ').trim(),
+    role: m.role,
+    joinedAt: m.created_at,
+  };
+}
+
+function mapInvitationRow(i) {
+  return {
+    id: i.id,
+    organizationId: i.organization_id,
+    organizationName: i.organization_name ?? undefined,
+    email: i.email,
+    role: i.role,
+    expiresAt: i.expires_at,
+    createdAt: i.created_at,
+  };
+}
+
+/* -------------------------------- Membership ----------------------------- */
+
+/** The user's role in an organization, or null when not a member. */
+async function getMemberRole(organizationId, userId) {
+  const [rows] = await db.execute(
+    'SELECT role FROM organization_members WHERE organization_id = ? AND user_id = ? LIMIT 1',
+    [organizationId, userId]
+  );
+  return rows.length ? rows[0].role : null;
+}
+
+/** Organizations the user belongs to, with their role and counts. */
+async function listUserOrganizations(userId) {
+  const [rows] = await db.execute(
+    `SELECT o.id, o.name, o.created_at, m.role,
+            (SELECT COUNT(*) FROM organization_members mm WHERE mm.organization_id = o.id) AS member_count,
+            (SELECT COUNT(*) FROM agents a WHERE a.organization_id = o.id AND a.deleted_at IS NULL) AS agent_count
+     FROM organization_members m JOIN organizations o ON o.id = m.organization_id
+     WHERE m.user_id = ? ORDER BY o.name ASC`,
+    [userId]
+  );
+  return rows.map(mapOrganizationRow);
+}
+
+/** Create an organization with `userId` as its first owner. → organization */
+async function createOrganization(userId, name) {
+  const id = await db.withTransaction(async (conn) => {
+    const [result] = await conn.execute(
+      'INSERT INTO organizations (name, created_by) VALUES (?, ?)',
+      [name, userId]
+    );
+    await conn.execute(
+      "INSERT INTO organization_members (organization_id, user_id, role) VALUES (?, ?, 'owner')",
+      [result.insertId, userId]
+    );
+    return result.insertId;
+  });
+  return getOrganization(id, userId);
+}
+
+/** One organization as seen by `userId` (null when missing). */
+async function getOrganization(organizationId, userId) {
+  const [rows] = await db.execute(
+    `SELECT o.id, o.name, o.created_at,
+            (SELECT role FROM organization_members m WHERE m.organization_id = o.id AND m.user_id = ?) AS role,
+            (SELECT COUNT(*) FROM organization_members mm WHERE mm.organization_id = o.id) AS member_count,
+            (SELECT COUNT(*) FROM agents a WHERE a.organization_id = o.id AND a.deleted_at IS NULL) AS agent_count
+     FROM organizations o WHERE o.id = ? LIMIT 1`,
+    [userId, organizationId]
+  );
+  return rows.length ? mapOrganizationRow(rows[0]) : null;
+}
+
+async function renameOrganization(organizationId, name) {
+  await db.execute('UPDATE organizations SET name = ? WHERE id = ?', [name, organizationId]);
+}
+
+/**
+ * Delete an organization; its agents must be deleted (or moved) first.
+ * Agents still in its trash are purged with it.
+ * → { ok: true } | { ok: false, reason: 'not_empty' }
+ */
+async function deleteOrganization(organizationId) {
+  const [[{ n }]] = await db.execute(
+    'SELECT COUNT(*) AS n FROM agents WHERE organization_id = ? AND deleted_at IS NULL',
+    [organizationId]
+  );
+  if (Number(n) > 0) return { ok: false, reason: 'not_empty' };
+  await db.withTransaction(async (conn) => {
+    await conn.execute('DELETE FROM agents WHERE organization_id = ? AND deleted_at IS NOT NULL', [organizationId]);
+    await conn.execute('DELETE FROM organizations WHERE id = ?', [organizationId]);
+  });
+  return { ok: true };
+}
+
+async function listMembers(organizationId) {
+  const [rows] = await db.execute(
+    `SELECT m.user_id, m.role, m.created_at, u.email, u.first_name, u.last_name
+     FROM organization_members m JOIN users u ON u.id = m.user_id
+     WHERE m.organization_id = ?
+     ORDER BY FIELD(m.role, 'owner', 'editor', 'viewer'), u.email ASC`,
+    [organizationId]
+  );
+  return rows.map(mapMemberRow);
+}
+
+/**
+ * Change a member's role. The last owner can't be demoted.
+ * → { ok: true } | { ok: false, reason: 'not_member' | 'last_owner' }
+ */
+async function changeMemberRole(organizationId, userId, role) {
+  return db.withTransaction(async (conn) => {
+    const [owners] = await conn.execute(
+      "SELECT user_id FROM organization_members WHERE organization_id = ? AND role = 'owner' FOR UPDATE",
+      [organizationId]
+    );
+    const [rows] = await conn.execute(
+      'SELECT role FROM organization_members WHERE organization_id = ? AND user_id = ? LIMIT 1',
+      [organizationId, userId]
+    );
+    if (!rows.length) return { ok: false, reason: 'not_member' };
+    if (rows[0].role === 'owner' && role !== 'owner' && owners.length <= 1) {
+      return { ok: false, reason: 'last_owner' };
+    }
+    await conn.execute(
+      'UPDATE organization_members SET role = ? WHERE organization_id = ? AND user_id = ?',
+      [role, organizationId, userId]
+    );
+    return { ok: true };
+  });
+}
+
+/**
+ * Remove a member (or leave). The last owner can't leave.
+ * → { ok: true } | { ok: false, reason: 'not_member' | 'last_owner' }
+ */
+async function removeMember(organizationId, userId) {
+  return db.withTransaction(async (conn) => {
+    const [owners] = await conn.execute(
+      "SELECT user_id FROM organization_members WHERE organization_id = ? AND role = 'owner' FOR UPDATE",
+      [organizationId]
+    );
+    const [rows] = await conn.execute(
+      'SELECT role FROM organization_members WHERE organization_id = ? AND user_id = ? LIMIT 1',
+      [organizationId, userId]
+    );
+    if (!rows.length) return { ok: false, reason: 'not_member' };
+    if (rows[0].role === 'owner' && owners.length <= 1) return { ok: false, reason: 'last_owner' };
+    await conn.execute(
+      'DELETE FROM organization_members WHERE organization_id = ? AND user_id = ?',
+      [organizationId, userId]
+    );
+    return { ok: true };
+  });
+}
+
+/* ------------------------------- Invitations ----------------------------- */
+
+async function listOrganizationInvitations(organizationId) {
+  const [rows] = await db.execute(
+    `SELECT id, organization_id, email, role, expires_at, created_at
+     FROM organization_invitations WHERE organization_id = ? AND expires_at > NOW()
+     ORDER BY id DESC`,
+    [organizationId]
+  );
+  return rows.map(mapInvitationRow);
+}
+
+/**
+ * Invite an email address (re-inviting refreshes the role and expiry) and email it.
+ * → { ok: true, invitation } | { ok: false, reason: 'already_member' }
+ */
+async function inviteMember(organizationId, inviter, email, role) {
+  const address = email.toLowerCase().trim();
+  const [members] = await db.execute(
+    `SELECT 1 FROM organization_members m JOIN users u ON u.id = m.user_id
+     WHERE m.organization_id = ? AND u.email = ? LIMIT 1`,
+    [organizationId, address]
+  );
+  if (members.length) return { ok: false, reason: 'already_member' };
+
+  await db.execute(
+    `INSERT INTO organization_invitations (organization_id, email, role, invited_by, expires_at)
+     VALUES (?, ?, ?, ?, NOW() + INTERVAL ? DAY)
+     ON DUPLICATE KEY UPDATE role = VALUES(role), invited_by = VALUES(invited_by), expires_at = VALUES(expires_at)`,
+    [organizationId, address, role, inviter.id, ORG_INVITE_TTL_DAYS]
+  );
+  const [rows] = await db.execute(
+    `SELECT i.id, i.organization_id, i.email, i.role, i.expires_at, i.created_at, o.name AS organization_name
+     FROM organization_invitations i JOIN organizations o ON o.id = i.organization_id
+     WHERE i.organization_id = ? AND i.email = ? LIMIT 1`,
+    [organizationId, address]
+  );
+  const invitation = mapInvitationRow(rows[0]);
+
+  sendMail({
+    to: address,
+    ...organizationInviteEmail({
+      organizationName: invitation.organizationName,
+      inviterName: [inviter.firstName, inviter.lastName].filter(Boolean).join(' ') || inviter.email,
+      role,
+      link: `${CLIENT_URL}/create`,
+      ttlDays: ORG_INVITE_TTL_DAYS,
+    }),
+  }).catch((err) => {
+    console.error('[organizations] invitation email failed:', err);
+  });
+
+  return { ok: true, invitation };
+}
+
+async function revokeInvitation(organizationId, invitationId) {
+  const [result] = await db.execute(
+    'DELETE FROM organization_invitations WHERE id = ? AND organization_id = ?',
+    [invitationId, organizationId]
+  );
+  return result.affectedRows > 0;
+}
+
+/** Pending invitations addressed to the user's email. */
+async function listInvitationsForUser(userId) {
+  const [rows] = await db.execute(
+    `SELECT i.id, i.organization_id, i.email, i.role, i.expires_at, i.created_at, o.name AS organization_name
+     FROM organization_invitations i
+     JOIN organizations o ON o.id = i.organization_id
+     JOIN users u ON u.email = i.email
+     WHERE u.id = ? AND i.expires_at > NOW()
+     ORDER BY i.id DESC`,
+    [userId]
+  );
+  return rows.map(mapInvitationRow);
+}
+
+/**
+ * Join through an invitation addressed to the user's verified email.
+ * → { ok: true, organizationId } | { ok: false, reason: 'not_found' | 'email_unverified' }
+ */
+async function acceptInvitation(invitationId, userId) {
+  return db.withTransaction(async (conn) => {
+    const [rows] = await conn.execute(
+      `SELECT i.id, i.organization_id, i.role, u.email_verified_at
+       FROM organization_invitations i JOIN users u ON u.email = i.email
+       WHERE i.id = ? AND u.id = ? AND i.expires_at > NOW() LIMIT 1 FOR UPDATE`,
+      [invitationId, userId]
+    );
+    if (!rows.length) return { ok: false, reason: 'not_found' };
+    const inv = rows[0];
+    // otherwise anyone could register the address and take the seat
+    if (!inv.email_verified_at) return { ok: false, reason: 'email_unverified' };
+
+    await conn.execute(
+      `INSERT INTO organization_members (organization_id, user_id, role) VALUES (?, ?, ?)
+       ON DUPLICATE KEY UPDATE role = role`,
+      [inv.organization_id, userId, inv.role]
+    );
+    await conn.execute('DELETE FROM organization_invitations WHERE id = ?', [inv.id]);
+    return { ok: true, organizationId: inv.organization_id };
+  });
+}
+
+/** Turn down an invitation addressed to the user. → boolean (found) */
+async function declineInvitation(invitationId, userId) {
+  const [result] = await db.execute(
+    `DELETE i FROM organization_invitations i JOIN users u ON u.email = i.email
+     WHERE i.id = ? AND u.id = ?`,
+    [invitationId, userId]
+  );
+  return result.affectedRows > 0;
+}
+
+module.exports = {
+  MEMBER_ROLES,
+  roleAtLeast,
+  getMemberRole,
+  listUserOrganizations,
+  createOrganization,
+  getOrganization,
+  renameOrganization,
+  deleteOrganization,
+  listMembers,
+  changeMemberRole,
+  removeMember,
+  listOrganizationInvitations,
+  inviteMember,
+  revokeInvitation,
+  listInvitationsForUser,
+  acceptInvitation,
+  declineInvitation,
+};
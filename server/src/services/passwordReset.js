@@ -0,0 +1,70 @@
+// Password reset: single-use, expiring tokens emailed as a link to the client
+// (`/auth?reset=<token>`). Only the token's sha256 is stored, and a new request
+// supersedes any link sent before it.
+
+const crypto = require('crypto');
+const bcrypt = require('bcryptjs');
+const db = require('../db');
+const { CLIENT_URL, PASSWORD_RESET_TTL_MINUTES, BCRYPT_ROUNDS } = require('../config');
+const { hashToken, clientInfo, revokeAllUserRefreshTokens } = require('../utils/tokens');
+const { sendMail } = require('./mailer');
+const { passwordResetEmail } = require('./mailTemplates');
+
+/**
+ * Issue a reset token for a user row and email the link.
+ * Older unused tokens of the user stop working.
+ */
+async function requestPasswordReset(user, req) {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+  await db.execute(
+    'UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = ? AND used_at IS NULL',
+    [user.id]
+  );
+  await db.execute(
+    'INSERT INTO password_reset_tokens (user_id, token_hash, expires_at, requested_ip) VALUES (?, ?, ?, ?)',
+    [user.id, hashToken(token), expiresAt, clientInfo(req).ip]
+  );
+
+  const link = `${CLIENT_URL}/auth?reset=${encodeURIComponent(token)}`;
+  await sendMail({
+    to: user.email,
+    ...passwordResetEmail({ user, link, ttlMinutes: PASSWORD_RESET_TTL_MINUTES }),
+  });
+}
+
+/**
+ * Set a new password with a reset token.
+ * → { ok: true, userId } | { ok: false, reason: 'invalid' | 'expired' | 'used' }
+ * On success every session of the user is signed out.
+ */
+async function resetPassword(token, newPassword) {
+  const passwordHash = await bcrypt.hash(newPassword, BCRYPT_ROUNDS);
+
+  const result = await db.withTransaction(async (conn) => {
+    const [rows] = await conn.execute(
+      `SELECT id, user_id, expires_at, used_at FROM password_reset_tokens
+       WHERE token_hash = ? LIMIT 1 FOR UPDATE`,
+      [hashToken(token)]
+    );
+    if (!rows.length) return { ok: false, reason: 'invalid' };
+    const t = rows[0];
+    if (t.used_at) return { ok: false, reason: 'used' };
+    if (new Date(t.expires_at) <= new Date()) return { ok: false, reason: 'expired' };
+
+    await conn.execute('UPDATE password_reset_tokens SET used_at = NOW() WHERE id = ?', [t.id]);
+    await conn.execute('UPDATE users SET password_hash = ? WHERE id = ?', [passwordHash, t.user_id]);
+    return { ok: true, userId: t.user_id };
+  });
+
+  if (result.ok) {
+    await revokeAllUserRefreshTokens(result.userId, { reason: 'password_reset' });
+  }
+  return result;
+}
+
+module.exports = {
+  requestPasswordReset,
+  resetPassword,
+};
@@ -0,0 +1,160 @@
+// Prompt compiler: turns an agent (rowToAgent shape) into a system prompt.
+// Output is deterministic — the same agent always compiles to the same text and
+// hash — and versioned, so a change to the template is visible as a new version.
+
+const crypto = require('crypto');
+
+/** Bump whenever the template or the directive wording changes. */
+const PROMPT_VERSION = 1;
+
+const LANGUAGES = {
+  en: 'English',
+  fr: 'French',
+  es: 'Spanish',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  ar: 'Arabic',
+};
+
+/**
+ * Slider → tone directive table. Each style value (0..10) measures the trait
+ * named by its key: formality 10 = very formal, pace 10 = very fast/short, etc.
+ * Values fall into three bands: low (0–3), mid (4–6), high (7–10).
+ */
+const TONE_TRAITS = [
+  {
+    key: 'formality',
+    label: 'Register',
+    low: 'Keep a relaxed, conversational register; contractions and casual phrasing are fine.',
+    mid: 'Use a neutral, friendly-professional register.',
+    high: 'Use a formal, professional register; avoid slang and contractions.',
+  },
+  {
+    key: 'pace',
+    label: 'Length',
+    low: 'Give thorough, detailed answers and take the space you need to explain.',
+    mid: 'Keep answers moderately concise and expand only when asked.',
+    high: 'Be brief: short sentences, answer first, no padding.',
+  },
+  {
+    key: 'calm',
+    label: 'Temperament',
+    low: 'Be spontaneous and energetic; let your enthusiasm show.',
+    mid: 'Stay even-tempered, with some warmth and energy.',
+    high: 'Stay calm and measured, even when the user is frustrated.',
+  },
+  {
+    key: 'introvert',
+    label: 'Sociability',
+    low: 'Be outgoing: greet warmly, ask follow-up questions and keep the conversation going.',
+    mid: 'Engage naturally and ask a follow-up question when it helps.',
+    high: 'Be reserved: answer what is asked without small talk.',
+  },
+  {
+    key: 'empathy',
+    label: 'Empathy',
+    low: 'Be literal and task-focused; do not comment on feelings.',
+    mid: "Briefly acknowledge the user's situation when it is relevant.",
+    high: "Lead with empathy: acknowledge the user's feelings before solving the problem.",
+  },
+  {
+    key: 'humor',
+    label: 'Humor',
+    low: 'Stay serious; do not make jokes.',
+    mid: 'Light humor is fine when the user sets that tone.',
+    high: 'Be playful and use light humor where it fits.',
+  },
+  {
+    key: 'creativity',
+    label: 'Creativity',
+    low: 'Stick to facts; do not speculate or embellish.',
+    mid: 'Be practical, with the occasional fresh idea.',
+    high: 'Be imaginative: offer original ideas, analogies and examples.',
+  },
+  {
+    key: 'directness',
+    label: 'Directness',
+    low: 'Be diplomatic: soften disagreement and suggest rather than instruct.',
+    mid: 'Be clear but tactful.',
+    high: 'Be direct: state conclusions and recommendations plainly.',
+  },
+];
+
+/* -------------------------------- helpers -------------------------------- */
+
+function clampScore(v) {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return 5;
+  return Math.max(0, Math.min(10, Math.round(n)));
+}
+
+function bandOf(score) {
+  if (score <= 3) return 'low';
+  if (score >= 7) return 'high';
+  return 'mid';
+}
+
+function languageName(code) {
+  const c = String(code || 'en').trim();
+  const base = c.split(/[-_]/)[0].toLowerCase();
+  return LANGUAGES[base] || c;
+}
+
+function clean(s) {
+  return typeof s === 'string' ? s.trim() : '';
+}
+
+/* --------------------------------- Public -------------------------------- */
+
+/**
+ * Tone directives for an agent's style sliders, in a fixed order.
+ */
+function toneDirectives(style = {}) {
+  return TONE_TRAITS.map((t) => {
+    const value = clampScore(style[t.key]);
+    const band = bandOf(value);
+    return { key: t.key, label: t.label, value, band, directive: t[band] };
+  });
+}
+
+/**
+ * compilePrompt(agent) → { version, hash, prompt, language, tone }
+ * `agent` is the rowToAgent shape; missing fields fall back to neutral defaults.
+ */
+function compilePrompt(agent = {}) {
+  const identity = agent.identity || {};
+  const name = clean(identity.name) || 'an assistant';
+  const role = clean(identity.role);
+  const company = clean(identity.companyName);
+  const desc = clean(identity.desc);
+  const language = languageName(agent.voice?.language);
+  const tone = toneDirectives(agent.style);
+  const instructions = clean(agent.brain?.instructions);
+
+  const who = [role, company ? `at ${company}` : null].filter(Boolean).join(' ');
+  const sections = [
+    ['Identity', [`You are ${name}${who ? `, ${who}` : ''}.`, desc].filter(Boolean).join('\n')],
+    ['Language', `Always reply in ${language}, unless the user explicitly asks for another language.`],
+    ['Tone', tone.map((t) => `- ${t.label}: ${t.directive}`).join('\n')],
+  ];
+  if (instructions) sections.push(['Instructions', instructions]);
+  sections.push([
+    'Rules',
+    [
+      `- Stay in character as ${name}; never claim to be a different person or product.`,
+      "- If you don't know something, say so instead of guessing.",
+    ].join('\n'),
+  ]);
+
+  const prompt = sections.map(([title, body]) => `# ${title}\n${body}`).join('\n\n');
+  const hash = crypto.createHash('sha256').update(`${PROMPT_VERSION}\n${prompt}`, 'utf8').digest('hex').slice(0, 12);
+
+  return { version: PROMPT_VERSION, hash, prompt, language, tone };
+}
+
+module.exports = {
+  PROMPT_VERSION,
+  compilePrompt,
+  toneDirectives,
+};
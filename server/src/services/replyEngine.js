@@ -0,0 +1,106 @@
+// Pluggable reply engines for agent conversations.
+// An engine is `{ name, reply({ agent, systemPrompt, history, message, knowledge }) }` and resolves to `{ text }`.
+// `knowledge` holds the retrieved excerpts ({ index, filename, content }) the reply should cite as [n].
+// Engines may also implement `stream(ctx)`, an async iterable of text deltas.
+// Engines are the model adapters behind brain tiers (see services/brains.js);
+// REPLY_ENGINE is the default one. `local` is a deterministic rule-based stub for dev/tests.
+
+const { REPLY_ENGINE } = require('../config');
+
+const engines = new Map();
+
+/**
+ * Register (or replace) an engine by name.
+ */
+function registerEngine(engine) {
+  if (!engine || typeof engine.name !== 'string' || typeof engine.reply !== 'function') {
+    throw new Error('[replyEngine] engine must have a name and a reply() function');
+  }
+  engines.set(engine.name, engine);
+  return engine;
+}
+
+/**
+ * Resolve an engine by name (defaults to REPLY_ENGINE). Throws on unknown names.
+ */
+function getEngine(name = REPLY_ENGINE) {
+  const engine = engines.get(name);
+  if (!engine) throw new Error(`[replyEngine] unknown engine: ${name}`);
+  return engine;
+}
+
+/**
+ * Stream a reply as text deltas. Falls back to a single chunk for engines
+ * without native streaming. Stops early when `ctx.signal` is aborted.
+ */
+async function* streamReply(engine, ctx) {
+  if (typeof engine.stream === 'function') {
+    for await (const delta of engine.stream(ctx)) {
+      if (ctx.signal?.aborted) return;
+      if (delta) yield delta;
+    }
+    return;
+  }
+  const out = await engine.reply(ctx);
+  if (!ctx.signal?.aborted && out?.text) yield out.text;
+}
+
+/* ------------------------------ Local stub ------------------------------- */
+
+const LOCAL_TOKEN_DELAY_MS = 30;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Deterministic offline engine: the same agent + history + message always
+ * produce the same reply, so the chat can be exercised without a model.
+ * With retrieved knowledge it quotes the best excerpt and cites it.
+ */
+const localEngine = {
+  name: 'local',
+  async reply({ agent, history = [], message, knowledge = [] }) {
+    const name = agent?.identity?.name || 'your agent';
+    const role = agent?.identity?.role;
+    const company = agent?.identity?.companyName;
+
+    const parts = [];
+    const isFirstTurn = !history.some((m) => m.role === 'assistant');
+    if (isFirstTurn) {
+      const who = [role, company ? `at ${company}` : null].filter(Boolean).join(' ');
+      parts.push(`Hi, I'm ${name}${who ? `, ${who}` : ''}.`);
+    }
+
+    const text = String(message || '').trim();
+    if (knowledge.length) {
+      const [best, ...rest] = knowledge;
+      const excerpt = best.content.replace(/\s+/g, ' ').trim();
+      const quote = excerpt.length > 200 ? `${excerpt.slice(0, 200).replace(/\s+\S*$/, '')}…` : excerpt;
+      parts.push(`According to ${best.filename} [${best.index}]: "${quote}"`);
+      if (rest.length) parts.push(`See also ${rest.map((s) => `[${s.index}]`).join(', ')}.`);
+    } else if (text.endsWith('?')) {
+      parts.push(`Good question: "${text}". I'll answer properly once a model is connected.`);
+    } else {
+      parts.push(`You said: "${text}".`);
+    }
+
+    return { text: parts.join(' ') };
+  },
+  // Same text as reply(), emitted word by word to exercise the streaming path
+  async *stream(ctx) {
+    const { text } = await this.reply(ctx);
+    const tokens = text.match(/\S+\s*/g) || [];
+    for (const token of tokens) {
+      if (ctx.signal?.aborted) return;
+      await sleep(LOCAL_TOKEN_DELAY_MS);
+      yield token;
+    }
+  },
+};
+
+registerEngine(localEngine);
+
+module.exports = {
+  registerEngine,
+  getEngine,
+  streamReply,
+};
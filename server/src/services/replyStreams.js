@@ -0,0 +1,110 @@
+// In-memory registry of streamed assistant replies.
+// A run outlives the HTTP connection that started it, so a client whose
+// connection drops can reconnect with Last-Event-ID and resume at the next token.
+// When the run ends the full text is persisted on the `messages` row.
+
+const db = require('../db');
+const { streamReply } = require('./replyEngine');
+
+/** How long a finished run stays around for late resumes (then the DB row is the source). */
+const RUN_TTL_MS = 60_000;
+
+const runs = new Map();
+
+function emit(run, evt) {
+  for (const listener of run.listeners) {
+    try {
+      listener(evt);
+    } catch (e) {
+      console.error('[replyStreams] listener failed', e.message);
+    }
+  }
+}
+
+async function finishRun(run) {
+  try {
+    await db.execute(
+      'UPDATE messages SET content = ?, status = ? WHERE id = ?',
+      [run.tokens.join(''), run.status, run.messageId]
+    );
+    await db.execute(
+      'UPDATE conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [run.conversationId]
+    );
+  } catch (e) {
+    console.error('[replyStreams] failed to persist reply', run.messageId, e.message);
+  }
+  emit(run, { type: 'end', status: run.status, error: run.error });
+  run.listeners.clear();
+  setTimeout(() => runs.delete(run.messageId), RUN_TTL_MS).unref();
+}
+
+/**
+ * Start generating into the (already inserted, status = 'streaming') assistant message.
+ */
+function startRun({ messageId, conversationId, engine, context }) {
+  const controller = new AbortController();
+  const run = {
+    messageId,
+    conversationId,
+    tokens: [],
+    status: 'streaming',
+    error: null,
+    listeners: new Set(),
+    controller,
+  };
+  runs.set(messageId, run);
+
+  (async () => {
+    try {
+      for await (const delta of streamReply(engine, { ...context, signal: controller.signal })) {
+        run.tokens.push(delta);
+        emit(run, { type: 'token', seq: run.tokens.length, delta });
+      }
+      run.status = controller.signal.aborted ? 'cancelled' : 'complete';
+    } catch (e) {
+      run.status = controller.signal.aborted ? 'cancelled' : 'error';
+      run.error = e.message;
+    }
+    await finishRun(run);
+  })();
+
+  return run;
+}
+
+function getRun(messageId) {
+  return runs.get(Number(messageId)) || null;
+}
+
+/**
+ * Replay tokens after `afterSeq`, then follow live tokens until the run ends.
+ * Returns an unsubscribe function.
+ */
+function subscribeRun(run, afterSeq, listener) {
+  run.tokens.slice(afterSeq).forEach((delta, i) => {
+    listener({ type: 'token', seq: afterSeq + i + 1, delta });
+  });
+  if (run.status !== 'streaming') {
+    listener({ type: 'end', status: run.status, error: run.error });
+    return () => {};
+  }
+  run.listeners.add(listener);
+  return () => run.listeners.delete(listener);
+}
+
+/**
+ * Stop generation. The partial text is kept and the message is marked 'cancelled'.
+ */
+function cancelRun(messageId) {
+  const run = getRun(messageId);
+  if (!run || run.status !== 'streaming') return false;
+  run.controller.abort();
+  return true;
+}
+
+module.exports = {
+  startRun,
+  getRun,
+  subscribeRun,
+  cancelRun,
+};
@@ -0,0 +1,211 @@
+// TOTP two-factor authentication.
+// Enrollment: setup stores a pending (encrypted) secret, confirm checks a first
+// code, enables 2FA and hands out recovery codes once. Login: after the password
+// step the client gets a short-lived challenge token, exchanged with a TOTP or
+// recovery code at POST /api/auth/login/2fa.
+
+const crypto = require('crypto');
+const bcrypt = require('bcryptjs');
+const db = require('../db');
+const { TOTP_ISSUER, TWO_FACTOR_CHALLENGE_TTL } = require('../config');
+const { generateSecret, verifyTotp, otpauthUri } = require('../utils/totp');
+const {
+  purposeKey,
+  signPurposeToken,
+  verifyPurposeToken,
+  hashToken,
+} = require('../utils/tokens');
+
+const CHALLENGE_PURPOSE = 'login_2fa';
+const RECOVERY_CODE_COUNT = 10;
+
+/* ---------------------------- Secret at rest ----------------------------- */
+
+// AES-256-GCM; stored as "v1.<iv>.<tag>.<ciphertext>" (base64url parts)
+function sealSecret(secret) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', purposeKey('totp_secret'), iv);
+  const data = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return ['v1', iv, cipher.getAuthTag(), data].map((p) => (Buffer.isBuffer(p) ? p.toString('base64url') : p)).join('.');
+}
+
+function openSecret(sealed) {
+  const [version, iv, tag, data] = String(sealed).split('.');
+  if (version !== 'v1') throw new Error('[twoFactor] unknown secret format');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', purposeKey('totp_secret'), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8');
+}
+
+/* ---------------------------- Recovery codes ----------------------------- */
+
+function normalizeRecoveryCode(code) {
+  return String(code || '').toLowerCase().replace(/[\s-]/g, '');
+}
+
+/** "k3x9p-2mqrt" style codes: 50 random bits each */
+function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(8).toString('hex').slice(0, 10);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+async function replaceRecoveryCodes(conn, userId) {
+  const codes = generateRecoveryCodes();
+  await conn.execute('DELETE FROM user_recovery_codes WHERE user_id = ?', [userId]);
+  await conn.query(
+    'INSERT INTO user_recovery_codes (user_id, code_hash) VALUES ?',
+    [codes.map((c) => [userId, hashToken(normalizeRecoveryCode(c))])]
+  );
+  return codes;
+}
+
+/* --------------------------------- Public -------------------------------- */
+
+/** → { enabled, pending, enabledAt, recoveryCodesRemaining } */
+async function getTwoFactorStatus(userId) {
+  const [rows] = await db.execute(
+    `SELECT u.totp_secret, u.totp_enabled_at,
+            (SELECT COUNT(*) FROM user_recovery_codes r WHERE r.user_id = u.id AND r.used_at IS NULL) AS remaining
+     FROM users u WHERE u.id = ? LIMIT 1`,
+    [userId]
+  );
+  const r = rows[0] || {};
+  return {
+    enabled: !!r.totp_enabled_at,
+    pending: !!r.totp_secret && !r.totp_enabled_at,
+    enabledAt: r.totp_enabled_at ?? null,
+    recoveryCodesRemaining: r.totp_enabled_at ? Number(r.remaining) : 0,
+  };
+}
+
+/**
+ * Start (or restart) enrollment with a fresh secret.
+ * → { ok: true, secret, otpauthUri } | { ok: false, reason: 'already_enabled' | 'not_found' }
+ */
+async function beginEnrollment(userId) {
+  const [rows] = await db.execute('SELECT email, totp_enabled_at FROM users WHERE id = ? LIMIT 1', [userId]);
+  if (!rows.length) return { ok: false, reason: 'not_found' };
+  if (rows[0].totp_enabled_at) return { ok: false, reason: 'already_enabled' };
+
+  const secret = generateSecret();
+  await db.execute(
+    'UPDATE users SET totp_secret = ?, totp_last_step = NULL WHERE id = ?',
+    [sealSecret(secret), userId]
+  );
+  return {
+    ok: true,
+    secret,
+    otpauthUri: otpauthUri({ secret, account: rows[0].email, issuer: TOTP_ISSUER }),
+  };
+}
+
+/**
+ * Finish enrollment with a code from the authenticator app.
+ * → { ok: true, recoveryCodes } (plain codes, shown once)
+ *   | { ok: false, reason: 'not_started' | 'already_enabled' | 'invalid_code' }
+ */
+async function confirmEnrollment(userId, code) {
+  return db.withTransaction(async (conn) => {
+    const [rows] = await conn.execute(
+      'SELECT totp_secret, totp_enabled_at FROM users WHERE id = ? LIMIT 1 FOR UPDATE',
+      [userId]
+    );
+    const u = rows[0];
+    if (!u?.totp_secret) return { ok: false, reason: 'not_started' };
+    if (u.totp_enabled_at) return { ok: false, reason: 'already_enabled' };
+
+    const step = verifyTotp(openSecret(u.totp_secret), code);
+    if (step === null) return { ok: false, reason: 'invalid_code' };
+
+    await conn.execute(
+      'UPDATE users SET totp_enabled_at = NOW(), totp_last_step = ? WHERE id = ?',
+      [step, userId]
+    );
+    const recoveryCodes = await replaceRecoveryCodes(conn, userId);
+    return { ok: true, recoveryCodes };
+  });
+}
+
+/**
+ * Turn 2FA off; requires the account password.
+ * → { ok: true } | { ok: false, reason: 'invalid_password' | 'not_enabled' }
+ */
+async function disableTwoFactor(userId, password) {
+  const [rows] = await db.execute(
+    'SELECT password_hash, totp_secret FROM users WHERE id = ? LIMIT 1',
+    [userId]
+  );
+  if (!rows.length || !rows[0].totp_secret) return { ok: false, reason: 'not_enabled' };
+  const ok = await bcrypt.compare(password, rows[0].password_hash);
+  if (!ok) return { ok: false, reason: 'invalid_password' };
+
+  await db.withTransaction(async (conn) => {
+    await conn.execute(
+      'UPDATE users SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL WHERE id = ?',
+      [userId]
+    );
+    await conn.execute('DELETE FROM user_recovery_codes WHERE user_id = ?', [userId]);
+  });
+  return { ok: true };
+}
+
+/**
+ * Check a login's second factor: a TOTP code (each time step is accepted once)
+ * or an unused recovery code (consumed).
+ * → { ok: true, method: 'totp' | 'recovery' } | { ok: false }
+ */
+async function verifySecondFactor(userId, code) {
+  const [rows] = await db.execute(
+    'SELECT totp_secret, totp_enabled_at FROM users WHERE id = ? LIMIT 1',
+    [userId]
+  );
+  const u = rows[0];
+  if (!u?.totp_enabled_at) return { ok: false };
+
+  const step = verifyTotp(openSecret(u.totp_secret), code);
+  if (step !== null) {
+    const [result] = await db.execute(
+      `UPDATE users SET totp_last_step = ?
+       WHERE id = ? AND (totp_last_step IS NULL OR totp_last_step < ?)`,
+      [step, userId, step]
+    );
+    return result.affectedRows ? { ok: true, method: 'totp' } : { ok: false };
+  }
+
+  const [used] = await db.execute(
+    `UPDATE user_recovery_codes SET used_at = NOW()
+     WHERE user_id = ? AND code_hash = ? AND used_at IS NULL`,
+    [userId, hashToken(normalizeRecoveryCode(code))]
+  );
+  return used.affectedRows ? { ok: true, method: 'recovery' } : { ok: false };
+}
+
+/** Challenge token handed out after a correct password when 2FA is on. */
+function issueLoginChallenge(user) {
+  return signPurposeToken(
+    { sub: String(user.id), tv: user.token_version ?? 0 },
+    CHALLENGE_PURPOSE,
+    TWO_FACTOR_CHALLENGE_TTL
+  );
+}
+
+/**
+ * → { ok: true, userId, tokenVersion } | { ok: false, reason: 'invalid' | 'expired' }
+ */
+function readLoginChallenge(token) {
+  const verified = verifyPurposeToken(token, CHALLENGE_PURPOSE);
+  if (!verified.ok) return verified;
+  return { ok: true, userId: Number(verified.payload.sub), tokenVersion: verified.payload.tv };
+}
+
+module.exports = {
+  getTwoFactorStatus,
+  beginEnrollment,
+  confirmEnrollment,
+  disableTwoFactor,
+  verifySecondFactor,
+  issueLoginChallenge,
+  readLoginChallenge,
+};
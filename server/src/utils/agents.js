@@ -0,0 +1,183 @@
+// Shared agent row helpers: the canonical SELECTs, the row → API mappers and
+// the API payload → column mapping used to write agents.
+// Used by routes/agents.js and by any sub-system that needs to load or save an agent.
+
+const SELECT_BASE = `
+  SELECT
+    id, owner_id, organization_id,
+    identity_name, identity_role, identity_company_name, identity_desc,
+    appearance_persona_id, appearance_bg_color,
+    voice_language, voice_name,
+    style_formality, style_pace, temp_calm, temp_introvert,
+    pers_empathy, pers_humor, pers_creativity, pers_directness,
+    brain_id, brain_instructions,
+    cards_background_id,
+    draft_id, version, archived_at, deleted_at,
+    created_at, updated_at
+  FROM agents
+`;
+
+function rowToAgent(r) {
+  return {
+    id: r.id,
+    ownerId: r.owner_id,
+    organizationId: r.organization_id ?? null,
+    identity: {
+      name: r.identity_name,
+      role: r.identity_role,
+      companyName: r.identity_company_name,
+      desc: r.identity_desc,
+    },
+    appearance: {
+      personaId: r.appearance_persona_id,
+      bgColor: r.appearance_bg_color,
+    },
+    voice: {
+      language: r.voice_language,
+      name: r.voice_name,
+    },
+    style: {
+      formality: r.style_formality,
+      pace: r.style_pace,
+      calm: r.temp_calm,
+      introvert: r.temp_introvert,
+      empathy: r.pers_empathy,
+      humor: r.pers_humor,
+      creativity: r.pers_creativity,
+      directness: r.pers_directness,
+    },
+    brain: {
+      id: r.brain_id,
+      instructions: r.brain_instructions,
+    },
+    cards: {
+      backgroundId: r.cards_background_id,
+    },
+    draftId: r.draft_id,
+    version: r.version,
+    /** Hidden from agent lists, otherwise fully usable */
+    archivedAt: r.archived_at ?? null,
+    /** In the trash (see services/agentTrash.js) */
+    deletedAt: r.deleted_at ?? null,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+const SELECT_CONNECTIONS = `
+  SELECT id, agent_id, ext_id, provider_id, status, config, token, created_at, updated_at
+  FROM agent_connections
+`;
+
+function rowToConnection(r) {
+  return {
+    id: r.id,
+    agentId: r.agent_id,
+    extId: r.ext_id,
+    providerId: r.provider_id,
+    status: r.status,
+    config: r.config ? (typeof r.config === 'string' ? JSON.parse(r.config) : r.config) : null,
+    token: r.token,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+/**
+ * A connection as API responses carry it: third-party tokens never leave the
+ * server, only whether one is set (`hasToken`).
+ */
+function rowToPublicConnection(r) {
+  const { token, ...connection } = rowToConnection(r);
+  return { ...connection, hasToken: !!token };
+}
+
+function payloadToColumns(p) {
+  // Flatten nested payload to DB columns
+  const cols = {};
+  if (p.identity) {
+    if (p.identity.name !== undefined) cols.identity_name = p.identity.name;
+    if (p.identity.role !== undefined) cols.identity_role = p.identity.role;
+    if (p.identity.companyName !== undefined) cols.identity_company_name = p.identity.companyName ?? null;
+    if (p.identity.desc !== undefined) cols.identity_desc = p.identity.desc ?? null;
+  }
+  if (p.appearance) {
+    if (p.appearance.personaId !== undefined) cols.appearance_persona_id = p.appearance.personaId ?? null;
+    if (p.appearance.bgColor !== undefined) cols.appearance_bg_color = p.appearance.bgColor ?? null;
+  }
+  if (p.voice) {
+    if (p.voice.language !== undefined) cols.voice_language = p.voice.language;
+    if (p.voice.name !== undefined) cols.voice_name = p.voice.name;
+  }
+  if (p.style) {
+    if (p.style.formality !== undefined) cols.style_formality = p.style.formality;
+    if (p.style.pace !== undefined) cols.style_pace = p.style.pace;
+    if (p.style.calm !== undefined) cols.temp_calm = p.style.calm;
+    if (p.style.introvert !== undefined) cols.temp_introvert = p.style.introvert;
+    if (p.style.empathy !== undefined) cols.empathy = p.style.empathy;
+    if (p.style.humor !== undefined) cols.humor = p.style.humor;
+    if (p.style.creativity !== undefined) cols.creativity = p.style.creativity;
+    if (p.style.directness !== undefined) cols.directness = p.style.directness;
+  }
+  if (p.brain) {
+    if (p.brain.id !== undefined) cols.brain_id = p.brain.id;
+    if (p.brain.instructions !== undefined) cols.brain_instructions = p.brain.instructions ?? null;
+  }
+  if (p.cards) {
+    if (p.cards.backgroundId !== undefined) cols.cards_background_id = p.cards.backgroundId ?? null;
+  }
+  if (p.draftId !== undefined) cols.draft_id = p.draftId ?? null;
+
+  return cols;
+}
+
+function buildUpdateSQL(cols) {
+  // Map payload-style keys to actual DB column names
+  const alias = {
+    empathy: 'pers_empathy',
+    humor: 'pers_humor',
+    creativity: 'pers_creativity',
+    directness: 'pers_directness',
+  };
+
+  // Apply aliases and dedupe (explicit DB names win if both provided)
+  const mapped = {};
+  for (const [k, v] of Object.entries(cols)) {
+    const col = alias[k] || k;
+    mapped[col] = v;
+  }
+
+  const keys = Object.keys(mapped);
+  if (!keys.length) return { sql: '', values: [] };
+
+  const sets = keys.map(k => `${k} = ?`).join(', ');
+  const values = keys.map(k => mapped[k]);
+  return { sql: sets, values };
+}
+
+/** Strong ETag of an agent: its version, bumped by every write to the agent or its connections. */
+function agentETag(version) {
+  return `"${version}"`;
+}
+
+/**
+ * Agent version an If-Match header requires. → number, or null when there is
+ * no precondition (no header, or `*`). Anything unparseable never matches.
+ */
+function parseIfMatch(header) {
+  if (!header || header.trim() === '*') return null;
+  const m = /^\s*(?:W\/)?"(\d+)"\s*$/.exec(header);
+  return m ? Number(m[1]) : -1;
+}
+
+module.exports = {
+  SELECT_BASE,
+  SELECT_CONNECTIONS,
+  rowToAgent,
+  rowToConnection,
+  rowToPublicConnection,
+  payloadToColumns,
+  buildUpdateSQL,
+  agentETag,
+  parseIfMatch,
+};
@@ -0,0 +1,52 @@
+// Minimal Server-Sent Events helpers (no extra dependency).
+// Frames follow the EventSource wire format so any SSE parser can read them.
+
+const HEARTBEAT_MS = 15_000;
+
+/**
+ * Switch `res` to an SSE stream and start a heartbeat comment so proxies
+ * don't close an idle connection. Returns a stop() that clears the timer.
+ */
+function openSse(res) {
+  res.status(200);
+  res.set({
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const timer = setInterval(() => {
+    if (!res.writableEnded) res.write(': ping\n\n');
+  }, HEARTBEAT_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Write one event. `data` is JSON-encoded; `id` becomes the client's Last-Event-ID.
+ */
+function writeEvent(res, { id, event, data }) {
+  if (res.writableEnded) return;
+  let frame = '';
+  if (id !== undefined && id !== null) frame += `id: ${id}\n`;
+  if (event) frame += `event: ${event}\n`;
+  frame += `data: ${JSON.stringify(data ?? null)}\n\n`;
+  res.write(frame);
+}
+
+/**
+ * Parse the Last-Event-ID header (or ?lastEventId=) sent by a reconnecting client.
+ */
+function getLastEventId(req) {
+  const v = req.get('Last-Event-ID') || req.query?.lastEventId;
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+module.exports = {
+  openSse,
+  writeEvent,
+  getLastEventId,
+};
@@ -0,0 +1,152 @@
+// Plain-text extraction for knowledge uploads: txt / markdown / CSV / text-based PDF.
+// No external dependency; PDFs are read by inflating content streams and
+// collecting the strings shown by text operators (scanned PDFs yield nothing).
+
+const zlib = require('zlib');
+
+// Bounds for untrusted PDFs: a small upload must not inflate or scan without limit
+const PDF_MAX_STREAM_BYTES = 8 * 1024 * 1024; // one inflated stream; larger ones are skipped
+const PDF_MAX_BLOCK_CHARS = 64 * 1024; // one BT…ET block is scanned up to this length
+const PDF_MAX_TEXT_CHARS = 2 * 1024 * 1024; // extraction stops once this much text is collected
+
+const TYPES = {
+  txt: 'text/plain',
+  text: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  csv: 'text/csv',
+  pdf: 'application/pdf',
+};
+
+/* -------------------------------- helpers -------------------------------- */
+
+function extensionOf(filename) {
+  const m = /\.([a-z0-9]+)$/i.exec(filename || '');
+  return m ? m[1].toLowerCase() : '';
+}
+
+/** Split one CSV line, honoring double-quoted fields. */
+function splitCsvLine(line) {
+  const out = [];
+  let cur = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cur += '"'; i += 1; }
+      else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { out.push(cur.trim()); cur = ''; }
+    else cur += ch;
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+/** CSV → one "header: value; …" line per row, so each row reads on its own. */
+function csvToText(text) {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (!lines.length) return '';
+  const header = splitCsvLine(lines[0]);
+  return lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line);
+    return cells
+      .map((v, i) => (v ? `${header[i] || `column ${i + 1}`}: ${v}` : null))
+      .filter(Boolean)
+      .join('; ');
+  }).filter(Boolean).join('\n\n');
+}
+
+function decodePdfString(raw) {
+  return raw.replace(/\\(\d{1,3}|.)/gs, (_, esc) => {
+    if (/^\d+$/.test(esc)) return String.fromCharCode(parseInt(esc, 8));
+    return { n: '\n', r: '', t: '\t', b: '', f: '' }[esc] ?? esc;
+  });
+}
+
+/** Strings drawn by Tj / TJ / ' / " inside BT…ET blocks of one content stream. */
+function pdfContentToText(content) {
+  const out = [];
+  const blocks = content.match(/BT[\s\S]*?ET/g) || [];
+  for (const block of blocks) {
+    // the alternatives inside each string/array are disjoint, so unterminated input can't backtrack exponentially
+    const ops = block.slice(0, PDF_MAX_BLOCK_CHARS).matchAll(/\[((?:\\.|[^\\\]])*)\]\s*TJ|\(((?:\\.|[^\\)])*)\)\s*(?:Tj|'|")|(T\*|Td|TD)/gs);
+    let line = '';
+    for (const m of ops) {
+      if (m[1] !== undefined) {
+        // TJ array: strings with kerning numbers; large negative gaps are spaces
+        for (const part of m[1].matchAll(/\(((?:\\.|[^\\)])*)\)|(-?\d+(?:\.\d+)?)/gs)) {
+          if (part[1] !== undefined) line += decodePdfString(part[1]);
+          else if (Number(part[2]) < -200) line += ' ';
+        }
+      } else if (m[2] !== undefined) {
+        line += decodePdfString(m[2]);
+      } else if (line) {
+        out.push(line);
+        line = '';
+      }
+    }
+    if (line) out.push(line);
+  }
+  return out.join('\n');
+}
+
+function pdfToText(buffer) {
+  const src = buffer.toString('latin1');
+  const parts = [];
+  let length = 0;
+  const re = /<<([\s\S]*?)>>\s*stream\r?\n/g;
+  let m;
+  while (length < PDF_MAX_TEXT_CHARS && (m = re.exec(src))) {
+    const start = m.index + m[0].length;
+    const end = src.indexOf('endstream', start);
+    if (end < 0) break;
+    const dict = m[1];
+    re.lastIndex = end;
+    if (/\/Subtype\s*\/Image/.test(dict)) continue;
+
+    let data = buffer.subarray(start, end);
+    if (/\/FlateDecode/.test(dict)) {
+      try {
+        data = zlib.inflateSync(data, { maxOutputLength: PDF_MAX_STREAM_BYTES });
+      } catch {
+        continue; // corrupt, or inflates past PDF_MAX_STREAM_BYTES (RangeError)
+      }
+    } else if (/\/Filter/.test(dict)) {
+      continue; // other filters (DCT, LZW…) never hold page text we can read
+    }
+    const text = pdfContentToText(data.toString('latin1'));
+    if (text.trim()) {
+      parts.push(text);
+      length += text.length;
+    }
+  }
+  return parts.join('\n\n').slice(0, PDF_MAX_TEXT_CHARS);
+}
+
+/* --------------------------------- Public -------------------------------- */
+
+/**
+ * Canonical mime type for an upload, from its extension first, then the
+ * declared Content-Type. Returns null for unsupported files.
+ */
+function detectType(filename, declared) {
+  const byExt = TYPES[extensionOf(filename)];
+  if (byExt) return byExt;
+  const base = String(declared || '').split(';')[0].trim().toLowerCase();
+  return Object.values(TYPES).includes(base) ? base : null;
+}
+
+/** Buffer → plain text for a mime type returned by detectType(). */
+function extractText(buffer, mimeType) {
+  if (mimeType === 'application/pdf') return pdfToText(buffer);
+  const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+  if (mimeType === 'text/csv') return csvToText(text);
+  return text;
+}
+
+module.exports = {
+  detectType,
+  extractText,
+};
@@ -1,9 +1,24 @@
+// Token helpers: short-lived access JWTs plus rotating refresh tokens.
+// A refresh token belongs to a user_sessions row (one per device); rotating it
+// marks the old one used, and presenting a used token again revokes the session.
+
+const crypto = require('crypto');
 const jwt = require('jsonwebtoken');
-const { JWT_SECRET, ACCESS_TOKEN_TTL } = require('../config');
+const db = require('../db');
+const {
+  JWT_SECRET,
+  ACCESS_TOKEN_TTL,
+  REFRESH_TOKEN_TTL_DAYS,
+  REFRESH_COOKIE_NAME,
+  REFRESH_COOKIE_SAMESITE,
+  REFRESH_COOKIE_SECURE,
+} = require('../config');
+
+const REFRESH_COOKIE_PATH = '/api/auth';
 
 /**
- * Sign a short, self-contained access token.
- * Default TTL is 7 days (configurable via ACCESS_TOKEN_TTL).
+ * Sign a short, self-contained access token (TTL: ACCESS_TOKEN_TTL, 15m by default).
+ * `opts.sessionId` / `opts.tokenVersion` bind it to a session so it can be revoked.
  */
 function signAccessToken(user, opts = {}) {
   if (!JWT_SECRET) {
@@ -17,9 +32,11 @@ function signAccessToken(user, opts = {}) {
     userRole: user.userRole || user.role || user.user_role || 'USER',
     firstName: user.firstName || user.first_name || null,
     lastName: user.lastName || user.last_name || null,
+    sid: opts.sessionId ?? null,
+    tv: opts.tokenVersion ?? user.tokenVersion ?? user.token_version ?? 0,
   };
 
-  const expiresIn = opts.expiresIn || ACCESS_TOKEN_TTL || '7d';
+  const expiresIn = opts.expiresIn || ACCESS_TOKEN_TTL || '15m';
   return jwt.sign(payload, JWT_SECRET, { algorithm: 'HS256', expiresIn });
 }
 
@@ -34,6 +51,39 @@ function verifyAccessToken(token) {
   return jwt.verify(token, JWT_SECRET, { algorithms: ['HS256'] });
 }
 
+/* ----------------------------- Purpose tokens ---------------------------- */
+
+// Single-purpose JWTs (email verification, 2FA login challenge…) are signed
+// with a key derived from JWT_SECRET per purpose, so they never pass as access
+// tokens nor as each other.
+
+/** 32-byte key derived from JWT_SECRET for one purpose (signing, encryption…). */
+function purposeKey(purpose) {
+  if (!JWT_SECRET) {
+    throw new Error('JWT_SECRET is not set');
+  }
+  return crypto.createHmac('sha256', JWT_SECRET).update(purpose).digest();
+}
+
+/** Sign `payload` for one purpose; `expiresIn` as in jsonwebtoken ('5m', '48h'…). */
+function signPurposeToken(payload, purpose, expiresIn) {
+  return jwt.sign({ ...payload, purpose }, purposeKey(purpose), { algorithm: 'HS256', expiresIn });
+}
+
+/**
+ * Verify a purpose token.
+ * → { ok: true, payload } | { ok: false, reason: 'invalid' | 'expired' }
+ */
+function verifyPurposeToken(token, purpose) {
+  try {
+    const payload = jwt.verify(token, purposeKey(purpose), { algorithms: ['HS256'] });
+    if (payload.purpose !== purpose) return { ok: false, reason: 'invalid' };
+    return { ok: true, payload };
+  } catch (err) {
+    return { ok: false, reason: err.name === 'TokenExpiredError' ? 'expired' : 'invalid' };
+  }
+}
+
 /**
  * Helper: extract "Bearer <token>" from Authorization header.
  * Returns the token string or null.
@@ -46,8 +96,203 @@ function parseAuthHeader(req) {
   return token.trim();
 }
 
+/* ----------------------------- Refresh tokens ---------------------------- */
+
+/** sha256 hex of an opaque token; only this is ever stored. */
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+function refreshExpiry() {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/** User agent + IP of a request, trimmed to their column sizes. */
+function clientInfo(req) {
+  return {
+    userAgent: String(req.get?.('User-Agent') || '').slice(0, 255) || null,
+    ip: String(req.ip || req.socket?.remoteAddress || '').slice(0, 45) || null,
+  };
+}
+
+async function issueRefreshToken(conn, sessionId, expiresAt) {
+  const token = crypto.randomBytes(48).toString('base64url');
+  await conn.execute(
+    'INSERT INTO refresh_tokens (session_id, token_hash, expires_at) VALUES (?, ?, ?)',
+    [sessionId, hashToken(token), expiresAt]
+  );
+  return token;
+}
+
+/**
+ * Start a session for a user signing in from `req`.
+ * → { sessionId, refreshToken, expiresAt }
+ */
+async function createSession(userId, req) {
+  const { userAgent, ip } = clientInfo(req);
+  const expiresAt = refreshExpiry();
+  return db.withTransaction(async (conn) => {
+    const [result] = await conn.execute(
+      'INSERT INTO user_sessions (user_id, user_agent, ip, expires_at) VALUES (?, ?, ?, ?)',
+      [userId, userAgent, ip, expiresAt]
+    );
+    const refreshToken = await issueRefreshToken(conn, result.insertId, expiresAt);
+    return { sessionId: result.insertId, refreshToken, expiresAt };
+  });
+}
+
+/**
+ * Exchange a refresh token for a new one in the same session.
+ * → { ok: true, userId, sessionId, refreshToken, expiresAt }
+ *   | { ok: false, reason: 'invalid' | 'expired' | 'revoked' | 'reused' }
+ * A token that was already rotated means it leaked: the whole session is revoked.
+ */
+async function rotateRefreshToken(token, req) {
+  if (!token) return { ok: false, reason: 'invalid' };
+  const { userAgent, ip } = clientInfo(req);
+
+  return db.withTransaction(async (conn) => {
+    const [rows] = await conn.execute(
+      `SELECT t.id, t.session_id, t.used_at, t.expires_at, s.user_id, s.revoked_at
+       FROM refresh_tokens t JOIN user_sessions s ON s.id = t.session_id
+       WHERE t.token_hash = ? LIMIT 1 FOR UPDATE`,
+      [hashToken(token)]
+    );
+    if (!rows.length) return { ok: false, reason: 'invalid' };
+    const t = rows[0];
+
+    if (t.revoked_at) return { ok: false, reason: 'revoked' };
+    if (t.used_at) {
+      await conn.execute(
+        "UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = 'reuse' WHERE id = ?",
+        [t.session_id]
+      );
+      return { ok: false, reason: 'reused' };
+    }
+    if (new Date(t.expires_at) <= new Date()) return { ok: false, reason: 'expired' };
+
+    const expiresAt = refreshExpiry();
+    await conn.execute('UPDATE refresh_tokens SET used_at = NOW() WHERE id = ?', [t.id]);
+    await conn.execute(
+      `UPDATE user_sessions SET last_seen_at = NOW(), expires_at = ?, user_agent = ?, ip = ?
+       WHERE id = ?`,
+      [expiresAt, userAgent, ip, t.session_id]
+    );
+    const refreshToken = await issueRefreshToken(conn, t.session_id, expiresAt);
+    return { ok: true, userId: t.user_id, sessionId: t.session_id, refreshToken, expiresAt };
+  });
+}
+
+/** Session id a refresh token belongs to (null if unknown). */
+async function findRefreshSession(token) {
+  if (!token) return null;
+  const [rows] = await db.execute(
+    'SELECT session_id FROM refresh_tokens WHERE token_hash = ? LIMIT 1',
+    [hashToken(token)]
+  );
+  return rows.length ? rows[0].session_id : null;
+}
+
+/**
+ * Record activity on a session. Writes at most once a minute per session so
+ * authenticated requests don't each cost an UPDATE.
+ */
+async function touchSession(sessionId) {
+  if (!sessionId) return;
+  await db.execute(
+    `UPDATE user_sessions SET last_seen_at = NOW()
+     WHERE id = ? AND last_seen_at < NOW() - INTERVAL 1 MINUTE`,
+    [sessionId]
+  );
+}
+
+/** Sign one device out. */
+async function revokeSession(sessionId, reason = 'logout') {
+  await db.execute(
+    'UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = ? WHERE id = ? AND revoked_at IS NULL',
+    [reason, sessionId]
+  );
+}
+
+/**
+ * Revoke every session of a user (optionally keeping `exceptSessionId`) and bump
+ * their token version so already-issued access tokens stop working too.
+ * Returns the new token version.
+ */
+async function revokeAllUserRefreshTokens(userId, { exceptSessionId = null, reason = 'revoke_all' } = {}) {
+  await db.execute(
+    `UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = ?
+     WHERE user_id = ? AND revoked_at IS NULL AND id <> ?`,
+    [reason, userId, exceptSessionId ?? 0]
+  );
+  await db.execute('UPDATE users SET token_version = token_version + 1 WHERE id = ?', [userId]);
+  const [rows] = await db.execute('SELECT token_version FROM users WHERE id = ?', [userId]);
+  return rows[0]?.token_version ?? 0;
+}
+
+/**
+ * True when a verified access-token payload no longer grants access: its
+ * token version is stale, or its session was revoked.
+ */
+async function isAccessTokenRevoked(payload) {
+  const userId = Number(payload.id ?? payload.sub);
+  const [rows] = await db.execute(
+    `SELECT u.token_version, s.id AS session_id, s.revoked_at
+     FROM users u LEFT JOIN user_sessions s ON s.id = ? AND s.user_id = u.id
+     WHERE u.id = ? LIMIT 1`,
+    [payload.sid ?? 0, userId]
+  );
+  if (!rows.length) return true;
+  const r = rows[0];
+  if (Number(payload.tv ?? 0) !== Number(r.token_version)) return true;
+  if (payload.sid && (!r.session_id || r.revoked_at)) return true;
+  return false;
+}
+
+/* ------------------------------- Cookie I/O ------------------------------ */
+
+function setRefreshCookie(res, token, expiresAt) {
+  res.cookie(REFRESH_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: REFRESH_COOKIE_SECURE,
+    sameSite: REFRESH_COOKIE_SAMESITE,
+    path: REFRESH_COOKIE_PATH,
+    expires: expiresAt,
+  });
+}
+
+function clearRefreshCookie(res) {
+  res.clearCookie(REFRESH_COOKIE_NAME, {
+    httpOnly: true,
+    secure: REFRESH_COOKIE_SECURE,
+    sameSite: REFRESH_COOKIE_SAMESITE,
+    path: REFRESH_COOKIE_PATH,
+  });
+}
+
+function readRefreshCookie(req) {
+  return req.cookies?.[REFRESH_COOKIE_NAME] || null;
+}
+
 module.exports = {
   signAccessToken,
   verifyAccessToken,
   parseAuthHeader,
+  purposeKey,
+  signPurposeToken,
+  verifyPurposeToken,
+  hashToken,
+  clientInfo,
+
+  createSession,
+  rotateRefreshToken,
+  findRefreshSession,
+  touchSession,
+  revokeSession,
+  revokeAllUserRefreshTokens,
+  isAccessTokenRevoked,
+
+  setRefreshCookie,
+  clearRefreshCookie,
+  readRefreshCookie,
 };